@@ -0,0 +1,140 @@
+/**
+ * 役割: ChangeGuard（大規模編集の確認）の差分プレビュー
+ * 責務: 保留中の edit を適用した結果を仮想ドキュメントとして提供し、現在のファイルとの diff editor を開いて
+ *       適用 / 破棄 / テキストエディタで開き直す をユーザーに選ばせる
+ * 不変条件: TextDocument は変更しない（適用は呼び出し側の applyEdit 経路で行う）。
+ *           提案テキストは確認中のみ保持し、確認が終わったら diff タブと一緒に破棄する
+ *
+ * 仮想ドキュメント:
+ * - scheme: inlinemark-proposed、path は元ファイルと同じ（言語モードを Markdown にするため）
+ * - query に連番を付け、同じファイルで複数の確認が重なっても区別する
+ *
+ * 通知を閉じた（選択なし）場合は破棄として扱う（確認なしで大規模編集を適用しない）。
+ * 確認中の edit は Webview の in-flight timeout の外にあるため、confirmTimeoutMs 以内に選ばれなければ 'timeout' を返す
+ * （通知が通知センターに残ったままでも、後続の edit が保留の後ろに溜まり続けないように）。時間切れの後の選択は無視する。
+ * 仮想ドキュメントと diff の表示（open / release）は edit journal の復元確認（editJournal.ts）でも使う。
+ */
+
+import * as vscode from 'vscode';
+import type { ChangeMetrics } from '../util/textEdits.js';
+import { logger } from '../util/log.js';
+import { uriBasename } from '../util/uriPaths.js';
+
+export const PROPOSED_EDIT_SCHEME = 'inlinemark-proposed';
+
+/** 確認の通知に答えがないまま保留を続ける上限 */
+export const CHANGE_GUARD_CONFIRM_TIMEOUT_MS = 3 * 60 * 1000;
+
+export type ChangeGuardDecision = 'apply' | 'discard' | 'reopenWithTextEditor' | 'timeout';
+
+export class ChangeGuardPreview implements vscode.Disposable {
+  private proposals = new Map<string, string>();
+  private seq = 0;
+  private registration: vscode.Disposable;
+
+  constructor(private readonly confirmTimeoutMs = CHANGE_GUARD_CONFIRM_TIMEOUT_MS) {
+    this.registration = vscode.workspace.registerTextDocumentContentProvider(PROPOSED_EDIT_SCHEME, {
+      provideTextDocumentContent: (uri) => this.proposals.get(uri.toString()) ?? '',
+    });
+  }
+
+  /**
+   * 現在のファイルと proposedText の diff editor を開く（edit journal の復元確認でも使う）。
+   * 返した uri は確認が終わったら release で閉じて破棄する
+   */
+  async open(document: vscode.TextDocument, proposedText: string, title: string): Promise<vscode.Uri> {
+    const proposedUri = vscode.Uri.from({
+      scheme: PROPOSED_EDIT_SCHEME,
+      path: document.uri.path,
+      query: `seq=${++this.seq}`,
+    });
+    this.proposals.set(proposedUri.toString(), proposedText);
+    try {
+      await vscode.commands.executeCommand('vscode.diff', document.uri, proposedUri, title, { preview: true });
+    } catch (error) {
+      // プレビューが開けなくても確認自体は続ける（通知の内容で判断できる）
+      logger.warn('Diff preview failed', {
+        docUri: document.uri.toString(),
+        errorStack: String(error),
+      });
+    }
+    return proposedUri;
+  }
+
+  async release(proposedUri: vscode.Uri): Promise<void> {
+    await this.closePreview(proposedUri);
+    this.proposals.delete(proposedUri.toString());
+  }
+
+  async confirm(
+    document: vscode.TextDocument,
+    proposedText: string,
+    metrics: ChangeMetrics
+  ): Promise<ChangeGuardDecision> {
+    const title = vscode.l10n.t('{0} ↔ Proposed edit (inlineMark)', uriBasename(document.uri));
+    const proposedUri = await this.open(document, proposedText, title);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const applyButton = vscode.l10n.t('Apply Changes');
+      const discardButton = vscode.l10n.t('Discard Changes');
+      const reopenButton = vscode.l10n.t('Reopen with Text Editor');
+      const prompt = vscode.window.showWarningMessage(
+        vscode.l10n.t(
+          'Large change detected. {0} characters changed ({1}%) in {2} places. Review the diff and choose whether to apply it.',
+          metrics.changedChars,
+          Math.round(metrics.changedRatio * 100),
+          metrics.hunkCount
+        ),
+        applyButton,
+        discardButton,
+        reopenButton
+      );
+      const expired = new Promise<'timeout'>((resolve) => {
+        timer = setTimeout(() => resolve('timeout'), this.confirmTimeoutMs);
+      });
+      const picked = await Promise.race([prompt, expired]);
+
+      if (picked === 'timeout') {
+        logger.warn('ChangeGuard confirmation timed out', {
+          docUri: document.uri.toString(),
+          details: { timeoutMs: this.confirmTimeoutMs },
+        });
+        return 'timeout';
+      }
+      if (picked === applyButton) {
+        return 'apply';
+      }
+      if (picked === reopenButton) {
+        return 'reopenWithTextEditor';
+      }
+      return 'discard';
+    } finally {
+      clearTimeout(timer);
+      await this.release(proposedUri);
+    }
+  }
+
+  private async closePreview(proposedUri: vscode.Uri): Promise<void> {
+    const key = proposedUri.toString();
+    const tabs = vscode.window.tabGroups.all
+      .flatMap((group) => group.tabs)
+      .filter((tab) => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === key);
+    if (tabs.length === 0) {
+      return;
+    }
+    try {
+      await vscode.window.tabGroups.close(tabs, true);
+    } catch (error) {
+      logger.warn('ChangeGuard diff preview close failed', {
+        details: { proposedUri: key },
+        errorStack: String(error),
+      });
+    }
+  }
+
+  dispose(): void {
+    this.registration.dispose();
+    this.proposals.clear();
+  }
+}
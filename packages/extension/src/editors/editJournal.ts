@@ -0,0 +1,300 @@
+/**
+ * 役割: Webview の document に届いていない編集（edit journal）の保存と復元の確認
+ * 責務: Webview から届いた EditJournalEntry を document ごとにファイルへ保存し、次の ready で document と違えば
+ *       差分の確認と 復元 / 破棄 をユーザーに選ばせる
+ * 不変条件: 保存だけでは TextDocument を変更しない（復元は呼び出し側の WorkspaceEdit で行う）。
+ *           記録を消せるのは記録したパネル（clientId）か、復元 / 破棄を選んだユーザーだけ
+ *
+ * 保存先:
+ * - storageUri（ワークスペースが無い場合は globalStorageUri）の edit-journal/ に document ごとの JSON
+ * - Webview だけでなく拡張機能ホストが落ちても残るよう、memento ではなくファイルに一時ファイル + rename で書く
+ * - 同じ document への書き込みは順に行う（古い書き込みが新しい記録を上書きしない）
+ *
+ * content の改行は LF。比較は LF に揃えて行い、復元時に document の改行コードに戻す。
+ *
+ * 復元 (planJournalRestore):
+ * - 記録の編集は base → content の行差分（ack 待ちの changes も content に含まれる）
+ * - base と現在の document が同じならそのまま、違えば base → 現在 の差分を越えて rebase し、現在の内容の上に適用する
+ * - base が無い（古い Webview の記録）か rebase が conflict の場合は diverged。document の変更を上書きすることを警告してから全文を置き換える
+ * 例: base "a\nb\n"、content "a\nB\n"、現在 "x\na\nb\n" → 現在の 3 行目を置き換える { start: 4, end: 6, text: "B\n" }
+ */
+
+import * as vscode from 'vscode';
+import type { DocumentEol, EditJournalEntry, Replace } from '../protocol/messages.js';
+import type { ChangeGuardPreview } from './changeGuard.js';
+import { diffLines, splitLines } from '../util/lineDiff.js';
+import { logger } from '../util/log.js';
+import { applyReplacesToText, rebaseReplaces } from '../util/textEdits.js';
+import { uriBasename } from '../util/uriPaths.js';
+
+const JOURNAL_DIRECTORY = 'edit-journal';
+/** これを超える記録は保存しない（巨大な document を毎秒書き出さないため） */
+export const MAX_JOURNAL_BYTES = 4 * 1024 * 1024;
+
+export interface StoredEditJournal {
+  docUri: string;
+  clientId: string;
+  savedAt: number;
+  entry: EditJournalEntry;
+}
+
+export type EditJournalDecision = 'restore' | 'discard' | 'later';
+
+/**
+ * 記録の復元方法
+ * - rebased: 現在の内容（LF）に対する Replace[]。適用結果が text
+ * - diverged: 記録の編集を現在の内容に重ねられない。復元は document の変更を上書きする
+ */
+export type JournalRestorePlan =
+  | { kind: 'rebased'; changes: Replace[]; text: string }
+  | { kind: 'diverged'; reason: 'noBase' | 'conflict' };
+
+const normalizeEol = (text: string): string => text.replace(/\r\n|\r/g, '\n');
+
+const toEol = (eol: vscode.EndOfLine): DocumentEol => (eol === vscode.EndOfLine.CRLF ? 'crlf' : 'lf');
+
+/** 記録の内容と document の内容が（改行コードを除いて）同じか */
+export const isJournalApplied = (entry: EditJournalEntry, documentText: string): boolean =>
+  normalizeEol(entry.content) === normalizeEol(documentText);
+
+/** 記録の内容を document の改行コードに戻す */
+export const toDocumentText = (entry: EditJournalEntry, eol: DocumentEol): string => {
+  const normalized = normalizeEol(entry.content);
+  return eol === 'crlf' ? normalized.replace(/\n/g, '\r\n') : normalized;
+};
+
+/** 行の先頭 offset。末尾の行の次は「最後に改行があった場合」の位置（text.length + 1） */
+const lineOffset = (starts: number[], textLength: number, line: number): number =>
+  line < starts.length ? starts[line] : textLength + 1;
+
+const lineStarts = (lines: string[]): number[] => {
+  const starts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    starts.push(offset);
+    offset += line.length + 1;
+  }
+  return starts;
+};
+
+/**
+ * LF のテキスト from → to の行差分を、from の offset 基準の同時適用の Replace[]（昇順）にする。
+ * 末尾まで続くハンクは直前の改行から置き換える（最後の行に改行が無いため）。
+ */
+export const diffToReplaces = (from: string, to: string): Replace[] => {
+  const fromLines = splitLines(from);
+  const toLines = splitLines(to);
+  const fromStarts = lineStarts(fromLines);
+  const toStarts = lineStarts(toLines);
+  return diffLines(fromLines, toLines).map((hunk) => {
+    const fromEnd = hunk.originalStart + hunk.originalCount;
+    const toEnd = hunk.currentStart + hunk.currentCount;
+    const atEnd = fromEnd === fromLines.length && toEnd === toLines.length;
+    const shift = atEnd && hunk.originalStart > 0 && hunk.currentStart > 0 ? 1 : 0;
+    return {
+      start: lineOffset(fromStarts, from.length, hunk.originalStart) - shift,
+      end: atEnd ? from.length : fromStarts[fromEnd],
+      text: to.slice(lineOffset(toStarts, to.length, hunk.currentStart) - shift, atEnd ? to.length : toStarts[toEnd]),
+    };
+  });
+};
+
+/** 記録の編集を現在の document の内容に重ねる方法を決める（documentText の改行コードは問わない） */
+export const planJournalRestore = (entry: EditJournalEntry, documentText: string): JournalRestorePlan => {
+  if (entry.base === undefined) {
+    return { kind: 'diverged', reason: 'noBase' };
+  }
+  const base = normalizeEol(entry.base);
+  const current = normalizeEol(documentText);
+  const local = diffToReplaces(base, normalizeEol(entry.content));
+  // 途中の変更は順に適用する Replace[] として渡す（同時適用の差分は後ろから並べれば順に適用しても同じ）
+  const intervening = base === current ? [] : diffToReplaces(base, current).reverse();
+  const rebased = rebaseReplaces(local, intervening);
+  if (!rebased.ok) {
+    return { kind: 'diverged', reason: 'conflict' };
+  }
+  return { kind: 'rebased', changes: rebased.changes, text: applyReplacesToText(current, rebased.changes) };
+};
+
+/** LF のテキストの offset を Position にする（document が CRLF でも行と列は同じ） */
+const lfOffsetToPosition = (text: string, offset: number): vscode.Position => {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length - 1;
+  return new vscode.Position(line, offset - (before.lastIndexOf('\n') + 1));
+};
+
+/**
+ * 復元の WorkspaceEdit。rebased は記録の編集だけを現在の内容に重ね、diverged は document 全体を記録の内容で置き換える。
+ * 挿入するテキストの改行は document に合わせる。
+ */
+export const createJournalRestoreEdit = (
+  document: vscode.TextDocument,
+  entry: EditJournalEntry,
+  plan: JournalRestorePlan
+): vscode.WorkspaceEdit => {
+  const eol = toEol(document.eol);
+  const edit = new vscode.WorkspaceEdit();
+  if (plan.kind === 'diverged') {
+    edit.replace(
+      document.uri,
+      new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)),
+      toDocumentText(entry, eol)
+    );
+    return edit;
+  }
+  const current = normalizeEol(document.getText());
+  edit.set(
+    document.uri,
+    plan.changes.map(
+      (change) =>
+        new vscode.TextEdit(
+          new vscode.Range(lfOffsetToPosition(current, change.start), lfOffsetToPosition(current, change.end)),
+          eol === 'crlf' ? change.text.replace(/\n/g, '\r\n') : change.text
+        )
+    )
+  );
+  return edit;
+};
+
+export class EditJournalStore {
+  private cache = new Map<string, StoredEditJournal | null>();
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(private readonly storageUri: vscode.Uri) {}
+
+  async get(docUri: string): Promise<StoredEditJournal | null> {
+    await this.writes.get(docUri);
+    if (this.cache.has(docUri)) {
+      return this.cache.get(docUri) ?? null;
+    }
+    let stored: StoredEditJournal | null = null;
+    try {
+      const bytes = await vscode.workspace.fs.readFile(await this.fileFor(docUri));
+      const parsed = JSON.parse(new TextDecoder().decode(bytes)) as StoredEditJournal;
+      stored = parsed.docUri === docUri ? parsed : null;
+    } catch (error) {
+      if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+        logger.warn('Edit journal read failed', { docUri, errorStack: String(error) });
+      }
+    }
+    this.cache.set(docUri, stored);
+    return stored;
+  }
+
+  /**
+   * 保存できなかった（大きすぎる）場合は false。
+   */
+  async set(docUri: string, clientId: string, entry: EditJournalEntry): Promise<boolean> {
+    const stored: StoredEditJournal = { docUri, clientId, savedAt: Date.now(), entry };
+    const json = JSON.stringify(stored);
+    if (json.length > MAX_JOURNAL_BYTES) {
+      return false;
+    }
+    this.cache.set(docUri, stored);
+    await this.enqueue(docUri, async () => {
+      await vscode.workspace.fs.createDirectory(this.directory());
+      const target = await this.fileFor(docUri);
+      const temp = target.with({ path: `${target.path}.tmp` });
+      await vscode.workspace.fs.writeFile(temp, new TextEncoder().encode(json));
+      await vscode.workspace.fs.rename(temp, target, { overwrite: true });
+    });
+    return true;
+  }
+
+  /**
+   * 記録を消す。clientId / savedAt を指定した場合は、その記録がまだ残っているときだけ消す
+   * （別のパネルや新しい Webview がその後に書いた記録を消さないため）
+   */
+  async delete(docUri: string, match: { clientId?: string; savedAt?: number } = {}): Promise<boolean> {
+    const current = await this.get(docUri);
+    if (!current) {
+      return false;
+    }
+    if (
+      (match.clientId !== undefined && current.clientId !== match.clientId) ||
+      (match.savedAt !== undefined && current.savedAt !== match.savedAt)
+    ) {
+      return false;
+    }
+    this.cache.set(docUri, null);
+    await this.enqueue(docUri, async () => {
+      try {
+        await vscode.workspace.fs.delete(await this.fileFor(docUri));
+      } catch (error) {
+        if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+          throw error;
+        }
+      }
+    });
+    return true;
+  }
+
+  private enqueue(docUri: string, write: () => Promise<void>): Promise<void> {
+    const previous = this.writes.get(docUri) ?? Promise.resolve();
+    const next = previous
+      .then(write)
+      .catch((error) => {
+        logger.warn('Edit journal write failed', { docUri, errorStack: String(error) });
+      })
+      .finally(() => {
+        if (this.writes.get(docUri) === next) {
+          this.writes.delete(docUri);
+        }
+      });
+    this.writes.set(docUri, next);
+    return next;
+  }
+
+  private directory(): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageUri, JOURNAL_DIRECTORY);
+  }
+
+  /** ファイル名は docUri の SHA-256（Web 版の拡張機能ホストでも使える Web Crypto で計算する） */
+  private async fileFor(docUri: string): Promise<vscode.Uri> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(docUri)));
+    const hash = Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('').slice(0, 32);
+    return vscode.Uri.joinPath(this.directory(), `${hash}.json`);
+  }
+}
+
+/**
+ * 記録と現在の document の差分を確認させ、復元するかを選ばせる。
+ * 比較は復元後の内容（rebased なら現在の内容に記録の編集を重ねたもの）を表示する。diverged なら上書きになることを警告する。
+ * 通知を閉じた（選択なし）場合は later（記録を残し、次に開いたときにもう一度聞く）。
+ */
+export const confirmJournalRecovery = async (
+  document: vscode.TextDocument,
+  stored: StoredEditJournal,
+  plan: JournalRestorePlan,
+  preview: ChangeGuardPreview
+): Promise<EditJournalDecision> => {
+  const compareButton = vscode.l10n.t('Compare');
+  const restoreButton = vscode.l10n.t('Restore Edits');
+  const discardButton = vscode.l10n.t('Discard Edits');
+  const found = vscode.l10n.t(
+    'inlineMark found edits to {0} that did not reach the document before the editor closed ({1}).',
+    uriBasename(document.uri),
+    new Date(stored.savedAt).toLocaleString()
+  );
+  const message =
+    plan.kind === 'rebased'
+      ? found
+      : `${found} ${vscode.l10n.t(
+          'The document has changed in ways these edits cannot be merged with. Restoring replaces the whole document, including those changes.'
+        )}`;
+
+  const picked = await vscode.window.showWarningMessage(message, compareButton, restoreButton, discardButton);
+  if (picked !== compareButton) {
+    return picked === restoreButton ? 'restore' : picked === discardButton ? 'discard' : 'later';
+  }
+
+  const title = vscode.l10n.t('{0} ↔ Unsent edits (inlineMark)', uriBasename(document.uri));
+  const restored = plan.kind === 'rebased' ? { ...stored.entry, content: plan.text } : stored.entry;
+  const previewUri = await preview.open(document, toDocumentText(restored, toEol(document.eol)), title);
+  try {
+    const decided = await vscode.window.showWarningMessage(message, restoreButton, discardButton);
+    return decided === restoreButton ? 'restore' : decided === discardButton ? 'discard' : 'later';
+  } finally {
+    await preview.release(previewUri);
+  }
+};
@@ -20,12 +20,19 @@
  * 1. Webview 起動 → ready 送信
  * 2. Extension は init (全文 + version + sessionId/clientId) を返信
  * 3. 編集: Webview → edit(baseVersion, txId, changes) → Extension
- * 4. Extension: baseVersion 検証 → 一致なら applyEdit → ack/nack 返信
+ * 4. Extension: baseVersion 検証 → ChangeGuard 判定 → applyEdit → ack/nack 返信
+ *    ChangeGuard 超過時は editHeld を返して保留し、差分プレビューでユーザーが適用/破棄を選ぶ
  * 5. 外部変更: onDidChangeTextDocument → 全 Webview へ docChanged ブロードキャスト
+ *    別のパネルの edit による変更には変更元の clientId（peerId）を付ける（peerCursors）
+ * 6. 選択の共有: selectionChange を保存し、同じ document の他のパネルへ peerSelections で送る（peerCursors）
+ * 7. 届いていない編集の記録: editJournal をファイルに保存し、次の ready で document と違えば復元を確認する（editJournal.ts）
+ * 8. 読み取り専用: git のリビジョン・書き込めないファイルシステム・Restricted Mode の document は init の readOnly で
+ *    編集できない表示にし、書き込むメッセージ（edit / 上書き保存 / 子ページ作成 / undo・redo / editJournal）を受け付けない（readOnly.ts）
  * 
  * 重要な運用ルール (設計書 9.5):
  * - ルール 1: docChanged は onDidChangeTextDocument 起点に統一（二重通知防止）
- * - ルール 2: baseVersion 不一致の edit は nack（破壊的適用を防ぐ）
+ * - ルール 2: baseVersion が古い edit は途中の変更で変換（rebase）して適用。
+ *   範囲が重なる場合は nack(conflict)、履歴が無い場合は nack(baseVersionMismatch)（破壊的適用を防ぐ）
  * - ルール 3: Webview は docChanged 適用中に edit を送らない（ループ防止）
  * - ルール 4: in-flight は client ごとに 1 件まで（coalesce）
  * 
@@ -42,28 +49,105 @@
  */
 
 import * as vscode from 'vscode';
-import * as crypto from 'crypto';
-import * as path from 'path';
 import {
   type WebviewToExtensionMessage,
   type WebviewConfig,
+  type Replace,
+  type LossyBlock,
+  type MarkdownFormat,
+  type DocumentEol,
+  type ViewStateMessage,
+  type ReadyMessage,
+  type UndoRedoMessage,
+  type Capability,
+  type SyncState,
+  type SyncStateMessage,
+  type SelectionChangeMessage,
+  type EditJournalMessage,
+  type PeerSelection,
+  type ReadOnlyReason,
+  type Remediation,
   createInitMessage,
   createConfigChangedMessage,
   createAckMessage,
   createNackMessage,
+  createEditHeldMessage,
   createDocChangedMessage,
   createErrorMessage,
   createImageResolvedMessage,
   createNestedPageCreatedMessage,
   createNestedPageCreateAckMessage,
   createNestedPageCreateFailedMessage,
-  isValidWebviewMessage,
+  createNavigateMessage,
+  createQuickDiffMessage,
+  createPeerSelectionsMessage,
+  negotiateCapabilities,
+  validateWebviewToExtensionMessage,
+  MESSAGE_CAPABILITIES,
 } from '../protocol/messages.js';
 import {
   replacesToWorkspaceEdit,
   contentChangeEventsToReplaces,
+  rebaseReplaces,
+  applyReplacesToText,
+  calculateChangeMetrics,
+  isChangeGuardExceeded,
+  type ChangeMetrics,
 } from '../util/textEdits.js';
 import { logger } from '../util/log.js';
+import {
+  documentBaseDirectory,
+  isUriWithin,
+  relativeUriPath,
+  uriBasename,
+  uriDirname,
+  uriExtname,
+  uriStem,
+} from '../util/uriPaths.js';
+import {
+  NavigationTargetStore,
+  parseLineFragment,
+  toNavigationTarget,
+  type NavigationTargetOptions,
+} from './navigationTargets.js';
+import { ReplaceHistory } from './replaceHistory.js';
+import { ChangeGuardPreview } from './changeGuard.js';
+import { RichDiffPanels } from './richDiff.js';
+import { ViewStateStore } from './viewStateStore.js';
+import { SyncStatusBar } from './syncStatusBar.js';
+import {
+  EditJournalStore,
+  confirmJournalRecovery,
+  createJournalRestoreEdit,
+  isJournalApplied,
+  planJournalRestore,
+} from './editJournal.js';
+import { resolveReadOnlyReason } from './readOnly.js';
+import {
+  QUICK_DIFF_BASE_REF,
+  computeQuickDiffHunks,
+  resolveOriginalText,
+  watchRepositoryHead,
+} from './quickDiff.js';
+import {
+  MARKDOWN_FORMAT_FILE_GLOB,
+  resolveMarkdownFormat,
+  resolveMarkdownFormatFromSettings,
+} from './markdownFormat.js';
+
+/** Webview のエントリー（vite.config.ts の input）。manifest が読めない場合は fallbackFile を読む */
+const WEBVIEW_ENTRIES = {
+  editor: { source: 'src/main.ts', fallbackFile: 'index.js' },
+  richDiff: { source: 'src/richDiff.ts', fallbackFile: 'richDiff.js' },
+} as const;
+
+type WebviewEntry = keyof typeof WEBVIEW_ENTRIES;
+
+const QUICK_DIFF_DEBOUNCE_MS = 300;
+/** round-trip 検査の通知に並べる行範囲の上限（全件はログに残す） */
+const FIDELITY_NOTIFY_MAX_BLOCKS = 5;
+
+const toDocumentEol = (eol: vscode.EndOfLine): DocumentEol => (eol === vscode.EndOfLine.CRLF ? 'crlf' : 'lf');
 
 interface WebviewPanel {
   panel: vscode.WebviewPanel;
@@ -72,6 +156,22 @@ interface WebviewPanel {
   initAckReceived: boolean;
   initAckRetryCount: number;
   initAckTimer: ReturnType<typeof setTimeout> | null;
+  /** ready / init で合意した capability（init を送るまでは空） */
+  capabilities: Capability[];
+  /** Webview から最後に届いた同期の状態（status bar 表示用） */
+  syncState: SyncState;
+  syncStateReason: string | null;
+  /** Webview から最後に届いた選択（peerCursors。同じ document の他のパネルに表示する） */
+  selection: { docVersion: number; anchor: number; head: number } | null;
+  /** 同じ document のパネルを開いた順の番号（他のパネルでの選択の色） */
+  colorIndex: number;
+}
+
+/** status bar に同期状態を出している（active な）パネル */
+interface ActivePanel {
+  document: vscode.TextDocument;
+  state: DocumentState;
+  panel: WebviewPanel;
 }
 
 interface DocumentState {
@@ -91,6 +191,30 @@ interface DocumentState {
    * See 詳細設計.md 9.4/9.5 + 追加方針(カーソル末尾ジャンプ)。
    */
   selfChangeVersions: Map<number, string>;
+  /** 古い baseVersion の edit を rebase するための version ごとの変更履歴 */
+  replaceHistory: ReplaceHistory;
+  quickDiff: QuickDiffState;
+  /** round-trip 検査の通知を出した document version（パネルごとの重複通知を防ぐ） */
+  fidelityNotifiedVersion: number | null;
+  /** document ごとに解決した Markdown の書き方（null=未解決。設定のみの値を使う） */
+  markdownFormat: MarkdownFormat | null;
+  /** Webview に最後に通知した改行コード（EOL の切り替えを検知して全文を送り直す） */
+  eol: DocumentEol;
+  /** 次に開いたパネルに割り当てる colorIndex */
+  nextColorIndex: number;
+  /** 編集できない理由（undefined=編集できる）。ワークスペースを信頼したときに判定し直す */
+  readOnly: ReadOnlyReason | undefined;
+}
+
+/**
+ * quick diff（git HEAD との差分表示）の状態
+ * - originalText: undefined=未取得、null=比較対象なし（git 管理外 / HEAD に未登録）
+ */
+interface QuickDiffState {
+  originalText: string | null | undefined;
+  originalRequest: Promise<void> | null;
+  refreshTimer: ReturnType<typeof setTimeout> | null;
+  headWatcher: vscode.Disposable | null;
 }
 
 const REQUIRED_MARKDOWN_SETTINGS = {
@@ -102,6 +226,16 @@ const REQUIRED_MARKDOWN_SETTINGS = {
   'files.insertFinalNewline': false,
 };
 
+/** 読み取り専用の document で受け付けない（TextDocument・ファイル・ワークスペースに書き込む）メッセージ */
+const READ_ONLY_REJECTED_MESSAGES = new Set<WebviewToExtensionMessage['type']>([
+  'edit',
+  'overwriteSave',
+  'overwriteSaveWithConfirm',
+  'createNestedPage',
+  'undoRedo',
+  'editJournal',
+]);
+
 export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
   public static readonly viewType = 'inlineMark.editor';
 
@@ -109,12 +243,31 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
   private extensionUri: vscode.Uri;
   private disposables: vscode.Disposable[] = [];
   private currentConfig: WebviewConfig;
+  private navigationTargets = new NavigationTargetStore();
+  private changeGuardPreview = new ChangeGuardPreview();
+  private viewStates: ViewStateStore;
+  private editJournals: EditJournalStore;
+  /** 復元の確認を表示中の document（複数のパネルの ready で重ねて聞かない） */
+  private journalPrompts = new Set<string>();
+  private syncStatusBar = new SyncStatusBar();
+  private richDiffPanels: RichDiffPanels;
+  private activePanel: ActivePanel | null = null;
 
   constructor(private readonly context: vscode.ExtensionContext) {
     this.extensionUri = context.extensionUri;
+    this.viewStates = new ViewStateStore(context.workspaceState);
+    this.editJournals = new EditJournalStore(context.storageUri ?? context.globalStorageUri);
     this.currentConfig = this.getWebviewConfig();
     logger.setDebugEnabled(this.currentConfig.debug.enabled);
 
+    this.richDiffPanels = new RichDiffPanels({
+      getHtml: (webview) => this.getHtmlForWebview(webview, 'richDiff'),
+      getWebviewOptions: () => this.getWebviewOptions(),
+      getConfig: () => this.currentConfig,
+    });
+
+    this.disposables.push(this.changeGuardPreview, this.syncStatusBar, this.richDiffPanels);
+
     this.disposables.push(
       vscode.workspace.onDidChangeTextDocument((e) => this.onDidChangeTextDocument(e))
     );
@@ -124,6 +277,24 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
         void this.handleConfigurationChange(e);
       })
     );
+
+    this.disposables.push(
+      vscode.workspace.onDidGrantWorkspaceTrust(() => {
+        void this.handleWorkspaceTrustGranted();
+      })
+    );
+
+    // .editorconfig / .markdownlint.json(c) の変更で書き方を解決し直す
+    const formatWatcher = vscode.workspace.createFileSystemWatcher(MARKDOWN_FORMAT_FILE_GLOB);
+    const onFormatFileChange = (uri: vscode.Uri): void => {
+      void this.handleMarkdownFormatFileChange(uri);
+    };
+    this.disposables.push(
+      formatWatcher,
+      formatWatcher.onDidCreate(onFormatFileChange),
+      formatWatcher.onDidChange(onFormatFileChange),
+      formatWatcher.onDidDelete(onFormatFileChange)
+    );
   }
 
   public static register(context: vscode.ExtensionContext): InlineMarkProvider {
@@ -170,14 +341,14 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       },
     });
 
-    if (!vscode.workspace.isTrusted) {
-      logger.warn('Workspace not trusted - blocking editor', { docUri: docKey });
-      await this.showUntrustedWorkspaceError(webviewPanel);
-      return;
+    // 読み取り専用では保存時の整形が起きないので、必須設定（ワークスペース設定の書き換え）を求めない
+    const readOnly = this.documentStates.get(docKey)?.readOnly ?? resolveReadOnlyReason(document.uri);
+    if (readOnly) {
+      logger.info('Opening document read-only', { docUri: docKey, details: { reason: readOnly } });
     }
 
     logger.debug('Checking required settings', { docUri: docKey });
-    const settingsValid = await this.checkRequiredSettings();
+    const settingsValid = readOnly !== undefined || (await this.checkRequiredSettings());
     if (!settingsValid) {
       logger.info('Required settings not configured - showing dialog', { docUri: docKey });
       const applied = await this.showSettingsRequiredDialog();
@@ -196,10 +367,23 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
         sessionId: crypto.randomUUID(),
         panels: new Map(),
         selfChangeVersions: new Map(),
+        replaceHistory: new ReplaceHistory(),
+        quickDiff: {
+          originalText: undefined,
+          originalRequest: null,
+          refreshTimer: null,
+          headWatcher: null,
+        },
+        fidelityNotifiedVersion: null,
+        markdownFormat: null,
+        eol: toDocumentEol(document.eol),
+        nextColorIndex: 0,
+        readOnly,
       };
       this.documentStates.set(docKey, state);
       // デバッグモード時は JSONL ログを開始
       logger.setupDocumentLog(document.uri);
+      this.watchQuickDiffHead(document, state);
     }
 
     const clientId = crypto.randomUUID();
@@ -210,8 +394,19 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       initAckReceived: false,
       initAckRetryCount: 0,
       initAckTimer: null,
+      capabilities: [],
+      syncState: 'idle',
+      syncStateReason: null,
+      selection: null,
+      colorIndex: state.nextColorIndex,
     };
+    state.nextColorIndex += 1;
     state.panels.set(clientId, panelState);
+    const documentState = state;
+    const viewStateDisposable = webviewPanel.onDidChangeViewState(() => {
+      this.updateActivePanel(document, documentState, panelState);
+    });
+    this.updateActivePanel(document, documentState, panelState);
 
     webviewPanel.webview.options = this.getWebviewOptions();
     webviewPanel.webview.html = await this.getHtmlForWebview(webviewPanel.webview);
@@ -222,12 +417,21 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
 
     webviewPanel.onDidDispose(() => {
       messageDisposable.dispose();
+      viewStateDisposable.dispose();
+      if (this.activePanel?.panel === panelState) {
+        this.activePanel = null;
+        this.syncStatusBar.hide();
+      }
       if (panelState.initAckTimer) {
         clearTimeout(panelState.initAckTimer);
         panelState.initAckTimer = null;
       }
       state?.panels.delete(clientId);
+      if (state && panelState.selection) {
+        this.broadcastPeerSelections(state, null);
+      }
       if (state?.panels.size === 0) {
+        this.disposeQuickDiff(state);
         this.documentStates.delete(docKey);
         // ドキュメントのログを終了
         logger.cleanupDocumentLog(document.uri);
@@ -262,9 +466,9 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     };
   }
 
-  private async getHtmlForWebview(webview: vscode.Webview): Promise<string> {
+  private async getHtmlForWebview(webview: vscode.Webview, entry: WebviewEntry = 'editor'): Promise<string> {
     const mediaPath = vscode.Uri.joinPath(this.extensionUri, 'media', 'webview');
-    const nonce = crypto.randomBytes(16).toString('base64');
+    const nonce = btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(16))));
 
     type ViteManifestChunk = {
       file: string;
@@ -277,7 +481,7 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     try {
       const manifestPath = vscode.Uri.joinPath(mediaPath, '.vite', 'manifest.json');
       const manifestContent = await vscode.workspace.fs.readFile(manifestPath);
-      manifestData = JSON.parse(Buffer.from(manifestContent).toString('utf-8')) as Record<
+      manifestData = JSON.parse(new TextDecoder('utf-8').decode(manifestContent)) as Record<
         string,
         ViteManifestChunk
       >;
@@ -288,11 +492,14 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       });
     }
 
+    const { source, fallbackFile } = WEBVIEW_ENTRIES[entry];
     const mainEntryChunk =
-      manifestData?.['src/main.ts'] ??
-      (manifestData ? Object.values(manifestData).find((chunk) => chunk?.isEntry) : undefined);
+      manifestData?.[source] ??
+      (manifestData && entry === 'editor'
+        ? Object.values(manifestData).find((chunk) => chunk?.isEntry)
+        : undefined);
 
-    const scriptFile = mainEntryChunk?.file ?? 'index.js';
+    const scriptFile = mainEntryChunk?.file ?? fallbackFile;
     const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(mediaPath, scriptFile));
 
     const cssFiles = mainEntryChunk?.css ?? [];
@@ -390,6 +597,8 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       `connect-src ${webview.cspSource} https://*.vscode-cdn.net`,
       `frame-src blob:`,
       `child-src blob:`,
+      // Webview の差分計算 Worker（Vite の inline worker は blob: URL で起動する）
+      `worker-src blob:`,
       `img-src ${imgSrc}`,
       `font-src ${webview.cspSource}`,
       `style-src 'unsafe-inline' ${webview.cspSource}`,
@@ -401,16 +610,18 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     document: vscode.TextDocument,
     state: DocumentState,
     clientId: string,
-    msg: unknown
+    raw: unknown
   ): Promise<void> {
-    if (!isValidWebviewMessage(msg)) {
+    const validation = validateWebviewToExtensionMessage(raw);
+    if (!validation.ok) {
       logger.warn('Invalid message received', {
         clientId,
         docUri: document.uri.toString(),
-        details: { msg },
+        details: { reason: validation.reason, error: validation.error, msg: raw },
       });
       return;
     }
+    const msg = validation.message;
 
     const panel = state.panels.get(clientId);
     if (!panel) {
@@ -424,6 +635,21 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       details: { type: msg.type },
     });
 
+    const capability = MESSAGE_CAPABILITIES[msg.type];
+    if (capability && !panel.capabilities.includes(capability)) {
+      logger.warn('Message requires a capability that was not negotiated', {
+        clientId,
+        docUri: document.uri.toString(),
+        details: { type: msg.type, capability, negotiated: panel.capabilities },
+      });
+      return;
+    }
+
+    if (state.readOnly && READ_ONLY_REJECTED_MESSAGES.has(msg.type)) {
+      await this.rejectReadOnlyMessage(document, state, panel, msg);
+      return;
+    }
+
     if (msg.type === 'createNestedPage') {
       logger.warn('Nested page create message received', {
         clientId,
@@ -434,7 +660,7 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
 
     switch (msg.type) {
       case 'ready':
-        await this.handleReady(document, state, panel);
+        await this.handleReady(document, state, panel, msg);
         break;
       case 'initAck':
         panel.initAckReceived = true;
@@ -451,6 +677,9 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
             contentLength: msg.contentLength,
           },
         });
+        await this.deliverNavigationTarget(document, state, panel);
+        await this.sendQuickDiff(document, state, panel);
+        this.sendPeerSelections(state, panel);
         break;
       case 'edit':
         await this.handleEdit(document, state, clientId, msg);
@@ -494,12 +723,387 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       case 'notifyHost':
         await this.handleNotifyHost(document, state, panel, clientId, msg);
         break;
+      case 'fidelityReport':
+        await this.handleFidelityReport(document, state, clientId, msg);
+        break;
       case 'menuStateChange':
         this.handleMenuStateChange(msg);
         break;
       case 'findWidgetStateChange':
         this.handleFindWidgetStateChange(msg);
         break;
+      case 'viewState':
+        await this.handleViewState(document, clientId, msg);
+        break;
+      case 'undoRedo':
+        await this.handleUndoRedo(document, panel, clientId, msg);
+        break;
+      case 'syncState':
+        this.handleSyncState(document, panel, msg);
+        break;
+      case 'selectionChange':
+        this.handleSelectionChange(state, panel, msg);
+        break;
+      case 'editJournal':
+        await this.handleEditJournal(document, clientId, msg);
+        break;
+      case 'showSyncActions':
+        await this.showSyncActions({ document, state, panel });
+        break;
+    }
+  }
+
+  /**
+   * 読み取り専用の document への書き込み。edit は nack して document の内容で再同期し、
+   * 子ページの作成は失敗を返す（Webview が応答を待ち続けないように）。それ以外はログだけ残して捨てる
+   */
+  private async rejectReadOnlyMessage(
+    document: vscode.TextDocument,
+    state: DocumentState,
+    panel: WebviewPanel,
+    msg: WebviewToExtensionMessage
+  ): Promise<void> {
+    logger.warn('Message rejected: document is read-only', {
+      clientId: panel.clientId,
+      docUri: document.uri.toString(),
+      details: { type: msg.type, reason: state.readOnly ?? null },
+    });
+    if (msg.type === 'edit') {
+      const nackMessage = createNackMessage(
+        msg.txId,
+        document.version,
+        panel.capabilities.includes('readOnly') ? 'readOnly' : 'applyFailed',
+        state.sessionId,
+        vscode.l10n.t('This document is read-only.')
+      );
+      await panel.panel.webview.postMessage(nackMessage);
+      await this.handleRequestResync(document, state, panel);
+    } else if (msg.type === 'createNestedPage') {
+      await panel.panel.webview.postMessage(
+        createNestedPageCreateFailedMessage(
+          msg.requestId,
+          vscode.l10n.t('This document is read-only.'),
+          state.sessionId,
+          'DOCUMENT_READ_ONLY'
+        )
+      );
+    }
+  }
+
+  /**
+   * Restricted Mode で開いていた document を判定し直し、編集できるようになったパネルを新しいセッションで初期化し直す
+   */
+  private async handleWorkspaceTrustGranted(): Promise<void> {
+    // 信頼されるまで quick diff は HEAD 版を取得していない（git を実行しない）。取得し直す
+    for (const [docKey, state] of this.documentStates) {
+      const document = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === docKey);
+      if (!document) {
+        continue;
+      }
+      state.quickDiff.originalText = undefined;
+      if (!state.quickDiff.headWatcher) {
+        this.watchQuickDiffHead(document, state);
+      }
+      void this.sendQuickDiff(document, state);
+    }
+
+    for (const [docKey, state] of this.documentStates) {
+      if (state.readOnly !== 'untrustedWorkspace') {
+        continue;
+      }
+      const document = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === docKey);
+      if (!document) {
+        continue;
+      }
+      const readOnly = resolveReadOnlyReason(document.uri);
+      logger.info('Workspace trusted: document access re-evaluated', {
+        docUri: docKey,
+        details: { readOnly: readOnly ?? null },
+      });
+      if (readOnly) {
+        state.readOnly = readOnly;
+        continue;
+      }
+      // 開いたときに省いた必須設定の確認。適用しない場合は開き直すまで読み取り専用のままにする
+      if (!(await this.checkRequiredSettings()) && !(await this.showSettingsRequiredDialog())) {
+        logger.warn('Settings not applied - keeping document read-only', { docUri: docKey });
+        continue;
+      }
+      state.readOnly = undefined;
+      await this.resetSession(document, true);
+    }
+  }
+
+  private handleSyncState(document: vscode.TextDocument, panel: WebviewPanel, msg: SyncStateMessage): void {
+    const previous = panel.syncState;
+    panel.syncState = msg.state;
+    panel.syncStateReason = msg.reason ?? null;
+    const context = {
+      clientId: panel.clientId,
+      docUri: document.uri.toString(),
+      details: { from: previous, to: msg.state, reason: msg.reason ?? null },
+    };
+    if (msg.state === 'desynced') {
+      logger.warn('Webview is out of sync', context);
+    } else {
+      logger.debug('Sync state changed', context);
+    }
+    if (this.activePanel?.panel === panel) {
+      this.syncStatusBar.show(panel.syncState, panel.syncStateReason ?? undefined);
+    }
+  }
+
+  private handleSelectionChange(state: DocumentState, panel: WebviewPanel, msg: SelectionChangeMessage): void {
+    panel.selection = { docVersion: msg.docVersion, anchor: msg.anchor, head: msg.head };
+    this.broadcastPeerSelections(state, panel);
+  }
+
+  /**
+   * 他のパネルの選択を送り直す。changed は選択が変わったパネル（そのパネル自身には送らない）、null は全パネル
+   */
+  private broadcastPeerSelections(state: DocumentState, changed: WebviewPanel | null): void {
+    for (const [, target] of state.panels) {
+      if (target !== changed) {
+        this.sendPeerSelections(state, target);
+      }
+    }
+  }
+
+  /**
+   * target 以外のパネルの選択を target に送る（peerCursors を合意し、init が届いたパネルだけ）
+   */
+  private sendPeerSelections(state: DocumentState, target: WebviewPanel): void {
+    if (!target.initAckReceived || !target.capabilities.includes('peerCursors')) {
+      return;
+    }
+    const peers: PeerSelection[] = [];
+    for (const [, panel] of state.panels) {
+      if (panel !== target && panel.selection) {
+        peers.push({ peerId: panel.clientId, colorIndex: panel.colorIndex, ...panel.selection });
+      }
+    }
+    void target.panel.webview.postMessage(createPeerSelectionsMessage(peers, state.sessionId));
+  }
+
+  /**
+   * status bar の表示対象（active な inlineMark パネル）を更新する
+   */
+  private updateActivePanel(document: vscode.TextDocument, state: DocumentState, panel: WebviewPanel): void {
+    if (panel.panel.active) {
+      this.activePanel = { document, state, panel };
+      // syncState を送らない Webview（capability 未合意 / ready 前）の状態は分からないので出さない
+      if (panel.capabilities.includes('syncState')) {
+        this.syncStatusBar.show(panel.syncState, panel.syncStateReason ?? undefined);
+      } else {
+        this.syncStatusBar.hide();
+      }
+    } else if (this.activePanel?.panel === panel) {
+      this.activePanel = null;
+      this.syncStatusBar.hide();
+    }
+  }
+
+  /**
+   * Markdown の 2 つの版をリッチ差分ビューで開く（inlineMark.openRichDiff。richDiff.ts）。
+   * arg は SCM のリソース / Uri。省略時はアクティブなタブ（diff タブならその左右、それ以外は HEAD との比較）。
+   */
+  public async openRichDiff(arg?: unknown): Promise<void> {
+    await this.richDiffPanels.open(arg);
+  }
+
+  /**
+   * 同期の復旧操作（resync / セッションのリセット / テキストエディタで開く）を選ばせる。
+   * status bar のクリック（inlineMark.showSyncActions）と Webview のバナーから呼ばれる。
+   */
+  public async showSyncActions(target: ActivePanel | null = this.activePanel): Promise<void> {
+    if (!target) {
+      logger.debug('showSyncActions: no active inlineMark editor');
+      return;
+    }
+    const { document, state, panel } = target;
+    const items: Array<vscode.QuickPickItem & { remediation: Remediation }> = [
+      {
+        label: `$(sync) ${vscode.l10n.t('Resync')}`,
+        detail: vscode.l10n.t('Reload the editor from the document. Edits that were not synced are discarded.'),
+        remediation: 'resync',
+      },
+      {
+        label: `$(debug-restart) ${vscode.l10n.t('Reset Session')}`,
+        detail: vscode.l10n.t('Restart the editor session for this document.'),
+        remediation: 'resetSession',
+      },
+      {
+        label: `$(go-to-file) ${vscode.l10n.t('Open without inlineMark')}`,
+        detail: vscode.l10n.t('Close this editor and open the file in the text editor.'),
+        remediation: 'reopenWithTextEditor',
+      },
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+      title: vscode.l10n.t('inlineMark Sync'),
+      placeHolder: this.describeSyncStateForPicker(panel),
+    });
+    if (!picked) {return;}
+
+    logger.info('Sync action selected', {
+      clientId: panel.clientId,
+      docUri: document.uri.toString(),
+      details: { remediation: picked.remediation, syncState: panel.syncState },
+    });
+    await this.runRemediation(document, state, panel, panel.clientId, picked.remediation);
+  }
+
+  private describeSyncStateForPicker(panel: WebviewPanel): string {
+    const reason = panel.syncStateReason ? ` (${panel.syncStateReason})` : '';
+    switch (panel.syncState) {
+      case 'desynced':
+        return vscode.l10n.t('The editor may not match the document{0}.', reason);
+      case 'retrying':
+        return vscode.l10n.t('Resyncing the editor with the document.');
+      case 'pending':
+      case 'inFlight':
+        return vscode.l10n.t('Edits are being applied to the document.');
+      default:
+        return vscode.l10n.t('The editor is in sync with the document.');
+    }
+  }
+
+  /**
+   * undo / redo を TextDocument の履歴で行う（Webview の編集も外部の編集も同じ undo stack に積まれている）。
+   * document を指定して undo する API は無いため、この document の inlineMark タブがアクティブな場合のみ
+   * 組み込みの undo / redo コマンドを実行する（custom editor では resource の undo stack が対象になる）。
+   * 結果は onDidChangeTextDocument から docChanged (reason: 'undo' | 'redo') で全パネルに届く。
+   */
+  private async handleUndoRedo(
+    document: vscode.TextDocument,
+    panel: WebviewPanel,
+    clientId: string,
+    msg: UndoRedoMessage
+  ): Promise<void> {
+    const docUri = document.uri.toString();
+    const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+    const isActiveEditor =
+      panel.panel.active &&
+      input instanceof vscode.TabInputCustom &&
+      input.viewType === InlineMarkProvider.viewType &&
+      input.uri.toString() === docUri;
+    if (!isActiveEditor) {
+      logger.debug('Undo/redo ignored: editor is not active', { clientId, docUri, details: { direction: msg.direction } });
+      return;
+    }
+
+    const versionBefore = document.version;
+    try {
+      await vscode.commands.executeCommand(msg.direction);
+    } catch (error) {
+      logger.warn('Undo/redo failed', { clientId, docUri, details: { direction: msg.direction, error: String(error) } });
+      return;
+    }
+    logger.debug('Undo/redo executed', {
+      clientId,
+      docUri,
+      docVersion: document.version,
+      details: { direction: msg.direction, changed: document.version !== versionBefore },
+    });
+  }
+
+  /**
+   * Webview の表示状態を document ごとに保存する（次に開いたときの init で返す）
+   */
+  private async handleViewState(document: vscode.TextDocument, clientId: string, msg: ViewStateMessage): Promise<void> {
+    const docUri = document.uri.toString();
+    try {
+      const saved = await this.viewStates.set(docUri, msg.state);
+      if (!saved) {
+        logger.warn('View state too large; not saved', { clientId, docUri });
+      }
+    } catch (error) {
+      logger.warn('Failed to save view state', { clientId, docUri, details: { error: String(error) } });
+    }
+  }
+
+  private async handleEditJournal(document: vscode.TextDocument, clientId: string, msg: EditJournalMessage): Promise<void> {
+    const docUri = document.uri.toString();
+    if (!msg.entry) {
+      await this.editJournals.delete(docUri, { clientId });
+      return;
+    }
+    const saved = await this.editJournals.set(docUri, clientId, msg.entry);
+    if (!saved) {
+      logger.warn('Edit journal too large; not saved', {
+        clientId,
+        docUri,
+        details: { contentLength: msg.entry.content.length },
+      });
+    }
+  }
+
+  /**
+   * 前のセッションで document に届かなかった編集の記録があれば、差分を確認させて復元するかを選ばせる（ready 時）
+   */
+  private async offerJournalRecovery(
+    document: vscode.TextDocument,
+    state: DocumentState,
+    panel: WebviewPanel
+  ): Promise<void> {
+    const docUri = document.uri.toString();
+    // 復元は document に書き込むので、読み取り専用の間は記録を残したまま聞かない
+    if (state.readOnly || this.journalPrompts.has(docUri)) {
+      return;
+    }
+    const stored = await this.editJournals.get(docUri);
+    if (!stored) {
+      return;
+    }
+    // 開いている別のパネルの記録は、そのパネルが document に届けて消す
+    if (stored.clientId !== panel.clientId && state.panels.has(stored.clientId)) {
+      return;
+    }
+    const context = {
+      clientId: panel.clientId,
+      docUri,
+      docVersion: document.version,
+      details: {
+        journalClientId: stored.clientId,
+        savedAt: stored.savedAt,
+        baseVersion: stored.entry.baseVersion,
+        contentLength: stored.entry.content.length,
+        inFlightChanges: stored.entry.changes.length,
+      },
+    };
+    if (isJournalApplied(stored.entry, document.getText())) {
+      await this.editJournals.delete(docUri, { savedAt: stored.savedAt });
+      logger.info('Edit journal already matches the document; discarded', context);
+      return;
+    }
+
+    this.journalPrompts.add(docUri);
+    try {
+      const plan = planJournalRestore(stored.entry, document.getText());
+      const planDetails = { ...context.details, restore: plan.kind === 'rebased' ? 'rebased' : plan.reason };
+      logger.warn('Unsent edits found in edit journal', { ...context, details: planDetails });
+      const decision = await confirmJournalRecovery(document, stored, plan, this.changeGuardPreview);
+      logger.info('Edit journal recovery decided', { ...context, details: { ...planDetails, decision } });
+      if (decision === 'later') {
+        return;
+      }
+      if (decision === 'restore') {
+        // 確認中に document が変わっていれば、その内容で決め直す（rebase できなくなった場合は上書きの警告を見ていないので聞き直す）
+        const latest = planJournalRestore(stored.entry, document.getText());
+        if (plan.kind === 'rebased' && latest.kind === 'diverged') {
+          logger.warn('Edit journal no longer rebases onto the document; asking again later', context);
+          return;
+        }
+        const edit = createJournalRestoreEdit(document, stored.entry, latest);
+        if (!(await vscode.workspace.applyEdit(edit))) {
+          logger.error('Edit journal restore failed', context);
+          void vscode.window.showErrorMessage(vscode.l10n.t('Failed to restore the unsent edits.'));
+          return;
+        }
+      }
+      // 確認中に新しい Webview が書いた記録は消さない
+      await this.editJournals.delete(docUri, { savedAt: stored.savedAt });
+    } finally {
+      this.journalPrompts.delete(docUri);
     }
   }
 
@@ -525,24 +1129,45 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
   private async handleReady(
     document: vscode.TextDocument,
     state: DocumentState,
-    panel: WebviewPanel
+    panel: WebviewPanel,
+    msg: ReadyMessage
   ): Promise<void> {
     panel.ready = true;
     panel.initAckReceived = false;
     panel.initAckRetryCount = 0;
+    panel.capabilities = negotiateCapabilities(msg.capabilities);
+    logger.debug('Capabilities negotiated', {
+      clientId: panel.clientId,
+      docUri: document.uri.toString(),
+      details: { offered: msg.capabilities ?? null, negotiated: panel.capabilities },
+    });
+    this.updateActivePanel(document, state, panel);
+    // 再読み込み・セッションのリセット前の選択は新しい Webview と対応しない
+    if (panel.selection) {
+      panel.selection = null;
+      this.broadcastPeerSelections(state, panel);
+    }
 
-    const config = this.currentConfig;
+    if (!state.markdownFormat) {
+      await this.refreshMarkdownFormat(state);
+    }
+    const config = this.getDocumentConfig(state);
     const locale = vscode.env.language;
     const i18n = await this.loadI18nBundle(locale);
 
     const initMessage = createInitMessage(
       document.version,
       document.getText(),
+      toDocumentEol(document.eol),
       state.sessionId,
       panel.clientId,
       locale,
       i18n,
-      config
+      config,
+      this.navigationTargets.has(document.uri.toString()),
+      panel.capabilities.includes('viewState') ? this.viewStates.get(document.uri.toString()) : undefined,
+      panel.capabilities,
+      panel.capabilities.includes('readOnly') ? state.readOnly : undefined
     );
 
     const MAX_INIT_RETRIES = 3;
@@ -630,6 +1255,8 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     };
 
     await sendInit(1, 'initial');
+    // 通知の応答を待たない（その間もメッセージを処理する）
+    void this.offerJournalRecovery(document, state, panel);
 
     return;
   }
@@ -640,7 +1267,8 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     clientId: string,
     msg: WebviewToExtensionMessage & { type: 'edit' }
   ): Promise<void> {
-    const { txId, baseVersion, changes } = msg;
+    const { txId, baseVersion } = msg;
+    let changes = msg.changes;
     const panel = state.panels.get(clientId);
 
     if (!panel) {
@@ -656,17 +1284,14 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       changesCount: changes.length,
     });
 
+    let rebasedFrom: number | undefined;
     if (baseVersion !== document.version) {
-      const nackMessage = createNackMessage(txId, document.version, 'baseVersionMismatch', state.sessionId);
-      await panel.panel.webview.postMessage(nackMessage);
-
-      logger.info('Edit nacked (version mismatch)', {
-        clientId,
-        txId,
-        baseVersion,
-        docVersion: document.version,
-      });
-      return;
+      const rebased = await this.rebaseStaleEdit(document, state, panel, txId, baseVersion, changes);
+      if (!rebased) {
+        return;
+      }
+      changes = rebased;
+      rebasedFrom = baseVersion;
     }
 
     if (changes.length === 0) {
@@ -677,20 +1302,42 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       return;
     }
 
-    // ChangeGuard disabled for now (per request).
+    const metrics = calculateChangeMetrics(changes, this.getDocumentLength(document));
+    const guardLimits = { ...this.currentConfig.changeGuard, minChangedChars: this.getChangeGuardMinChangedChars() };
+    if (isChangeGuardExceeded(metrics, guardLimits)) {
+      const heldVersion = document.version;
+      const approved = await this.confirmGuardedEdit(document, state, panel, txId, changes, metrics);
+      if (!approved) {
+        return;
+      }
+      if (document.version !== heldVersion) {
+        // 確認中に外部変更が入った場合は、通常の古い baseVersion と同じく rebase してから適用する
+        const rebased = await this.rebaseStaleEdit(document, state, panel, txId, heldVersion, changes);
+        if (!rebased) {
+          return;
+        }
+        changes = rebased;
+        rebasedFrom ??= heldVersion;
+      }
+    }
 
     // Mark the next document version as originating from this client.
     // onDidChangeTextDocument will use this to send `reason=self` to the originating Webview
     // (so it can avoid re-render and keep the caret position stable).
-    const expectedVersion = baseVersion + 1;
-    state.selfChangeVersions.set(expectedVersion, clientId);
+    // A rebased edit is NOT marked: the originating Webview held the intervening docChanged
+    // (older Webviews applied it over the local edit) and takes the rebased result as
+    // `reason=external`, merging it with the edits typed since (design 10.7).
+    const expectedVersion = document.version + 1;
+    if (rebasedFrom === undefined) {
+      state.selfChangeVersions.set(expectedVersion, clientId);
+    }
 
     try {
       const workspaceEdit = replacesToWorkspaceEdit(document, changes);
       const success = await vscode.workspace.applyEdit(workspaceEdit);
 
       if (success) {
-        const ackMessage = createAckMessage(txId, expectedVersion, 'applied', state.sessionId);
+        const ackMessage = createAckMessage(txId, expectedVersion, 'applied', state.sessionId, rebasedFrom);
         await panel.panel.webview.postMessage(ackMessage);
 
         if (document.version !== expectedVersion) {
@@ -708,6 +1355,7 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
           txId,
           docVersion: expectedVersion,
           changesCount: changes.length,
+          details: { rebasedFrom: rebasedFrom ?? null },
         });
       } else {
         state.selfChangeVersions.delete(expectedVersion);
@@ -736,6 +1384,143 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     }
   }
 
+  /**
+   * 古い baseVersion の edit を途中の変更で変換する。変換できない場合は nack を返して null。
+   */
+  private async rebaseStaleEdit(
+    document: vscode.TextDocument,
+    state: DocumentState,
+    panel: WebviewPanel,
+    txId: number,
+    baseVersion: number,
+    changes: Replace[]
+  ): Promise<Replace[] | null> {
+    const clientId = panel.clientId;
+    const intervening = state.replaceHistory.collect(baseVersion, document.version);
+    if (!intervening) {
+      const nackMessage = createNackMessage(txId, document.version, 'baseVersionMismatch', state.sessionId);
+      await panel.panel.webview.postMessage(nackMessage);
+
+      logger.info('Edit nacked (version mismatch)', {
+        clientId,
+        txId,
+        baseVersion,
+        docVersion: document.version,
+      });
+      return null;
+    }
+
+    const rebased = rebaseReplaces(changes, intervening);
+    if (!rebased.ok) {
+      const nackMessage = createNackMessage(
+        txId,
+        document.version,
+        'conflict',
+        state.sessionId,
+        vscode.l10n.t(
+          'Your edit overlaps a change made outside this editor (version {0} → {1}).',
+          baseVersion,
+          document.version
+        )
+      );
+      await panel.panel.webview.postMessage(nackMessage);
+
+      logger.warn('Edit nacked (conflict)', {
+        clientId,
+        txId,
+        baseVersion,
+        docVersion: document.version,
+        details: { change: rebased.change, against: rebased.against },
+      });
+      return null;
+    }
+
+    logger.info('Edit rebased', {
+      clientId,
+      txId,
+      baseVersion,
+      docVersion: document.version,
+      changesCount: rebased.changes.length,
+      details: { interveningCount: intervening.length },
+    });
+    return rebased.changes;
+  }
+
+  /**
+   * ChangeGuard 超過の edit を保留し、差分プレビューでユーザーに確認する。
+   * 適用が選ばれた場合のみ true。破棄/テキストエディタで開き直す/時間切れの場合は nack を返して
+   * Webview を TextDocument の内容で再同期する。
+   */
+  private async confirmGuardedEdit(
+    document: vscode.TextDocument,
+    state: DocumentState,
+    panel: WebviewPanel,
+    txId: number,
+    changes: Replace[],
+    metrics: ChangeMetrics
+  ): Promise<boolean> {
+    const clientId = panel.clientId;
+    const heldMessage = createEditHeldMessage(
+      txId,
+      document.version,
+      {
+        changedChars: metrics.changedChars,
+        changedRatio: metrics.changedRatio,
+        hunkCount: metrics.hunkCount,
+      },
+      state.sessionId
+    );
+    await panel.panel.webview.postMessage(heldMessage);
+
+    logger.warn('Edit held by ChangeGuard', {
+      clientId,
+      txId,
+      docUri: document.uri.toString(),
+      docVersion: document.version,
+      changesCount: changes.length,
+      errorCode: 'CHANGE_GUARD_EXCEEDED',
+      details: { metrics, limits: this.currentConfig.changeGuard },
+    });
+
+    const proposedText = applyReplacesToText(document.getText(), changes);
+    const decision = await this.changeGuardPreview.confirm(document, proposedText, metrics);
+
+    logger.info('ChangeGuard decision', {
+      clientId,
+      txId,
+      docVersion: document.version,
+      details: { decision },
+    });
+
+    if (decision === 'apply') {
+      return true;
+    }
+
+    const nackMessage = createNackMessage(
+      txId,
+      document.version,
+      'changeGuardRejected',
+      state.sessionId,
+      decision === 'timeout'
+        ? vscode.l10n.t('The large edit was discarded because it was not confirmed in time.')
+        : vscode.l10n.t('The large edit was discarded.')
+    );
+    await panel.panel.webview.postMessage(nackMessage);
+    await this.handleRequestResync(document, state, panel);
+
+    if (decision === 'reopenWithTextEditor') {
+      // diff プレビューを閉じた後のアクティブタブが inlineMark とは限らないため、先に前面に出す
+      panel.panel.reveal();
+      await this.handleReopenWithTextEditor(clientId);
+    }
+    return false;
+  }
+
+  private getDocumentLength(document: vscode.TextDocument): number {
+    // getText() で全文をコピーせずに長さを得る
+    return document.offsetAt(document.lineAt(document.lineCount - 1).range.end);
+  }
+
   private async handleRequestResync(
     document: vscode.TextDocument,
     state: DocumentState,
@@ -746,6 +1531,7 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       'external',
       [],
       state.sessionId,
+      toDocumentEol(document.eol),
       document.getText()
     );
 
@@ -1039,23 +1825,20 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       // 正規化後のパスがワークスペース内にあることを確認する
       const normalizedSrc = src.replace(/\\/g, '/');
       
-      // Resolve relative path against document directory
-      const documentDir = vscode.Uri.joinPath(document.uri, '..');
+      // Resolve relative path against document directory（untitled はワークスペースのフォルダ）
+      const documentDir = documentBaseDirectory(document.uri);
+      if (!documentDir) {
+        await respondWithError(vscode.l10n.t('Image not found: {0}', normalizedSrc));
+        return;
+      }
       const imageUri = vscode.Uri.joinPath(documentDir, normalizedSrc);
       
       // ワークスペースフォルダを取得して、画像がワークスペース内にあることを確認
-      // セキュリティ: path.relative を使用して、相対パスが '..' で始まらないことを確認
+      // セキュリティ: Uri の相対パスが '..' で始まらないこと（scheme / authority も一致すること）を確認
       // これにより、startsWith の境界条件問題（/ws と /ws2）や OS 差分を回避
       const workspaceFolders = vscode.workspace.workspaceFolders;
       if (workspaceFolders && workspaceFolders.length > 0) {
-        const isWithinWorkspace = workspaceFolders.some(folder => {
-          const folderPath = folder.uri.fsPath;
-          const imagePath = imageUri.fsPath;
-          // path.relative で相対パスを計算し、'..' で始まらないことを確認
-          const relativePath = path.relative(folderPath, imagePath);
-          // 相対パスが '..' で始まる場合、または絶対パス（Windows のドライブレター）の場合は外部
-          return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
-        });
+        const isWithinWorkspace = workspaceFolders.some(folder => isUriWithin(folder.uri, imageUri));
         
         if (!isWithinWorkspace) {
           await respondWithError(
@@ -1258,8 +2041,9 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     };
 
     try {
-      if (document.uri.scheme !== 'file') {
-        fail('Only file-based documents are supported', 'NESTED_PAGE_UNSUPPORTED_SCHEME', {
+      // 保存されていない document には子ページを置くフォルダが無い（file 以外の書き込めるファイルシステムは扱える）
+      if (document.uri.scheme === 'untitled') {
+        fail('Save the document before adding nested pages', 'NESTED_PAGE_UNSUPPORTED_SCHEME', {
           scheme: document.uri.scheme,
         });
         return;
@@ -1268,27 +2052,24 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       const trimmedTitle = title.trim();
       const displayTitle = trimmedTitle ? trimmedTitle.replace(/\.md$/i, '').trim() : 'New Page';
 
-      const docInfo = path.parse(document.uri.fsPath);
-      const docBaseName = docInfo.name;
-      const docExt = docInfo.ext || '.md';
+      const docBaseName = uriStem(document.uri);
+      const docExt = uriExtname(document.uri) || '.md';
       if (!docBaseName) {
         fail('Document name is empty', 'NESTED_PAGE_INVALID_DOCUMENT');
         return;
       }
 
-      const parentDir = path.dirname(document.uri.fsPath);
-      const parentDirName = path.basename(parentDir);
+      const parentDir = uriDirname(document.uri);
+      const parentDirName = uriBasename(parentDir);
       const needsRelocate = parentDirName !== docBaseName;
-      const baseFolderUri = needsRelocate
-        ? vscode.Uri.file(path.join(parentDir, docBaseName))
-        : vscode.Uri.file(parentDir);
+      const baseFolderUri = needsRelocate ? vscode.Uri.joinPath(parentDir, docBaseName) : parentDir;
 
       if (needsRelocate) {
         try {
           const folderStat = await withTimeout('stat-base-folder', this.safeStat(baseFolderUri), fsTimeoutMs);
           if (folderStat && folderStat.type !== vscode.FileType.Directory) {
             fail('Target folder exists and is not a directory', 'NESTED_PAGE_FOLDER_INVALID', {
-              folderPath: baseFolderUri.fsPath,
+              folderPath: baseFolderUri.toString(),
             });
             return;
           }
@@ -1297,7 +2078,7 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
           }
         } catch (error) {
           fail('Failed to create target folder', 'NESTED_PAGE_FOLDER_CREATE_FAILED', {
-            folderPath: baseFolderUri.fsPath,
+            folderPath: baseFolderUri.toString(),
             error: String(error),
           });
           return;
@@ -1318,18 +2099,18 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
           return;
         }
 
-        const relocatedDocUri = vscode.Uri.file(path.join(baseFolderUri.fsPath, `${docBaseName}${docExt}`));
+        const relocatedDocUri = vscode.Uri.joinPath(baseFolderUri, `${docBaseName}${docExt}`);
         try {
           const existingDoc = await withTimeout('stat-move-target', this.safeStat(relocatedDocUri), fsTimeoutMs);
           if (existingDoc) {
             fail('Target document already exists', 'NESTED_PAGE_DOC_MOVE_TARGET_EXISTS', {
-              filePath: relocatedDocUri.fsPath,
+              filePath: relocatedDocUri.toString(),
             });
             return;
           }
         } catch (error) {
           fail('Failed to stat target document', 'NESTED_PAGE_DOC_MOVE_TARGET_STAT_FAILED', {
-            filePath: relocatedDocUri.fsPath,
+            filePath: relocatedDocUri.toString(),
             error: String(error),
           });
           return;
@@ -1346,21 +2127,21 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
             docUri,
             details: {
               requestId,
-              from: document.uri.fsPath,
-              to: relocatedDocUri.fsPath,
+              from: document.uri.toString(),
+              to: relocatedDocUri.toString(),
             },
           });
         } catch (error) {
           fail('Failed to move document into folder', 'NESTED_PAGE_DOC_MOVE_FAILED', {
-            from: document.uri.fsPath,
-            to: relocatedDocUri.fsPath,
+            from: document.uri.toString(),
+            to: relocatedDocUri.toString(),
             error: String(error),
           });
           return;
         }
       }
 
-      const childrenFolderUri = vscode.Uri.file(path.join(baseFolderUri.fsPath, '_children'));
+      const childrenFolderUri = vscode.Uri.joinPath(baseFolderUri, '_children');
       try {
         const childrenStat = await withTimeout(
           'stat-children-folder',
@@ -1369,7 +2150,7 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
         );
         if (childrenStat && childrenStat.type !== vscode.FileType.Directory) {
           fail('Children folder exists and is not a directory', 'NESTED_PAGE_CHILDREN_FOLDER_INVALID', {
-            folderPath: childrenFolderUri.fsPath,
+            folderPath: childrenFolderUri.toString(),
           });
           return;
         }
@@ -1382,7 +2163,7 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
         }
       } catch (error) {
         fail('Failed to create children folder', 'NESTED_PAGE_CHILDREN_FOLDER_CREATE_FAILED', {
-          folderPath: childrenFolderUri.fsPath,
+          folderPath: childrenFolderUri.toString(),
           error: String(error),
         });
         return;
@@ -1396,13 +2177,13 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
         const existing = await withTimeout('stat-file', this.safeStat(targetFileUri), fsTimeoutMs);
         if (existing) {
           fail('Target file already exists', 'NESTED_PAGE_FILE_EXISTS', {
-            filePath: targetFileUri.fsPath,
+            filePath: targetFileUri.toString(),
           });
           return;
         }
       } catch (error) {
         fail('Failed to stat target file', 'NESTED_PAGE_FILE_STAT_FAILED', {
-          filePath: targetFileUri.fsPath,
+          filePath: targetFileUri.toString(),
           error: String(error),
         });
         return;
@@ -1422,15 +2203,13 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
           });
         }
         fail('Failed to create nested page file', 'NESTED_PAGE_FILE_CREATE_FAILED', {
-          filePath: targetFileUri.fsPath,
+          filePath: targetFileUri.toString(),
           error: String(error),
         });
         return;
       }
 
-      const relativePath = path
-        .relative(baseFolderUri.fsPath, targetFileUri.fsPath)
-        .replace(/\\/g, '/');
+      const relativePath = relativeUriPath(baseFolderUri, targetFileUri) ?? `_children/${fileName}`;
 
       const delivered = postToRequestingPanel(
         'nestedPageCreated',
@@ -1450,7 +2229,7 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
             docUri,
             details: {
               requestId,
-              path: targetFileUri.fsPath,
+              path: targetFileUri.toString(),
               reason: 'panel-unavailable',
             },
           });
@@ -1460,7 +2239,7 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
             docUri,
             errorCode: 'NESTED_PAGE_OPEN_FAILED',
             errorStack: String(error),
-            details: { requestId, path: targetFileUri.fsPath },
+            details: { requestId, path: targetFileUri.toString() },
           });
         }
       }
@@ -1473,7 +2252,7 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
           title: displayTitle,
           path: relativePath,
           moved: needsRelocate,
-          baseFolder: baseFolderUri.fsPath,
+          baseFolder: baseFolderUri.toString(),
           durationMs: Date.now() - startedAt,
         },
       });
@@ -1504,9 +2283,10 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       return;
     }
 
-    if (document.uri.scheme !== 'file') {
-      vscode.window.showErrorMessage('Only file-based documents are supported.');
-      logger.error('Nested page open failed: unsupported scheme', {
+    const baseDir = documentBaseDirectory(document.uri);
+    if (!baseDir) {
+      vscode.window.showErrorMessage('Save the document before opening nested pages.');
+      logger.error('Nested page open failed: no base folder', {
         clientId,
         docUri,
         details: { scheme: document.uri.scheme },
@@ -1514,9 +2294,17 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       return;
     }
 
-    const baseDir = path.dirname(document.uri.fsPath);
-    const targetPath = path.resolve(baseDir, relativePath);
-    const targetUri = vscode.Uri.file(targetPath);
+    // `child.md#L40` 形式の fragment は NavigationTarget として引き渡す
+    const hashIndex = relativePath.indexOf('#');
+    const pathPart = hashIndex >= 0 ? relativePath.slice(0, hashIndex) : relativePath;
+    const fragmentRange = hashIndex >= 0 ? parseLineFragment(relativePath.slice(hashIndex + 1)) : null;
+
+    // '/' 始まりは document と同じ scheme / authority の絶対パスとして扱う（path.resolve と同じ）
+    const normalizedPath = pathPart.replace(/\\/g, '/');
+    const targetUri = normalizedPath.startsWith('/')
+      ? baseDir.with({ path: normalizedPath })
+      : vscode.Uri.joinPath(baseDir, normalizedPath);
+    const targetPath = targetUri.toString();
 
     const exists = await this.safeStat(targetUri);
     if (!exists || exists.type !== vscode.FileType.File) {
@@ -1532,10 +2320,19 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     try {
       const viewColumn =
         vscode.window.activeTextEditor?.viewColumn ?? vscode.window.tabGroups.activeTabGroup.viewColumn;
-      await vscode.commands.executeCommand('vscode.openWith', targetUri, InlineMarkProvider.viewType, {
-        viewColumn,
-        preview: false,
-      });
+      if (fragmentRange) {
+        await this.revealNavigationTarget(
+          targetUri,
+          fragmentRange,
+          { revealType: 'centerIfOutsideViewport', source: 'code.navigation', reason: 'fragment' },
+          viewColumn
+        );
+      } else {
+        await vscode.commands.executeCommand('vscode.openWith', targetUri, InlineMarkProvider.viewType, {
+          viewColumn,
+          preview: false,
+        });
+      }
       logger.info('Nested page opened', {
         clientId,
         docUri,
@@ -1601,7 +2398,17 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     const selected = actions.find((a) => a.label === picked)?.remediation;
     if (!selected) {return;}
 
-    switch (selected) {
+    await this.runRemediation(document, state, panel, clientId, selected);
+  }
+
+  private async runRemediation(
+    document: vscode.TextDocument,
+    state: DocumentState,
+    panel: WebviewPanel,
+    clientId: string,
+    remediation: string
+  ): Promise<void> {
+    switch (remediation) {
       case 'resync':
         // Destructive action → confirm in extension UI.
         await this.handleRequestResyncWithConfirm(document, state, panel, clientId);
@@ -1621,6 +2428,69 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     }
   }
 
+  /**
+   * 開いた直後の round-trip 検査の結果。ログには毎回残し、通知は document version ごとに 1 回だけ出す。
+   */
+  private async handleFidelityReport(
+    document: vscode.TextDocument,
+    state: DocumentState,
+    clientId: string,
+    msg: WebviewToExtensionMessage & { type: 'fidelityReport' }
+  ): Promise<void> {
+    const { lossyBlocks, protectedBlocks } = msg;
+    logger.warn('Round-trip fidelity: lossy blocks detected', {
+      clientId,
+      docUri: document.uri.toString(),
+      docVersion: document.version,
+      errorCode: 'ROUND_TRIP_LOSSY',
+      details: {
+        protectedBlocks,
+        blocks: lossyBlocks.map((block) => ({
+          lines: `${block.startLine}-${block.endLine}`,
+          nodeTypes: block.nodeTypes,
+          changedChars: block.changedChars,
+        })),
+      },
+    });
+
+    if (lossyBlocks.length === 0 || state.fidelityNotifiedVersion === document.version) {
+      return;
+    }
+    if (!vscode.workspace.getConfiguration('inlineMark.fidelity').get<boolean>('notifyOnOpen', true)) {
+      return;
+    }
+    state.fidelityNotifiedVersion = document.version;
+
+    const lines = this.formatLossyBlockLines(lossyBlocks);
+    const message = protectedBlocks
+      ? vscode.l10n.t(
+          '{0} block(s) in {1} cannot be round-tripped exactly and are shown as Markdown source to keep them unchanged (lines {2}).',
+          lossyBlocks.length,
+          uriBasename(document.uri),
+          lines
+        )
+      : vscode.l10n.t(
+          '{0} block(s) in {1} cannot be round-tripped exactly; editing them will reformat their Markdown (lines {2}).',
+          lossyBlocks.length,
+          uriBasename(document.uri),
+          lines
+        );
+    const showLogButton = vscode.l10n.t('Show Log');
+    const picked = await vscode.window.showWarningMessage(message, showLogButton);
+    if (picked === showLogButton) {
+      logger.show();
+    }
+  }
+
+  /** 例: "3-5, 12, 20-24"（多い場合は先頭 FIDELITY_NOTIFY_MAX_BLOCKS 件 + 残り件数） */
+  private formatLossyBlockLines(lossyBlocks: LossyBlock[]): string {
+    const ranges = lossyBlocks
+      .slice(0, FIDELITY_NOTIFY_MAX_BLOCKS)
+      .map((block) => (block.startLine === block.endLine ? `${block.startLine}` : `${block.startLine}-${block.endLine}`));
+    const rest = lossyBlocks.length - ranges.length;
+    return rest > 0 ? `${ranges.join(', ')}, +${rest}` : ranges.join(', ');
+  }
+
   private onDidChangeTextDocument(e: vscode.TextDocumentChangeEvent): void {
     const docKey = e.document.uri.toString();
     const state = this.documentStates.get(docKey);
@@ -1628,20 +2498,52 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     if (!state) {return;}
 
     const changes = contentChangeEventsToReplaces(e.document, e.contentChanges);
+    if (changes.length > 0) {
+      state.replaceHistory.record(e.document.version, changes);
+    }
 
     const selfClientId = state.selfChangeVersions.get(e.document.version);
     if (selfClientId) {
       state.selfChangeVersions.delete(e.document.version);
     }
 
+    // 改行コードの切り替えは全行の変更になるため、差分ではなく全文で送り直す
+    const eol = toDocumentEol(e.document.eol);
+    const eolChanged = eol !== state.eol;
+    state.eol = eol;
+    if (eolChanged) {
+      logger.info('Document EOL changed; sending full content', {
+        sessionId: state.sessionId,
+        docUri: docKey,
+        docVersion: e.document.version,
+        details: { eol },
+      });
+    }
+
+    // undo / redo は要求したパネルにも反映させる（Webview 側に履歴は無い）。選択は変わった範囲に置き直される
+    const historyReason =
+      e.reason === vscode.TextDocumentChangeReason.Undo
+        ? 'undo'
+        : e.reason === vscode.TextDocumentChangeReason.Redo
+          ? 'redo'
+          : null;
+
     for (const [, panel] of state.panels) {
       if (panel.ready) {
-        const reason = panel.clientId === selfClientId ? 'self' : 'external';
+        const reason = historyReason ?? (panel.clientId === selfClientId && !eolChanged ? 'self' : 'external');
+        // 別のパネルの編集は peerCursors を合意したパネルで変わったブロックを強調表示する
+        const peerId =
+          selfClientId && panel.clientId !== selfClientId && panel.capabilities.includes('peerCursors')
+            ? selfClientId
+            : undefined;
         const docChangedMessage = createDocChangedMessage(
           e.document.version,
           reason,
-          changes,
-          state.sessionId
+          eolChanged ? [] : changes,
+          state.sessionId,
+          eol,
+          eolChanged ? e.document.getText() : undefined,
+          peerId
         );
         panel.panel.webview.postMessage(docChangedMessage);
       }
@@ -1652,8 +2554,10 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       docUri: docKey,
       docVersion: e.document.version,
       changesCount: changes.length,
-      details: { panelCount: state.panels.size, selfClientId: selfClientId ?? null },
+      details: { panelCount: state.panels.size, selfClientId: selfClientId ?? null, historyReason },
     });
+
+    this.scheduleQuickDiff(e.document, state);
   }
 
   private async handleConfigurationChange(e: vscode.ConfigurationChangeEvent): Promise<void> {
@@ -1663,10 +2567,15 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     const affectsDebug = e.affectsConfiguration('inlineMark.debug');
     const affectsEditorWrap = e.affectsConfiguration('editor.wordWrap', { languageId: 'markdown' });
     const affectsWebviewOption = e.affectsConfiguration('inlineMark.webview.retainContextWhenHidden');
+    const affectsFormat =
+      e.affectsConfiguration('inlineMark.format') ||
+      e.affectsConfiguration('files.insertFinalNewline') ||
+      e.affectsConfiguration('files.trimTrailingWhitespace');
 
     const affectsAny =
       affectsSync ||
       affectsView ||
+      affectsFormat ||
       affectsSecurity ||
       affectsDebug ||
       affectsEditorWrap ||
@@ -1681,6 +2590,7 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       details: {
         sync: affectsSync,
         view: affectsView,
+        format: affectsFormat,
         security: affectsSecurity,
         debug: affectsDebug,
         editorWordWrap: affectsEditorWrap,
@@ -1702,6 +2612,11 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     const config = this.getWebviewConfig();
     this.currentConfig = config;
     logger.setDebugEnabled(this.currentConfig.debug.enabled);
+    if (affectsFormat) {
+      for (const state of this.documentStates.values()) {
+        await this.refreshMarkdownFormat(state);
+      }
+    }
     const requiresWebviewReload =
       e.affectsConfiguration('inlineMark.security.allowRemoteImages') ||
       e.affectsConfiguration('inlineMark.security.allowInsecureRemoteImages');
@@ -1742,7 +2657,7 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
 
         try {
           const delivered = await panel.panel.webview.postMessage(
-            createConfigChangedMessage(config, state.sessionId)
+            createConfigChangedMessage(this.getDocumentConfig(state), state.sessionId)
           );
           if (delivered) {
             notifiedPanels++;
@@ -1759,6 +2674,17 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
       }
     }
 
+    if (e.affectsConfiguration('inlineMark.view.quickDiff')) {
+      for (const state of this.documentStates.values()) {
+        const document = vscode.workspace.textDocuments.find(
+          (candidate) => candidate.uri.toString() === state.uri.toString()
+        );
+        if (document) {
+          await this.sendQuickDiff(document, state);
+        }
+      }
+    }
+
     logger.info('Configuration change applied', {
       details: {
         notifiedPanels,
@@ -1769,6 +2695,60 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     });
   }
 
+  /**
+   * document 向けの WebviewConfig（書き方だけ document ごとに解決した値を使う）
+   */
+  private getDocumentConfig(state: DocumentState): WebviewConfig {
+    return { ...this.currentConfig, format: state.markdownFormat ?? this.currentConfig.format };
+  }
+
+  /**
+   * 設定と .editorconfig / .markdownlint.json(c) から document の書き方を解決し直す。
+   * 変わった場合は true。
+   */
+  private async refreshMarkdownFormat(state: DocumentState): Promise<boolean> {
+    const docUri = state.uri.toString();
+    try {
+      const { format, sources, files } = await resolveMarkdownFormat(state.uri);
+      const changed = JSON.stringify(format) !== JSON.stringify(state.markdownFormat);
+      state.markdownFormat = format;
+      if (changed) {
+        logger.info('Markdown format resolved', { docUri, details: { format, sources, files } });
+      }
+      return changed;
+    } catch (error) {
+      logger.warn('Markdown format resolve failed; using settings only', {
+        docUri,
+        details: { error: String(error) },
+      });
+      return false;
+    }
+  }
+
+  private async handleMarkdownFormatFileChange(fileUri: vscode.Uri): Promise<void> {
+    logger.debug('Markdown format file changed', { details: { file: fileUri.toString() } });
+    for (const state of this.documentStates.values()) {
+      if (!(await this.refreshMarkdownFormat(state))) {
+        continue;
+      }
+      const config = this.getDocumentConfig(state);
+      for (const [, panel] of state.panels) {
+        if (!panel.ready) {
+          continue;
+        }
+        try {
+          await panel.panel.webview.postMessage(createConfigChangedMessage(config, state.sessionId));
+        } catch (error) {
+          logger.error('Failed to send configChanged to webview', {
+            clientId: panel.clientId,
+            errorCode: 'CONFIG_CHANGED_FAILED',
+            errorStack: String(error),
+          });
+        }
+      }
+    }
+  }
+
   private getWebviewConfig(): WebviewConfig {
     const syncConfig = vscode.workspace.getConfiguration('inlineMark.sync');
     const securityConfig = vscode.workspace.getConfiguration('inlineMark.security');
@@ -1801,6 +2781,12 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
         fullWidth: viewConfig.get<boolean>('fullWidth', true),
         noWrap: resolvedNoWrap,
       },
+      fidelity: {
+        protectLossyBlocks: vscode.workspace
+          .getConfiguration('inlineMark.fidelity')
+          .get<boolean>('protectLossyBlocks', false),
+      },
+      format: resolveMarkdownFormatFromSettings(),
       preview: {
         html: {
           allowScripts: previewHtmlConfig.get<boolean>('allowScripts', false),
@@ -1833,12 +2819,12 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
 
     try {
       const content = await vscode.workspace.fs.readFile(bundlePath);
-      return JSON.parse(Buffer.from(content).toString('utf-8'));
+      return JSON.parse(new TextDecoder('utf-8').decode(content));
     } catch {
       const defaultBundlePath = vscode.Uri.joinPath(this.extensionUri, 'l10n', 'bundle.l10n.json');
       try {
         const content = await vscode.workspace.fs.readFile(defaultBundlePath);
-        return JSON.parse(Buffer.from(content).toString('utf-8'));
+        return JSON.parse(new TextDecoder('utf-8').decode(content));
       } catch {
         return {};
       }
@@ -1924,17 +2910,6 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     }
   }
 
-  private async showUntrustedWorkspaceError(webviewPanel: vscode.WebviewPanel, sessionId?: string): Promise<void> {
-    const errorMessage = createErrorMessage(
-      'WORKSPACE_UNTRUSTED',
-      vscode.l10n.t('Workspace is not trusted. Please trust the workspace to use this editor.'),
-      ['trustWorkspace', 'reopenWithTextEditor'],
-      sessionId
-    );
-
-    webviewPanel.webview.html = this.getErrorHtml(errorMessage.message);
-  }
-
   private async showSettingsNotConfiguredError(webviewPanel: vscode.WebviewPanel, sessionId?: string): Promise<void> {
     const errorMessage = createErrorMessage(
       'SETTINGS_NOT_CONFIGURED',
@@ -2028,18 +3003,23 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
 
     for (const [, panel] of state.panels) {
       panel.ready = false;
-      const config = this.getWebviewConfig();
+      const config = this.getDocumentConfig(state);
       const locale = vscode.env.language;
       const i18n = await this.loadI18nBundle(locale);
 
       const initMessage = createInitMessage(
         document.version,
         document.getText(),
+        toDocumentEol(document.eol),
         state.sessionId,
         panel.clientId,
         locale,
         i18n,
-        config
+        config,
+        false,
+        undefined,
+        panel.capabilities,
+        panel.capabilities.includes('readOnly') ? state.readOnly : undefined
       );
 
       await panel.panel.webview.postMessage(initMessage);
@@ -2089,7 +3069,231 @@ export class InlineMarkProvider implements vscode.CustomTextEditorProvider {
     }
   }
 
+  /**
+   * NavigationTarget を捕捉する（Webview への送信は initAck 後）
+   * 既に init 済みのパネルがある場合はその場で送信する。
+   */
+  public captureNavigationTarget(
+    uri: vscode.Uri,
+    range: vscode.Range,
+    options: NavigationTargetOptions
+  ): void {
+    this.navigationTargets.capture(uri, range, options);
+  }
+
+  /**
+   * 指定 range を inlineMark で選択・表示する
+   * - 開いているパネルがあれば即時送信して前面に出す
+   * - 無ければ捕捉した上で inlineMark として開く（initAck 後に送信）
+   */
+  public async revealNavigationTarget(
+    uri: vscode.Uri,
+    range: vscode.Range,
+    options: NavigationTargetOptions,
+    viewColumn?: vscode.ViewColumn
+  ): Promise<void> {
+    const docKey = uri.toString();
+    this.navigationTargets.capture(uri, range, options);
+
+    const state = this.documentStates.get(docKey);
+    const panels = state ? Array.from(state.panels.values()) : [];
+    const initialized = panels.filter((panel) => panel.initAckReceived);
+    const target = initialized.find((panel) => panel.panel.active) ?? initialized[0];
+
+    if (state && target) {
+      const document = await vscode.workspace.openTextDocument(uri);
+      target.panel.reveal(target.panel.viewColumn, false);
+      await this.deliverNavigationTarget(document, state, target);
+      return;
+    }
+
+    if (panels.length > 0) {
+      // init 完了待ち: initAck 受信時に送信される
+      panels[0].panel.reveal(panels[0].panel.viewColumn, false);
+      return;
+    }
+
+    await vscode.commands.executeCommand('vscode.openWith', uri, InlineMarkProvider.viewType, {
+      viewColumn: viewColumn ?? vscode.window.tabGroups.activeTabGroup.viewColumn,
+      preview: false,
+    });
+  }
+
+  private async deliverNavigationTarget(
+    document: vscode.TextDocument,
+    state: DocumentState,
+    panel: WebviewPanel
+  ): Promise<void> {
+    const docKey = document.uri.toString();
+    const pending = this.navigationTargets.take(docKey);
+    if (!pending) {
+      return;
+    }
+
+    const target = toNavigationTarget(pending, document);
+    try {
+      const delivered = await panel.panel.webview.postMessage(
+        createNavigateMessage(target, document.version, state.sessionId)
+      );
+      logger.info('Navigation target sent', {
+        sessionId: state.sessionId,
+        clientId: panel.clientId,
+        docUri: docKey,
+        docVersion: document.version,
+        details: { seq: target.seq, delivered, range: target.range, revealType: target.revealType },
+      });
+    } catch (error) {
+      logger.error('Navigation target send failed', {
+        sessionId: state.sessionId,
+        clientId: panel.clientId,
+        docUri: docKey,
+        docVersion: document.version,
+        errorCode: 'NAVIGATION_TARGET_SEND_FAILED',
+        errorStack: String(error),
+        details: { seq: target.seq },
+      });
+    }
+  }
+
+  /** これ未満の変更文字数では ChangeGuard を判定しない（短い文書への通常入力で変更率が跳ねるため） */
+  private getChangeGuardMinChangedChars(): number {
+    const value = vscode.workspace.getConfiguration('inlineMark.sync').get<number>('changeGuard.minChangedChars', 100);
+    return Number.isFinite(value) ? Math.max(0, value) : 100;
+  }
+
+  private isQuickDiffEnabled(): boolean {
+    return vscode.workspace.getConfiguration('inlineMark.view').get<boolean>('quickDiff', true);
+  }
+
+  private watchQuickDiffHead(document: vscode.TextDocument, state: DocumentState): void {
+    void watchRepositoryHead(document.uri, () => {
+      logger.info('Quick diff base changed', {
+        sessionId: state.sessionId,
+        docUri: document.uri.toString(),
+        details: { baseRef: QUICK_DIFF_BASE_REF },
+      });
+      state.quickDiff.originalText = undefined;
+      void this.sendQuickDiff(document, state);
+    }).then((watcher) => {
+      if (!watcher) {
+        return;
+      }
+      if (this.documentStates.get(document.uri.toString()) !== state) {
+        watcher.dispose();
+        return;
+      }
+      state.quickDiff.headWatcher = watcher;
+    });
+  }
+
+  private disposeQuickDiff(state: DocumentState): void {
+    if (state.quickDiff.refreshTimer) {
+      clearTimeout(state.quickDiff.refreshTimer);
+      state.quickDiff.refreshTimer = null;
+    }
+    state.quickDiff.headWatcher?.dispose();
+    state.quickDiff.headWatcher = null;
+  }
+
+  private async ensureQuickDiffOriginal(document: vscode.TextDocument, state: DocumentState): Promise<void> {
+    if (state.quickDiff.originalText !== undefined) {
+      return;
+    }
+    if (!state.quickDiff.originalRequest) {
+      const startedAt = Date.now();
+      state.quickDiff.originalRequest = resolveOriginalText(document.uri)
+        .then((resolution) => {
+          state.quickDiff.originalText = resolution.text;
+          logger.info('Quick diff original resolved', {
+            sessionId: state.sessionId,
+            docUri: document.uri.toString(),
+            details: {
+              baseRef: QUICK_DIFF_BASE_REF,
+              source: resolution.source,
+              available: resolution.text !== null,
+              originalLength: resolution.text?.length ?? null,
+              reason: resolution.reason ?? null,
+              durationMs: Date.now() - startedAt,
+            },
+          });
+        })
+        .finally(() => {
+          state.quickDiff.originalRequest = null;
+        });
+    }
+    await state.quickDiff.originalRequest;
+  }
+
+  private scheduleQuickDiff(document: vscode.TextDocument, state: DocumentState): void {
+    if (state.quickDiff.refreshTimer) {
+      clearTimeout(state.quickDiff.refreshTimer);
+    }
+    state.quickDiff.refreshTimer = setTimeout(() => {
+      state.quickDiff.refreshTimer = null;
+      void this.sendQuickDiff(document, state);
+    }, QUICK_DIFF_DEBOUNCE_MS);
+  }
+
+  /**
+   * quick diff を算出して送信する。target 省略時は initAck 済みの全パネルへ送る。
+   */
+  private async sendQuickDiff(
+    document: vscode.TextDocument,
+    state: DocumentState,
+    target?: WebviewPanel
+  ): Promise<void> {
+    const docKey = document.uri.toString();
+    const enabled = this.isQuickDiffEnabled();
+    if (enabled) {
+      await this.ensureQuickDiffOriginal(document, state);
+    }
+
+    const startedAt = Date.now();
+    const originalText = enabled ? state.quickDiff.originalText : null;
+    const available = typeof originalText === 'string';
+    const hunks = available ? computeQuickDiffHunks(originalText, document.getText()) : [];
+    const message = createQuickDiffMessage(document.version, QUICK_DIFF_BASE_REF, available, hunks, state.sessionId);
+
+    const panels = target ? [target] : Array.from(state.panels.values());
+    let delivered = 0;
+    for (const panel of panels) {
+      if (!panel.initAckReceived || !panel.capabilities.includes('quickDiff')) {
+        continue;
+      }
+      try {
+        if (await panel.panel.webview.postMessage(message)) {
+          delivered += 1;
+        }
+      } catch (error) {
+        logger.error('Quick diff send failed', {
+          sessionId: state.sessionId,
+          clientId: panel.clientId,
+          docUri: docKey,
+          docVersion: document.version,
+          errorCode: 'QUICK_DIFF_SEND_FAILED',
+          errorStack: String(error),
+        });
+      }
+    }
+
+    logger.debug('Quick diff sent', {
+      sessionId: state.sessionId,
+      docUri: docKey,
+      docVersion: document.version,
+      details: {
+        enabled,
+        available,
+        hunkCount: hunks.length,
+        delivered,
+        durationMs: Date.now() - startedAt,
+      },
+    });
+  }
+
   dispose(): void {
+    for (const state of this.documentStates.values()) {
+      this.disposeQuickDiff(state);
+    }
     for (const disposable of this.disposables) {
       disposable.dispose();
     }
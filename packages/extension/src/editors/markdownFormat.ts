@@ -0,0 +1,312 @@
+/**
+ * 役割: serialize 時の Markdown の書き方（MarkdownFormat）の解決
+ * 責務: 設定 inlineMark.format.* と、ワークスペースの .markdownlint.json(c) / .editorconfig から document ごとの書き方を決める
+ * 不変条件: 読めない/解釈できないファイルは無視して次の候補に進む（書き方の解決で editor を止めない）
+ *
+ * 優先順（項目ごと）:
+ * 1. 明示的に設定された inlineMark.format.*（ユーザー / ワークスペース / フォルダ）
+ * 2. 対象ファイルに最も近い .markdownlint.json / .markdownlint.jsonc
+ *    - MD004 (ul-style): dash / asterisk / plus → bulletMarker
+ *    - MD049 (emphasis-style), MD050 (strong-style): asterisk / underscore
+ *    - MD048 (code-fence-style): backtick / tilde → codeFenceChar
+ *    - MD029 (ol-prefix): one → "one"、ordered → "increment"
+ *    - MD009 (no-trailing-spaces): br_spaces < 2 → hardBreak "backslash"（行末の空白で改行できない）
+ *    - consistent など特定の記号を決めない値と、無効化されたルールは使わない
+ * 3. .editorconfig: trim_trailing_whitespace / insert_final_newline（trim_trailing_whitespace = true → hardBreak "backslash"）
+ * 4. files.trimTrailingWhitespace / files.insertFinalNewline（markdown 言語の設定。trimTrailingWhitespace = true → hardBreak "backslash"）
+ * 5. 既定値（@tiptap/markdown の出力と同じ）
+ *
+ * 探索範囲: 対象ファイルのディレクトリからワークスペースフォルダのルートまで（フォルダ外のファイルはそのディレクトリのみ）
+ */
+
+import * as vscode from 'vscode';
+import { validateDefinition, type MarkdownFormat } from '../protocol/messages.js';
+import {
+  parseEditorConfig,
+  resolveEditorConfigProperties,
+  type EditorConfigSource,
+} from '../util/editorConfig.js';
+import { logger } from '../util/log.js';
+import { uriDirname } from '../util/uriPaths.js';
+
+export const DEFAULT_MARKDOWN_FORMAT: MarkdownFormat = {
+  bulletMarker: '-',
+  emphasisMarker: '*',
+  strongMarker: '**',
+  codeFenceChar: '`',
+  codeFenceLength: 3,
+  orderedListNumbering: 'increment',
+  hardBreak: 'spaces',
+  insertFinalNewline: false,
+  trimTrailingWhitespace: false,
+};
+
+export const MARKDOWN_FORMAT_FILE_GLOB = '**/{.editorconfig,.markdownlint.json,.markdownlint.jsonc}';
+
+const MARKDOWNLINT_FILE_NAMES = ['.markdownlint.jsonc', '.markdownlint.json'];
+const MIN_CODE_FENCE_LENGTH = 3;
+const MAX_CODE_FENCE_LENGTH = 16;
+
+export type MarkdownFormatSource = 'setting' | 'markdownlint' | 'editorconfig' | 'files';
+
+export interface MarkdownFormatResolution {
+  format: MarkdownFormat;
+  /** 既定値以外から決まった項目とその出所（files は値が既定値と同じでも記録する） */
+  sources: Partial<Record<keyof MarkdownFormat, MarkdownFormatSource>>;
+  /** 参照したファイル（ログ用） */
+  files: string[];
+}
+
+type MarkdownlintRules = Record<string, unknown>;
+
+/** JSONC のコメントと末尾のカンマを取り除く（文字列内は変更しない） */
+export function stripJsonComments(text: string): string {
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += text[i + 1] ?? '';
+        i += 1;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end - 1;
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      result += char;
+    }
+  }
+  return result.replace(/,(\s*[}\]])/g, '$1');
+}
+
+const getRule = (rules: MarkdownlintRules, id: string, alias: string): Record<string, unknown> | null => {
+  const value = rules[id] ?? rules[alias] ?? (rules.default === false ? false : undefined);
+  if (value === undefined || value === false) {
+    return null;
+  }
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+};
+
+const getRuleStyle = (rules: MarkdownlintRules, id: string, alias: string): string | null => {
+  const style = getRule(rules, id, alias)?.style;
+  return typeof style === 'string' ? style : null;
+};
+
+export function formatFromMarkdownlint(rules: MarkdownlintRules): Partial<MarkdownFormat> {
+  const format: Partial<MarkdownFormat> = {};
+
+  const bullet = { dash: '-', asterisk: '*', plus: '+' } as const;
+  const ulStyle = getRuleStyle(rules, 'MD004', 'ul-style');
+  if (ulStyle && ulStyle in bullet) {
+    format.bulletMarker = bullet[ulStyle as keyof typeof bullet];
+  }
+
+  const emphasisStyle = getRuleStyle(rules, 'MD049', 'emphasis-style');
+  if (emphasisStyle === 'asterisk' || emphasisStyle === 'underscore') {
+    format.emphasisMarker = emphasisStyle === 'asterisk' ? '*' : '_';
+  }
+
+  const strongStyle = getRuleStyle(rules, 'MD050', 'strong-style');
+  if (strongStyle === 'asterisk' || strongStyle === 'underscore') {
+    format.strongMarker = strongStyle === 'asterisk' ? '**' : '__';
+  }
+
+  const fenceStyle = getRuleStyle(rules, 'MD048', 'code-fence-style');
+  if (fenceStyle === 'backtick' || fenceStyle === 'tilde') {
+    format.codeFenceChar = fenceStyle === 'backtick' ? '`' : '~';
+  }
+
+  const olStyle = getRuleStyle(rules, 'MD029', 'ol-prefix');
+  if (olStyle === 'one' || olStyle === 'ordered') {
+    format.orderedListNumbering = olStyle === 'one' ? 'one' : 'increment';
+  }
+
+  const brSpaces = getRule(rules, 'MD009', 'no-trailing-spaces')?.br_spaces;
+  if (typeof brSpaces === 'number' && brSpaces < 2) {
+    format.hardBreak = 'backslash';
+  }
+
+  return format;
+}
+
+/** 行末の空白が消される場合は、空白 2 つの改行が消えないように backslash にする */
+const formatFromWhitespaceRules = (
+  trimTrailingWhitespace: boolean | undefined,
+  insertFinalNewline: boolean | undefined
+): Partial<MarkdownFormat> => {
+  const format: Partial<MarkdownFormat> = {};
+  if (trimTrailingWhitespace !== undefined) {
+    format.trimTrailingWhitespace = trimTrailingWhitespace;
+    if (trimTrailingWhitespace) {
+      format.hardBreak = 'backslash';
+    }
+  }
+  if (insertFinalNewline !== undefined) {
+    format.insertFinalNewline = insertFinalNewline;
+  }
+  return format;
+};
+
+const parseEditorConfigBoolean = (value: string | undefined): boolean | undefined =>
+  value === 'true' ? true : value === 'false' ? false : undefined;
+
+export function formatFromEditorConfig(properties: Record<string, string>): Partial<MarkdownFormat> {
+  return formatFromWhitespaceRules(
+    parseEditorConfigBoolean(properties.trim_trailing_whitespace),
+    parseEditorConfigBoolean(properties.insert_final_newline)
+  );
+}
+
+/** markdown 言語の files.trimTrailingWhitespace / files.insertFinalNewline */
+function readFilesSettings(scope: vscode.Uri | undefined): Partial<MarkdownFormat> {
+  const config = vscode.workspace.getConfiguration('files', { uri: scope, languageId: 'markdown' });
+  return formatFromWhitespaceRules(
+    config.get<boolean>('trimTrailingWhitespace', false),
+    config.get<boolean>('insertFinalNewline', false)
+  );
+}
+
+/** 明示的に設定された inlineMark.format.* のみを返す（既定値は含めない） */
+function readFormatSettings(scope: vscode.Uri | undefined): Partial<MarkdownFormat> {
+  const config = vscode.workspace.getConfiguration('inlineMark.format', scope);
+  const explicit = <K extends keyof MarkdownFormat>(key: K): MarkdownFormat[K] | undefined => {
+    const inspected = config.inspect<MarkdownFormat[K]>(key);
+    return inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue;
+  };
+
+  const format: Partial<MarkdownFormat> = {};
+  const keys: (keyof MarkdownFormat)[] = [
+    'bulletMarker',
+    'emphasisMarker',
+    'strongMarker',
+    'codeFenceChar',
+    'codeFenceLength',
+    'orderedListNumbering',
+    'hardBreak',
+  ];
+  for (const key of keys) {
+    const value = explicit(key);
+    if (value !== undefined) {
+      (format as Record<string, unknown>)[key] = value;
+    }
+  }
+  if (format.codeFenceLength !== undefined) {
+    const length = Number(format.codeFenceLength);
+    format.codeFenceLength = Number.isFinite(length)
+      ? Math.min(MAX_CODE_FENCE_LENGTH, Math.max(MIN_CODE_FENCE_LENGTH, Math.round(length)))
+      : DEFAULT_MARKDOWN_FORMAT.codeFenceLength;
+  }
+  // 列挙外の値（settings.json の手書きなど）は Webview の init の検証で弾かれるため使わない
+  for (const key of Object.keys(format) as (keyof MarkdownFormat)[]) {
+    const error = validateDefinition('MarkdownFormat', { ...DEFAULT_MARKDOWN_FORMAT, [key]: format[key] });
+    if (error) {
+      logger.warn('Ignoring invalid markdown format setting', { details: { key, error } });
+      delete format[key];
+    }
+  }
+  return format;
+}
+
+/** 対象ファイルのディレクトリからワークスペースフォルダのルートまで（近い順） */
+function getSearchDirectories(uri: vscode.Uri): vscode.Uri[] {
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  const directories: vscode.Uri[] = [];
+  let current = uriDirname(uri);
+  for (;;) {
+    directories.push(current);
+    if (!folder || current.path === folder.uri.path || !current.path.startsWith(folder.uri.path)) {
+      break;
+    }
+    const parent = uriDirname(current);
+    if (parent.path === current.path) {
+      break;
+    }
+    current = parent;
+  }
+  return directories;
+}
+
+async function readTextFile(uri: vscode.Uri): Promise<string | null> {
+  try {
+    const content = await vscode.workspace.fs.readFile(uri);
+    return new TextDecoder('utf-8').decode(content);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 設定のみから解決する（document に依存しない既定の書き方）
+ */
+export function resolveMarkdownFormatFromSettings(): MarkdownFormat {
+  return { ...DEFAULT_MARKDOWN_FORMAT, ...readFilesSettings(undefined), ...readFormatSettings(undefined) };
+}
+
+export async function resolveMarkdownFormat(documentUri: vscode.Uri): Promise<MarkdownFormatResolution> {
+  const files: string[] = [];
+  const sources: MarkdownFormatResolution['sources'] = {};
+  const format: MarkdownFormat = { ...DEFAULT_MARKDOWN_FORMAT };
+  const apply = (partial: Partial<MarkdownFormat>, source: MarkdownFormatSource): void => {
+    for (const [key, value] of Object.entries(partial)) {
+      (format as unknown as Record<string, unknown>)[key] = value;
+      sources[key as keyof MarkdownFormat] = source;
+    }
+  };
+
+  apply(readFilesSettings(documentUri), 'files');
+
+  const directories = documentUri.scheme === 'untitled' ? [] : getSearchDirectories(documentUri);
+
+  const editorConfigs: EditorConfigSource[] = [];
+  for (const directory of directories) {
+    const fileUri = vscode.Uri.joinPath(directory, '.editorconfig');
+    const text = await readTextFile(fileUri);
+    if (text === null) {
+      continue;
+    }
+    const config = parseEditorConfig(text);
+    editorConfigs.push({ dirPath: directory.path, config });
+    files.push(fileUri.toString());
+    if (config.root) {
+      break;
+    }
+  }
+  apply(formatFromEditorConfig(resolveEditorConfigProperties(editorConfigs, documentUri.path)), 'editorconfig');
+
+  search: for (const directory of directories) {
+    for (const name of MARKDOWNLINT_FILE_NAMES) {
+      const fileUri = vscode.Uri.joinPath(directory, name);
+      const text = await readTextFile(fileUri);
+      if (text === null) {
+        continue;
+      }
+      try {
+        const rules = JSON.parse(stripJsonComments(text)) as MarkdownlintRules;
+        apply(formatFromMarkdownlint(rules), 'markdownlint');
+        files.push(fileUri.toString());
+      } catch (error) {
+        logger.warn('markdownlint config parse failed', {
+          docUri: documentUri.toString(),
+          details: { file: fileUri.toString(), error: String(error) },
+        });
+      }
+      break search;
+    }
+  }
+
+  apply(readFormatSettings(documentUri), 'setting');
+
+  return { format, sources, files };
+}
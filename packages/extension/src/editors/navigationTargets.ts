@@ -0,0 +1,159 @@
+/**
+ * 役割: Host 起点の NavigationTarget の捕捉と保持
+ * 責務: 捕捉した selection/reveal 情報を docUri 単位で保持し、Webview 初期化完了後に 1 回だけ引き渡す
+ * 不変条件: NavigationTarget の正本は extension host。Webview 側の scrollTop や selection から逆算しない
+ *
+ * 設計書参照: _docs/2026-03-31-vscode-standard-editor-gap-audit.md (Phase 1)
+ *
+ * 捕捉経路:
+ * - inlineMark.reopenWithInlineMark: 標準テキストエディタの現在 selection
+ * - inlineMark.revealRange: 外部拡張/キーバインドからの API 呼び出し
+ * - `file.md#L40` 形式の fragment（ネストページリンク、revealRange の URI 引数）
+ *
+ * 保持ルール:
+ * - docUri ごとに最新の 1 件のみ（後勝ち）
+ * - PENDING_TTL_MS を超えた target は破棄（古い navigation を後から適用しない）
+ */
+
+import * as vscode from 'vscode';
+import type {
+  NavigationTarget,
+  NavigationRevealType,
+  NavigationSource,
+  NavigationReason,
+} from '../protocol/messages.js';
+import { logger } from '../util/log.js';
+
+const PENDING_TTL_MS = 10_000;
+
+export interface NavigationTargetOptions {
+  revealType: NavigationRevealType;
+  source: NavigationSource;
+  reason: NavigationReason;
+}
+
+export interface PendingNavigationTarget extends NavigationTargetOptions {
+  seq: number;
+  docUri: string;
+  range: vscode.Range;
+  createdAt: number;
+}
+
+export class NavigationTargetStore {
+  private seq = 0;
+  private pending = new Map<string, PendingNavigationTarget>();
+
+  capture(uri: vscode.Uri, range: vscode.Range, options: NavigationTargetOptions): PendingNavigationTarget {
+    const docUri = uri.toString();
+    this.seq += 1;
+    const target: PendingNavigationTarget = {
+      ...options,
+      seq: this.seq,
+      docUri,
+      range,
+      createdAt: Date.now(),
+    };
+
+    const previous = this.pending.get(docUri);
+    if (previous) {
+      logger.debug('Navigation target replaced', {
+        docUri,
+        details: { previousSeq: previous.seq, seq: target.seq },
+      });
+    }
+    this.pending.set(docUri, target);
+
+    logger.info('Navigation target captured', {
+      docUri,
+      details: {
+        seq: target.seq,
+        selection: toSelection(range),
+        revealType: target.revealType,
+        source: target.source,
+        reason: target.reason,
+      },
+    });
+    return target;
+  }
+
+  has(docUri: string): boolean {
+    return this.peek(docUri) !== null;
+  }
+
+  take(docUri: string): PendingNavigationTarget | null {
+    const target = this.peek(docUri);
+    if (target) {
+      this.pending.delete(docUri);
+    }
+    return target;
+  }
+
+  private peek(docUri: string): PendingNavigationTarget | null {
+    const target = this.pending.get(docUri);
+    if (!target) {
+      return null;
+    }
+    const ageMs = Date.now() - target.createdAt;
+    if (ageMs > PENDING_TTL_MS) {
+      this.pending.delete(docUri);
+      logger.warn('Navigation target dropped', {
+        docUri,
+        details: { reason: 'expired', seq: target.seq, ageMs, ttlMs: PENDING_TTL_MS },
+      });
+      return null;
+    }
+    return target;
+  }
+}
+
+/**
+ * 保留中の target を現在の document で検証し、プロトコル用の NavigationTarget に変換する。
+ * range は document.validateRange で行末/文書末にクランプされる。
+ */
+export function toNavigationTarget(
+  pending: PendingNavigationTarget,
+  document: vscode.TextDocument
+): NavigationTarget {
+  const range = document.validateRange(pending.range);
+  return {
+    seq: pending.seq,
+    docUri: pending.docUri,
+    selection: toSelection(range),
+    range: {
+      start: document.offsetAt(range.start),
+      end: document.offsetAt(range.end),
+    },
+    revealType: pending.revealType,
+    source: pending.source,
+    reason: pending.reason,
+    createdAt: new Date(pending.createdAt).toISOString(),
+  };
+}
+
+/**
+ * `L40`, `L40-L42`, `L40,5`, `L40:5-L42:3`, `L40C5-L42C3`, `40` 形式の fragment を Range に変換する。
+ * 行/列は 1-based。終了列を省略した範囲は終了行の行末まで（validateRange でクランプ）。
+ */
+export function parseLineFragment(fragment: string): vscode.Range | null {
+  const match = /^L?(\d+)(?:[,:C](\d+))?(?:-L?(\d+)(?:[,:C](\d+))?)?$/i.exec(fragment.trim());
+  if (!match) {
+    return null;
+  }
+  const startLine = Math.max(Number(match[1]) - 1, 0);
+  const startCharacter = match[2] ? Math.max(Number(match[2]) - 1, 0) : 0;
+  if (!match[3]) {
+    return new vscode.Range(startLine, startCharacter, startLine, startCharacter);
+  }
+  const endLine = Math.max(Number(match[3]) - 1, startLine);
+  const endCharacter = match[4] ? Math.max(Number(match[4]) - 1, 0) : Number.MAX_SAFE_INTEGER;
+  return new vscode.Range(startLine, startCharacter, endLine, endCharacter);
+}
+
+function toSelection(range: vscode.Range): NavigationTarget['selection'] {
+  return {
+    startLineNumber: range.start.line + 1,
+    startColumn: range.start.character + 1,
+    endLineNumber: range.end.line + 1,
+    endColumn: range.end.character + 1,
+  };
+}
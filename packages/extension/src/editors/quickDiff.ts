@@ -0,0 +1,172 @@
+/**
+ * 役割: git HEAD を基準にした quick diff（gutter 表示用の変更範囲）の算出
+ * 責務: 元リソース（HEAD 版）の取得、現在の TextDocument との行差分、HEAD 変更の監視
+ * 不変条件: quick diff は表示専用。内容同期（Replace / docChanged）には一切関与しない
+ *
+ * 元リソースの取得順（信頼されていないワークスペースでは取得しない。git はリポジトリの設定・hook を実行しうるため）:
+ * 1. VS Code 組み込み git 拡張 API（vscode.git, getAPI(1)）の repository.show('HEAD', path)
+ * 2. git 拡張が使えない/リポジトリ未検出の場合のみ `git show HEAD:./<file>` をファイルのディレクトリで実行
+ *    （Node の拡張機能ホストのみ。child_process は使う時に読み込み、Web 版のバンドルには含めない）
+ * 3. いずれも失敗（git 管理外・HEAD に未登録）なら null（マーカーを表示しない）
+ *
+ * ハンクの種類:
+ * - added: HEAD に無い行（originalText は空）
+ * - deleted: HEAD にあって現在は無い行（lineCount=0、startLine は削除位置の直後の行）
+ * - modified: 上記以外の置換
+ */
+
+import * as vscode from 'vscode';
+import type { QuickDiffHunk } from '../protocol/messages.js';
+import { diffLines, splitLines } from '../util/lineDiff.js';
+import { logger } from '../util/log.js';
+
+const GIT_SHOW_TIMEOUT_MS = 5000;
+const GIT_SHOW_MAX_BUFFER = 64 * 1024 * 1024;
+
+export const QUICK_DIFF_BASE_REF = 'HEAD';
+
+/** vscode.git 拡張 API のうち本モジュールが使う最小限の型 */
+interface GitRepository {
+  rootUri: vscode.Uri;
+  state: {
+    HEAD?: { commit?: string };
+    onDidChange: vscode.Event<void>;
+  };
+  show(ref: string, path: string): Promise<string>;
+}
+
+interface GitApi {
+  getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitExtension {
+  enabled: boolean;
+  getAPI(version: 1): GitApi;
+}
+
+export type OriginalTextSource = 'gitExtension' | 'gitCli';
+
+export interface OriginalTextResolution {
+  text: string | null;
+  source: OriginalTextSource | null;
+  reason?: string;
+}
+
+async function getGitApi(): Promise<GitApi | null> {
+  const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+  if (!extension) {
+    return null;
+  }
+  try {
+    const exports = extension.isActive ? extension.exports : await extension.activate();
+    if (!exports?.enabled) {
+      return null;
+    }
+    return exports.getAPI(1);
+  } catch (error) {
+    logger.warn('Git extension API unavailable', { details: { error: String(error) } });
+    return null;
+  }
+}
+
+/** Node の拡張機能ホストか（Web 版の拡張機能ホストでは git を実行できない） */
+const canRunGitCli = (): boolean => typeof process !== 'undefined' && Boolean(process.versions?.node);
+
+async function showWithGitCli(fsPath: string): Promise<string> {
+  const [{ execFile }, path] = await Promise.all([import('child_process'), import('path')]);
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      ['show', `${QUICK_DIFF_BASE_REF}:./${path.basename(fsPath)}`],
+      {
+        cwd: path.dirname(fsPath),
+        encoding: 'utf8',
+        timeout: GIT_SHOW_TIMEOUT_MS,
+        maxBuffer: GIT_SHOW_MAX_BUFFER,
+        windowsHide: true,
+      },
+      (error, stdout) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+/**
+ * HEAD 版のテキストを取得する。取得できない場合は text=null と理由を返す（例外は投げない）。
+ * 信頼されていないワークスペース（Restricted Mode）では git 拡張も git CLI も使わずに text=null を返す。
+ */
+export async function resolveOriginalText(
+  uri: vscode.Uri,
+  isTrusted: boolean = vscode.workspace.isTrusted
+): Promise<OriginalTextResolution> {
+  if (uri.scheme !== 'file') {
+    return { text: null, source: null, reason: 'unsupportedScheme' };
+  }
+  if (!isTrusted) {
+    return { text: null, source: null, reason: 'untrustedWorkspace' };
+  }
+
+  const api = await getGitApi();
+  const repository = api?.getRepository(uri) ?? null;
+  if (repository) {
+    try {
+      const text = await repository.show(QUICK_DIFF_BASE_REF, uri.fsPath);
+      return { text, source: 'gitExtension' };
+    } catch (error) {
+      // リポジトリ内だが HEAD に存在しない（新規/未追跡）
+      return { text: null, source: 'gitExtension', reason: `notInHead: ${String(error)}` };
+    }
+  }
+
+  if (!canRunGitCli()) {
+    return { text: null, source: null, reason: 'gitCliUnavailable' };
+  }
+  try {
+    const text = await showWithGitCli(uri.fsPath);
+    return { text, source: 'gitCli' };
+  } catch (error) {
+    return { text: null, source: 'gitCli', reason: String(error) };
+  }
+}
+
+/**
+ * HEAD の移動（commit / checkout / reset）を監視する。git 拡張でリポジトリが見つからない場合は null。
+ */
+export async function watchRepositoryHead(
+  uri: vscode.Uri,
+  listener: () => void
+): Promise<vscode.Disposable | null> {
+  if (uri.scheme !== 'file') {
+    return null;
+  }
+  const api = await getGitApi();
+  const repository = api?.getRepository(uri) ?? null;
+  if (!repository) {
+    return null;
+  }
+  let headCommit = repository.state.HEAD?.commit;
+  return repository.state.onDidChange(() => {
+    const nextCommit = repository.state.HEAD?.commit;
+    if (nextCommit === headCommit) {
+      return;
+    }
+    headCommit = nextCommit;
+    listener();
+  });
+}
+
+export function computeQuickDiffHunks(originalText: string, currentText: string): QuickDiffHunk[] {
+  const originalLines = splitLines(originalText);
+  return diffLines(originalLines, splitLines(currentText)).map((hunk) => ({
+    kind: hunk.originalCount === 0 ? 'added' : hunk.currentCount === 0 ? 'deleted' : 'modified',
+    startLine: hunk.currentStart,
+    lineCount: hunk.currentCount,
+    originalStartLine: hunk.originalStart,
+    originalText: originalLines.slice(hunk.originalStart, hunk.originalStart + hunk.originalCount).join('\n'),
+  }));
+}
@@ -0,0 +1,31 @@
+/**
+ * 役割: document を書き込めるかの判定（読み取り専用モード）
+ * 責務: git のリビジョン・書き込めないファイルシステム・信頼されていないワークスペースの document に ReadOnlyReason を返す
+ * 不変条件: 判定は開いた時点のもの。ワークスペースを信頼した場合は呼び出し側が判定し直す（onDidGrantWorkspaceTrust）
+ *
+ * - git: URI（SCM のリビジョン表示・タイムライン）は常に gitRevision
+ * - FileSystemProvider が isReadonly、または provider の無い scheme（TextDocumentContentProvider の仮想 document）は
+ *   readOnlyFileSystem。untitled は provider が無くても保存先を選べるので書き込める扱い
+ * - 上のどちらでもなく Restricted Mode の場合は untrustedWorkspace（ワークスペース設定の書き換え・ファイルの作成をしない）
+ */
+
+import * as vscode from 'vscode';
+import type { ReadOnlyReason } from '../protocol/messages.js';
+
+const GIT_REVISION_SCHEMES = new Set(['git']);
+
+export const resolveReadOnlyReason = (
+  uri: vscode.Uri,
+  isTrusted: boolean = vscode.workspace.isTrusted
+): ReadOnlyReason | undefined => {
+  if (GIT_REVISION_SCHEMES.has(uri.scheme)) {
+    return 'gitRevision';
+  }
+  if (uri.scheme !== 'untitled' && vscode.workspace.fs.isWritableFileSystem(uri.scheme) !== true) {
+    return 'readOnlyFileSystem';
+  }
+  if (!isTrusted) {
+    return 'untrustedWorkspace';
+  }
+  return undefined;
+};
@@ -0,0 +1,47 @@
+/**
+ * 役割: document.version ごとに適用済みの Replace[] を短期間保持する
+ * 責務: 古い baseVersion の edit を変換（rebase）するための途中の変更列を提供する
+ * 不変条件: 保持するのは onDidChangeTextDocument で観測した変更のみ。欠けた version があれば変換しない
+ *
+ * 保持ルール:
+ * - key は変更適用後の version、value はその version を生んだ Replace[]（docChanged と同じ順次適用）
+ * - MAX_HISTORY_VERSIONS を超えた古い version から破棄
+ */
+
+import type { Replace } from '../protocol/messages.js';
+
+const MAX_HISTORY_VERSIONS = 100;
+
+export class ReplaceHistory {
+  private entries = new Map<number, Replace[]>();
+
+  record(version: number, changes: Replace[]): void {
+    this.entries.set(version, changes);
+    while (this.entries.size > MAX_HISTORY_VERSIONS) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * fromVersion → toVersion の間に適用された変更を順に連結して返す。
+   * 途中の version が 1 つでも欠けていれば null。
+   */
+  collect(fromVersion: number, toVersion: number): Replace[] | null {
+    if (fromVersion >= toVersion) {
+      return null;
+    }
+    const changes: Replace[] = [];
+    for (let version = fromVersion + 1; version <= toVersion; version += 1) {
+      const entry = this.entries.get(version);
+      if (!entry) {
+        return null;
+      }
+      changes.push(...entry);
+    }
+    return changes;
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * 役割: リッチ差分ビュー（inlineMark.openRichDiff）の比較対象の決定と Webview パネルの管理
+ * 責務: コマンドの引数（SCM のリソース / Uri / アクティブなタブ）から比較する 2 つの版を決め、
+ *       両側の Markdown を読んでパネルの Webview（webview の src/richDiff.ts）に richDiff で送る
+ * 不変条件: 表示専用。TextDocument は変更しない。Webview から受け付けるのは richDiffReady と logClient だけ
+ *
+ * 比較対象:
+ * - diff タブ（TabInputTextDiff。SCM の変更表示など）がアクティブ → そのタブの左右
+ * - それ以外（SCM のリソース・エクスプローラーの Uri・アクティブなエディタ） → 作業コピーと git HEAD（quickDiff.ts と同じ取得方法）。
+ *   HEAD に無いファイル（新規・未追跡）は空の文書と比べる
+ *
+ * 更新:
+ * - 表示中に比較対象の document が変わったら REFRESH_DEBOUNCE_MS 後に送り直す（未保存の変更を含む）
+ * - 作業コピーと HEAD の比較では HEAD の移動（commit / checkout）でも HEAD 版を読み直す
+ * - 同じ比較対象のパネルが開いていれば、新しく開かずに前に出す
+ */
+
+import * as vscode from 'vscode';
+import {
+  createRichDiffMessage,
+  validateWebviewToExtensionMessage,
+  type RichDiffSide,
+  type WebviewConfig,
+} from '../protocol/messages.js';
+import { QUICK_DIFF_BASE_REF, resolveOriginalText, watchRepositoryHead } from './quickDiff.js';
+import { logger } from '../util/log.js';
+import { uriBasename } from '../util/uriPaths.js';
+
+export const OPEN_RICH_DIFF_COMMAND = 'inlineMark.openRichDiff';
+export const RICH_DIFF_VIEW_TYPE = 'inlineMark.richDiff';
+
+const REFRESH_DEBOUNCE_MS = 300;
+
+export type RichDiffTarget =
+  | { kind: 'workingTree'; uri: vscode.Uri }
+  | { kind: 'revisions'; original: vscode.Uri; modified: vscode.Uri };
+
+/** パネルの Webview の HTML・オプション・設定（InlineMarkProvider と共通） */
+export interface RichDiffHost {
+  getHtml: (webview: vscode.Webview) => Promise<string>;
+  getWebviewOptions: () => vscode.WebviewOptions;
+  getConfig: () => WebviewConfig;
+}
+
+interface RichDiffPanel {
+  panel: vscode.WebviewPanel;
+  target: RichDiffTarget;
+  ready: boolean;
+  /** 作業コピーと HEAD の比較での HEAD 版（undefined は未取得。HEAD が動いたら捨てる） */
+  headText: string | undefined;
+  refreshTimer: ReturnType<typeof setTimeout> | null;
+  disposables: vscode.Disposable[];
+}
+
+const hasResourceUri = (value: unknown): value is { resourceUri: vscode.Uri } =>
+  typeof value === 'object' &&
+  value !== null &&
+  (value as { resourceUri?: unknown }).resourceUri instanceof vscode.Uri;
+
+/**
+ * コマンドの引数とアクティブなタブから比較対象を決める。決められない場合は null。
+ */
+export const resolveRichDiffTarget = (
+  arg: unknown,
+  activeInput: unknown = vscode.window.tabGroups.activeTabGroup.activeTab?.input
+): RichDiffTarget | null => {
+  if (arg instanceof vscode.Uri) {
+    return { kind: 'workingTree', uri: arg };
+  }
+  if (hasResourceUri(arg)) {
+    return { kind: 'workingTree', uri: arg.resourceUri };
+  }
+  if (activeInput instanceof vscode.TabInputTextDiff) {
+    return { kind: 'revisions', original: activeInput.original, modified: activeInput.modified };
+  }
+  if (activeInput instanceof vscode.TabInputCustom || activeInput instanceof vscode.TabInputText) {
+    return { kind: 'workingTree', uri: activeInput.uri };
+  }
+  const editor = vscode.window.activeTextEditor;
+  return editor ? { kind: 'workingTree', uri: editor.document.uri } : null;
+};
+
+const targetKey = (target: RichDiffTarget): string =>
+  target.kind === 'workingTree'
+    ? `workingTree:${target.uri.toString()}`
+    : `revisions:${target.original.toString()}|${target.modified.toString()}`;
+
+const targetUris = (target: RichDiffTarget): vscode.Uri[] =>
+  target.kind === 'workingTree' ? [target.uri] : [target.original, target.modified];
+
+/** git: URI（git 拡張の版）の ref。'' / '~' は index */
+const gitRefOf = (uri: vscode.Uri): string | null => {
+  if (uri.scheme !== 'git') {
+    return null;
+  }
+  try {
+    const ref = (JSON.parse(uri.query) as { ref?: unknown }).ref;
+    if (typeof ref !== 'string') {
+      return null;
+    }
+    return ref === '' || ref === '~' ? vscode.l10n.t('Index') : ref;
+  } catch {
+    return null;
+  }
+};
+
+const sideLabel = (uri: vscode.Uri, ref: string | null = gitRefOf(uri)): string => {
+  const name = uriBasename(uri);
+  return ref ? `${name} (${ref})` : name;
+};
+
+const readText = async (uri: vscode.Uri): Promise<string> => (await vscode.workspace.openTextDocument(uri)).getText();
+
+export class RichDiffPanels implements vscode.Disposable {
+  private panels = new Map<string, RichDiffPanel>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly host: RichDiffHost) {
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (event.contentChanges.length > 0) {
+          this.handleDocumentChange(event.document.uri);
+        }
+      })
+    );
+  }
+
+  /**
+   * inlineMark.openRichDiff の本体。arg は SCM のリソース / Uri / 省略（アクティブなタブ）。
+   */
+  async open(arg?: unknown): Promise<void> {
+    const target = resolveRichDiffTarget(arg);
+    if (!target) {
+      vscode.window.showWarningMessage(vscode.l10n.t('Cannot open rich diff: no Markdown document to compare.'));
+      return;
+    }
+
+    const key = targetKey(target);
+    const existing = this.panels.get(key);
+    if (existing) {
+      existing.panel.reveal();
+      return;
+    }
+
+    const modifiedUri = target.kind === 'workingTree' ? target.uri : target.modified;
+    const panel = vscode.window.createWebviewPanel(
+      RICH_DIFF_VIEW_TYPE,
+      vscode.l10n.t('{0} (Rich Diff)', uriBasename(modifiedUri)),
+      vscode.ViewColumn.Active,
+      this.host.getWebviewOptions()
+    );
+    panel.iconPath = new vscode.ThemeIcon('diff');
+
+    const entry: RichDiffPanel = {
+      panel,
+      target,
+      ready: false,
+      headText: undefined,
+      refreshTimer: null,
+      disposables: [],
+    };
+    this.panels.set(key, entry);
+    logger.info('Rich diff opened', { docUri: modifiedUri.toString(), details: { kind: target.kind } });
+
+    entry.disposables.push(
+      panel.webview.onDidReceiveMessage((raw) => this.handleMessage(entry, raw)),
+      panel.onDidDispose(() => {
+        this.panels.delete(key);
+        if (entry.refreshTimer) {
+          clearTimeout(entry.refreshTimer);
+        }
+        for (const disposable of entry.disposables) {
+          disposable.dispose();
+        }
+        entry.disposables = [];
+      })
+    );
+
+    if (target.kind === 'workingTree') {
+      void watchRepositoryHead(target.uri, () => {
+        entry.headText = undefined;
+        this.scheduleRefresh(entry);
+      }).then((watcher) => {
+        if (!watcher) {
+          return;
+        }
+        if (this.panels.get(key) !== entry) {
+          watcher.dispose();
+          return;
+        }
+        entry.disposables.push(watcher);
+      });
+    }
+
+    panel.webview.html = await this.host.getHtml(panel.webview);
+  }
+
+  private handleMessage(entry: RichDiffPanel, raw: unknown): void {
+    const validation = validateWebviewToExtensionMessage(raw);
+    if (!validation.ok) {
+      logger.warn('Invalid rich diff message ignored', { details: { error: validation.error } });
+      return;
+    }
+    const message = validation.message;
+    if (message.type === 'richDiffReady') {
+      entry.ready = true;
+      void this.send(entry);
+    } else if (message.type === 'logClient') {
+      logger.log(message.level, `[RichDiff] ${message.message}`, { details: message.details });
+    }
+  }
+
+  private handleDocumentChange(uri: vscode.Uri): void {
+    const key = uri.toString();
+    for (const entry of this.panels.values()) {
+      if (targetUris(entry.target).some((target) => target.toString() === key)) {
+        this.scheduleRefresh(entry);
+      }
+    }
+  }
+
+  private scheduleRefresh(entry: RichDiffPanel): void {
+    if (!entry.ready) {
+      return;
+    }
+    if (entry.refreshTimer) {
+      clearTimeout(entry.refreshTimer);
+    }
+    entry.refreshTimer = setTimeout(() => {
+      entry.refreshTimer = null;
+      void this.send(entry);
+    }, REFRESH_DEBOUNCE_MS);
+  }
+
+  private async send(entry: RichDiffPanel): Promise<void> {
+    let sides: { original: RichDiffSide; modified: RichDiffSide } | null;
+    try {
+      sides = await this.loadSides(entry);
+    } catch (error) {
+      logger.warn('Rich diff content could not be read', {
+        errorCode: 'RICH_DIFF_READ_FAILED',
+        errorStack: String(error),
+      });
+      sides = null;
+    }
+    if (!sides) {
+      vscode.window.showWarningMessage(
+        vscode.l10n.t('Cannot open rich diff: the versions to compare could not be read.')
+      );
+      entry.panel.dispose();
+      return;
+    }
+    if (!this.panels.has(targetKey(entry.target))) {
+      return;
+    }
+    await entry.panel.webview.postMessage(createRichDiffMessage(sides.original, sides.modified, this.host.getConfig()));
+  }
+
+  private async loadSides(entry: RichDiffPanel): Promise<{ original: RichDiffSide; modified: RichDiffSide } | null> {
+    const { target } = entry;
+    if (target.kind === 'revisions') {
+      const [original, modified] = await Promise.all([readText(target.original), readText(target.modified)]);
+      return {
+        original: { label: sideLabel(target.original), content: original },
+        modified: { label: sideLabel(target.modified), content: modified },
+      };
+    }
+
+    if (entry.headText === undefined) {
+      const resolution = await resolveOriginalText(target.uri);
+      if (resolution.text === null && !resolution.reason?.startsWith('notInHead')) {
+        logger.warn('Rich diff base unavailable', {
+          docUri: target.uri.toString(),
+          details: { source: resolution.source, reason: resolution.reason },
+        });
+        return null;
+      }
+      // HEAD に無い（新規・未追跡の）ファイルは空の文書と比べる
+      entry.headText = resolution.text ?? '';
+    }
+    return {
+      original: { label: sideLabel(target.uri, QUICK_DIFF_BASE_REF), content: entry.headText },
+      modified: { label: sideLabel(target.uri, vscode.l10n.t('Working Tree')), content: await readText(target.uri) },
+    };
+  }
+
+  dispose(): void {
+    for (const entry of [...this.panels.values()]) {
+      entry.panel.dispose();
+    }
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+  }
+}
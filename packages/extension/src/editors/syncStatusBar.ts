@@ -0,0 +1,82 @@
+/**
+ * 役割: active な inlineMark エディタの同期状態の status bar 表示
+ * 責務: Webview から届いた SyncState を status bar item に表示し、クリックで復旧操作の選択（inlineMark.showSyncActions）を開く
+ * 不変条件: 表示専用。状態の正本は各 Webview の SyncClient で、ここでは受け取った状態を出すだけ
+ *
+ * - inlineMark エディタが active でない間は非表示
+ * - desynced はエラー色で表示する（以降の編集が document に届かない可能性があるため）
+ */
+
+import * as vscode from 'vscode';
+import type { SyncState } from '../protocol/messages.js';
+
+export const SHOW_SYNC_ACTIONS_COMMAND = 'inlineMark.showSyncActions';
+
+const STATUS_BAR_PRIORITY = 100;
+
+export class SyncStatusBar implements vscode.Disposable {
+  private item: vscode.StatusBarItem;
+
+  constructor() {
+    this.item = vscode.window.createStatusBarItem('inlineMark.syncState', vscode.StatusBarAlignment.Right, STATUS_BAR_PRIORITY);
+    this.item.name = vscode.l10n.t('inlineMark Sync');
+    this.item.command = SHOW_SYNC_ACTIONS_COMMAND;
+  }
+
+  show(state: SyncState, reason?: string): void {
+    const { icon, label, description } = this.describe(state);
+    this.item.text = `$(${icon}) ${label}`;
+    const tooltip = new vscode.MarkdownString(`**inlineMark**: ${description}`);
+    if (reason) {
+      tooltip.appendMarkdown(`\n\n\`${reason}\``);
+    }
+    tooltip.appendMarkdown(`\n\n${vscode.l10n.t('Click for sync options.')}`);
+    this.item.tooltip = tooltip;
+    this.item.backgroundColor =
+      state === 'desynced' ? new vscode.ThemeColor('statusBarItem.errorBackground') : undefined;
+    this.item.show();
+  }
+
+  hide(): void {
+    this.item.hide();
+  }
+
+  dispose(): void {
+    this.item.dispose();
+  }
+
+  private describe(state: SyncState): { icon: string; label: string; description: string } {
+    switch (state) {
+      case 'idle':
+        return {
+          icon: 'check',
+          label: vscode.l10n.t('Synced'),
+          description: vscode.l10n.t('All edits are in the document.'),
+        };
+      case 'pending':
+        return {
+          icon: 'circle-large-outline',
+          label: vscode.l10n.t('Pending'),
+          description: vscode.l10n.t('Edits are waiting to be sent to the document.'),
+        };
+      case 'inFlight':
+        return {
+          icon: 'sync~spin',
+          label: vscode.l10n.t('Syncing'),
+          description: vscode.l10n.t('Edits are being applied to the document.'),
+        };
+      case 'retrying':
+        return {
+          icon: 'sync~spin',
+          label: vscode.l10n.t('Retrying'),
+          description: vscode.l10n.t('Resyncing the editor with the document.'),
+        };
+      case 'desynced':
+        return {
+          icon: 'error',
+          label: vscode.l10n.t('Out of Sync'),
+          description: vscode.l10n.t('The editor may not match the document. New edits may not be saved.'),
+        };
+    }
+  }
+}
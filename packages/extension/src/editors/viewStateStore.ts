@@ -0,0 +1,55 @@
+/**
+ * 役割: document ごとの Webview 表示状態（WebviewViewState）の保存
+ * 責務: Webview から届いた表示状態を workspaceState に保存し、次に開いたときの init で返す
+ * 不変条件: 中身は解釈しない。保存するのは MAX_VIEW_STATE_BYTES 以下の状態のみ
+ *
+ * 方針:
+ * - Webview 自身の setState（パネル単位）が復元の第一候補。こちらはタブを閉じて開き直した場合・
+ *   setState が空の場合の補完（retainContextWhenHidden を無効にしても位置を失わないように）
+ * - MAX_VIEW_STATE_ENTRIES を超えたら、最後に保存した時刻が古い document から破棄する
+ */
+
+import type * as vscode from 'vscode';
+import type { WebviewViewState } from '../protocol/messages.js';
+
+const STORAGE_KEY = 'inlineMark.viewStates';
+const MAX_VIEW_STATE_ENTRIES = 100;
+const MAX_VIEW_STATE_BYTES = 64 * 1024;
+
+interface StoredViewState {
+  state: WebviewViewState;
+  savedAt: number;
+}
+
+export class ViewStateStore {
+  constructor(private readonly memento: vscode.Memento) {}
+
+  get(docUri: string): WebviewViewState | undefined {
+    return this.read()[docUri]?.state;
+  }
+
+  /**
+   * 保存できなかった（大きすぎる）場合は false。
+   */
+  async set(docUri: string, state: WebviewViewState): Promise<boolean> {
+    if (JSON.stringify(state).length > MAX_VIEW_STATE_BYTES) {
+      return false;
+    }
+    const entries = { ...this.read(), [docUri]: { state, savedAt: Date.now() } };
+    const uris = Object.keys(entries);
+    if (uris.length > MAX_VIEW_STATE_ENTRIES) {
+      uris
+        .sort((a, b) => entries[a].savedAt - entries[b].savedAt)
+        .slice(0, uris.length - MAX_VIEW_STATE_ENTRIES)
+        .forEach((uri) => {
+          delete entries[uri];
+        });
+    }
+    await this.memento.update(STORAGE_KEY, entries);
+    return true;
+  }
+
+  private read(): Record<string, StoredViewState> {
+    return { ...this.memento.get<Record<string, StoredViewState>>(STORAGE_KEY, {}) };
+  }
+}
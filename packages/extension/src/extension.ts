@@ -13,10 +13,17 @@
  * - inlineMark.resetSession: セッションをリセット（破壊的操作、確認必須）
  * - inlineMark.applyRequiredSettings: 必須設定を適用
  * - inlineMark.exportLogs: ログをエクスポート
+ * - inlineMark.revealRange: 指定 range を inlineMark で選択・表示（API / `#L40` fragment）
+ * - inlineMark.showSyncActions: 同期の復旧操作を選ぶ（同期状態の status bar のクリック）
+ * - inlineMark.openRichDiff: 2 つの版をエディタと同じ表示で比べる（SCM のリソース / diff タブ / 作業コピーと HEAD）
  */
 
 import * as vscode from 'vscode';
 import { InlineMarkProvider } from './editors/inlineMarkProvider.js';
+import { SHOW_SYNC_ACTIONS_COMMAND } from './editors/syncStatusBar.js';
+import { OPEN_RICH_DIFF_COMMAND } from './editors/richDiff.js';
+import { parseLineFragment } from './editors/navigationTargets.js';
+import { validateDefinition, type NavigationReason, type NavigationRevealType } from './protocol/messages.js';
 import { logger } from './util/log.js';
 
 export function activate(context: vscode.ExtensionContext): void {
@@ -126,6 +133,16 @@ export function activate(context: vscode.ExtensionContext): void {
         return;
       }
 
+      // 標準テキストエディタの selection を NavigationTarget として引き継ぐ
+      const textEditor = vscode.window.activeTextEditor;
+      if (providerInstance && textEditor && textEditor.document.uri.toString() === uri.toString()) {
+        providerInstance.captureNavigationTarget(uri, textEditor.selection, {
+          revealType: 'centerIfOutsideViewport',
+          source: 'code.navigation',
+          reason: 'reopenWithInlineMark',
+        });
+      }
+
       const closed = await closeActiveTab(tab);
       if (!closed) {
         logger.warn('Reopen with inlineMark aborted: close cancelled', {
@@ -138,6 +155,53 @@ export function activate(context: vscode.ExtensionContext): void {
     })
   );
 
+  // API: 指定 range を inlineMark で選択・表示する
+  // 引数: (uri | `file.md#L40` 形式の文字列, range?, { revealType?, reason? }?)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'inlineMark.revealRange',
+      async (
+        target?: vscode.Uri | string,
+        range?: vscode.Range,
+        options?: { revealType?: NavigationRevealType; reason?: NavigationReason }
+      ) => {
+        if (!providerInstance) {
+          return;
+        }
+
+        let uri: vscode.Uri | null = null;
+        if (typeof target === 'string') {
+          uri = vscode.Uri.parse(target);
+        } else if (target instanceof vscode.Uri) {
+          uri = target;
+        } else if (vscode.window.activeTextEditor) {
+          uri = vscode.window.activeTextEditor.document.uri;
+        }
+
+        const fragmentRange = uri?.fragment ? parseLineFragment(uri.fragment) : null;
+        const resolvedRange =
+          range ?? fragmentRange ?? (vscode.window.activeTextEditor?.selection as vscode.Range | undefined);
+        if (!uri || !resolvedRange) {
+          vscode.window.showWarningMessage(
+            vscode.l10n.t('Cannot reveal range: no target document or range specified.')
+          );
+          return;
+        }
+
+        await providerInstance.revealNavigationTarget(uri.with({ fragment: '' }), resolvedRange, {
+          revealType: options?.revealType ?? 'centerIfOutsideViewport',
+          source: 'api',
+          reason:
+            options?.reason && validateDefinition('NavigationReason', options.reason) === null
+              ? options.reason
+              : fragmentRange && !range
+                ? 'fragment'
+                : 'definition',
+        });
+      }
+    )
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('inlineMark.applyRequiredSettings', async () => {
       if (providerInstance) {
@@ -146,6 +210,23 @@ export function activate(context: vscode.ExtensionContext): void {
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand(SHOW_SYNC_ACTIONS_COMMAND, async () => {
+      if (providerInstance) {
+        await providerInstance.showSyncActions();
+      }
+    })
+  );
+
+  // SCM のリソースの右クリック・diff タブのタイトルバー・コマンドパレットから呼ばれる（引数はリソース / Uri / なし）
+  context.subscriptions.push(
+    vscode.commands.registerCommand(OPEN_RICH_DIFF_COMMAND, async (arg?: unknown) => {
+      if (providerInstance) {
+        await providerInstance.openRichDiff(arg);
+      }
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('inlineMark.exportLogs', async () => {
       const exportPath = await logger.exportLogs();
@@ -175,6 +256,7 @@ export function activate(context: vscode.ExtensionContext): void {
     'toggleHeading6',
     'toggleBulletList',
     'toggleOrderedList',
+    'toggleTaskList',
     'toggleBlockquote',
     'toggleCodeBlock',
     'indentListItem',
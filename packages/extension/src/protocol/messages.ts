@@ -1,14 +1,21 @@
 /**
- * 役割: Webview ⇄ Extension 間のメッセージプロトコル型定義とバリデーション
- * 責務: 全メッセージ型の定義、受信メッセージの検証、型ガード提供
- * 不変条件: 全メッセージは v (プロトコルバージョン) と type フィールドを必須とする
+ * 役割: Webview ⇄ Extension 間のメッセージプロトコル（host 側の入口）
+ * 責務: 生成した型と検証（schema.generated.ts）の再 export、受信メッセージの型ガード、送信メッセージの factory
+ * 不変条件: 全メッセージは v (プロトコルバージョン) と type フィールドを必須とする。
+ *           型と検証は protocol/schema.mjs が正本で、ここでは手で定義しない
  * 
- * 設計書参照: 9.2-9.4 (メッセージプロトコル)
+ * 設計書参照: 9.2-9.4 (メッセージプロトコル), 9.7 (プロトコル定義の生成・capability・バージョン)
  * 
  * メッセージ例 (設計書 9.4):
  * 
- * ready (Webview → Extension):
- * { "v": 1, "type": "ready" }
+ * ready (Webview → Extension, Webview が対応する capability):
+ * { "v": 1, "type": "ready", "capabilities": ["quickDiff", "viewState", "undoRedo", "syncState"] }
+ * 
+ * init (Extension → Webview, capabilities は両側が対応するもの。このセッションではそれ以外の省略可能な機能を使わない):
+ * { "v": 1, "type": "init", "version": 12, "content": "...", "sessionId": "uuid", "capabilities": ["quickDiff", "syncState"], ... }
+ *
+ * init（書き込めない document。capability readOnly の場合だけ付ける）:
+ * { "v": 1, "type": "init", ..., "capabilities": ["readOnly"], "readOnly": "gitRevision" }
  * 
  * edit (Webview → Extension):
  * {
@@ -22,412 +29,138 @@
  * nack (Extension → Webview):
  * { "v": 1, "type": "nack", "txId": 101, "currentVersion": 13, "reason": "baseVersionMismatch", "sessionId": "uuid" }
  * 
+ * ack (古い baseVersion の edit を途中の変更で変換して適用した場合):
+ * { "v": 1, "type": "ack", "txId": 102, "currentVersion": 15, "outcome": "applied", "rebasedFrom": 13, "sessionId": "uuid" }
+ * 
+ * editHeld (Extension → Webview, ChangeGuard 超過でユーザーの確認待ち。続けて ack または nack が届く):
+ * { "v": 1, "type": "editHeld", "txId": 103, "currentVersion": 15, "metrics": { "changedChars": 12000, "changedRatio": 0.8, "hunkCount": 3 }, "sessionId": "uuid" }
+ * 
  * docChanged (Extension → Webview):
- * { "v": 1, "type": "docChanged", "version": 13, "reason": "external", "changes": [...], "sessionId": "uuid" }
+ * { "v": 1, "type": "docChanged", "version": 13, "reason": "external", "changes": [...], "eol": "crlf", "sessionId": "uuid" }
  * 
  * error (Extension → Webview):
  * { "v": 1, "type": "error", "code": "SYNC_TIMEOUT", "message": "...", "remediation": ["resetSession"], "sessionId": "uuid" }
  * 
+ * navigate (Extension → Webview):
+ * {
+ *   "v": 1, "type": "navigate", "docVersion": 13, "sessionId": "uuid",
+ *   "target": { "seq": 1, "selection": {...}, "range": { "start": 120, "end": 120 }, "revealType": "centerIfOutsideViewport", ... }
+ * }
+ * 
+ * quickDiff (Extension → Webview):
+ * {
+ *   "v": 1, "type": "quickDiff", "docVersion": 13, "baseRef": "HEAD", "available": true, "sessionId": "uuid",
+ *   "hunks": [{ "kind": "modified", "startLine": 4, "lineCount": 2, "originalStartLine": 4, "originalText": "..." }]
+ * }
+ * 
+ * fidelityReport (Webview → Extension, 開いた直後の parse → serialize で書式が変わるブロック):
+ * {
+ *   "v": 1, "type": "fidelityReport", "protectedBlocks": false,
+ *   "lossyBlocks": [{ "startLine": 3, "endLine": 5, "nodeTypes": ["table"], "changedChars": 12 }]
+ * }
+ * 
+ * viewState (Webview → Extension, 表示状態。host は document ごとに保存して次の init の viewState で返す):
+ * {
+ *   "v": 1, "type": "viewState",
+ *   "state": { "contentHash": "1a2b3c4d:120", "scrollTop": 480, "selection": { "anchor": 12, "head": 12 }, "blocks": [{ "pos": 40, "nodeType": "codeBlock", "preview": false }] }
+ * }
+ * 
+ * undoRedo (Webview → Extension, 送信待ちの編集が無い状態で送る。host は document の undo / redo を実行する):
+ * {
+ *   "v": 1, "type": "undoRedo", "direction": "undo"
+ * }
+ * 
+ * syncState (Webview → Extension, 同期の状態が変わったとき。host は active な editor の状態を status bar に出す):
+ * {
+ *   "v": 1, "type": "syncState", "state": "desynced", "reason": "SYNC_TIMEOUT"
+ * }
+ * 
+ * selectionChange (Webview → Extension, 送信待ちの編集が無い状態で送る。position は docVersion 時点の ProseMirror の位置):
+ * {
+ *   "v": 1, "type": "selectionChange", "docVersion": 13, "anchor": 42, "head": 48
+ * }
+ * 
+ * peerSelections (Extension → Webview, 同じ document を開いている他のパネルの選択。docChanged には変更元パネルの peerId が付く):
+ * {
+ *   "v": 1, "type": "peerSelections", "sessionId": "uuid",
+ *   "peers": [{ "peerId": "uuid", "colorIndex": 1, "docVersion": 13, "anchor": 42, "head": 48 }]
+ * }
+ * 
+ * editJournal (Webview → Extension, document に届いていない編集がある間 定期的に。届いたら entry=null):
+ * {
+ *   "v": 1, "type": "editJournal",
+ *   "entry": { "baseVersion": 13, "content": "# Title\n...", "changes": [{ "start": 120, "end": 120, "text": "abc" }] }
+ * }
+ * 
+ * richDiff (Extension → Webview, リッチ差分ビュー。richDiffReady への返信と、変更側の document が変わったとき):
+ * {
+ *   "v": 1, "type": "richDiff",
+ *   "original": { "label": "README.md (HEAD)", "content": "..." },
+ *   "modified": { "label": "README.md", "content": "..." },
+ *   "config": { ... }
+ * }
+ * 
  * Replace[] の例 (設計書 9.3):
  * - start/end は UTF-16 offset (VS Code の positionAt/offsetAt 互換)
  * - changes は互いに非重複、原則昇順
  * [{ "start": 0, "end": 5, "text": "Hello" }, { "start": 10, "end": 15, "text": "World" }]
  */
 
-export const PROTOCOL_VERSION = 1;
-
-export type MessageOrigin = 'webview' | 'extension';
-
-export interface Replace {
-  start: number;
-  end: number;
-  text: string;
-}
-
-export interface BaseMessage {
-  v: number;
-  type: string;
-  ts?: number;
-  origin?: MessageOrigin;
-  sessionId?: string;
-  clientId?: string;
-  docUri?: string;
-}
-
-export interface ReadyMessage extends BaseMessage {
-  type: 'ready';
-}
-
-export interface InitAckMessage extends BaseMessage {
-  type: 'initAck';
-  sessionId: string;
-  clientId: string;
-  elapsedMs: number | null;
-  contentLength: number;
-}
-
-export interface EditMessage extends BaseMessage {
-  type: 'edit';
-  txId: number;
-  baseVersion: number;
-  changes: Replace[];
-}
-
-export interface RequestResyncMessage extends BaseMessage {
-  type: 'requestResync';
-}
-
-export interface LogClientMessage extends BaseMessage {
-  type: 'logClient';
-  level: 'INFO' | 'DEBUG' | 'TRACE' | 'WARN' | 'ERROR';
-  message: string;
-  details?: Record<string, unknown>;
-}
-
-export interface OpenLinkMessage extends BaseMessage {
-  type: 'openLink';
-  url: string;
-}
-
-export interface CopyToClipboardMessage extends BaseMessage {
-  type: 'copyToClipboard';
-  text: string;
-}
-
-export interface OverwriteSaveMessage extends BaseMessage {
-  type: 'overwriteSave';
-  content: string;
-}
-
-export interface ResolveImageMessage extends BaseMessage {
-  type: 'resolveImage';
-  requestId: string;
-  src: string;
-}
-
-export interface ReopenWithTextEditorMessage extends BaseMessage {
-  type: 'reopenWithTextEditor';
-}
-
-export interface ExportLogsMessage extends BaseMessage {
-  type: 'exportLogs';
-}
-
-export interface CreateNestedPageMessage extends BaseMessage {
-  type: 'createNestedPage';
-  requestId: string;
-  title: string;
-}
-
-export interface OpenNestedPageMessage extends BaseMessage {
-  type: 'openNestedPage';
-  path: string;
-}
-
-export interface RequestResyncWithConfirmMessage extends BaseMessage {
-  type: 'requestResyncWithConfirm';
-}
-
-export interface OverwriteSaveWithConfirmMessage extends BaseMessage {
-  type: 'overwriteSaveWithConfirm';
-  content: string;
-}
-
-/**
- * Webview → Extension
- * Used to surface UX messages via VS Code native notifications (not in-webview overlays).
- */
-export interface NotifyHostMessage extends BaseMessage {
-  type: 'notifyHost';
-  level: 'INFO' | 'WARN' | 'ERROR';
-  code: string;
-  message: string;
-  remediation: Remediation[];
-  details?: Record<string, unknown>;
-}
-
-/**
- * Webview → Extension
- * Used to notify menu visibility state change for context key management.
- */
-export interface MenuStateChangeMessage extends BaseMessage {
-  type: 'menuStateChange';
-  visible: boolean;
-}
-
-/**
- * Webview → Extension
- * Used to notify find widget visibility state change for context key management.
- */
-export interface FindWidgetStateChangeMessage extends BaseMessage {
-  type: 'findWidgetStateChange';
-  visible: boolean;
-}
-
-export type WebviewToExtensionMessage =
-  | ReadyMessage
-  | InitAckMessage
-  | EditMessage
-  | RequestResyncMessage
-  | LogClientMessage
-  | OpenLinkMessage
-  | CopyToClipboardMessage
-  | OverwriteSaveMessage
-  | ResolveImageMessage
-  | ReopenWithTextEditorMessage
-  | ExportLogsMessage
-  | CreateNestedPageMessage
-  | OpenNestedPageMessage
-  | RequestResyncWithConfirmMessage
-  | OverwriteSaveWithConfirmMessage
-  | NotifyHostMessage
-  | MenuStateChangeMessage
-  | FindWidgetStateChangeMessage;
-
-export interface InitMessage extends BaseMessage {
-  type: 'init';
-  version: number;
-  content: string;
-  sessionId: string;
-  clientId: string;
-  locale: string;
-  i18n: Record<string, string>;
-  config: WebviewConfig;
-}
-
-export interface ConfigChangedMessage extends BaseMessage {
-  type: 'configChanged';
-  config: WebviewConfig;
-}
-
-export interface WebviewConfig {
-  debounceMs: number;
-  timeoutMs: number;
-  changeGuard: {
-    maxChangedRatio: number;
-    maxChangedChars: number;
-    maxHunks: number;
-  };
-  view: {
-    fullWidth: boolean;
-    noWrap: boolean;
-  };
-  preview: {
-    html: {
-      allowScripts: boolean;
-      allowSameOrigin: boolean;
-      allowPopups: boolean;
-      allowForms: boolean;
-    };
-    mermaid: {
-      fontScale: number;
-    };
-  };
-  security: {
-    allowWorkspaceImages: boolean;
-    allowRemoteImages: boolean;
-    allowInsecureRemoteImages: boolean;
-    confirmExternalLinks: boolean;
-  };
-  debug: {
-    enabled: boolean;
-  };
-}
-
-export type AckOutcome = 'applied' | 'noop';
-
-export interface AckMessage extends BaseMessage {
-  type: 'ack';
-  txId: number;
-  currentVersion: number;
-  outcome: AckOutcome;
-}
-
-export type NackReason = 'baseVersionMismatch' | 'applyFailed' | 'unknown';
-
-export interface NackMessage extends BaseMessage {
-  type: 'nack';
-  txId: number;
-  currentVersion: number;
-  reason: NackReason;
-  details?: string;
-}
-
-export interface DocChangedMessage extends BaseMessage {
-  type: 'docChanged';
-  version: number;
-  reason: 'self' | 'external' | 'undo' | 'redo';
-  changes: Replace[];
-  fullContent?: string;
-}
-
-export interface ImageResolvedMessage extends BaseMessage {
-  type: 'imageResolved';
-  requestId: string;
-  resolvedSrc: string;
-}
-
-export interface NestedPageCreatedMessage extends BaseMessage {
-  type: 'nestedPageCreated';
-  requestId: string;
-  title: string;
-  path: string;
-}
-
-export interface NestedPageCreateAckMessage extends BaseMessage {
-  type: 'nestedPageCreateAck';
-  requestId: string;
-}
-
-export interface NestedPageCreateFailedMessage extends BaseMessage {
-  type: 'nestedPageCreateFailed';
-  requestId: string;
-  message: string;
-  code?: string;
-  details?: Record<string, unknown>;
-}
-
-export type ErrorCode =
-  | 'SYNC_TIMEOUT'
-  | 'PROTOCOL_VERSION_MISMATCH'
-  | 'CODEC_PARSE_FAILED'
-  | 'CODEC_SERIALIZE_FAILED'
-  | 'APPLY_EDIT_FAILED'
-  | 'DIFF_ENGINE_FAILED'
-  | 'CHANGE_GUARD_EXCEEDED'
-  | 'IMAGE_RESOLVE_FAILED'
-  | 'WORKSPACE_UNTRUSTED'
-  | 'SETTINGS_NOT_CONFIGURED'
-  | 'UNKNOWN';
-
-export type Remediation =
-  | 'resetSession'
-  | 'reopenWithTextEditor'
-  | 'resync'
-  | 'applySettings'
-  | 'trustWorkspace';
-
-export interface ErrorMessage extends BaseMessage {
-  type: 'error';
-  code: ErrorCode;
-  message: string;
-  remediation: Remediation[];
-}
-
-export type ExtensionToWebviewMessage =
-  | InitMessage
-  | ConfigChangedMessage
-  | AckMessage
-  | NackMessage
-  | DocChangedMessage
-  | ErrorMessage
-  | ImageResolvedMessage
-  | NestedPageCreateAckMessage
-  | NestedPageCreatedMessage
-  | NestedPageCreateFailedMessage;
-
-const VALID_WEBVIEW_MESSAGE_TYPES = [
-  'ready',
-  'initAck',
-  'edit',
-  'requestResync',
-  'logClient',
-  'openLink',
-  'copyToClipboard',
-  'overwriteSave',
-  'resolveImage',
-  'reopenWithTextEditor',
-  'exportLogs',
-  'createNestedPage',
-  'openNestedPage',
-  'requestResyncWithConfirm',
-  'overwriteSaveWithConfirm',
-  'notifyHost',
-  'menuStateChange',
-  'findWidgetStateChange',
-] as const;
+import {
+  PROTOCOL_VERSION,
+  validateWebviewToExtensionMessage,
+  type AckMessage,
+  type AckOutcome,
+  type Capability,
+  type ChangeGuardMetrics,
+  type ConfigChangedMessage,
+  type DocChangedMessage,
+  type DocumentEol,
+  type EditHeldMessage,
+  type ErrorCode,
+  type ErrorMessage,
+  type ImageResolvedMessage,
+  type InitMessage,
+  type NackMessage,
+  type NackReason,
+  type NavigateMessage,
+  type NavigationTarget,
+  type NestedPageCreateAckMessage,
+  type NestedPageCreatedMessage,
+  type NestedPageCreateFailedMessage,
+  type PeerSelection,
+  type PeerSelectionsMessage,
+  type QuickDiffHunk,
+  type QuickDiffMessage,
+  type ReadOnlyReason,
+  type Remediation,
+  type Replace,
+  type RichDiffMessage,
+  type RichDiffSide,
+  type WebviewConfig,
+  type WebviewToExtensionMessage,
+  type WebviewViewState,
+} from './schema.generated.js';
+
+export * from './schema.generated.js';
 
 export function isValidWebviewMessage(msg: unknown): msg is WebviewToExtensionMessage {
-  if (typeof msg !== 'object' || msg === null) {
-    return false;
-  }
-
-  const m = msg as Record<string, unknown>;
-
-  if (typeof m.v !== 'number' || m.v !== PROTOCOL_VERSION) {
-    return false;
-  }
-
-  if (typeof m.type !== 'string') {
-    return false;
-  }
-
-  if (!VALID_WEBVIEW_MESSAGE_TYPES.includes(m.type as typeof VALID_WEBVIEW_MESSAGE_TYPES[number])) {
-    return false;
-  }
-
-  if (m.type === 'edit') {
-    if (typeof m.txId !== 'number') {return false;}
-    if (typeof m.baseVersion !== 'number') {return false;}
-    if (!Array.isArray(m.changes)) {return false;}
-    for (const change of m.changes) {
-      if (typeof change !== 'object' || change === null) {return false;}
-      if (typeof change.start !== 'number') {return false;}
-      if (typeof change.end !== 'number') {return false;}
-      if (typeof change.text !== 'string') {return false;}
-    }
-  }
-
-  if (m.type === 'initAck') {
-    if (typeof m.sessionId !== 'string') {return false;}
-    if (typeof m.clientId !== 'string') {return false;}
-    if (!(typeof m.elapsedMs === 'number' || m.elapsedMs === null)) {return false;}
-    if (typeof m.contentLength !== 'number') {return false;}
-  }
-
-  if (m.type === 'logClient') {
-    if (typeof m.level !== 'string') {return false;}
-    if (typeof m.message !== 'string') {return false;}
-  }
-
-  if (m.type === 'notifyHost') {
-    if (typeof m.level !== 'string') {return false;}
-    if (typeof m.code !== 'string') {return false;}
-    if (typeof m.message !== 'string') {return false;}
-    if (!Array.isArray(m.remediation)) {return false;}
-    for (const r of m.remediation) {
-      if (typeof r !== 'string') {return false;}
-    }
-  }
-
-  if (m.type === 'menuStateChange') {
-    if (typeof m.visible !== 'boolean') {return false;}
-  }
-
-  if (m.type === 'findWidgetStateChange') {
-    if (typeof m.visible !== 'boolean') {return false;}
-  }
-
-  if (m.type === 'createNestedPage') {
-    if (typeof m.requestId !== 'string') {return false;}
-    if (typeof m.title !== 'string') {return false;}
-  }
-
-  if (m.type === 'openNestedPage') {
-    if (typeof m.path !== 'string') {return false;}
-  }
-
-  return true;
+  return validateWebviewToExtensionMessage(msg).ok;
 }
 
 export function createInitMessage(
   version: number,
   content: string,
+  eol: DocumentEol,
   sessionId: string,
   clientId: string,
   locale: string,
   i18n: Record<string, string>,
-  config: WebviewConfig
+  config: WebviewConfig,
+  navigationPending = false,
+  viewState?: WebviewViewState,
+  capabilities: Capability[] = [],
+  readOnly?: ReadOnlyReason
 ): InitMessage {
   return {
     v: PROTOCOL_VERSION,
@@ -436,11 +169,16 @@ export function createInitMessage(
     origin: 'extension',
     version,
     content,
+    eol,
     sessionId,
     clientId,
     locale,
     i18n,
     config,
+    navigationPending,
+    ...(viewState ? { viewState } : {}),
+    capabilities,
+    ...(readOnly ? { readOnly } : {}),
   };
 }
 
@@ -462,7 +200,8 @@ export function createAckMessage(
   txId: number,
   currentVersion: number,
   outcome: AckOutcome,
-  sessionId: string
+  sessionId: string,
+  rebasedFrom?: number
 ): AckMessage {
   return {
     v: PROTOCOL_VERSION,
@@ -473,6 +212,7 @@ export function createAckMessage(
     txId,
     currentVersion,
     outcome,
+    rebasedFrom,
   };
 }
 
@@ -496,12 +236,32 @@ export function createNackMessage(
   };
 }
 
+export function createEditHeldMessage(
+  txId: number,
+  currentVersion: number,
+  metrics: ChangeGuardMetrics,
+  sessionId: string
+): EditHeldMessage {
+  return {
+    v: PROTOCOL_VERSION,
+    type: 'editHeld',
+    ts: Date.now(),
+    origin: 'extension',
+    sessionId,
+    txId,
+    currentVersion,
+    metrics,
+  };
+}
+
 export function createDocChangedMessage(
   version: number,
   reason: DocChangedMessage['reason'],
   changes: Replace[],
   sessionId: string,
-  fullContent?: string
+  eol: DocumentEol,
+  fullContent?: string,
+  peerId?: string
 ): DocChangedMessage {
   return {
     v: PROTOCOL_VERSION,
@@ -512,7 +272,9 @@ export function createDocChangedMessage(
     version,
     reason,
     changes,
+    eol,
     fullContent,
+    ...(peerId ? { peerId } : {}),
   };
 }
 
@@ -601,3 +363,66 @@ export function createNestedPageCreateFailedMessage(
     details,
   };
 }
+
+export function createNavigateMessage(
+  target: NavigationTarget,
+  docVersion: number,
+  sessionId: string
+): NavigateMessage {
+  return {
+    v: PROTOCOL_VERSION,
+    type: 'navigate',
+    ts: Date.now(),
+    origin: 'extension',
+    sessionId,
+    docVersion,
+    target,
+  };
+}
+
+export function createQuickDiffMessage(
+  docVersion: number,
+  baseRef: string,
+  available: boolean,
+  hunks: QuickDiffHunk[],
+  sessionId: string
+): QuickDiffMessage {
+  return {
+    v: PROTOCOL_VERSION,
+    type: 'quickDiff',
+    ts: Date.now(),
+    origin: 'extension',
+    sessionId,
+    docVersion,
+    baseRef,
+    available,
+    hunks,
+  };
+}
+
+export function createPeerSelectionsMessage(peers: PeerSelection[], sessionId: string): PeerSelectionsMessage {
+  return {
+    v: PROTOCOL_VERSION,
+    type: 'peerSelections',
+    ts: Date.now(),
+    origin: 'extension',
+    sessionId,
+    peers,
+  };
+}
+
+export function createRichDiffMessage(
+  original: RichDiffSide,
+  modified: RichDiffSide,
+  config: WebviewConfig
+): RichDiffMessage {
+  return {
+    v: PROTOCOL_VERSION,
+    type: 'richDiff',
+    ts: Date.now(),
+    origin: 'extension',
+    original,
+    modified,
+    config,
+  };
+}
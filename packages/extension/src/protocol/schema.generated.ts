@@ -0,0 +1,1257 @@
+/**
+ * 役割: Webview ⇄ Extension 間メッセージの型とランタイム検証（生成物）
+ * 責務: protocol/schema.mjs の定義から型・capability・メッセージ型の一覧・検証関数を提供する
+ * 不変条件: scripts/generate-protocol.mjs が生成する。直接編集せず、protocol/schema.mjs を変更して
+ *           `npm run generate:protocol` を実行する（host / Webview の両方に同じ内容が出力される）
+ */
+
+/** 送信するメッセージの v */
+export const PROTOCOL_VERSION = 1;
+
+/** 受け付ける v の下限 */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * 省略可能な機能（ready / init で交換する）
+ * - quickDiff: git HEAD との行差分（quickDiff）を受け取って gutter に表示する
+ * - viewState: 表示状態（viewState）を host に保存し、init の viewState で復元する
+ * - undoRedo: undo / redo を host に要求し（undoRedo）、TextDocument の履歴で戻す
+ * - syncState: 同期の状態（syncState）を host に送り、status bar に表示する
+ * - peerCursors: 選択（selectionChange）を host 経由で同じ document の他のパネルに共有し、peerSelections を表示する
+ * - editJournal: document に届いていない編集を host に記録し（editJournal）、Webview が落ちた後に復元できるようにする
+ * - readOnly: 書き込めない document（git のリビジョン・読み取り専用のファイルシステム・信頼されていないワークスペース）を init の readOnly で受け取り、編集できない表示にする
+ */
+export type Capability =
+  | 'quickDiff'
+  | 'viewState'
+  | 'undoRedo'
+  | 'syncState'
+  | 'peerCursors'
+  | 'editJournal'
+  | 'readOnly';
+
+export const CAPABILITIES: readonly Capability[] = [
+  'quickDiff',
+  'viewState',
+  'undoRedo',
+  'syncState',
+  'peerCursors',
+  'editJournal',
+  'readOnly',
+];
+
+export type MessageOrigin = 'webview' | 'extension';
+
+export interface Replace {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * document の改行コード（VS Code の EndOfLine）。
+ * Webview は LF に正規化して編集し、送り返す Replace[] の offset / text をこの改行コードに戻す
+ */
+export type DocumentEol = 'lf' | 'crlf';
+
+export type LogLevel = 'INFO' | 'DEBUG' | 'TRACE' | 'WARN' | 'ERROR';
+
+export type NotifyLevel = 'INFO' | 'WARN' | 'ERROR';
+
+export type Remediation =
+  | 'resetSession'
+  | 'reopenWithTextEditor'
+  | 'resync'
+  | 'applySettings'
+  | 'trustWorkspace';
+
+export type ErrorCode =
+  | 'SYNC_TIMEOUT'
+  | 'PROTOCOL_VERSION_MISMATCH'
+  | 'CODEC_PARSE_FAILED'
+  | 'CODEC_SERIALIZE_FAILED'
+  | 'APPLY_EDIT_FAILED'
+  | 'EDIT_CONFLICT'
+  | 'DIFF_ENGINE_FAILED'
+  | 'CHANGE_GUARD_EXCEEDED'
+  | 'IMAGE_RESOLVE_FAILED'
+  | 'WORKSPACE_UNTRUSTED'
+  | 'SETTINGS_NOT_CONFIGURED'
+  | 'UNKNOWN';
+
+/** 開いた直後の parse → serialize で書式が変わるトップレベルブロック（行番号は 1-based、endLine を含む） */
+export interface LossyBlock {
+  startLine: number;
+  endLine: number;
+  nodeTypes: string[];
+  changedChars: number;
+}
+
+/**
+ * Webview の表示状態（スクロール位置・選択・検索ウィジェット・ブロックのプレビュー切り替え）。
+ * host は中身を解釈せず、document ごとに保存して次の init で返す。
+ */
+export interface WebviewViewState {
+  /** 保存時の document 内容の指紋。開き直したときに一致しなければ選択とブロックの状態は復元しない */
+  contentHash?: string;
+  scrollTop?: number;
+  scrollLeft?: number;
+  /** ProseMirror の position */
+  selection?: { anchor: number; head: number; };
+  findWidget?: Record<string, unknown>;
+  /** 既定から切り替えたブロックのみ（pos はトップレベルを含む ProseMirror の position） */
+  blocks?: BlockViewState[];
+}
+
+export interface BlockViewState {
+  pos: number;
+  nodeType: string;
+  preview: boolean;
+}
+
+export type HistoryDirection = 'undo' | 'redo';
+
+/**
+ * document に届いていない編集の記録
+ * - content: その時点のエディタの内容（serialize した Markdown、改行は LF）
+ * - changes: 送信済みで ack を待っている edit の Replace[]（baseVersion 基準。無ければ空）
+ * - base: baseVersion 時点の document の内容（改行は LF）。復元時に base → content の編集を現在の document へ rebase する基準。古い Webview は送らない
+ */
+export interface EditJournalEntry {
+  baseVersion: number;
+  content: string;
+  changes: Replace[];
+  base?: string;
+}
+
+/**
+ * 同じ document を開いている他のパネルの選択
+ * - peerId: そのパネルの clientId（docChanged.peerId との照合に使う）
+ * - colorIndex: パネルを開いた順の番号（Webview は色の数で剰余を取る）
+ * - anchor/head: docVersion 時点の ProseMirror の position
+ */
+export interface PeerSelection {
+  peerId: string;
+  colorIndex: number;
+  docVersion: number;
+  anchor: number;
+  head: number;
+}
+
+/**
+ * 同期の状態
+ * - pending: 未送信の編集がある（debounce / coalesce / 差分計算中）
+ * - inFlight: edit を送って ack / docChanged を待っている
+ * - retrying: 自動の resync / セッションのリセット中
+ * - desynced: 同期に失敗し、Webview の内容が document と一致している保証がない
+ */
+export type SyncState = 'idle' | 'pending' | 'inFlight' | 'retrying' | 'desynced';
+
+/**
+ * serialize 時の Markdown の書き方（設定 inlineMark.format.* / .markdownlint.json / .editorconfig から host が解決）
+ * - codeFenceLength: 最小の長さ。内容に同じ文字の連続がある場合はそれより長くする
+ * - insertFinalNewline / trimTrailingWhitespace: files.* 設定（.editorconfig の insert_final_newline /
+ *   trim_trailing_whitespace が優先）。serialize したブロックと文書末尾に適用する
+ */
+export interface MarkdownFormat {
+  bulletMarker: '-' | '*' | '+';
+  emphasisMarker: '*' | '_';
+  strongMarker: '**' | '__';
+  codeFenceChar: '`' | '~';
+  codeFenceLength: number;
+  orderedListNumbering: 'increment' | 'one';
+  hardBreak: 'spaces' | 'backslash';
+  insertFinalNewline: boolean;
+  trimTrailingWhitespace: boolean;
+}
+
+export interface WebviewConfig {
+  debounceMs: number;
+  timeoutMs: number;
+  changeGuard: {
+    maxChangedRatio: number;
+    maxChangedChars: number;
+    maxHunks: number;
+  };
+  view: { fullWidth: boolean; noWrap: boolean; };
+  fidelity: {
+    /** 書式が変わるブロックを Markdown テキストのまま（plainTextBlock で）表示して元の source を保つ */
+    protectLossyBlocks: boolean;
+  };
+  format: MarkdownFormat;
+  preview: {
+    html: {
+      allowScripts: boolean;
+      allowSameOrigin: boolean;
+      allowPopups: boolean;
+      allowForms: boolean;
+    };
+    mermaid: { fontScale: number; };
+  };
+  security: {
+    allowWorkspaceImages: boolean;
+    allowRemoteImages: boolean;
+    allowInsecureRemoteImages: boolean;
+    confirmExternalLinks: boolean;
+  };
+  debug: { enabled: boolean; };
+}
+
+export type AckOutcome = 'applied' | 'noop';
+
+/**
+ * - gitRevision: git のリビジョン（git: URI）
+ * - readOnlyFileSystem: 書き込めないファイルシステム
+ * - untrustedWorkspace: 信頼されていないワークスペース（Restricted Mode）
+ */
+export type ReadOnlyReason = 'gitRevision' | 'readOnlyFileSystem' | 'untrustedWorkspace';
+
+/**
+ * リッチ差分ビュー（inlineMark.openRichDiff）の片側
+ * - label: 見出しに出す名前（例: README.md (HEAD)）
+ * - content: Markdown（document の改行コードのまま）
+ */
+export interface RichDiffSide {
+  label: string;
+  content: string;
+}
+
+/**
+ * - baseVersionMismatch: baseVersion 以降の変更履歴が無く変換できない
+ * - conflict: baseVersion 以降の変更と編集範囲が重なる
+ * - changeGuardRejected: ChangeGuard 超過の編集をユーザーが破棄した（TextDocument の内容で再同期される）
+ * - readOnly: document が読み取り専用（init の readOnly）
+ */
+export type NackReason =
+  | 'baseVersionMismatch'
+  | 'conflict'
+  | 'changeGuardRejected'
+  | 'readOnly'
+  | 'applyFailed'
+  | 'unknown';
+
+export interface ChangeGuardMetrics {
+  changedChars: number;
+  changedRatio: number;
+  hunkCount: number;
+}
+
+export type DocChangedReason = 'self' | 'external' | 'undo' | 'redo';
+
+export type NavigationRevealType =
+  | 'center'
+  | 'centerIfOutsideViewport'
+  | 'nearTop'
+  | 'nearTopIfOutsideViewport';
+
+export type NavigationSource = 'code.navigation' | 'code.jump' | 'api';
+
+/**
+ * - reopenWithInlineMark / fragment: host が捕捉して送る
+ * - それ以外は inlineMark.revealRange の呼び出し側が指定する（省略時・不明な値は definition）
+ * - 検索結果・問題パネルから custom editor が直接開かれた場合は selection を受け取れないため、その reason は無い
+ */
+export type NavigationReason =
+  | 'reopenWithInlineMark'
+  | 'outline'
+  | 'breadcrumbs'
+  | 'definition'
+  | 'references'
+  | 'fragment';
+
+/**
+ * Host 起点のナビゲーション対象（正本は extension host）
+ * - selection: 1-based の行/列（VS Code 標準エディタの表示と同じ）
+ * - range: Markdown 全文に対する UTF-16 offset（送信時の document.version 基準）
+ */
+export interface NavigationTarget {
+  seq: number;
+  docUri: string;
+  selection: {
+    startLineNumber: number;
+    startColumn: number;
+    endLineNumber: number;
+    endColumn: number;
+  };
+  range: { start: number; end: number; };
+  revealType: NavigationRevealType;
+  source: NavigationSource;
+  reason: NavigationReason;
+  createdAt: string;
+}
+
+export type QuickDiffHunkKind = 'added' | 'modified' | 'deleted';
+
+/**
+ * git HEAD との行単位の差分（quick diff / gutter 表示用、内容同期とは無関係）
+ * - startLine/lineCount: 現在の document の 0-based 行範囲（deleted は lineCount=0 で削除位置を示す）
+ * - originalText: HEAD 側の該当行（added は空文字）
+ */
+export interface QuickDiffHunk {
+  kind: QuickDiffHunkKind;
+  startLine: number;
+  lineCount: number;
+  originalStartLine: number;
+  originalText: string;
+}
+
+export interface BaseMessage {
+  type: string;
+  v: number;
+  ts?: number;
+  origin?: MessageOrigin;
+  sessionId?: string;
+  clientId?: string;
+  docUri?: string;
+}
+
+/**
+ * Webview → Extension
+ * Webview の初期化完了。対応する capability を添える（host は init で使う capability を返す）
+ */
+export interface ReadyMessage extends BaseMessage {
+  type: 'ready';
+  /** Webview が対応する capability（知らない名前は host が無視する） */
+  capabilities?: string[];
+}
+
+export interface InitAckMessage extends BaseMessage {
+  type: 'initAck';
+  sessionId: string;
+  clientId: string;
+  elapsedMs: number | null;
+  contentLength: number;
+}
+
+export interface EditMessage extends BaseMessage {
+  type: 'edit';
+  txId: number;
+  baseVersion: number;
+  changes: Replace[];
+}
+
+export interface RequestResyncMessage extends BaseMessage {
+  type: 'requestResync';
+}
+
+export interface LogClientMessage extends BaseMessage {
+  type: 'logClient';
+  level: LogLevel;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface OpenLinkMessage extends BaseMessage {
+  type: 'openLink';
+  url: string;
+}
+
+export interface CopyToClipboardMessage extends BaseMessage {
+  type: 'copyToClipboard';
+  text: string;
+}
+
+export interface OverwriteSaveMessage extends BaseMessage {
+  type: 'overwriteSave';
+  content: string;
+}
+
+export interface ResolveImageMessage extends BaseMessage {
+  type: 'resolveImage';
+  requestId: string;
+  src: string;
+}
+
+export interface ReopenWithTextEditorMessage extends BaseMessage {
+  type: 'reopenWithTextEditor';
+}
+
+export interface ExportLogsMessage extends BaseMessage {
+  type: 'exportLogs';
+}
+
+export interface CreateNestedPageMessage extends BaseMessage {
+  type: 'createNestedPage';
+  requestId: string;
+  title: string;
+}
+
+export interface OpenNestedPageMessage extends BaseMessage {
+  type: 'openNestedPage';
+  path: string;
+}
+
+export interface RequestResyncWithConfirmMessage extends BaseMessage {
+  type: 'requestResyncWithConfirm';
+}
+
+export interface OverwriteSaveWithConfirmMessage extends BaseMessage {
+  type: 'overwriteSaveWithConfirm';
+  content: string;
+}
+
+/**
+ * Webview → Extension
+ * UX メッセージを VS Code の通知で表示する（Webview 内のオーバーレイではなく）
+ */
+export interface NotifyHostMessage extends BaseMessage {
+  type: 'notifyHost';
+  level: NotifyLevel;
+  code: string;
+  message: string;
+  remediation: Remediation[];
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Webview → Extension
+ * init 後に 1 回、書式が変わるブロックがある場合だけ送る
+ */
+export interface FidelityReportMessage extends BaseMessage {
+  type: 'fidelityReport';
+  lossyBlocks: LossyBlock[];
+  /** true: lossyBlocks を plainTextBlock に置き換えて元の source を保った */
+  protectedBlocks: boolean;
+}
+
+/**
+ * Webview → Extension
+ * メニューの表示状態（context key 用）
+ */
+export interface MenuStateChangeMessage extends BaseMessage {
+  type: 'menuStateChange';
+  visible: boolean;
+}
+
+/**
+ * Webview → Extension
+ * 検索ウィジェットの表示状態（context key 用）
+ */
+export interface FindWidgetStateChangeMessage extends BaseMessage {
+  type: 'findWidgetStateChange';
+  visible: boolean;
+}
+
+/**
+ * Webview → Extension
+ * Webview の表示状態。変わるたびに（debounce して）送られ、host は document ごとに保存する。
+ * capability: viewState
+ */
+export interface ViewStateMessage extends BaseMessage {
+  type: 'viewState';
+  state: WebviewViewState;
+}
+
+/**
+ * Webview → Extension
+ * undo / redo の要求。履歴は TextDocument の undo stack が正本で、結果は docChanged (reason: 'undo' | 'redo') で返る。
+ * capability: undoRedo
+ */
+export interface UndoRedoMessage extends BaseMessage {
+  type: 'undoRedo';
+  direction: HistoryDirection;
+}
+
+/**
+ * Webview → Extension
+ * 同期の状態が変わったときに送られる（status bar 表示用）。
+ * capability: syncState
+ */
+export interface SyncStateMessage extends BaseMessage {
+  type: 'syncState';
+  state: SyncState;
+  /** desynced の原因（エラーコード） */
+  reason?: string;
+}
+
+/**
+ * Webview → Extension
+ * 選択が変わったときに（debounce して）送られる。送信待ちの編集が無いときだけ送るため、位置は docVersion の document と対応する。
+ * capability: peerCursors
+ */
+export interface SelectionChangeMessage extends BaseMessage {
+  type: 'selectionChange';
+  docVersion: number;
+  anchor: number;
+  head: number;
+}
+
+/**
+ * Webview → Extension
+ * 未送信・ack 待ちの編集がある間、定期的に送られる。編集がすべて document に届いたら entry=null で消す。
+ * capability: editJournal
+ */
+export interface EditJournalMessage extends BaseMessage {
+  type: 'editJournal';
+  entry: EditJournalEntry | null;
+}
+
+/**
+ * Webview → Extension
+ * 同期の復旧操作（resync / リセット / テキストエディタで開く）の選択を表示する要求（バナーのボタン）。
+ */
+export interface ShowSyncActionsMessage extends BaseMessage {
+  type: 'showSyncActions';
+}
+
+/**
+ * Webview → Extension
+ * リッチ差分ビューの Webview の初期化完了（エディタの Webview は送らない）。host は richDiff を返す。
+ */
+export interface RichDiffReadyMessage extends BaseMessage {
+  type: 'richDiffReady';
+}
+
+export type WebviewToExtensionMessage =
+  | ReadyMessage
+  | InitAckMessage
+  | EditMessage
+  | RequestResyncMessage
+  | LogClientMessage
+  | OpenLinkMessage
+  | CopyToClipboardMessage
+  | OverwriteSaveMessage
+  | ResolveImageMessage
+  | ReopenWithTextEditorMessage
+  | ExportLogsMessage
+  | CreateNestedPageMessage
+  | OpenNestedPageMessage
+  | RequestResyncWithConfirmMessage
+  | OverwriteSaveWithConfirmMessage
+  | NotifyHostMessage
+  | FidelityReportMessage
+  | MenuStateChangeMessage
+  | FindWidgetStateChangeMessage
+  | ViewStateMessage
+  | UndoRedoMessage
+  | SyncStateMessage
+  | SelectionChangeMessage
+  | EditJournalMessage
+  | ShowSyncActionsMessage
+  | RichDiffReadyMessage;
+
+export interface InitMessage extends BaseMessage {
+  type: 'init';
+  version: number;
+  content: string;
+  eol: DocumentEol;
+  sessionId: string;
+  clientId: string;
+  locale: string;
+  i18n: Record<string, string>;
+  config: WebviewConfig;
+  /**
+   * init 直後に navigate が続くことを示す。
+   * true の場合 Webview は保存済みスクロール位置の復元をスキップする
+   * (2026-03-31 gap audit: NavigationTarget を scrollTop より優先)。
+   */
+  navigationPending?: boolean;
+  /** 前回この document を開いていた Webview の表示状態（host が workspaceState に保存したもの） */
+  viewState?: WebviewViewState;
+  /** このセッションで使う capability（ready で Webview が送ったもののうち host も対応するもの） */
+  capabilities?: string[];
+  /** document を編集できない理由。ある場合 Webview は編集 UI を出さず edit を送らない（capability readOnly） */
+  readOnly?: ReadOnlyReason;
+}
+
+export interface ConfigChangedMessage extends BaseMessage {
+  type: 'configChanged';
+  config: WebviewConfig;
+}
+
+export interface AckMessage extends BaseMessage {
+  type: 'ack';
+  txId: number;
+  currentVersion: number;
+  outcome: AckOutcome;
+  /** 古い baseVersion から途中の変更を越えて変換（rebase）して適用した場合の元 baseVersion */
+  rebasedFrom?: number;
+}
+
+export interface NackMessage extends BaseMessage {
+  type: 'nack';
+  txId: number;
+  currentVersion: number;
+  reason: NackReason;
+  details?: string;
+}
+
+/**
+ * Extension → Webview
+ * ChangeGuard の閾値を超えた edit を保留したことを通知する。
+ * 確認が済むまで ack/nack は送らないため、Webview は in-flight のタイムアウトを止めて待つ。
+ */
+export interface EditHeldMessage extends BaseMessage {
+  type: 'editHeld';
+  txId: number;
+  currentVersion: number;
+  metrics: ChangeGuardMetrics;
+}
+
+export interface DocChangedMessage extends BaseMessage {
+  type: 'docChanged';
+  version: number;
+  reason: DocChangedReason;
+  changes: Replace[];
+  /** 変更適用後の document の改行コード */
+  eol: DocumentEol;
+  fullContent?: string;
+  /** 別の inlineMark パネルの edit による変更の場合、そのパネルの clientId（peerCursors を合意したパネルにだけ付ける） */
+  peerId?: string;
+}
+
+export interface ErrorMessage extends BaseMessage {
+  type: 'error';
+  code: ErrorCode;
+  message: string;
+  remediation: Remediation[];
+}
+
+export interface ImageResolvedMessage extends BaseMessage {
+  type: 'imageResolved';
+  requestId: string;
+  resolvedSrc: string;
+}
+
+export interface NestedPageCreateAckMessage extends BaseMessage {
+  type: 'nestedPageCreateAck';
+  requestId: string;
+}
+
+export interface NestedPageCreatedMessage extends BaseMessage {
+  type: 'nestedPageCreated';
+  requestId: string;
+  title: string;
+  path: string;
+}
+
+export interface NestedPageCreateFailedMessage extends BaseMessage {
+  type: 'nestedPageCreateFailed';
+  requestId: string;
+  message: string;
+  code?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface NavigateMessage extends BaseMessage {
+  type: 'navigate';
+  docVersion: number;
+  target: NavigationTarget;
+}
+
+/**
+ * Extension → Webview
+ * available=false は比較対象が無い（git 管理外 / HEAD に未登録 / 無効化）ことを示し、
+ * Webview は表示中のマーカーを消す。
+ * capability: quickDiff
+ */
+export interface QuickDiffMessage extends BaseMessage {
+  type: 'quickDiff';
+  docVersion: number;
+  baseRef: string;
+  available: boolean;
+  hunks: QuickDiffHunk[];
+}
+
+/**
+ * Extension → Webview
+ * 同じ document を開いている他のパネルの選択（全件）。パネルの選択が変わる・閉じるたびに送られる。
+ * capability: peerCursors
+ */
+export interface PeerSelectionsMessage extends BaseMessage {
+  type: 'peerSelections';
+  peers: PeerSelection[];
+}
+
+/**
+ * Extension → Webview
+ * リッチ差分ビューに表示する 2 つの版。表示中に変更側の document が変わるたびに送り直す。
+ */
+export interface RichDiffMessage extends BaseMessage {
+  type: 'richDiff';
+  original: RichDiffSide;
+  modified: RichDiffSide;
+  config: WebviewConfig;
+}
+
+export type ExtensionToWebviewMessage =
+  | InitMessage
+  | ConfigChangedMessage
+  | AckMessage
+  | NackMessage
+  | EditHeldMessage
+  | DocChangedMessage
+  | ErrorMessage
+  | ImageResolvedMessage
+  | NestedPageCreateAckMessage
+  | NestedPageCreatedMessage
+  | NestedPageCreateFailedMessage
+  | NavigateMessage
+  | QuickDiffMessage
+  | PeerSelectionsMessage
+  | RichDiffMessage;
+
+export const WEBVIEW_TO_EXTENSION_MESSAGE_TYPES: readonly WebviewToExtensionMessage['type'][] = [
+  'ready',
+  'initAck',
+  'edit',
+  'requestResync',
+  'logClient',
+  'openLink',
+  'copyToClipboard',
+  'overwriteSave',
+  'resolveImage',
+  'reopenWithTextEditor',
+  'exportLogs',
+  'createNestedPage',
+  'openNestedPage',
+  'requestResyncWithConfirm',
+  'overwriteSaveWithConfirm',
+  'notifyHost',
+  'fidelityReport',
+  'menuStateChange',
+  'findWidgetStateChange',
+  'viewState',
+  'undoRedo',
+  'syncState',
+  'selectionChange',
+  'editJournal',
+  'showSyncActions',
+  'richDiffReady',
+];
+
+export const EXTENSION_TO_WEBVIEW_MESSAGE_TYPES: readonly ExtensionToWebviewMessage['type'][] = [
+  'init',
+  'configChanged',
+  'ack',
+  'nack',
+  'editHeld',
+  'docChanged',
+  'error',
+  'imageResolved',
+  'nestedPageCreateAck',
+  'nestedPageCreated',
+  'nestedPageCreateFailed',
+  'navigate',
+  'quickDiff',
+  'peerSelections',
+  'richDiff',
+];
+
+export type ProtocolMessageType = WebviewToExtensionMessage['type'] | ExtensionToWebviewMessage['type'];
+
+/** 使うのに capability の合意が必要なメッセージ型 */
+export const MESSAGE_CAPABILITIES: Partial<Record<ProtocolMessageType, Capability>> = {
+  viewState: 'viewState',
+  undoRedo: 'undoRedo',
+  syncState: 'syncState',
+  selectionChange: 'peerCursors',
+  editJournal: 'editJournal',
+  quickDiff: 'quickDiff',
+  peerSelections: 'peerCursors',
+};
+
+export type ProtocolDefinitionName =
+  | 'MessageOrigin'
+  | 'Replace'
+  | 'DocumentEol'
+  | 'LogLevel'
+  | 'NotifyLevel'
+  | 'Remediation'
+  | 'ErrorCode'
+  | 'LossyBlock'
+  | 'WebviewViewState'
+  | 'BlockViewState'
+  | 'HistoryDirection'
+  | 'EditJournalEntry'
+  | 'PeerSelection'
+  | 'SyncState'
+  | 'MarkdownFormat'
+  | 'WebviewConfig'
+  | 'AckOutcome'
+  | 'ReadOnlyReason'
+  | 'RichDiffSide'
+  | 'NackReason'
+  | 'ChangeGuardMetrics'
+  | 'DocChangedReason'
+  | 'NavigationRevealType'
+  | 'NavigationSource'
+  | 'NavigationReason'
+  | 'NavigationTarget'
+  | 'QuickDiffHunkKind'
+  | 'QuickDiffHunk';
+
+const DEFINITION_SPECS: Record<ProtocolDefinitionName, FieldSpec> = {
+  MessageOrigin: { type: 'enum', values: ['webview', 'extension'] },
+  Replace: {
+    type: 'object',
+    fields: { start: { type: 'number' }, end: { type: 'number' }, text: { type: 'string' } },
+  },
+  DocumentEol: { type: 'enum', values: ['lf', 'crlf'] },
+  LogLevel: { type: 'enum', values: ['INFO', 'DEBUG', 'TRACE', 'WARN', 'ERROR'] },
+  NotifyLevel: { type: 'enum', values: ['INFO', 'WARN', 'ERROR'] },
+  Remediation: {
+    type: 'enum',
+    values: ['resetSession', 'reopenWithTextEditor', 'resync', 'applySettings', 'trustWorkspace'],
+  },
+  ErrorCode: {
+    type: 'enum',
+    values: [
+      'SYNC_TIMEOUT',
+      'PROTOCOL_VERSION_MISMATCH',
+      'CODEC_PARSE_FAILED',
+      'CODEC_SERIALIZE_FAILED',
+      'APPLY_EDIT_FAILED',
+      'EDIT_CONFLICT',
+      'DIFF_ENGINE_FAILED',
+      'CHANGE_GUARD_EXCEEDED',
+      'IMAGE_RESOLVE_FAILED',
+      'WORKSPACE_UNTRUSTED',
+      'SETTINGS_NOT_CONFIGURED',
+      'UNKNOWN',
+    ],
+  },
+  LossyBlock: {
+    type: 'object',
+    fields: {
+      startLine: { type: 'number' },
+      endLine: { type: 'number' },
+      nodeTypes: { type: 'array', items: { type: 'string' } },
+      changedChars: { type: 'number' },
+    },
+  },
+  WebviewViewState: {
+    type: 'object',
+    fields: {
+      contentHash: { type: 'string', optional: true },
+      scrollTop: { type: 'number', optional: true },
+      scrollLeft: { type: 'number', optional: true },
+      selection: {
+        type: 'object',
+        fields: { anchor: { type: 'number' }, head: { type: 'number' } },
+        optional: true,
+      },
+      findWidget: { type: 'record', value: { type: 'unknown' }, optional: true },
+      blocks: { type: 'array', items: { type: 'ref', name: 'BlockViewState' }, optional: true },
+    },
+  },
+  BlockViewState: {
+    type: 'object',
+    fields: { pos: { type: 'number' }, nodeType: { type: 'string' }, preview: { type: 'boolean' } },
+  },
+  HistoryDirection: { type: 'enum', values: ['undo', 'redo'] },
+  EditJournalEntry: {
+    type: 'object',
+    fields: {
+      baseVersion: { type: 'number' },
+      content: { type: 'string' },
+      changes: { type: 'array', items: { type: 'ref', name: 'Replace' } },
+      base: { type: 'string', optional: true },
+    },
+  },
+  PeerSelection: {
+    type: 'object',
+    fields: {
+      peerId: { type: 'string' },
+      colorIndex: { type: 'number' },
+      docVersion: { type: 'number' },
+      anchor: { type: 'number' },
+      head: { type: 'number' },
+    },
+  },
+  SyncState: { type: 'enum', values: ['idle', 'pending', 'inFlight', 'retrying', 'desynced'] },
+  MarkdownFormat: {
+    type: 'object',
+    fields: {
+      bulletMarker: { type: 'enum', values: ['-', '*', '+'] },
+      emphasisMarker: { type: 'enum', values: ['*', '_'] },
+      strongMarker: { type: 'enum', values: ['**', '__'] },
+      codeFenceChar: { type: 'enum', values: ['`', '~'] },
+      codeFenceLength: { type: 'number' },
+      orderedListNumbering: { type: 'enum', values: ['increment', 'one'] },
+      hardBreak: { type: 'enum', values: ['spaces', 'backslash'] },
+      insertFinalNewline: { type: 'boolean' },
+      trimTrailingWhitespace: { type: 'boolean' },
+    },
+  },
+  WebviewConfig: {
+    type: 'object',
+    fields: {
+      debounceMs: { type: 'number' },
+      timeoutMs: { type: 'number' },
+      changeGuard: {
+        type: 'object',
+        fields: {
+          maxChangedRatio: { type: 'number' },
+          maxChangedChars: { type: 'number' },
+          maxHunks: { type: 'number' },
+        },
+      },
+      view: { type: 'object', fields: { fullWidth: { type: 'boolean' }, noWrap: { type: 'boolean' } } },
+      fidelity: { type: 'object', fields: { protectLossyBlocks: { type: 'boolean' } } },
+      format: { type: 'ref', name: 'MarkdownFormat' },
+      preview: {
+        type: 'object',
+        fields: {
+          html: {
+            type: 'object',
+            fields: {
+              allowScripts: { type: 'boolean' },
+              allowSameOrigin: { type: 'boolean' },
+              allowPopups: { type: 'boolean' },
+              allowForms: { type: 'boolean' },
+            },
+          },
+          mermaid: { type: 'object', fields: { fontScale: { type: 'number' } } },
+        },
+      },
+      security: {
+        type: 'object',
+        fields: {
+          allowWorkspaceImages: { type: 'boolean' },
+          allowRemoteImages: { type: 'boolean' },
+          allowInsecureRemoteImages: { type: 'boolean' },
+          confirmExternalLinks: { type: 'boolean' },
+        },
+      },
+      debug: { type: 'object', fields: { enabled: { type: 'boolean' } } },
+    },
+  },
+  AckOutcome: { type: 'enum', values: ['applied', 'noop'] },
+  ReadOnlyReason: { type: 'enum', values: ['gitRevision', 'readOnlyFileSystem', 'untrustedWorkspace'] },
+  RichDiffSide: { type: 'object', fields: { label: { type: 'string' }, content: { type: 'string' } } },
+  NackReason: {
+    type: 'enum',
+    values: [
+      'baseVersionMismatch',
+      'conflict',
+      'changeGuardRejected',
+      'readOnly',
+      'applyFailed',
+      'unknown',
+    ],
+  },
+  ChangeGuardMetrics: {
+    type: 'object',
+    fields: {
+      changedChars: { type: 'number' },
+      changedRatio: { type: 'number' },
+      hunkCount: { type: 'number' },
+    },
+  },
+  DocChangedReason: { type: 'enum', values: ['self', 'external', 'undo', 'redo'] },
+  NavigationRevealType: {
+    type: 'enum',
+    values: ['center', 'centerIfOutsideViewport', 'nearTop', 'nearTopIfOutsideViewport'],
+  },
+  NavigationSource: { type: 'enum', values: ['code.navigation', 'code.jump', 'api'] },
+  NavigationReason: {
+    type: 'enum',
+    values: ['reopenWithInlineMark', 'outline', 'breadcrumbs', 'definition', 'references', 'fragment'],
+  },
+  NavigationTarget: {
+    type: 'object',
+    fields: {
+      seq: { type: 'number' },
+      docUri: { type: 'string' },
+      selection: {
+        type: 'object',
+        fields: {
+          startLineNumber: { type: 'number' },
+          startColumn: { type: 'number' },
+          endLineNumber: { type: 'number' },
+          endColumn: { type: 'number' },
+        },
+      },
+      range: { type: 'object', fields: { start: { type: 'number' }, end: { type: 'number' } } },
+      revealType: { type: 'ref', name: 'NavigationRevealType' },
+      source: { type: 'ref', name: 'NavigationSource' },
+      reason: { type: 'ref', name: 'NavigationReason' },
+      createdAt: { type: 'string' },
+    },
+  },
+  QuickDiffHunkKind: { type: 'enum', values: ['added', 'modified', 'deleted'] },
+  QuickDiffHunk: {
+    type: 'object',
+    fields: {
+      kind: { type: 'ref', name: 'QuickDiffHunkKind' },
+      startLine: { type: 'number' },
+      lineCount: { type: 'number' },
+      originalStartLine: { type: 'number' },
+      originalText: { type: 'string' },
+    },
+  },
+};
+
+const ENVELOPE_SPEC: FieldSpecs = {
+  v: { type: 'number' },
+  ts: { type: 'number', optional: true },
+  origin: { type: 'ref', name: 'MessageOrigin', optional: true },
+  sessionId: { type: 'string', optional: true },
+  clientId: { type: 'string', optional: true },
+  docUri: { type: 'string', optional: true },
+};
+
+const WEBVIEW_TO_EXTENSION_SPECS: Record<string, FieldSpecs> = {
+  ready: { capabilities: { type: 'array', items: { type: 'string' }, optional: true } },
+  initAck: {
+    sessionId: { type: 'string' },
+    clientId: { type: 'string' },
+    elapsedMs: { type: 'number', nullable: true },
+    contentLength: { type: 'number' },
+  },
+  edit: {
+    txId: { type: 'number' },
+    baseVersion: { type: 'number' },
+    changes: { type: 'array', items: { type: 'ref', name: 'Replace' } },
+  },
+  requestResync: {},
+  logClient: {
+    level: { type: 'ref', name: 'LogLevel' },
+    message: { type: 'string' },
+    details: { type: 'record', value: { type: 'unknown' }, optional: true },
+  },
+  openLink: { url: { type: 'string' } },
+  copyToClipboard: { text: { type: 'string' } },
+  overwriteSave: { content: { type: 'string' } },
+  resolveImage: { requestId: { type: 'string' }, src: { type: 'string' } },
+  reopenWithTextEditor: {},
+  exportLogs: {},
+  createNestedPage: { requestId: { type: 'string' }, title: { type: 'string' } },
+  openNestedPage: { path: { type: 'string' } },
+  requestResyncWithConfirm: {},
+  overwriteSaveWithConfirm: { content: { type: 'string' } },
+  notifyHost: {
+    level: { type: 'ref', name: 'NotifyLevel' },
+    code: { type: 'string' },
+    message: { type: 'string' },
+    remediation: { type: 'array', items: { type: 'ref', name: 'Remediation' } },
+    details: { type: 'record', value: { type: 'unknown' }, optional: true },
+  },
+  fidelityReport: {
+    lossyBlocks: { type: 'array', items: { type: 'ref', name: 'LossyBlock' } },
+    protectedBlocks: { type: 'boolean' },
+  },
+  menuStateChange: { visible: { type: 'boolean' } },
+  findWidgetStateChange: { visible: { type: 'boolean' } },
+  viewState: { state: { type: 'ref', name: 'WebviewViewState' } },
+  undoRedo: { direction: { type: 'ref', name: 'HistoryDirection' } },
+  syncState: { state: { type: 'ref', name: 'SyncState' }, reason: { type: 'string', optional: true } },
+  selectionChange: { docVersion: { type: 'number' }, anchor: { type: 'number' }, head: { type: 'number' } },
+  editJournal: { entry: { type: 'ref', name: 'EditJournalEntry', nullable: true } },
+  showSyncActions: {},
+  richDiffReady: {},
+};
+
+const EXTENSION_TO_WEBVIEW_SPECS: Record<string, FieldSpecs> = {
+  init: {
+    version: { type: 'number' },
+    content: { type: 'string' },
+    eol: { type: 'ref', name: 'DocumentEol' },
+    sessionId: { type: 'string' },
+    clientId: { type: 'string' },
+    locale: { type: 'string' },
+    i18n: { type: 'record', value: { type: 'string' } },
+    config: { type: 'ref', name: 'WebviewConfig' },
+    navigationPending: { type: 'boolean', optional: true },
+    viewState: { type: 'ref', name: 'WebviewViewState', optional: true },
+    capabilities: { type: 'array', items: { type: 'string' }, optional: true },
+    readOnly: { type: 'ref', name: 'ReadOnlyReason', optional: true },
+  },
+  configChanged: { config: { type: 'ref', name: 'WebviewConfig' } },
+  ack: {
+    txId: { type: 'number' },
+    currentVersion: { type: 'number' },
+    outcome: { type: 'ref', name: 'AckOutcome' },
+    rebasedFrom: { type: 'number', optional: true },
+  },
+  nack: {
+    txId: { type: 'number' },
+    currentVersion: { type: 'number' },
+    reason: { type: 'ref', name: 'NackReason' },
+    details: { type: 'string', optional: true },
+  },
+  editHeld: {
+    txId: { type: 'number' },
+    currentVersion: { type: 'number' },
+    metrics: { type: 'ref', name: 'ChangeGuardMetrics' },
+  },
+  docChanged: {
+    version: { type: 'number' },
+    reason: { type: 'ref', name: 'DocChangedReason' },
+    changes: { type: 'array', items: { type: 'ref', name: 'Replace' } },
+    eol: { type: 'ref', name: 'DocumentEol' },
+    fullContent: { type: 'string', optional: true },
+    peerId: { type: 'string', optional: true },
+  },
+  error: {
+    code: { type: 'ref', name: 'ErrorCode' },
+    message: { type: 'string' },
+    remediation: { type: 'array', items: { type: 'ref', name: 'Remediation' } },
+  },
+  imageResolved: { requestId: { type: 'string' }, resolvedSrc: { type: 'string' } },
+  nestedPageCreateAck: { requestId: { type: 'string' } },
+  nestedPageCreated: { requestId: { type: 'string' }, title: { type: 'string' }, path: { type: 'string' } },
+  nestedPageCreateFailed: {
+    requestId: { type: 'string' },
+    message: { type: 'string' },
+    code: { type: 'string', optional: true },
+    details: { type: 'record', value: { type: 'unknown' }, optional: true },
+  },
+  navigate: { docVersion: { type: 'number' }, target: { type: 'ref', name: 'NavigationTarget' } },
+  quickDiff: {
+    docVersion: { type: 'number' },
+    baseRef: { type: 'string' },
+    available: { type: 'boolean' },
+    hunks: { type: 'array', items: { type: 'ref', name: 'QuickDiffHunk' } },
+  },
+  peerSelections: { peers: { type: 'array', items: { type: 'ref', name: 'PeerSelection' } } },
+  richDiff: {
+    original: { type: 'ref', name: 'RichDiffSide' },
+    modified: { type: 'ref', name: 'RichDiffSide' },
+    config: { type: 'ref', name: 'WebviewConfig' },
+  },
+};
+
+type FieldSpec = (
+  | { type: 'string' | 'number' | 'boolean' | 'unknown' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'array'; items: FieldSpec }
+  | { type: 'record'; value: FieldSpec }
+  | { type: 'object'; fields: FieldSpecs }
+  | { type: 'ref'; name: ProtocolDefinitionName }
+) & { optional?: boolean; nullable?: boolean };
+
+type FieldSpecs = Record<string, FieldSpec>;
+
+/**
+ * - unsupportedVersion: v が MIN_PROTOCOL_VERSION..PROTOCOL_VERSION の範囲外
+ * - unknownType: この向きのメッセージとして知らない type
+ * - invalidField: フィールドの値がスキーマと一致しない（error に位置を含む）
+ */
+export type ProtocolValidationFailure = 'notObject' | 'unsupportedVersion' | 'unknownType' | 'invalidField';
+
+export type ProtocolValidationResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; reason: ProtocolValidationFailure; error: string };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describeValue = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/** 一致すれば null、しなければ最初に見つかった不一致（位置つき） */
+function checkField(value: unknown, spec: FieldSpec, at: string): string | null {
+  if (value === undefined) {
+    return spec.optional ? null : `${at}: required`;
+  }
+  if (value === null) {
+    return spec.nullable ? null : `${at}: expected ${spec.type}, got null`;
+  }
+  switch (spec.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return typeof value === spec.type ? null : `${at}: expected ${spec.type}, got ${describeValue(value)}`;
+    case 'unknown':
+      return null;
+    case 'enum':
+      return typeof value === 'string' && spec.values.includes(value)
+        ? null
+        : `${at}: expected one of ${spec.values.join(', ')}, got ${JSON.stringify(value)}`;
+    case 'array':
+      if (!Array.isArray(value)) {
+        return `${at}: expected array, got ${describeValue(value)}`;
+      }
+      for (let i = 0; i < value.length; i += 1) {
+        const error = checkField(value[i], spec.items, `${at}[${i}]`);
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    case 'record':
+      if (!isPlainObject(value)) {
+        return `${at}: expected object, got ${describeValue(value)}`;
+      }
+      for (const [key, child] of Object.entries(value)) {
+        const error = checkField(child, spec.value, `${at}.${key}`);
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    case 'object':
+      if (!isPlainObject(value)) {
+        return `${at}: expected object, got ${describeValue(value)}`;
+      }
+      return checkFields(value, spec.fields, at);
+    case 'ref':
+      return checkField(value, DEFINITION_SPECS[spec.name], at);
+  }
+}
+
+/** スキーマに無いフィールドは見ない（新しい版の optional フィールドを無視するため） */
+function checkFields(value: Record<string, unknown>, fields: FieldSpecs, at: string): string | null {
+  for (const [name, spec] of Object.entries(fields)) {
+    const error = checkField(value[name], spec, at ? `${at}.${name}` : name);
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
+
+function validateMessage<T>(value: unknown, messages: Record<string, FieldSpecs>): ProtocolValidationResult<T> {
+  if (!isPlainObject(value)) {
+    return { ok: false, reason: 'notObject', error: `expected object, got ${describeValue(value)}` };
+  }
+  const { v, type } = value;
+  if (typeof v !== 'number' || v < MIN_PROTOCOL_VERSION || v > PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      reason: 'unsupportedVersion',
+      error: `v: expected ${MIN_PROTOCOL_VERSION}..${PROTOCOL_VERSION}, got ${JSON.stringify(v)}`,
+    };
+  }
+  if (typeof type !== 'string' || !Object.hasOwn(messages, type)) {
+    return { ok: false, reason: 'unknownType', error: `type: unknown message type ${JSON.stringify(type)}` };
+  }
+  const error = checkFields(value, ENVELOPE_SPEC, '') ?? checkFields(value, messages[type], '');
+  if (error) {
+    return { ok: false, reason: 'invalidField', error: `${type}.${error}` };
+  }
+  return { ok: true, message: value as T };
+}
+
+export function validateWebviewToExtensionMessage(value: unknown): ProtocolValidationResult<WebviewToExtensionMessage> {
+  return validateMessage(value, WEBVIEW_TO_EXTENSION_SPECS);
+}
+
+export function validateExtensionToWebviewMessage(value: unknown): ProtocolValidationResult<ExtensionToWebviewMessage> {
+  return validateMessage(value, EXTENSION_TO_WEBVIEW_SPECS);
+}
+
+/** 共有の型（definitions）1 つ分の検証。一致すれば null、しなければ不一致の位置と理由 */
+export function validateDefinition(name: ProtocolDefinitionName, value: unknown): string | null {
+  return checkField(value, DEFINITION_SPECS[name], name);
+}
+
+export function isCapability(value: unknown): value is Capability {
+  return typeof value === 'string' && (CAPABILITIES as readonly string[]).includes(value);
+}
+
+/**
+ * 相手が送った capability のうち、こちらも対応するもの（順序は CAPABILITIES に揃える）。
+ * 相手が capabilities を送らない（古い版）場合は空
+ */
+export function negotiateCapabilities(
+  offered: readonly unknown[] | undefined,
+  supported: readonly Capability[] = CAPABILITIES
+): Capability[] {
+  if (!offered) {
+    return [];
+  }
+  return CAPABILITIES.filter((capability) => supported.includes(capability) && offered.includes(capability));
+}
@@ -1,5 +1,44 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { computeQuickDiffHunks, resolveOriginalText } from '../editors/quickDiff.js';
+import { formatFromEditorConfig, formatFromMarkdownlint, stripJsonComments } from '../editors/markdownFormat.js';
+import {
+  MESSAGE_CAPABILITIES,
+  PROTOCOL_VERSION,
+  createAckMessage,
+  createDocChangedMessage,
+  createErrorMessage,
+  createInitMessage,
+  createNackMessage,
+  createPeerSelectionsMessage,
+  createRichDiffMessage,
+  isValidWebviewMessage,
+  negotiateCapabilities,
+  validateExtensionToWebviewMessage,
+  validateWebviewToExtensionMessage,
+} from '../protocol/messages.js';
+import {
+  applyReplacesToText,
+  calculateChangeMetrics,
+  isChangeGuardExceeded,
+  rebaseReplaces,
+} from '../util/textEdits.js';
+import { parseEditorConfig, resolveEditorConfigProperties } from '../util/editorConfig.js';
+import { diffsToReplaces, getDiffWindow } from '../util/diffWindow.js';
+import { ViewStateStore } from '../editors/viewStateStore.js';
+import {
+  EditJournalStore,
+  diffToReplaces,
+  isJournalApplied,
+  planJournalRestore,
+  toDocumentText,
+} from '../editors/editJournal.js';
+import { ChangeGuardPreview, PROPOSED_EDIT_SCHEME } from '../editors/changeGuard.js';
+import { resolveReadOnlyReason } from '../editors/readOnly.js';
+import { resolveRichDiffTarget } from '../editors/richDiff.js';
+import { isUriWithin, relativeUriPath, uriBasename, uriDirname, uriExtname, uriStem } from '../util/uriPaths.js';
 
 type TestCase = {
   name: string;
@@ -36,8 +75,12 @@ suite('Extension Test Suite', () => {
     assert.ok(commands.includes('inlineMark.resetSession'), 'resetSession command should be registered');
     assert.ok(commands.includes('inlineMark.reopenWithTextEditor'), 'reopenWithTextEditor command should be registered');
     assert.ok(commands.includes('inlineMark.reopenWithInlineMark'), 'reopenWithInlineMark command should be registered');
+    assert.ok(commands.includes('inlineMark.revealRange'), 'revealRange command should be registered');
     assert.ok(commands.includes('inlineMark.applyRequiredSettings'), 'applyRequiredSettings command should be registered');
     assert.ok(commands.includes('inlineMark.exportLogs'), 'exportLogs command should be registered');
+    assert.ok(commands.includes('inlineMark.showSyncActions'), 'showSyncActions command should be registered');
+    assert.ok(commands.includes('inlineMark.openRichDiff'), 'openRichDiff command should be registered');
+    assert.ok(commands.includes('inlineMark.toggleTaskList'), 'toggleTaskList command should be registered');
   });
 
   test('Configuration should have default values', () => {
@@ -46,12 +89,436 @@ suite('Extension Test Suite', () => {
     assert.strictEqual(config.get('sync.debounceMs'), 250, 'debounceMs should default to 250');
     assert.strictEqual(config.get('sync.timeoutMs'), 3000, 'timeoutMs should default to 3000');
     assert.strictEqual(config.get('sync.changeGuard.maxChangedRatio'), 0.5, 'maxChangedRatio should default to 0.5');
+    assert.strictEqual(config.get('sync.changeGuard.minChangedChars'), 100, 'minChangedChars should default to 100');
     assert.strictEqual(config.get('security.allowWorkspaceImages'), true, 'allowWorkspaceImages should default to true');
     assert.strictEqual(config.get('security.allowRemoteImages'), false, 'allowRemoteImages should default to false');
     assert.strictEqual(config.get('security.confirmExternalLinks'), true, 'confirmExternalLinks should default to true');
     assert.strictEqual(config.get('debug.enabled'), false, 'debug.enabled should default to false');
     assert.strictEqual(config.get('view.fullWidth'), true, 'fullWidth should default to true');
     assert.strictEqual(config.get('view.noWrap'), null, 'noWrap should default to null');
+    assert.strictEqual(config.get('view.quickDiff'), true, 'quickDiff should default to true');
+    assert.strictEqual(config.get('fidelity.notifyOnOpen'), true, 'fidelity.notifyOnOpen should default to true');
+    assert.strictEqual(
+      config.get('fidelity.protectLossyBlocks'),
+      false,
+      'fidelity.protectLossyBlocks should default to false'
+    );
+    assert.strictEqual(config.get('format.bulletMarker'), '-', 'format.bulletMarker should default to -');
+    assert.strictEqual(config.get('format.codeFenceLength'), 3, 'format.codeFenceLength should default to 3');
+    assert.strictEqual(config.get('format.hardBreak'), 'spaces', 'format.hardBreak should default to spaces');
+  });
+
+  test('Quick diff hunks should classify added/modified/deleted lines', () => {
+    const original = 'a\nb\nc\nd\n';
+    const current = 'a\nB\nc\nnew\n';
+    const hunks = computeQuickDiffHunks(original, current.replace(/\n/g, '\r\n'));
+
+    assert.deepStrictEqual(
+      hunks.map((hunk) => [hunk.kind, hunk.startLine, hunk.lineCount, hunk.originalText]),
+      [
+        ['modified', 1, 1, 'b'],
+        ['modified', 3, 1, 'd'],
+      ]
+    );
+    assert.deepStrictEqual(computeQuickDiffHunks('a\nb\n', 'a\nb\n'), [], 'identical text should have no hunks');
+    assert.strictEqual(computeQuickDiffHunks('a\n', 'a\nb\n')[0].kind, 'added');
+    assert.strictEqual(computeQuickDiffHunks('a\nb\nc\n', 'a\nc\n')[0].kind, 'deleted');
+  });
+
+  test('Quick diff should not run git in an untrusted workspace', async () => {
+    const resolution = await resolveOriginalText(vscode.Uri.file(__filename), false);
+    assert.deepStrictEqual(resolution, { text: null, source: null, reason: 'untrustedWorkspace' });
+  });
+
+  test('Stale edits should be rebased through non-overlapping changes', () => {
+    const intervening = [
+      { start: 0, end: 0, text: 'abc' },
+      { start: 20, end: 25, text: '' },
+    ];
+
+    const rebased = rebaseReplaces([{ start: 10, end: 12, text: 'x' }, { start: 40, end: 40, text: 'y' }], intervening);
+    assert.deepStrictEqual(rebased, {
+      ok: true,
+      changes: [
+        { start: 13, end: 15, text: 'x' },
+        { start: 38, end: 38, text: 'y' },
+      ],
+    });
+
+    const conflict = rebaseReplaces([{ start: 18, end: 30, text: 'z' }], intervening);
+    assert.strictEqual(conflict.ok, false, 'overlapping edits should conflict');
+    const sameInsertion = rebaseReplaces([{ start: 0, end: 0, text: 'q' }], intervening);
+    assert.strictEqual(sameInsertion.ok, false, 'insertions at the same offset should conflict');
+  });
+
+  test('Diff window should keep context around the changed range', () => {
+    assert.strictEqual(getDiffWindow('same', 'same'), null);
+    assert.deepStrictEqual(getDiffWindow('Hello World', 'Hello Devin'), { offset: 0, before: 'Hello World', after: 'Hello Devin' });
+
+    const head = 'h'.repeat(100);
+    const tail = 't'.repeat(100);
+    const window = getDiffWindow(`${head}b${tail}`, `${head}X${tail}`);
+    assert.deepStrictEqual(window, {
+      offset: 36,
+      before: `${'h'.repeat(64)}b${'t'.repeat(64)}`,
+      after: `${'h'.repeat(64)}X${'t'.repeat(64)}`,
+    });
+
+    // 共通の先頭と末尾を重ねて数えない（繰り返しの文字の挿入）
+    assert.deepStrictEqual(getDiffWindow('aaaa', 'aaaaaa'), { offset: 0, before: 'aaaa', after: 'aaaaaa' });
+  });
+
+  test('Diff operations should become Replace[] relative to the original text', () => {
+    const window = { offset: 10, before: 'abc def', after: 'abX def!' };
+    const changes = diffsToReplaces(window, [
+      [0, 'ab'],
+      [-1, 'c'],
+      [1, 'X'],
+      [0, ' def'],
+      [1, '!'],
+    ]);
+    assert.deepStrictEqual(changes, [
+      { start: 12, end: 13, text: 'X' },
+      { start: 17, end: 17, text: '!' },
+    ]);
+    const shadowText = `${'0123456789'}abc def`;
+    assert.strictEqual(applyReplacesToText(shadowText, changes), `${'0123456789'}abX def!`);
+
+    // 続く削除はまとめ、削除の直後の挿入は同じ Replace にする
+    assert.deepStrictEqual(diffsToReplaces({ offset: 0, before: 'abcd', after: 'Z' }, [[-1, 'ab'], [-1, 'cd'], [1, 'Z']]), [
+      { start: 0, end: 4, text: 'Z' },
+    ]);
+    assert.deepStrictEqual(diffsToReplaces({ offset: 0, before: 'a', after: 'a' }, [[0, 'a']]), []);
+  });
+
+  test('ChangeGuard should flag large edits and preview the proposed text', () => {
+    const limits = { maxChangedRatio: 0.5, maxChangedChars: 50000, maxHunks: 200 };
+    const text = 'a'.repeat(1000);
+
+    const small = [{ start: 10, end: 20, text: 'bbbbb' }];
+    assert.strictEqual(isChangeGuardExceeded(calculateChangeMetrics(small, text.length), limits), false);
+
+    const large = [{ start: 0, end: 600, text: '' }, { start: 900, end: 900, text: 'tail' }];
+    const metrics = calculateChangeMetrics(large, text.length);
+    assert.strictEqual(metrics.changedChars, 604);
+    assert.strictEqual(metrics.hunkCount, 2);
+    assert.strictEqual(isChangeGuardExceeded(metrics, limits), true);
+    assert.strictEqual(isChangeGuardExceeded(metrics, { ...limits, minChangedChars: 1000 }), false, 'edits below minChangedChars are not guarded');
+    const tiny = calculateChangeMetrics([{ start: 0, end: 0, text: 'xyz' }], 2);
+    assert.strictEqual(isChangeGuardExceeded(tiny, limits), true, 'ratio applies without a floor');
+    assert.strictEqual(isChangeGuardExceeded(tiny, { ...limits, minChangedChars: 100 }), false);
+
+    const proposed = applyReplacesToText(text, large);
+    assert.strictEqual(proposed, `${'a'.repeat(300)}tail${'a'.repeat(100)}`);
+  });
+
+  test('ChangeGuard confirmation should time out and reject the held edit', async () => {
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: 'a'.repeat(100) });
+    const preview = new ChangeGuardPreview(50);
+    try {
+      const metrics = calculateChangeMetrics([{ start: 0, end: 100, text: '' }], 100);
+      assert.strictEqual(await preview.confirm(document, '', metrics), 'timeout', 'an unanswered prompt must not hold the edit');
+      const previewTabs = vscode.window.tabGroups.all
+        .flatMap((group) => group.tabs)
+        .filter((tab) => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.scheme === PROPOSED_EDIT_SCHEME);
+      assert.strictEqual(previewTabs.length, 0, 'the diff preview is closed after the timeout');
+    } finally {
+      preview.dispose();
+    }
+
+    const nack = createNackMessage(7, 3, 'changeGuardRejected', 'session-1', 'discarded');
+    assert.strictEqual(validateExtensionToWebviewMessage(nack).ok, true);
+  });
+
+  test('Fidelity reports should be validated before handling', () => {
+    const report = {
+      v: PROTOCOL_VERSION,
+      type: 'fidelityReport',
+      protectedBlocks: false,
+      lossyBlocks: [{ startLine: 3, endLine: 5, nodeTypes: ['table'], changedChars: 12 }],
+    };
+    assert.strictEqual(isValidWebviewMessage(report), true);
+    assert.strictEqual(isValidWebviewMessage({ ...report, protectedBlocks: undefined }), false);
+    assert.strictEqual(
+      isValidWebviewMessage({ ...report, lossyBlocks: [{ startLine: '3', endLine: 5, nodeTypes: [], changedChars: 1 }] }),
+      false,
+      'line numbers must be numbers'
+    );
+  });
+
+  test('Markdown format should follow markdownlint rules', () => {
+    const rules = JSON.parse(
+      stripJsonComments(`{
+        // dash → asterisk
+        "MD004": { "style": "asterisk" },
+        "emphasis-style": { "style": "underscore" },
+        "MD050": { "style": "consistent" },
+        "MD029": { "style": "one", },
+        "MD048": false,
+        /* "http://" inside strings must survive */
+        "MD009": { "br_spaces": 0, "note": "http://example.com" },
+      }`)
+    );
+    assert.deepStrictEqual(formatFromMarkdownlint(rules), {
+      bulletMarker: '*',
+      emphasisMarker: '_',
+      orderedListNumbering: 'one',
+      hardBreak: 'backslash',
+    });
+  });
+
+  test('EditorConfig properties should resolve from the nearest file', () => {
+    const root = parseEditorConfig('root = true\n[*]\ntrim_trailing_whitespace = true\ninsert_final_newline = true\n');
+    const docs = parseEditorConfig('[{*.md,*.markdown}]\ntrim_trailing_whitespace = false\n[notes/**.txt]\nindent_size = 2\n');
+    const sources = [
+      { dirPath: '/repo/docs', config: docs },
+      { dirPath: '/repo', config: root },
+    ];
+
+    assert.deepStrictEqual(resolveEditorConfigProperties(sources, '/repo/docs/guide/a.md'), {
+      trim_trailing_whitespace: 'false',
+      insert_final_newline: 'true',
+    });
+    assert.deepStrictEqual(formatFromEditorConfig(resolveEditorConfigProperties(sources, '/repo/README.md')), {
+      trimTrailingWhitespace: true,
+      hardBreak: 'backslash',
+      insertFinalNewline: true,
+    });
+    assert.deepStrictEqual(formatFromEditorConfig(resolveEditorConfigProperties(sources, '/repo/docs/a.md')), {
+      trimTrailingWhitespace: false,
+      insertFinalNewline: true,
+    });
+    assert.strictEqual(resolveEditorConfigProperties(sources, '/repo/docs/notes/x/y.txt').indent_size, '2');
+  });
+
+  test('Undo/redo requests should carry a direction', () => {
+    const message = { v: PROTOCOL_VERSION, type: 'undoRedo', direction: 'undo' };
+    assert.strictEqual(isValidWebviewMessage(message), true);
+    assert.strictEqual(isValidWebviewMessage({ ...message, direction: 'redo' }), true);
+    assert.strictEqual(isValidWebviewMessage({ ...message, direction: 'repeat' }), false);
+    assert.strictEqual(isValidWebviewMessage({ v: PROTOCOL_VERSION, type: 'undoRedo' }), false);
+  });
+
+  test('Sync state reports should be validated', () => {
+    const message = { v: PROTOCOL_VERSION, type: 'syncState', state: 'desynced', reason: 'SYNC_TIMEOUT' };
+    assert.strictEqual(isValidWebviewMessage(message), true);
+    assert.strictEqual(isValidWebviewMessage({ v: PROTOCOL_VERSION, type: 'syncState', state: 'inFlight' }), true);
+    assert.strictEqual(isValidWebviewMessage({ ...message, state: 'syncing' }), false, 'unknown states are rejected');
+    assert.strictEqual(isValidWebviewMessage({ ...message, reason: 408 }), false);
+    assert.strictEqual(isValidWebviewMessage({ v: PROTOCOL_VERSION, type: 'showSyncActions' }), true);
+  });
+
+  test('Ready and init should negotiate capabilities', () => {
+    assert.deepStrictEqual(negotiateCapabilities(['syncState', 'peerTelepathy', 'quickDiff']), ['quickDiff', 'syncState']);
+    assert.deepStrictEqual(negotiateCapabilities(undefined), [], 'peers without capabilities get no optional features');
+    assert.deepStrictEqual(negotiateCapabilities(['quickDiff', 'undoRedo'], ['undoRedo']), ['undoRedo']);
+
+    const ready = { v: PROTOCOL_VERSION, type: 'ready', capabilities: ['quickDiff', 'peerTelepathy'] };
+    assert.strictEqual(isValidWebviewMessage(ready), true, 'unknown capability names are accepted');
+    assert.strictEqual(isValidWebviewMessage({ v: PROTOCOL_VERSION, type: 'ready' }), true);
+    assert.strictEqual(isValidWebviewMessage({ ...ready, capabilities: 'quickDiff' }), false);
+  });
+
+  test('Protocol validation should check every field in both directions', () => {
+    const edit = {
+      v: PROTOCOL_VERSION,
+      type: 'edit',
+      txId: 1,
+      baseVersion: 3,
+      changes: [{ start: 0, end: 1, text: 'a' }, { start: 4, end: 4, text: 5 }],
+    };
+    assert.deepStrictEqual(validateWebviewToExtensionMessage(edit), {
+      ok: false,
+      reason: 'invalidField',
+      error: 'edit.changes[1].text: expected string, got number',
+    });
+    assert.strictEqual(
+      validateWebviewToExtensionMessage({ v: PROTOCOL_VERSION + 1, type: 'ready' }).ok,
+      false,
+      'newer protocol versions are rejected'
+    );
+    assert.strictEqual(validateWebviewToExtensionMessage({ v: PROTOCOL_VERSION, type: 'ack' }).ok, false, 'direction matters');
+    assert.strictEqual(
+      isValidWebviewMessage({ v: PROTOCOL_VERSION, type: 'openLink', url: 'https://example.com', addedLater: true }),
+      true,
+      'unknown fields are ignored'
+    );
+    assert.strictEqual(isValidWebviewMessage({ v: PROTOCOL_VERSION, type: 'logClient', level: 'LOUD', message: 'x' }), false);
+
+    assert.strictEqual(validateExtensionToWebviewMessage(createAckMessage(2, 4, 'applied', 'session', 3)).ok, true);
+    assert.strictEqual(
+      validateExtensionToWebviewMessage(createErrorMessage('SYNC_TIMEOUT', 'timeout', ['resync'])).ok,
+      true
+    );
+    const docChanged = createDocChangedMessage(5, 'undo', [{ start: 0, end: 0, text: 'x' }], 'session', 'crlf');
+    assert.strictEqual(validateExtensionToWebviewMessage(docChanged).ok, true);
+    const invalid = validateExtensionToWebviewMessage({ ...docChanged, eol: 'cr' });
+    assert.strictEqual(invalid.ok, false);
+    assert.ok(!invalid.ok && invalid.error.startsWith('docChanged.eol:'), 'errors name the field');
+  });
+
+  test('Peer cursor messages should validate and name the originating panel', () => {
+    assert.strictEqual(MESSAGE_CAPABILITIES.selectionChange, 'peerCursors');
+    assert.strictEqual(MESSAGE_CAPABILITIES.peerSelections, 'peerCursors');
+
+    const selection = { v: PROTOCOL_VERSION, type: 'selectionChange', docVersion: 7, anchor: 3, head: 9 };
+    assert.strictEqual(isValidWebviewMessage(selection), true);
+    assert.strictEqual(isValidWebviewMessage({ ...selection, head: undefined }), false);
+
+    const peers = createPeerSelectionsMessage(
+      [{ peerId: 'client-b', colorIndex: 1, docVersion: 7, anchor: 3, head: 9 }],
+      'session'
+    );
+    assert.strictEqual(validateExtensionToWebviewMessage(peers).ok, true);
+    const invalid = validateExtensionToWebviewMessage({ ...peers, peers: [{ peerId: 'client-b', colorIndex: 1 }] });
+    assert.ok(!invalid.ok && invalid.error.startsWith('peerSelections.peers[0].'), invalid.ok ? '' : invalid.error);
+
+    const fromPeer = createDocChangedMessage(8, 'external', [], 'session', 'lf', undefined, 'client-b');
+    assert.strictEqual(fromPeer.peerId, 'client-b');
+    assert.strictEqual(validateExtensionToWebviewMessage(fromPeer).ok, true);
+    assert.ok(!('peerId' in createDocChangedMessage(8, 'external', [], 'session', 'lf')), 'external edits carry no peerId');
+  });
+
+  test('View state should be validated and stored per document', async () => {
+    const message = {
+      v: PROTOCOL_VERSION,
+      type: 'viewState',
+      state: {
+        contentHash: '1a2b3c4d:120',
+        scrollTop: 480,
+        selection: { anchor: 12, head: 12 },
+        blocks: [{ pos: 40, nodeType: 'codeBlock', preview: false }],
+      },
+    };
+    assert.strictEqual(isValidWebviewMessage(message), true);
+    assert.strictEqual(isValidWebviewMessage({ ...message, state: null }), false);
+    assert.strictEqual(
+      isValidWebviewMessage({ ...message, state: { blocks: [{ pos: 40, nodeType: 'codeBlock' }] } }),
+      false,
+      'block preview flag is required'
+    );
+
+    const values = new Map<string, unknown>();
+    const memento = {
+      keys: () => [...values.keys()],
+      get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) : defaultValue) as T,
+      update: async (key: string, value: unknown) => {
+        values.set(key, value);
+      },
+    };
+    const store = new ViewStateStore(memento);
+    assert.strictEqual(await store.set('file:///a.md', message.state), true);
+    assert.deepStrictEqual(store.get('file:///a.md'), message.state);
+    assert.strictEqual(store.get('file:///b.md'), undefined);
+    assert.strictEqual(await store.set('file:///b.md', { findWidget: { query: 'x'.repeat(70000) } }), false);
+    assert.strictEqual(store.get('file:///b.md'), undefined);
+  });
+
+  test('Edit journal should persist per document and only be cleared by its writer', async () => {
+    const storageUri = vscode.Uri.file(path.join(os.tmpdir(), `inlinemark-journal-${Date.now()}`));
+    const entry = { baseVersion: 3, content: '# Title\n\nunsent\n', changes: [{ start: 9, end: 9, text: 'unsent' }] };
+    const store = new EditJournalStore(storageUri);
+    try {
+      assert.strictEqual(await store.get('file:///a.md'), null);
+      assert.strictEqual(await store.set('file:///a.md', 'client-a', entry), true);
+
+      const reopened = new EditJournalStore(storageUri);
+      const stored = await reopened.get('file:///a.md');
+      assert.deepStrictEqual(stored?.entry, entry, 'journal survives a new store (read back from disk)');
+      assert.strictEqual(stored?.clientId, 'client-a');
+      assert.strictEqual(await reopened.get('file:///b.md'), null);
+
+      assert.strictEqual(await reopened.delete('file:///a.md', { clientId: 'client-b' }), false, 'other panels cannot clear it');
+      assert.strictEqual(await reopened.delete('file:///a.md', { clientId: 'client-a' }), true);
+      assert.strictEqual(await new EditJournalStore(storageUri).get('file:///a.md'), null);
+
+      assert.strictEqual(isJournalApplied(entry, '# Title\r\n\r\nunsent\r\n'), true, 'line endings are ignored');
+      assert.strictEqual(isJournalApplied(entry, '# Title\n'), false);
+      assert.strictEqual(toDocumentText(entry, 'crlf'), '# Title\r\n\r\nunsent\r\n');
+    } finally {
+      await vscode.workspace.fs.delete(storageUri, { recursive: true, useTrash: false }).then(undefined, () => undefined);
+    }
+  });
+
+  test('Edit journal restore should rebase the unsent edits onto the current document', () => {
+    for (const [from, to] of [
+      ['a\nb\nc', 'a\nB\nc'],
+      ['a\nb', 'a\nb\nc'],
+      ['a\nb\nc', 'a\nb'],
+      ['a\nb\n', ''],
+      ['', 'x\ny'],
+      ['a\nb\nc\nd', 'x\na\nc\nd\ne'],
+    ]) {
+      assert.strictEqual(applyReplacesToText(from, diffToReplaces(from, to)), to, JSON.stringify([from, to]));
+    }
+
+    const entry = { baseVersion: 3, content: 'a\nB\nc\n', changes: [], base: 'a\nb\nc\n' };
+    assert.deepStrictEqual(planJournalRestore(entry, 'a\r\nb\r\nc\r\n'), {
+      kind: 'rebased',
+      changes: [{ start: 2, end: 4, text: 'B\n' }],
+      text: 'a\nB\nc\n',
+    });
+    const rebased = planJournalRestore(entry, 'x\na\nb\nc\nz\n');
+    assert.strictEqual(rebased.kind === 'rebased' && rebased.text, 'x\na\nB\nc\nz\n', 'keeps the changes made since');
+    assert.deepStrictEqual(planJournalRestore(entry, 'a\nb2\nc\n'), { kind: 'diverged', reason: 'conflict' });
+    assert.deepStrictEqual(planJournalRestore({ ...entry, base: undefined }, 'a\nb\nc\n'), {
+      kind: 'diverged',
+      reason: 'noBase',
+    });
+  });
+
+  test('Read-only documents should be detected and flagged in init', () => {
+    const revision = vscode.Uri.from({ scheme: 'git', path: '/repo/README.md', query: '{"ref":"HEAD~1"}' });
+    assert.strictEqual(resolveReadOnlyReason(revision), 'gitRevision');
+    assert.strictEqual(resolveReadOnlyReason(vscode.Uri.from({ scheme: 'inlinemark-test-virtual', path: '/a.md' })), 'readOnlyFileSystem');
+    assert.strictEqual(resolveReadOnlyReason(vscode.Uri.file('/tmp/a.md'), true), undefined);
+    assert.strictEqual(resolveReadOnlyReason(vscode.Uri.file('/tmp/a.md'), false), 'untrustedWorkspace');
+    assert.strictEqual(resolveReadOnlyReason(vscode.Uri.from({ scheme: 'untitled', path: 'Untitled-1' }), true), undefined);
+
+    const config = {} as Parameters<typeof createInitMessage>[7];
+    const init = (readOnly?: 'gitRevision') =>
+      createInitMessage(1, '# a', 'lf', 's', 'c', 'en', {}, config, false, undefined, ['readOnly'], readOnly);
+    assert.ok(!('readOnly' in init()), 'writable documents omit readOnly');
+    assert.strictEqual(init('gitRevision').readOnly, 'gitRevision');
+    assert.strictEqual(validateExtensionToWebviewMessage(createNackMessage(1, 1, 'readOnly', 's')).ok, true);
+  });
+
+  test('Rich diff should compare the SCM resource or the active diff tab', () => {
+    const file = vscode.Uri.file('/repo/README.md');
+    const head = vscode.Uri.from({ scheme: 'git', path: '/repo/README.md', query: '{"ref":"HEAD"}' });
+    const diffTab = new vscode.TabInputTextDiff(head, file);
+
+    assert.deepStrictEqual(resolveRichDiffTarget(file, diffTab), { kind: 'workingTree', uri: file }, 'arguments win over the tab');
+    assert.deepStrictEqual(resolveRichDiffTarget({ resourceUri: file }, undefined), { kind: 'workingTree', uri: file });
+    assert.deepStrictEqual(resolveRichDiffTarget(undefined, diffTab), { kind: 'revisions', original: head, modified: file });
+    assert.deepStrictEqual(resolveRichDiffTarget(undefined, new vscode.TabInputCustom(file, 'inlineMark.editor')), {
+      kind: 'workingTree',
+      uri: file,
+    });
+
+    const config = {} as Parameters<typeof createRichDiffMessage>[2];
+    const original = { label: 'README.md (HEAD)', content: '# a' };
+    const message = createRichDiffMessage(original, { label: 'README.md (Working Tree)', content: '# b' }, config);
+    assert.strictEqual(message.type, 'richDiff');
+    assert.strictEqual(message.origin, 'extension');
+    assert.deepStrictEqual(message.original, original);
+  });
+
+  test('Uri path helpers should keep the scheme of virtual and remote documents', () => {
+    const doc = vscode.Uri.parse('vscode-vfs://github/owner/repo/docs/guide.md');
+    const root = vscode.Uri.parse('vscode-vfs://github/owner/repo');
+    assert.strictEqual(uriBasename(doc), 'guide.md');
+    assert.strictEqual(uriStem(doc), 'guide');
+    assert.strictEqual(uriExtname(doc), '.md');
+    assert.strictEqual(uriExtname(vscode.Uri.parse('vscode-vfs://github/owner/repo/.gitignore')), '');
+    assert.strictEqual(uriDirname(doc).toString(), 'vscode-vfs://github/owner/repo/docs');
+
+    const child = vscode.Uri.joinPath(uriDirname(doc), 'guide', '_children', 'page.md');
+    assert.strictEqual(relativeUriPath(uriDirname(doc), child), 'guide/_children/page.md');
+    assert.strictEqual(relativeUriPath(child, root), '../../../..');
+    assert.ok(isUriWithin(root, child));
+    assert.ok(!isUriWithin(vscode.Uri.parse('vscode-vfs://github/owner/repo2'), child), 'sibling prefixes are outside');
+    assert.ok(!isUriWithin(root.with({ scheme: 'file' }), child), 'other schemes are outside');
   });
 });
 
@@ -0,0 +1,125 @@
+/**
+ * 役割: 差分を計算する範囲（DiffWindow）の切り出しと、diff の結果から Replace[] への変換
+ * 責務: Webview の差分エンジン（diffEngine.ts / diffWorker.ts）が使う純粋な関数を提供する（host のテストからも確かめる）
+ * 不変条件: vscode / Node の API と diff-match-patch を import しない（Webview・Web Worker のバンドルにそのまま入る）。
+ *           返す Replace[] は shadowText 基準で、非重複かつ昇順
+ *
+ * 設計書参照: 12.3.5 (G5-lite 差分計算)
+ *
+ * DiffWindow:
+ * - 先頭・末尾の共通部分を除き、前後 DIFF_CONTEXT_CHARS 文字の共通部分を残した範囲（diff_cleanupSemantic が単語境界に寄せられるように）
+ * - before / after は shadowText / nextMarkdown の offset 以降の部分文字列
+ * 例: shadowText "Hello World"、nextMarkdown "Hello Devin" → { offset: 0, before: "Hello World", after: "Hello Devin" }
+ *
+ * diffsToReplaces:
+ * - diff-match-patch の [op, text][]（DIFF_DELETE = -1 / DIFF_INSERT = 1 / DIFF_EQUAL = 0）を window.offset からの Replace[] にする
+ * - 続く削除と挿入は 1 つの Replace にまとめる
+ */
+
+import type { Replace } from '../protocol/schema.generated.js';
+
+const DIFF_CONTEXT_CHARS = 64;
+
+const DIFF_DELETE = -1;
+const DIFF_INSERT = 1;
+const DIFF_EQUAL = 0;
+
+/** diff-match-patch の Diff と同じ形 */
+export type DiffOperation = [number, string];
+
+export interface DiffWindow {
+  offset: number;
+  before: string;
+  after: string;
+}
+
+export function getDiffWindow(shadowText: string, nextMarkdown: string): DiffWindow | null {
+  if (shadowText === nextMarkdown) {
+    return null;
+  }
+
+  const maxLength = Math.min(shadowText.length, nextMarkdown.length);
+  let prefixLength = 0;
+  while (prefixLength < maxLength && shadowText.charCodeAt(prefixLength) === nextMarkdown.charCodeAt(prefixLength)) {
+    prefixLength += 1;
+  }
+  let suffixLength = 0;
+  while (
+    suffixLength < maxLength - prefixLength &&
+    shadowText.charCodeAt(shadowText.length - 1 - suffixLength) ===
+      nextMarkdown.charCodeAt(nextMarkdown.length - 1 - suffixLength)
+  ) {
+    suffixLength += 1;
+  }
+
+  const offset = Math.max(0, prefixLength - DIFF_CONTEXT_CHARS);
+  const suffixContext = Math.max(0, suffixLength - DIFF_CONTEXT_CHARS);
+  return {
+    offset,
+    before: shadowText.slice(offset, shadowText.length - suffixContext),
+    after: nextMarkdown.slice(offset, nextMarkdown.length - suffixContext),
+  };
+}
+
+export function diffsToReplaces(window: DiffWindow, diffs: readonly DiffOperation[]): Replace[] {
+  const changes: Replace[] = [];
+  let offset = window.offset;
+
+  for (const [op, text] of diffs) {
+    switch (op) {
+      case DIFF_EQUAL:
+        offset += text.length;
+        break;
+
+      case DIFF_DELETE: {
+        const lastChange = changes[changes.length - 1];
+        if (lastChange && lastChange.end === offset && lastChange.text === '') {
+          lastChange.end = offset + text.length;
+        } else {
+          changes.push({
+            start: offset,
+            end: offset + text.length,
+            text: '',
+          });
+        }
+        offset += text.length;
+        break;
+      }
+
+      case DIFF_INSERT: {
+        const lastChange = changes[changes.length - 1];
+        if (lastChange && lastChange.end === offset) {
+          lastChange.text += text;
+        } else {
+          changes.push({
+            start: offset,
+            end: offset,
+            text: text,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return normalizeChanges(changes);
+}
+
+function normalizeChanges(changes: Replace[]): Replace[] {
+  if (changes.length === 0) {return [];}
+
+  const sorted = [...changes].sort((a, b) => a.start - b.start);
+
+  const merged: Replace[] = [];
+  for (const change of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && last.end >= change.start) {
+      last.end = Math.max(last.end, change.end);
+      last.text += change.text;
+    } else {
+      merged.push({ ...change });
+    }
+  }
+
+  return merged;
+}
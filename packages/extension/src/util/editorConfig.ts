@@ -0,0 +1,150 @@
+/**
+ * 役割: .editorconfig の解析ユーティリティ
+ * 責務: .editorconfig のテキストをセクションに分け、対象ファイルに当たるプロパティを解決する
+ * 不変条件: ファイル IO を行わない（読み込みは呼び出し側）。プロパティ名と値は小文字に正規化する
+ *
+ * 解決順 (EditorConfig 仕様):
+ * - 上位ディレクトリの .editorconfig から順に適用し、近いファイルの値で上書きする
+ * - 同じファイル内では後のセクションが優先
+ * - root = true のファイルより上は読まない（呼び出し側は近い順に渡し、root で打ち切る）
+ *
+ * glob:
+ * - "/" を含まないパターンは任意の階層のファイル名に一致（例: *.md）
+ * - "/" を含むパターンは .editorconfig のあるディレクトリからの相対パスに一致
+ * - 対応: *, **, ?, [abc], [!abc], {a,b}
+ *
+ * 例:
+ * root = true
+ * [*.md]
+ * trim_trailing_whitespace = false
+ */
+
+export interface EditorConfigSection {
+  glob: string;
+  properties: Record<string, string>;
+}
+
+export interface EditorConfigFile {
+  root: boolean;
+  sections: EditorConfigSection[];
+}
+
+/** 対象ファイルから近い順の .editorconfig（dirPath は POSIX 形式の絶対パス） */
+export interface EditorConfigSource {
+  dirPath: string;
+  config: EditorConfigFile;
+}
+
+export function parseEditorConfig(text: string): EditorConfigFile {
+  const result: EditorConfigFile = { root: false, sections: [] };
+  let current: EditorConfigSection | null = null;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      continue;
+    }
+    const sectionMatch = /^\[(.*)\]$/.exec(line);
+    if (sectionMatch) {
+      current = { glob: sectionMatch[1], properties: {} };
+      result.sections.push(current);
+      continue;
+    }
+    const separator = line.search(/[=:]/);
+    if (separator <= 0) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim().toLowerCase();
+    if (!current) {
+      if (key === 'root') {
+        result.root = value === 'true';
+      }
+      continue;
+    }
+    current.properties[key] = value;
+  }
+
+  return result;
+}
+
+export function editorConfigGlobToRegExp(glob: string): RegExp {
+  let pattern = glob.includes('/') ? glob.replace(/^\//, '') : `**/${glob}`;
+  if (pattern.endsWith('/')) {
+    pattern += '**';
+  }
+
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i += 1) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" は 0 階層にも一致させる
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = pattern.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        const body = pattern.slice(i + 1, close).replace(/\\/g, '\\\\');
+        source += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+        i = close;
+      }
+    } else if (char === '{') {
+      braceDepth += 1;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth -= 1;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * filePath（POSIX 形式の絶対パス）に当たるプロパティを返す。sources は対象ファイルから近い順。
+ */
+export function resolveEditorConfigProperties(
+  sources: EditorConfigSource[],
+  filePath: string
+): Record<string, string> {
+  const applicable: EditorConfigSource[] = [];
+  for (const source of sources) {
+    applicable.push(source);
+    if (source.config.root) {
+      break;
+    }
+  }
+
+  const properties: Record<string, string> = {};
+  for (const { dirPath, config } of applicable.reverse()) {
+    const prefix = dirPath.endsWith('/') ? dirPath : `${dirPath}/`;
+    if (!filePath.startsWith(prefix)) {
+      continue;
+    }
+    const relativePath = filePath.slice(prefix.length);
+    for (const section of config.sections) {
+      if (editorConfigGlobToRegExp(section.glob).test(relativePath)) {
+        Object.assign(properties, section.properties);
+      }
+    }
+  }
+  return properties;
+}
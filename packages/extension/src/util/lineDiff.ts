@@ -0,0 +1,99 @@
+/**
+ * 役割: 行単位の差分計算ユーティリティ
+ * 責務: 2 つのテキストを行に分割し、変更ハンク（元/現在の行範囲）を返す
+ * 不変条件: ハンクは互いに重ならず昇順。行番号は 0-based。改行コードの違いは差分にしない
+ *
+ * 方針:
+ * - 共通の先頭/末尾の行を除いた中間部分のみ LCS で対応を取る
+ * - 中間部分が大きすぎる場合は 1 ハンクとして扱う（計算量の上限）
+ *
+ * LineDiffHunk の例:
+ * { originalStart: 3, originalCount: 1, currentStart: 3, currentCount: 2 }
+ * → 元の 4 行目が現在の 4-5 行目に置き換わった
+ */
+
+/** LCS テーブルのセル数上限（超過時は中間部分をまとめて 1 ハンクにする） */
+const MAX_LCS_CELLS = 1_000_000;
+
+export interface LineDiffHunk {
+  originalStart: number;
+  originalCount: number;
+  currentStart: number;
+  currentCount: number;
+}
+
+export function splitLines(text: string): string[] {
+  return text.split(/\r\n|\r|\n/);
+}
+
+export function diffLines(original: string[], current: string[]): LineDiffHunk[] {
+  let prefix = 0;
+  const maxPrefix = Math.min(original.length, current.length);
+  while (prefix < maxPrefix && original[prefix] === current[prefix]) {
+    prefix += 1;
+  }
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (
+    suffix < maxSuffix &&
+    original[original.length - 1 - suffix] === current[current.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const oldStart = prefix;
+  const oldEnd = original.length - suffix;
+  const newStart = prefix;
+  const newEnd = current.length - suffix;
+  const oldLen = oldEnd - oldStart;
+  const newLen = newEnd - newStart;
+
+  if (oldLen === 0 && newLen === 0) {
+    return [];
+  }
+  if (oldLen === 0 || newLen === 0 || oldLen * newLen > MAX_LCS_CELLS) {
+    return [{ originalStart: oldStart, originalCount: oldLen, currentStart: newStart, currentCount: newLen }];
+  }
+
+  // lcs[i][j] = original[oldStart+i..] と current[newStart+j..] の LCS 長
+  const width = newLen + 1;
+  const lcs = new Uint32Array((oldLen + 1) * width);
+  for (let i = oldLen - 1; i >= 0; i -= 1) {
+    for (let j = newLen - 1; j >= 0; j -= 1) {
+      lcs[i * width + j] = original[oldStart + i] === current[newStart + j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const hunks: LineDiffHunk[] = [];
+  let hunk: LineDiffHunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < oldLen || j < newLen) {
+    if (i < oldLen && j < newLen && original[oldStart + i] === current[newStart + j]) {
+      if (hunk) {
+        hunks.push(hunk);
+        hunk = null;
+      }
+      i += 1;
+      j += 1;
+      continue;
+    }
+    if (!hunk) {
+      hunk = { originalStart: oldStart + i, originalCount: 0, currentStart: newStart + j, currentCount: 0 };
+    }
+    if (j >= newLen || (i < oldLen && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      i += 1;
+      hunk.originalCount += 1;
+    } else {
+      j += 1;
+      hunk.currentCount += 1;
+    }
+  }
+  if (hunk) {
+    hunks.push(hunk);
+  }
+  return hunks;
+}
@@ -9,6 +9,11 @@
  * - OutputChannel: すぐ見たいログ（エラー/重要イベント）
  * - JSONL: 処理中ファイルと同階層の `_log_inlineMark/` フォルダに出力
  *   - 例: /path/to/doc.md → /path/to/_log_inlineMark/doc-{timestamp}.jsonl
+ *   - 書き込めない場所の document（untitled: / 読み取り専用のファイルシステム）は拡張機能のログフォルダ（context.logUri）に出力
+ *   - 書き込みは vscode.workspace.fs だけで行う（file: / 仮想ファイルシステム / Web 版で同じ経路）
+ *   - 行を JSONL_FLUSH_MS ためてから document ごとに順に書き出す
+ *   - workspace.fs に追記が無いため、今のファイルの内容をメモリに持って書き直す（ファイルは読み戻さない）。
+ *     1 ファイルを JSONL_FILE_MAX_BYTES までにして、超えたら次のファイル（`doc-{timestamp}-2.jsonl` …）に切り替える
  *
  * デバッグオプション (設計書 23.4):
  * - `inlineMark.debug.enabled` を唯一の master switch として扱う
@@ -28,8 +33,11 @@
  */
 
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as path from 'path';
+import { uriDirname, uriStem } from './uriPaths.js';
+
+const LOG_DIRECTORY = '_log_inlineMark';
+const JSONL_FLUSH_MS = 1000;
+const JSONL_FILE_MAX_BYTES = 256 * 1024;
 
 export type LogLevel = 'INFO' | 'DEBUG' | 'TRACE' | 'WARN' | 'ERROR';
 
@@ -55,8 +63,44 @@ export interface LogEntry {
 
 /** ドキュメントごとの JSONL ログファイル情報 */
 interface DocLogInfo {
-  jsonlPath: string;
+  /** 書き込み中のファイル（上限を超えたら次のファイルに切り替わる） */
+  jsonlUri: vscode.Uri;
   docBaseName: string;
+  /** ファイル名の拡張子を除いた部分（`doc-{timestamp}`） */
+  jsonlStem: string;
+  /** 何番目のファイルか（1 始まり） */
+  part: number;
+  /** まだ書いていない行 */
+  pending: string[];
+  /** 今のファイルに書いた内容（書き直しに使う。ファイルを切り替えたら空にする） */
+  written: Uint8Array[];
+  writtenBytes: number;
+  flushTimer: ReturnType<typeof setTimeout> | null;
+  /** 書き込み中の flush（同じファイルへの書き込みを順にする） */
+  writing: Promise<void>;
+}
+
+/**
+ * ためた行を今のファイルの内容に足す。上限を超える場合は次のファイルに切り替えて、そこに足す。
+ * 書き出す内容（ファイル全体）を返す
+ */
+function appendToDocumentLog(docLog: DocLogInfo, lines: Uint8Array): Uint8Array {
+  if (docLog.writtenBytes > 0 && docLog.writtenBytes + lines.length > JSONL_FILE_MAX_BYTES) {
+    docLog.part += 1;
+    docLog.jsonlUri = vscode.Uri.joinPath(uriDirname(docLog.jsonlUri), `${docLog.jsonlStem}-${docLog.part}.jsonl`);
+    docLog.written = [];
+    docLog.writtenBytes = 0;
+  }
+  docLog.written.push(lines);
+  docLog.writtenBytes += lines.length;
+
+  const content = new Uint8Array(docLog.writtenBytes);
+  let offset = 0;
+  for (const chunk of docLog.written) {
+    content.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return content;
 }
 
 export class Logger {
@@ -64,12 +108,15 @@ export class Logger {
   private debugEnabled = false;
   /** ドキュメント URI → JSONL ファイルパスのマップ */
   private docLogMap = new Map<string, DocLogInfo>();
+  /** 書き込めない場所の document のログの出力先（context.logUri） */
+  private fallbackLogUri: vscode.Uri | undefined;
 
   constructor(channelName: string) {
     this.outputChannel = vscode.window.createOutputChannel(channelName);
   }
 
   initialize(context: vscode.ExtensionContext): void {
+    this.fallbackLogUri = context.logUri;
     this.updateConfig();
     context.subscriptions.push(this);
   }
@@ -85,37 +132,77 @@ export class Logger {
 
   /**
    * ドキュメント用の JSONL ログパスを設定
-   * 出力先: ドキュメントと同階層の `_log_inlineMark/` フォルダ
+   * 出力先: ドキュメントと同階層の `_log_inlineMark/` フォルダ（書き込めない場所なら context.logUri）
    */
   setupDocumentLog(docUri: vscode.Uri): void {
     if (!this.debugEnabled) { return; }
     if (this.docLogMap.has(docUri.toString())) { return; }
 
-    try {
-      const docDir = path.dirname(docUri.fsPath);
-      const docBaseName = path.basename(docUri.fsPath, path.extname(docUri.fsPath));
-      const logsDir = path.join(docDir, '_log_inlineMark');
-
-      // ログディレクトリを作成
-      if (!fs.existsSync(logsDir)) {
-        fs.mkdirSync(logsDir, { recursive: true });
-      }
-
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const jsonlPath = path.join(logsDir, `${docBaseName}-${timestamp}.jsonl`);
-
-      this.docLogMap.set(docUri.toString(), { jsonlPath, docBaseName });
-      this.info('JSONL logging started', { docUri: docUri.toString(), details: { jsonlPath } });
-    } catch (error) {
-      this.error('Failed to setup JSONL logging', { details: { error: String(error) } });
+    const logsDir = this.resolveLogDirectory(docUri);
+    if (!logsDir) {
+      this.warn('JSONL logging unavailable for this document', { docUri: docUri.toString() });
+      return;
     }
+
+    const docBaseName = uriStem(docUri) || 'untitled';
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const jsonlStem = `${docBaseName}-${timestamp}`;
+    const jsonlUri = vscode.Uri.joinPath(logsDir, `${jsonlStem}.jsonl`);
+
+    this.docLogMap.set(docUri.toString(), {
+      jsonlUri,
+      docBaseName,
+      jsonlStem,
+      part: 1,
+      pending: [],
+      written: [],
+      writtenBytes: 0,
+      flushTimer: null,
+      writing: Promise.resolve(),
+    });
+    this.info('JSONL logging started', { docUri: docUri.toString(), details: { jsonlPath: jsonlUri.toString() } });
   }
 
   /**
-   * ドキュメントのログを終了
+   * ドキュメントのログを終了（ためている行は書き出す）
    */
   cleanupDocumentLog(docUri: vscode.Uri): void {
+    const docLog = this.docLogMap.get(docUri.toString());
+    if (!docLog) { return; }
     this.docLogMap.delete(docUri.toString());
+    void this.flushDocumentLog(docLog);
+  }
+
+  private resolveLogDirectory(docUri: vscode.Uri): vscode.Uri | undefined {
+    const writable = docUri.scheme !== 'untitled' && vscode.workspace.fs.isWritableFileSystem(docUri.scheme) === true;
+    return writable ? vscode.Uri.joinPath(uriDirname(docUri), LOG_DIRECTORY) : this.fallbackLogUri;
+  }
+
+  private flushDocumentLog(docLog: DocLogInfo): Promise<void> {
+    if (docLog.flushTimer) {
+      clearTimeout(docLog.flushTimer);
+      docLog.flushTimer = null;
+    }
+    if (docLog.pending.length === 0) {
+      return docLog.writing;
+    }
+    const lines = new TextEncoder().encode(docLog.pending.join(''));
+    docLog.pending = [];
+    // ファイルの切り替えと内容はここで決める（書き込みは前の flush の後に順に行う）
+    const content = appendToDocumentLog(docLog, lines);
+    const jsonlUri = docLog.jsonlUri;
+    const firstWrite = docLog.written.length === 1;
+    docLog.writing = docLog.writing.then(async () => {
+      try {
+        if (firstWrite) {
+          await vscode.workspace.fs.createDirectory(uriDirname(jsonlUri));
+        }
+        await vscode.workspace.fs.writeFile(jsonlUri, content);
+      } catch (_error) {
+        // Ignore JSONL write errors
+      }
+    });
+    return docLog.writing;
   }
 
   private shouldLog(level: LogLevel): boolean {
@@ -155,12 +242,11 @@ export class Logger {
     const docLog = this.docLogMap.get(docUri);
     if (!docLog) { return; }
 
-    try {
-      const line = JSON.stringify(entry) + '\n';
-      fs.appendFileSync(docLog.jsonlPath, line);
-    } catch (_error) {
-      // Ignore JSONL write errors
-    }
+    docLog.pending.push(JSON.stringify(entry) + '\n');
+    docLog.flushTimer ??= setTimeout(() => {
+      docLog.flushTimer = null;
+      void this.flushDocumentLog(docLog);
+    }, JSONL_FLUSH_MS);
   }
 
   log(level: LogLevel, event: string, entry?: Partial<LogEntry>): void {
@@ -215,55 +301,68 @@ export class Logger {
    */
   getJsonlPath(docUri?: vscode.Uri): string | undefined {
     if (!docUri) { return undefined; }
-    return this.docLogMap.get(docUri.toString())?.jsonlPath;
+    return this.docLogMap.get(docUri.toString())?.jsonlUri.toString();
   }
 
   /**
-   * Export Logs: ワークスペース内の全 _log_inlineMark フォルダからログを収集
+   * Export Logs: ワークスペース内の全 _log_inlineMark フォルダと context.logUri からログを収集
    */
   async exportLogs(): Promise<string | undefined> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      vscode.window.showWarningMessage('No workspace folder open');
-      return undefined;
-    }
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
 
     try {
+      await Promise.all([...this.docLogMap.values()].map((docLog) => this.flushDocumentLog(docLog)));
+
       // ワークスペース内の _log_inlineMark フォルダを検索
-      const logFiles: string[] = [];
+      const logFiles: vscode.Uri[] = [];
       for (const folder of workspaceFolders) {
-        const pattern = new vscode.RelativePattern(folder, '**/_log_inlineMark/*.jsonl');
-        const files = await vscode.workspace.findFiles(pattern);
-        logFiles.push(...files.map(f => f.fsPath));
+        const pattern = new vscode.RelativePattern(folder, `**/${LOG_DIRECTORY}/*.jsonl`);
+        logFiles.push(...(await vscode.workspace.findFiles(pattern)));
       }
+      logFiles.push(...(await this.listFallbackLogFiles()));
 
       if (logFiles.length === 0) {
         vscode.window.showInformationMessage('No log files found in _log_inlineMark folders');
         return undefined;
       }
 
-      const exportPath = await vscode.window.showSaveDialog({
-        defaultUri: vscode.Uri.file(`inline-markdown-logs-${Date.now()}.jsonl`),
+      const fileName = `inline-markdown-logs-${Date.now()}.jsonl`;
+      const exportUri = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolders[0] ? vscode.Uri.joinPath(workspaceFolders[0].uri, fileName) : undefined,
         filters: { 'JSONL': ['jsonl'] },
       });
 
-      if (!exportPath) { return undefined; }
+      if (!exportUri) { return undefined; }
 
+      const decoder = new TextDecoder('utf-8');
       let combinedContent = '';
       for (const file of logFiles) {
-        const content = await fs.promises.readFile(file, 'utf-8');
+        const content = decoder.decode(await vscode.workspace.fs.readFile(file));
         const maskedContent = this.maskExportContent(content, workspaceFolders);
         combinedContent += maskedContent;
       }
 
-      await fs.promises.writeFile(exportPath.fsPath, combinedContent);
-      return exportPath.fsPath;
+      await vscode.workspace.fs.writeFile(exportUri, new TextEncoder().encode(combinedContent));
+      return exportUri.scheme === 'file' ? exportUri.fsPath : exportUri.toString();
     } catch (error) {
       this.error('Failed to export logs', { details: { error: String(error) } });
       return undefined;
     }
   }
 
+  private async listFallbackLogFiles(): Promise<vscode.Uri[]> {
+    const logUri = this.fallbackLogUri;
+    if (!logUri) { return []; }
+    try {
+      const entries = await vscode.workspace.fs.readDirectory(logUri);
+      return entries
+        .filter(([name, type]) => type === vscode.FileType.File && name.endsWith('.jsonl'))
+        .map(([name]) => vscode.Uri.joinPath(logUri, name));
+    } catch {
+      return [];
+    }
+  }
+
   /**
    * Export 用のマスキング処理 (設計書 15.8)
    */
@@ -366,6 +465,9 @@ export class Logger {
   }
 
   dispose(): void {
+    for (const docLog of this.docLogMap.values()) {
+      void this.flushDocumentLog(docLog);
+    }
     this.outputChannel.dispose();
   }
 }
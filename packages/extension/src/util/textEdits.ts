@@ -16,10 +16,18 @@
  * → TextEdit: new TextEdit(range, "hello")
  * 
  * ChangeGuard (設計書 12.2):
- * - 大規模変更を検出して警告を表示
+ * - 閾値を超えた edit は host で保留し、差分プレビューで適用/破棄を確認する（editors/changeGuard.ts）
  * - maxChangedRatio: 変更率の閾値 (default: 0.5)
  * - maxChangedChars: 変更文字数の閾値 (default: 50000)
  * - maxHunks: 変更箇所数の閾値 (default: 200)
+ * - minChangedChars: これ未満の変更文字数では判定しない (default: 100。短い文書への通常入力で変更率が跳ねるため)
+ * 
+ * Rebase (古い baseVersion の edit の変換):
+ * - edit の changes は baseVersion のテキストに対する同時適用の Replace[]
+ * - 途中の変更（docChanged と同じく順に適用する Replace[]）を 1 件ずつ越えて位置をずらす
+ * - 範囲が重なる、または同じ位置への挿入同士は conflict（どちらを優先すべきか決められない）
+ * 例: changes [{ start: 50, end: 52, text: "x" }] を途中の変更 { start: 0, end: 0, text: "abc" } で変換
+ * → [{ start: 53, end: 55, text: "x" }]
  * 
  * ChangeMetrics の例:
  * {
@@ -62,6 +70,19 @@ export function replacesToWorkspaceEdit(
   return workspaceEdit;
 }
 
+/**
+ * 同時適用の Replace[]（すべて text の offset 基準）を適用した結果を返す。
+ * 後ろから適用して前方の offset がずれないようにする。
+ */
+export function applyReplacesToText(text: string, replaces: Replace[]): string {
+  const sorted = [...replaces].sort((a, b) => b.start - a.start);
+  let result = text;
+  for (const replace of sorted) {
+    result = result.slice(0, replace.start) + replace.text + result.slice(replace.end);
+  }
+  return result;
+}
+
 export function normalizeReplaces(replaces: Replace[]): Replace[] {
   if (replaces.length === 0) {return [];}
 
@@ -162,11 +183,47 @@ export function isChangeGuardExceeded(
     maxChangedRatio: number;
     maxChangedChars: number;
     maxHunks: number;
+    minChangedChars?: number;
   }
 ): boolean {
+  if (metrics.changedChars < (config.minChangedChars ?? 0)) {
+    return false;
+  }
   return (
     metrics.changedRatio > config.maxChangedRatio ||
     metrics.changedChars > config.maxChangedChars ||
     metrics.hunkCount > config.maxHunks
   );
 }
+
+export type RebaseResult =
+  | { ok: true; changes: Replace[] }
+  | { ok: false; change: Replace; against: Replace };
+
+function overlaps(change: Replace, against: Replace): boolean {
+  if (change.start < against.end && against.start < change.end) {
+    return true;
+  }
+  // 同じ位置への挿入（または挿入と置換の開始位置が同じ）は順序が決まらない
+  return change.start === against.start && (change.start === change.end || against.start === against.end);
+}
+
+export function rebaseReplaces(changes: Replace[], intervening: Replace[]): RebaseResult {
+  let rebased = changes.map((change) => ({ ...change }));
+  for (const against of intervening) {
+    const delta = against.text.length - (against.end - against.start);
+    const next: Replace[] = [];
+    for (const change of rebased) {
+      if (overlaps(change, against)) {
+        return { ok: false, change, against };
+      }
+      next.push(
+        against.end <= change.start
+          ? { start: change.start + delta, end: change.end + delta, text: change.text }
+          : change
+      );
+    }
+    rebased = next;
+  }
+  return { ok: true, changes: rebased };
+}
@@ -0,0 +1,78 @@
+/**
+ * 役割: Uri のパス操作（Node の path / fs を使わない）
+ * 責務: basename / 拡張子 / 親ディレクトリ / 相対パス / 包含判定を Uri の path（POSIX 形式）で計算する
+ * 不変条件: scheme と authority を保つ。file 以外（untitled / vscode-vfs / vscode-remote 等）と Web 版の拡張機能ホストでも動くこと
+ *
+ * Uri.path は OS によらず '/' 区切り（Windows の file: も '/c:/...'）なので、path.posix 相当の計算で足りる。
+ * Windows の file: だけは大文字小文字を区別せずに比べる（path.relative と同じ扱い）。
+ */
+
+import * as vscode from 'vscode';
+
+const isWindows = typeof process !== 'undefined' && process.platform === 'win32';
+
+const pathKey = (uri: vscode.Uri): string =>
+  uri.scheme === 'file' && isWindows ? uri.path.toLowerCase() : uri.path;
+
+const segmentsOf = (uriPath: string): string[] => uriPath.split('/').filter((segment) => segment.length > 0);
+
+/** パスの最後の要素（例: /docs/a.md → a.md） */
+export const uriBasename = (uri: vscode.Uri): string => segmentsOf(uri.path).pop() ?? '';
+
+/** basename の拡張子（先頭の '.' を含む。無ければ ''。.gitignore のような名前は拡張子なし） */
+export const uriExtname = (uri: vscode.Uri): string => {
+  const name = uriBasename(uri);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot) : '';
+};
+
+/** 拡張子を除いた basename */
+export const uriStem = (uri: vscode.Uri): string => {
+  const name = uriBasename(uri);
+  const ext = uriExtname(uri);
+  return ext ? name.slice(0, -ext.length) : name;
+};
+
+/** 親ディレクトリ（ルートの親はルート） */
+export const uriDirname = (uri: vscode.Uri): vscode.Uri => {
+  const segments = segmentsOf(uri.path);
+  segments.pop();
+  return uri.with({ path: `/${segments.join('/')}` });
+};
+
+const isSameRoot = (a: vscode.Uri, b: vscode.Uri): boolean =>
+  a.scheme === b.scheme && a.authority.toLowerCase() === b.authority.toLowerCase();
+
+/**
+ * from（ディレクトリ）から to への '/' 区切りの相対パス。scheme / authority が違う場合は null。
+ */
+export const relativeUriPath = (from: vscode.Uri, to: vscode.Uri): string | null => {
+  if (!isSameRoot(from, to)) {
+    return null;
+  }
+  const fromSegments = segmentsOf(pathKey(from));
+  const toKeys = segmentsOf(pathKey(to));
+  const toSegments = segmentsOf(to.path);
+  let common = 0;
+  while (common < fromSegments.length && common < toKeys.length && fromSegments[common] === toKeys[common]) {
+    common += 1;
+  }
+  return [...fromSegments.slice(common).map(() => '..'), ...toSegments.slice(common)].join('/');
+};
+
+/** child が parent（ディレクトリ）自身またはその配下か */
+export const isUriWithin = (parent: vscode.Uri, child: vscode.Uri): boolean => {
+  const relative = relativeUriPath(parent, child);
+  return relative !== null && relative !== '..' && !relative.startsWith('../');
+};
+
+/**
+ * document の相対パス（画像・子ページのリンク）の基準ディレクトリ。
+ * 保存されていない document（untitled:）はワークスペースの最初のフォルダを基準にする（無ければ null）。
+ */
+export const documentBaseDirectory = (documentUri: vscode.Uri): vscode.Uri | null => {
+  if (documentUri.scheme === 'untitled') {
+    return vscode.workspace.workspaceFolders?.[0]?.uri ?? null;
+  }
+  return uriDirname(documentUri);
+};
@@ -14,16 +14,21 @@ import type { Node as ProseMirrorNode, ResolvedPos } from 'prosemirror-model';
 import { DEBUG } from './debug.js';
 import { t } from './i18n.js';
 import { icons, createIconElement } from './icons.js';
-import { createBlockMenu, createBlockMenuItem, getBlockMenuItems, positionBlockMenu, updateBlockMenuSelection } from './blockMenu.js';
+import { createBlockMenu, createBlockMenuItem, createBlockMenuSeparator, getBlockMenuItems, positionBlockMenu, updateBlockMenuSelection } from './blockMenu.js';
 import { closeMenu, isMenuActive, openMenu, registerMenu } from './menuManager.js';
 import { executeCommand } from './commands.js';
+import { insertFootnote } from './footnoteExtension.js';
+import { insertDetailsAtSelection } from './detailsExtension.js';
+import { CALLOUT_BLOCK_TYPE_PREFIX, CALLOUT_ICONS, CALLOUT_TYPES, calloutTypeFromBlockType, isCalloutType, setCalloutType } from './calloutExtension.js';
 import { normalizeIndentAttr } from './indentConfig.js';
+import { isListItemType, isListType } from './listTypes.js';
 import { notifyHostError } from './hostNotifier.js';
 import { serializeMarkdown } from './markdownUtils.js';
 import { createLogger } from '../logger.js';
 
 const MODULE = 'BlockHandles';
 const HANDLE_CLICK_THRESHOLD_PX = 4;
+const CALLOUT_ACTION_PREFIX = 'callout:';
 const log = createLogger(MODULE);
 
 const logInfo = (msg: string, data?: Record<string, unknown>): void => {
@@ -44,14 +49,18 @@ export const DRAG_HANDLE_ALLOWED_NODE_TYPES = new Set([
   'paragraph',
   'heading',
   'listItem',
+  'taskItem',
   'codeBlock',
   'blockquote',
+  'callout',
+  'details',
   'table',
   'horizontalRule',
   'rawBlock',
   'frontmatterBlock',
   'plainTextBlock',
   'nestedPage',
+  'mathBlock',
 ]);
 
 export const isDragHandleTarget = (node: ProseMirrorNode | null): boolean => {
@@ -79,12 +88,18 @@ export type BlockHandleEligibility = {
     | 'resolve-failed'
     | 'in-table'
     | 'in-list'
-    | 'in-blockquote';
+    | 'in-blockquote'
+    | 'in-callout'
+    | 'in-details'
+    | 'in-footnote';
   pos: number | null;
   selfType?: string;
   inTableCell?: boolean;
   inListItem?: boolean;
   inBlockquote?: boolean;
+  inCallout?: boolean;
+  inDetails?: boolean;
+  inFootnote?: boolean;
   error?: string;
 };
 
@@ -120,8 +135,8 @@ export const resolveBlockHandleEligibility = (
     return { allowed: false, reason: 'in-table', pos, selfType, inTableCell: true };
   }
 
-  const inListItem = hasAncestor(resolved, (node) => node.type.name === 'listItem');
-  if (inListItem && selfType !== 'listItem') {
+  const inListItem = hasAncestor(resolved, (node) => isListItemType(node.type.name));
+  if (inListItem && !isListItemType(selfType)) {
     return { allowed: false, reason: 'in-list', pos, selfType, inListItem: true };
   }
 
@@ -130,6 +145,22 @@ export const resolveBlockHandleEligibility = (
     return { allowed: false, reason: 'in-blockquote', pos, selfType, inBlockquote: true };
   }
 
+  const inCallout = hasAncestor(resolved, (node) => node.type.name === 'callout');
+  if (inCallout && selfType !== 'callout') {
+    return { allowed: false, reason: 'in-callout', pos, selfType, inCallout: true };
+  }
+
+  const inDetails = hasAncestor(resolved, (node) => node.type.name === 'details');
+  if (inDetails && selfType !== 'details') {
+    return { allowed: false, reason: 'in-details', pos, selfType, inDetails: true };
+  }
+
+  // 脚注セクションは FootnoteManager が並びを管理するので、定義の中のブロックは動かさない
+  const inFootnote = hasAncestor(resolved, (node) => node.type.name === 'footnotes');
+  if (inFootnote) {
+    return { allowed: false, reason: 'in-footnote', pos, selfType, inFootnote: true };
+  }
+
   return { allowed: true, reason: 'ok', pos, selfType };
 };
 
@@ -627,10 +658,20 @@ export const BlockHandles = Extension.create<BlockHandlesOptions, BlockHandlesSt
         { iconText: 'H3', label: fm.heading3, blockType: 'heading3', keywords: ['heading', 'h3', '見出し', 'midashi'] },
         { icon: icons.listUnordered, label: fm.bulletList, blockType: 'bulletList', keywords: ['bullet', 'list', 'ul', '箇条書き', 'リスト'] },
         { icon: icons.listOrdered, label: fm.orderedList, blockType: 'orderedList', keywords: ['ordered', 'number', 'ol', '番号', 'リスト'] },
+        { icon: icons.checklist, label: fm.taskList, blockType: 'taskList', keywords: ['todo', 'to-do', 'task', 'checkbox', 'check', 'タスク', 'チェック', 'リスト'] },
         { icon: icons.code, label: fm.codeBlock, blockType: 'codeBlock', keywords: ['code', 'コード', 'pre'] },
         { icon: icons.quote, label: fm.blockquote, blockType: 'blockquote', keywords: ['quote', '引用', 'blockquote'] },
+        ...CALLOUT_TYPES.map((calloutType) => ({
+          icon: icons[CALLOUT_ICONS[calloutType]],
+          label: t().callouts[calloutType],
+          blockType: `${CALLOUT_BLOCK_TYPE_PREFIX}${calloutType}`,
+          keywords: ['callout', 'alert', 'admonition', calloutType, 'コールアウト', 'アラート'],
+        })),
+        { icon: icons.chevronRight, label: fm.details, blockType: 'details', keywords: ['toggle', 'details', 'summary', 'collapse', 'collapsible', 'トグル', '折りたたみ'] },
         { icon: icons.table, label: fm.table, blockType: 'table', keywords: ['table', 'テーブル', '表'] },
         { icon: icons.fileSubmodule, label: fm.nestedPage, blockType: 'nestedPage', keywords: ['page', 'nested', 'subpage', 'md', 'ページ', 'ネスト'] },
+        { icon: icons.math, label: fm.mathBlock, blockType: 'mathBlock', keywords: ['math', 'latex', 'tex', 'katex', 'equation', 'formula', '数式', '公式'] },
+        { icon: icons.note, label: fm.footnote, blockType: 'footnote', keywords: ['footnote', 'note', 'reference', '脚注', '注釈'] },
       ];
     };
 
@@ -736,11 +777,11 @@ export const BlockHandles = Extension.create<BlockHandlesOptions, BlockHandlesSt
 
     const serializeBlockForClipboard = (block: { node: ProseMirrorNode; pos: number }): string | null => {
       const { node, pos } = block;
-      if (node.type.name === 'listItem') {
+      if (isListItemType(node.type.name)) {
         const resolved = editor.state.doc.resolve(pos);
         for (let depth = resolved.depth; depth >= 0; depth -= 1) {
           const parent = resolved.node(depth);
-          if (parent.type.name === 'bulletList' || parent.type.name === 'orderedList') {
+          if (isListType(parent.type.name)) {
             const listJson = {
               type: parent.type.name,
               attrs: parent.attrs ?? {},
@@ -787,7 +828,7 @@ export const BlockHandles = Extension.create<BlockHandlesOptions, BlockHandlesSt
         });
         return;
       }
-      if (node.type.name === 'listItem') {
+      if (isListItemType(node.type.name)) {
         convertListItemToPlainText(block);
         return;
       }
@@ -843,6 +884,9 @@ export const BlockHandles = Extension.create<BlockHandlesOptions, BlockHandlesSt
         }
       } else if (action === 'plainText') {
         convertBlockToPlainText(block);
+      } else if (action.startsWith(CALLOUT_ACTION_PREFIX)) {
+        const calloutType = action.slice(CALLOUT_ACTION_PREFIX.length);
+        setCalloutType(editor, block.pos, isCalloutType(calloutType) ? calloutType : null);
       }
       hideContextMenu();
     };
@@ -854,8 +898,8 @@ export const BlockHandles = Extension.create<BlockHandlesOptions, BlockHandlesSt
       contextMenu.innerHTML = '';
 
       const bh = t().blockHandles;
-      const contextItems: Array<{ label: string; action: string; icon?: string; iconText?: string }> = [];
-      if (block.node.type.name === 'listItem') {
+      const contextItems: Array<{ label: string; action: string; icon?: string; iconText?: string; separatorBefore?: boolean }> = [];
+      if (isListItemType(block.node.type.name)) {
         contextItems.push({ label: bh.indent, action: 'indentListItem', iconText: '>' });
         contextItems.push({ label: bh.outdent, action: 'outdentListItem', iconText: '<' });
       } else if (block.node.type.name !== 'table') {
@@ -871,8 +915,24 @@ export const BlockHandles = Extension.create<BlockHandlesOptions, BlockHandlesSt
       }
       contextItems.push({ label: bh.delete, action: 'delete', icon: icons.trash });
       contextItems.push({ label: bh.copy, action: 'copy', icon: icons.copy });
+      if (block.node.type.name === 'callout') {
+        // 種類の切り替え（今の種類は出さない）。最後の項目で通常の引用に戻す
+        const current = block.node.attrs?.calloutType;
+        CALLOUT_TYPES.filter((calloutType) => calloutType !== current).forEach((calloutType, index) => {
+          contextItems.push({
+            label: t().callouts[calloutType],
+            action: `${CALLOUT_ACTION_PREFIX}${calloutType}`,
+            icon: icons[CALLOUT_ICONS[calloutType]],
+            separatorBefore: index === 0,
+          });
+        });
+        contextItems.push({ label: bh.blockquote, action: `${CALLOUT_ACTION_PREFIX}none`, icon: icons.quote });
+      }
 
       contextItems.forEach((item) => {
+        if (item.separatorBefore) {
+          contextMenu?.appendChild(createBlockMenuSeparator());
+        }
         contextMenu.appendChild(createMenuItem(item.label, item.action, item.icon, item.iconText));
       });
 
@@ -881,7 +941,7 @@ export const BlockHandles = Extension.create<BlockHandlesOptions, BlockHandlesSt
       updateContextMenuSelection();
 
       const menuWidth = 180;
-      const menuHeight = 150;
+      const menuHeight = Math.max(150, Math.min(contextItems.length * 32 + 16, 340));
       const menuX = Math.min(x, window.innerWidth - menuWidth - 10);
       const menuY = Math.min(y, window.innerHeight - menuHeight - 10);
 
@@ -958,18 +1018,36 @@ export const BlockHandles = Extension.create<BlockHandlesOptions, BlockHandlesSt
                 case 'orderedList':
                   editor.chain().focus().toggleOrderedList().updateAttributes('orderedList', { indent }).run();
                   break;
+                case 'taskList':
+                  editor.chain().focus().toggleTaskList().updateAttributes('taskList', { indent }).run();
+                  break;
                 case 'codeBlock':
                   editor.chain().focus().setCodeBlock({ indent }).run();
                   break;
                 case 'blockquote':
                   editor.chain().focus().setBlockquote({ indent }).run();
                   break;
+                case 'details':
+                  insertDetailsAtSelection(editor, indent);
+                  break;
                 case 'table':
                   editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run();
                   break;
                 case 'nestedPage':
                   await createNestedPageAt(insertPos, indent, 'slash');
                   break;
+                case 'mathBlock':
+                  editor.chain().focus().setNode('mathBlock', { indent }).run();
+                  break;
+                case 'footnote':
+                  insertFootnote(editor, insertPos);
+                  break;
+                default: {
+                  const calloutType = calloutTypeFromBlockType(blockType);
+                  if (calloutType) {
+                    editor.chain().focus().wrapIn('callout', { calloutType, indent }).run();
+                  }
+                }
               }
 
               storage.slashCommandRange = null;
@@ -999,20 +1077,53 @@ export const BlockHandles = Extension.create<BlockHandlesOptions, BlockHandlesSt
                 case 'orderedList':
                   editor.chain().focus().insertContentAt(pos, { type: 'orderedList', attrs: { indent }, content: [{ type: 'listItem', content: [{ type: 'paragraph' }] }] }).setTextSelection(pos + 3).run();
                   break;
+                case 'taskList':
+                  editor.chain().focus().insertContentAt(pos, { type: 'taskList', attrs: { indent }, content: [{ type: 'taskItem', attrs: { checked: false }, content: [{ type: 'paragraph' }] }] }).setTextSelection(pos + 3).run();
+                  break;
                 case 'codeBlock':
                   editor.chain().focus().insertContentAt(pos, { type: 'codeBlock', attrs: { indent } }).setTextSelection(pos + 1).run();
                   break;
                 case 'blockquote':
                   editor.chain().focus().insertContentAt(pos, { type: 'blockquote', attrs: { indent }, content: [{ type: 'paragraph' }] }).setTextSelection(pos + 2).run();
                   break;
+                case 'details':
+                  editor
+                    .chain()
+                    .focus()
+                    .insertContentAt(pos, {
+                      type: 'details',
+                      attrs: { indent },
+                      content: [{ type: 'detailsSummary' }, { type: 'detailsContent', content: [{ type: 'paragraph' }] }],
+                    })
+                    .setTextSelection(pos + 2)
+                    .run();
+                  break;
                 case 'table':
                   editor.chain().focus().setTextSelection(pos).insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run();
                   break;
                 case 'nestedPage':
                   await createNestedPageAt(pos, indent, 'menu');
                   break;
-                default:
+                case 'mathBlock':
+                  editor.chain().focus().insertContentAt(pos, { type: 'mathBlock', attrs: { indent } }).setTextSelection(pos + 1).run();
+                  break;
+                case 'footnote':
+                  // 参照は対象ブロックの末尾に入れる。テキストを持たないブロックでは直後に段落を作る
+                  if (active.node.isTextblock) {
+                    insertFootnote(editor, pos - 1);
+                  } else {
+                    editor.chain().focus().insertContentAt(pos, { type: 'paragraph', attrs: { indent } }).run();
+                    insertFootnote(editor, pos + 1);
+                  }
+                  break;
+                default: {
+                  const calloutType = calloutTypeFromBlockType(blockType);
+                  if (calloutType) {
+                    editor.chain().focus().insertContentAt(pos, { type: 'callout', attrs: { calloutType, indent }, content: [{ type: 'paragraph' }] }).setTextSelection(pos + 2).run();
+                    break;
+                  }
                   editor.chain().focus().insertContentAt(pos, { type: 'paragraph', attrs: { indent } }).setTextSelection(pos + 1).run();
+                }
               }
             }
 
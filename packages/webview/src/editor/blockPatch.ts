@@ -0,0 +1,228 @@
+/**
+ * 役割: 外部変更をトップレベルブロック単位の差分として ProseMirror に適用する
+ * 責務: 新しい Markdown をパースし、変化したトップレベルブロックだけを置換する
+ * 不変条件: 変化していないブロックはノード同一性を保ち、選択範囲は再マップされること
+ *
+ * 方針:
+ * - 旧ドキュメントと新ドキュメントのトップレベル子ノードを node.eq で比較
+ * - 共通の先頭/末尾を除いた中間部分は LCS でブロック対応を取る
+ * - 中間部分が大きすぎる場合は 1 ハンクとして置換（計算量の上限）
+ * - 置換は後方から 1 トランザクションで適用し、selection は tr.mapping で追従
+ * - 外部変更は Undo 履歴に積まない（addToHistory: false）
+ * - 変わった範囲が分かっている場合（rangePatch.ts）は、その範囲の子ノードだけを新しいノード列と比較する（applyBlocksAsPatch）
+ */
+
+import type { Editor } from '@tiptap/core';
+import { Fragment, type Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { parseMarkdown } from './markdownUtils.js';
+
+/** LCS テーブルのセル数上限（超過時は中間部分をまとめて置換） */
+const MAX_LCS_CELLS = 250_000;
+
+interface BlockHunk {
+  oldFrom: number;
+  oldTo: number;
+  newFrom: number;
+  newTo: number;
+}
+
+export interface BlockPatchResult {
+  hunkCount: number;
+  keptBlocks: number;
+  replacedBlocks: number;
+  insertedBlocks: number;
+}
+
+const childrenOf = (node: ProseMirrorNode): ProseMirrorNode[] => {
+  const children: ProseMirrorNode[] = [];
+  node.forEach((child) => {
+    children.push(child);
+  });
+  return children;
+};
+
+const diffMiddle = (
+  oldChildren: ProseMirrorNode[],
+  newChildren: ProseMirrorNode[],
+  oldStart: number,
+  oldEnd: number,
+  newStart: number,
+  newEnd: number
+): BlockHunk[] => {
+  const oldLen = oldEnd - oldStart;
+  const newLen = newEnd - newStart;
+
+  if (oldLen === 0 && newLen === 0) {
+    return [];
+  }
+  if (oldLen === 0 || newLen === 0 || oldLen * newLen > MAX_LCS_CELLS) {
+    return [{ oldFrom: oldStart, oldTo: oldEnd, newFrom: newStart, newTo: newEnd }];
+  }
+
+  // lcs[i][j] = oldChildren[oldStart+i..] と newChildren[newStart+j..] の LCS 長
+  const width = newLen + 1;
+  const lcs = new Uint32Array((oldLen + 1) * width);
+  for (let i = oldLen - 1; i >= 0; i -= 1) {
+    for (let j = newLen - 1; j >= 0; j -= 1) {
+      lcs[i * width + j] = oldChildren[oldStart + i].eq(newChildren[newStart + j])
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const hunks: BlockHunk[] = [];
+  let current: BlockHunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < oldLen || j < newLen) {
+    if (i < oldLen && j < newLen && oldChildren[oldStart + i].eq(newChildren[newStart + j])) {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      i += 1;
+      j += 1;
+      continue;
+    }
+    if (!current) {
+      current = { oldFrom: oldStart + i, oldTo: oldStart + i, newFrom: newStart + j, newTo: newStart + j };
+    }
+    if (j >= newLen || (i < oldLen && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      i += 1;
+      current.oldTo = oldStart + i;
+    } else {
+      j += 1;
+      current.newTo = newStart + j;
+    }
+  }
+  if (current) {
+    hunks.push(current);
+  }
+  return hunks;
+};
+
+export const diffTopLevelBlocks = (oldDoc: ProseMirrorNode, newDoc: ProseMirrorNode): BlockHunk[] => {
+  const oldChildren = childrenOf(oldDoc);
+  const newChildren = childrenOf(newDoc);
+
+  let prefix = 0;
+  const maxPrefix = Math.min(oldChildren.length, newChildren.length);
+  while (prefix < maxPrefix && oldChildren[prefix].eq(newChildren[prefix])) {
+    prefix += 1;
+  }
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (
+    suffix < maxSuffix &&
+    oldChildren[oldChildren.length - 1 - suffix].eq(newChildren[newChildren.length - 1 - suffix])
+  ) {
+    suffix += 1;
+  }
+
+  return diffMiddle(
+    oldChildren,
+    newChildren,
+    prefix,
+    oldChildren.length - suffix,
+    prefix,
+    newChildren.length - suffix
+  );
+};
+
+const dispatchHunks = (editor: Editor, hunks: BlockHunk[], newChildren: ProseMirrorNode[]): BlockPatchResult => {
+  const oldDoc = editor.state.doc;
+  const result: BlockPatchResult = {
+    hunkCount: hunks.length,
+    keptBlocks: oldDoc.childCount,
+    replacedBlocks: 0,
+    insertedBlocks: 0,
+  };
+  if (hunks.length === 0) {
+    return result;
+  }
+
+  const oldOffsets: number[] = [];
+  let offset = 0;
+  oldDoc.forEach((child) => {
+    oldOffsets.push(offset);
+    offset += child.nodeSize;
+  });
+  oldOffsets.push(offset);
+
+  const tr = editor.state.tr;
+  for (let index = hunks.length - 1; index >= 0; index -= 1) {
+    const hunk = hunks[index];
+    const from = oldOffsets[hunk.oldFrom];
+    const to = oldOffsets[hunk.oldTo];
+    tr.replaceWith(from, to, Fragment.fromArray(newChildren.slice(hunk.newFrom, hunk.newTo)));
+    result.replacedBlocks += hunk.oldTo - hunk.oldFrom;
+    result.insertedBlocks += hunk.newTo - hunk.newFrom;
+  }
+  result.keptBlocks -= result.replacedBlocks;
+
+  tr.setMeta('addToHistory', false);
+  editor.view.dispatch(tr);
+  return result;
+};
+
+/**
+ * Markdown 全文を基準に、変化したトップレベルブロックのみを置換する。
+ * パースやスキーマ検証に失敗した場合は null を返す（呼び出し側で全置換にフォールバック）。
+ */
+export const applyMarkdownAsBlockPatch = (
+  editor: Editor,
+  markdown: string,
+  context: Record<string, unknown> = {}
+): BlockPatchResult | null => {
+  const json = parseMarkdown(editor, markdown, { ...context, mode: 'blockPatch' });
+  if (!json) {
+    return null;
+  }
+
+  let newDoc: ProseMirrorNode;
+  try {
+    newDoc = editor.schema.nodeFromJSON(json);
+    newDoc.check();
+  } catch {
+    return null;
+  }
+
+  return dispatchHunks(editor, diffTopLevelBlocks(editor.state.doc, newDoc), childrenOf(newDoc));
+};
+
+/**
+ * トップレベルの子ノード [fromChild, toChild) を nodes と比較し、変化したブロックだけを置換する。
+ * nodes は同じスキーマで作って check 済みであること。
+ */
+export const applyBlocksAsPatch = (
+  editor: Editor,
+  fromChild: number,
+  toChild: number,
+  nodes: ProseMirrorNode[]
+): BlockPatchResult => {
+  const oldChildren = childrenOf(editor.state.doc);
+  let prefix = 0;
+  while (fromChild + prefix < toChild && prefix < nodes.length && oldChildren[fromChild + prefix].eq(nodes[prefix])) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    toChild - suffix > fromChild + prefix &&
+    nodes.length - suffix > prefix &&
+    oldChildren[toChild - 1 - suffix].eq(nodes[nodes.length - 1 - suffix])
+  ) {
+    suffix += 1;
+  }
+  // diffMiddle は新しいノード列の index で hunk を返すため、old と同じ位置に並べた配列を渡す
+  const newChildren = [...oldChildren.slice(0, fromChild), ...nodes];
+  const hunks = diffMiddle(
+    oldChildren,
+    newChildren,
+    fromChild + prefix,
+    toChild - suffix,
+    fromChild + prefix,
+    fromChild + nodes.length - suffix
+  );
+  return dispatchHunks(editor, hunks, newChildren);
+};
@@ -3,16 +3,24 @@
  *
  * 役割: ブロック右上のトグルで「編集/プレビュー」を切り替える共通ロジック。
  * 方針:
- * - Preview は iframe に閉じる（HTML/Mermaid 共通）。
+ * - Preview は iframe に閉じる（HTML/Mermaid 共通）。数式（math / mathInline）は同梱の KaTeX で直接描画する（mathRender.ts）。
+ * - setSourceFocused(true) の間は source を出す（数式のノードにカーソルがある間）。外れたら元の表示に戻す。
  * - ドキュメント（ProseMirror）には状態を保存しない（UI状態はランタイムに閉じる）。
+ * - ユーザーが既定から切り替えた状態は viewState.ts 経由で setState / host に保存し、開き直したときに戻す。
  * - 失敗は握りつぶさず、ブロック内に明示しつつログに残す。
  */
 
 import { createLogger, isDebugEnabled } from '../logger.js';
 import { t } from './i18n.js';
 import { getRuntimeConfig } from './runtimeConfig.js';
+import { renderMathToHtml } from './mathRender.js';
+import {
+  notifyBlockViewStateChanged,
+  registerBlockViewState,
+  takeRestoredBlockViewState,
+} from './viewState.js';
 
-export type PreviewRenderer = 'html' | 'mermaid';
+export type PreviewRenderer = 'html' | 'mermaid' | 'math' | 'mathInline';
 
 type HtmlPreviewConfig = {
   allowScripts: boolean;
@@ -1062,6 +1070,8 @@ export class BlockPreviewController {
   private switchInput: HTMLInputElement;
   private previewContainer: HTMLElement;
   private previewEnabled = false;
+  /** source を編集中（カーソルがノードの中にある）。この間は自動でプレビューに入らない */
+  private sourceFocused = false;
   private previewLoading = false;
   private available = false;
   private activePreviewId: string | null = null;
@@ -1072,10 +1082,14 @@ export class BlockPreviewController {
   private readonly contentDom: HTMLElement;
   private readonly getSource: () => string;
   private readonly padded: boolean;
+  private readonly inline: boolean;
   private readonly defaultPreviewEnabled: boolean;
   private readonly onPreviewMessageBound: (event: MessageEvent) => void;
   private lastRenderedSource = '';
   private autoPreviewAttempted = false;
+  /** ユーザーが切り替えた（または復元した）プレビュー状態。null は既定のまま */
+  private userPreviewChoice: boolean | null = null;
+  private readonly unregisterViewState: (() => void) | null;
 
   constructor(params: {
     renderer: PreviewRenderer;
@@ -1085,12 +1099,17 @@ export class BlockPreviewController {
     padded: boolean;
     initialAvailable: boolean;
     defaultPreviewEnabled?: boolean;
+    /** 指定するとプレビューの切り替えを表示状態として保存・復元する */
+    viewState?: { nodeType: string; getPos: () => number | undefined };
+    /** インラインのノード（span で描画し、トグルを出さない） */
+    inline?: boolean;
   }) {
     this.renderer = params.renderer;
     this.host = params.host;
     this.contentDom = params.contentDom;
     this.getSource = params.getSource;
     this.padded = params.padded;
+    this.inline = params.inline === true;
     this.defaultPreviewEnabled = params.defaultPreviewEnabled !== false;
     this.available = params.initialAvailable;
     this.onPreviewMessageBound = (event) => this.onPreviewMessage(event);
@@ -1127,9 +1146,11 @@ export class BlockPreviewController {
     this.switchLabel.appendChild(this.switchInput);
     this.switchLabel.appendChild(switchTrack);
     this.toolbar.appendChild(this.switchLabel);
-    params.host.appendChild(this.toolbar);
+    if (!this.inline) {
+      params.host.appendChild(this.toolbar);
+    }
 
-    this.previewContainer = document.createElement('div');
+    this.previewContainer = document.createElement(this.inline ? 'span' : 'div');
     this.previewContainer.className = 'block-preview-container';
     this.previewContainer.setAttribute('contenteditable', 'false');
     if (this.padded) {
@@ -1137,6 +1158,21 @@ export class BlockPreviewController {
     }
     params.host.appendChild(this.previewContainer);
 
+    const viewState = params.viewState;
+    if (viewState) {
+      this.userPreviewChoice = takeRestoredBlockViewState(viewState.getPos(), viewState.nodeType);
+      this.unregisterViewState = registerBlockViewState({
+        nodeType: viewState.nodeType,
+        getPos: viewState.getPos,
+        getPreviewOverride: () =>
+          this.userPreviewChoice === null || this.userPreviewChoice === this.defaultPreviewEnabled
+            ? null
+            : this.userPreviewChoice,
+      });
+    } else {
+      this.unregisterViewState = null;
+    }
+
     this.syncUi();
     this.maybeEnterDefaultPreview();
   }
@@ -1145,6 +1181,27 @@ export class BlockPreviewController {
     return this.toolbar;
   }
 
+  getPreviewElement(): HTMLElement {
+    return this.previewContainer;
+  }
+
+  /**
+   * source の編集中かどうか。編集中はプレビューを閉じ、外れたら既定（またはユーザーの切り替え）の表示に戻す。
+   */
+  setSourceFocused(focused: boolean): void {
+    if (this.sourceFocused === focused) {
+      return;
+    }
+    this.sourceFocused = focused;
+    if (focused) {
+      this.exitPreview('source-focused');
+      return;
+    }
+    if ((this.userPreviewChoice ?? this.defaultPreviewEnabled) && this.available && !this.previewEnabled) {
+      void this.enterPreview();
+    }
+  }
+
   setAvailable(available: boolean): void {
     if (this.available === available) {
       return;
@@ -1183,6 +1240,7 @@ export class BlockPreviewController {
   }
 
   destroy(): void {
+    this.unregisterViewState?.();
     this.exitPreview('destroy');
     this.switchText.remove();
     this.switchInput.remove();
@@ -1195,6 +1253,8 @@ export class BlockPreviewController {
     if (!this.available || this.previewLoading) {
       return;
     }
+    this.userPreviewChoice = shouldEnable;
+    notifyBlockViewStateChanged();
     if (!shouldEnable && this.previewEnabled) {
       this.exitPreview('toggle-off');
       return;
@@ -1219,7 +1279,7 @@ export class BlockPreviewController {
   }
 
   private maybeEnterDefaultPreview(): void {
-    if (!this.defaultPreviewEnabled || this.autoPreviewAttempted) {
+    if (!(this.userPreviewChoice ?? this.defaultPreviewEnabled) || this.autoPreviewAttempted || this.sourceFocused) {
       return;
     }
     if (!this.available || this.previewEnabled || this.previewLoading) {
@@ -1301,6 +1361,10 @@ export class BlockPreviewController {
     this.syncUi();
 
     const source = this.getSource();
+    if (this.renderer === 'math' || this.renderer === 'mathInline') {
+      await this.enterMathPreview(requestId, source, startedAt);
+      return;
+    }
     const background = readCssVar('--vscode-editor-background', '#ffffff');
     const foreground = readCssVar('--vscode-editor-foreground', '#000000');
     const fontFamily = readCssVar('--vscode-editor-font-family', 'ui-sans-serif');
@@ -1437,6 +1501,44 @@ export class BlockPreviewController {
     });
   }
 
+  private async enterMathPreview(requestId: number, source: string, startedAt: number): Promise<void> {
+    let html: string;
+    try {
+      html = await renderMathToHtml(source, this.renderer === 'math');
+    } catch (error) {
+      log.error('Failed to render math preview', { renderer: this.renderer, error: String(error) });
+      html = '';
+    }
+    if (requestId !== this.enterRequestId || !this.available) {
+      this.previewLoading = false;
+      this.syncUi();
+      return;
+    }
+    if (!html) {
+      // 描画できなかった場合は source のまま（エラーはログに残す）
+      this.previewLoading = false;
+      this.syncUi();
+      return;
+    }
+
+    const rendered = document.createElement(this.inline ? 'span' : 'div');
+    rendered.className = 'math-preview';
+    rendered.innerHTML = html;
+    this.previewContainer.replaceChildren(rendered);
+    this.previewContainer.classList.add('is-visible');
+    this.contentDom.classList.add(PREVIEW_CONTENT_HIDDEN_CLASS);
+    this.previewEnabled = true;
+    this.previewLoading = false;
+    this.lastRenderedSource = source;
+    this.syncUi();
+
+    log.debug('Math preview rendered', {
+      renderer: this.renderer,
+      sourceLength: source.length,
+      durationMs: Date.now() - startedAt,
+    });
+  }
+
   private exitPreview(reason: string): void {
     if (!this.previewEnabled && !this.previewLoading) {
       return;
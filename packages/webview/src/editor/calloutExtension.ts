@@ -0,0 +1,247 @@
+/**
+ * 役割: GitHub のアラート（`> [!NOTE]` などで始まる引用）を表すコールアウトブロック
+ * 責務: `callout` ノードのスキーマと Markdown の往復、種類ごとのアイコン・色の表示、種類の切り替え
+ * 不変条件:
+ * - 独自の tokenizer は持たない。BlockquoteNoShortcut の parseMarkdown が、先頭の段落が `[!TYPE]` だけの行で始まる
+ *   blockquote トークンを parseCalloutMarkdown で callout にする（markdownTokenName を共有すると serialize の handler まで引用と混ざる）
+ * - serialize は GitHub の書き方（`> [!NOTE]` の行 + `> ` で始まる本文）に戻す。種類は大文字で書く
+ *
+ * 種類は GitHub と同じ 5 つ（note / tip / important / warning / caution）。本文は通常のブロックとして編集する
+ */
+
+import { Node, mergeAttributes } from '@tiptap/core';
+import type { Editor, JSONContent, MarkdownParseHelpers, MarkdownToken } from '@tiptap/core';
+import { applyIndentAttributesToDom, indentAttribute, normalizeIndentAttr, renderIndentMarker } from './indentConfig.js';
+import { applyNodeViewHandleState, createNodeViewHandleContainer, resolveBlockHandleEligibility } from './blockHandlesExtension.js';
+import { isListItemType } from './listTypes.js';
+import { icons, type IconName } from './icons.js';
+import { t } from './i18n.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Callout');
+
+export const CALLOUT_TYPES = ['note', 'tip', 'important', 'warning', 'caution'] as const;
+
+export type CalloutType = (typeof CALLOUT_TYPES)[number];
+
+export const CALLOUT_ICONS: Record<CalloutType, IconName> = {
+  note: 'info',
+  tip: 'lightbulb',
+  important: 'report',
+  warning: 'warning',
+  caution: 'stop',
+};
+
+/** ブロックメニューの blockType（`callout-note` など） */
+export const CALLOUT_BLOCK_TYPE_PREFIX = 'callout-';
+
+const CALLOUT_MARKER_RE = /^\[!(note|tip|important|warning|caution)\][ \t]*(?:\n|$)/i;
+
+export const isCalloutType = (value: unknown): value is CalloutType =>
+  typeof value === 'string' && (CALLOUT_TYPES as readonly string[]).includes(value);
+
+const normalizeCalloutType = (value: unknown): CalloutType => (isCalloutType(value) ? value : 'note');
+
+/** ブロックメニューの blockType から種類を取り出す（コールアウトでなければ null） */
+export const calloutTypeFromBlockType = (blockType: string): CalloutType | null => {
+  if (!blockType.startsWith(CALLOUT_BLOCK_TYPE_PREFIX)) {
+    return null;
+  }
+  const value = blockType.slice(CALLOUT_BLOCK_TYPE_PREFIX.length);
+  return isCalloutType(value) ? value : null;
+};
+
+/**
+ * 引用の先頭の段落から `[!TYPE]` の行を取り除く。アラートでなければ null。
+ * 段落の inline トークンは raw の長さで先頭から削る（マーカーは text / br トークンにしかならない）
+ */
+const stripCalloutMarker = (token: MarkdownToken): { calloutType: CalloutType; tokens: MarkdownToken[] } | null => {
+  const children = token.tokens ?? [];
+  const first = children[0];
+  if (!first || first.type !== 'paragraph') {
+    return null;
+  }
+  const raw = first.raw ?? '';
+  const match = CALLOUT_MARKER_RE.exec(raw);
+  if (!match) {
+    return null;
+  }
+
+  const inline = [...(first.tokens ?? [])];
+  let remaining = match[0].length;
+  while (remaining > 0 && inline.length > 0) {
+    const head = inline[0];
+    const headRaw = head.raw ?? '';
+    if (headRaw.length <= remaining) {
+      inline.shift();
+      remaining -= headRaw.length;
+      continue;
+    }
+    if (head.type !== 'text' || head.text !== headRaw) {
+      return null;
+    }
+    const rest = headRaw.slice(remaining);
+    inline[0] = { ...head, raw: rest, text: rest };
+    remaining = 0;
+  }
+
+  const calloutType = match[1].toLowerCase() as CalloutType;
+  if (inline.length === 0) {
+    return { calloutType, tokens: children.slice(1) };
+  }
+  const paragraph: MarkdownToken = {
+    ...first,
+    raw: raw.slice(match[0].length),
+    text: typeof first.text === 'string' ? first.text.slice(match[0].length) : first.text,
+    tokens: inline,
+  };
+  return { calloutType, tokens: [paragraph, ...children.slice(1)] };
+};
+
+/**
+ * blockquote トークンがアラートなら callout のノードにする。通常の引用なら null
+ */
+export const parseCalloutMarkdown = (token: MarkdownToken, helpers: MarkdownParseHelpers): JSONContent | null => {
+  const stripped = stripCalloutMarker(token);
+  if (!stripped) {
+    return null;
+  }
+  const content = helpers.parseChildren(stripped.tokens);
+  return helpers.createNode(
+    'callout',
+    { calloutType: stripped.calloutType },
+    content.length > 0 ? content : [helpers.createNode('paragraph', {}, [])]
+  );
+};
+
+const isEmptyContent = (content: JSONContent[]): boolean =>
+  content.length === 0 ||
+  (content.length === 1 && content[0].type === 'paragraph' && (content[0].content ?? []).length === 0);
+
+/**
+ * コールアウトの種類を変える。calloutType が null なら通常の引用に戻す。
+ * pos のノードが引用・コールアウトでなければ何もしない
+ */
+export const setCalloutType = (editor: Editor, pos: number, calloutType: CalloutType | null): boolean => {
+  const node = editor.state.doc.nodeAt(pos);
+  if (!node || (node.type.name !== 'callout' && node.type.name !== 'blockquote')) {
+    return false;
+  }
+  const { schema } = editor.state;
+  const indent = normalizeIndentAttr(node.attrs?.indent);
+  const tr = calloutType
+    ? editor.state.tr.setNodeMarkup(pos, schema.nodes.callout, { indent, calloutType })
+    : editor.state.tr.setNodeMarkup(pos, schema.nodes.blockquote, { indent });
+  editor.view.dispatch(tr);
+  editor.view.focus();
+  log.info('Callout type changed', { pos, from: node.attrs?.calloutType ?? node.type.name, to: calloutType ?? 'blockquote' });
+  return true;
+};
+
+export const Callout = Node.create({
+  name: 'callout',
+
+  group: 'block',
+
+  content: 'block+',
+
+  defining: true,
+
+  draggable: true,
+
+  addAttributes() {
+    return {
+      indent: indentAttribute,
+      calloutType: {
+        default: 'note',
+        parseHTML: (element: HTMLElement) => normalizeCalloutType(element.getAttribute('data-callout-type')),
+        renderHTML: (attributes: Record<string, unknown>) => ({
+          'data-callout-type': normalizeCalloutType(attributes.calloutType),
+        }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="callout"]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes(HTMLAttributes, { 'data-type': 'callout', class: 'callout-block' }),
+      ['div', { class: 'block-content' }, 0],
+    ];
+  },
+
+  addNodeView() {
+    return ({ node, getPos, editor }) => {
+      const dom = document.createElement('div');
+      dom.setAttribute('data-type', 'callout');
+      dom.className = 'callout-block';
+      const handleContainer = createNodeViewHandleContainer();
+      dom.appendChild(handleContainer);
+
+      const box = document.createElement('div');
+      box.className = 'callout';
+      dom.appendChild(box);
+
+      const title = document.createElement('div');
+      title.className = 'callout-title';
+      title.setAttribute('contenteditable', 'false');
+      const titleIcon = document.createElement('span');
+      const titleText = document.createElement('span');
+      title.append(titleIcon, titleText);
+      box.appendChild(title);
+
+      const contentDom = document.createElement('div');
+      contentDom.className = 'block-content';
+      box.appendChild(contentDom);
+
+      const sync = (updatedNode: typeof node) => {
+        const calloutType = normalizeCalloutType(updatedNode.attrs?.calloutType);
+        dom.setAttribute('data-callout-type', calloutType);
+        titleIcon.className = `callout-icon ${icons[CALLOUT_ICONS[calloutType]]}`;
+        titleText.textContent = t().callouts[calloutType];
+        const eligibility = resolveBlockHandleEligibility(editor.state, () => getPos() ?? Number.NaN, 'callout');
+        const shouldShowHandle = applyNodeViewHandleState(dom, handleContainer, eligibility, 'callout');
+        applyIndentAttributesToDom(dom, shouldShowHandle ? updatedNode.attrs?.indent : 0);
+      };
+
+      sync(node);
+
+      return {
+        dom,
+        contentDOM: contentDom,
+        update: (updatedNode) => {
+          if (updatedNode.type.name !== 'callout') {
+            return false;
+          }
+          sync(updatedNode);
+          return true;
+        },
+        stopEvent: (event) => event.target instanceof Element && title.contains(event.target),
+        ignoreMutation: (mutation) => mutation.type !== 'selection' && !contentDom.contains(mutation.target),
+      };
+    };
+  },
+
+  renderMarkdown: (node, h, context) => {
+    const calloutType = normalizeCalloutType(node.attrs?.calloutType);
+    const lines = [`> [!${calloutType.toUpperCase()}]`];
+    const children = node.content ?? [];
+    if (!isEmptyContent(children)) {
+      const blocks = children.map((child) =>
+        h
+          .renderChildren([child])
+          .split('\n')
+          .map((line) => (line.trim() === '' ? '>' : `> ${line}`))
+          .join('\n')
+      );
+      lines.push(blocks.join('\n>\n'));
+    }
+    const indent = normalizeIndentAttr(node.attrs?.indent);
+    const marker = isListItemType(context?.parentType) ? '' : renderIndentMarker(indent);
+    return `${marker}${lines.join('\n')}`;
+  },
+});
@@ -15,6 +15,7 @@ import { INDENT_LEVEL_MAX, INDENT_MAX_DEPTH_MESSAGE, normalizeIndentAttr } from
 import { DEBUG } from './debug.js';
 import { notifyHostWarn } from './hostNotifier.js';
 import { LIST_MAX_DEPTH } from './listIndentConfig.js';
+import { isListItemType } from './listTypes.js';
 import { createLogger } from '../logger.js';
 
 const log = createLogger('Commands');
@@ -35,6 +36,7 @@ export type CommandName =
   | 'toggleHeading6'
   | 'toggleBulletList'
   | 'toggleOrderedList'
+  | 'toggleTaskList'
   | 'toggleBlockquote'
   | 'toggleCodeBlock'
   | 'indentBlock'
@@ -53,7 +55,7 @@ export function executeCommand(editor: Editor, command: CommandName): boolean {
   const isSelectionInListItem = (): boolean => {
     const { $from } = editor.state.selection;
     for (let depth = $from.depth; depth >= 0; depth -= 1) {
-      if ($from.node(depth).type.name === 'listItem') {
+      if (isListItemType($from.node(depth).type.name)) {
         return true;
       }
     }
@@ -63,7 +65,7 @@ export function executeCommand(editor: Editor, command: CommandName): boolean {
   const findNearestListItemPos = (pos: number): number | null => {
     const $pos = editor.state.doc.resolve(pos);
     for (let depth = $pos.depth; depth >= 0; depth -= 1) {
-      if ($pos.node(depth).type.name === 'listItem') {
+      if (isListItemType($pos.node(depth).type.name)) {
         return $pos.before(depth);
       }
     }
@@ -74,7 +76,7 @@ export function executeCommand(editor: Editor, command: CommandName): boolean {
     const $pos = editor.state.doc.resolve(pos);
     let depth = 0;
     for (let d = $pos.depth; d >= 0; d -= 1) {
-      if ($pos.node(d).type.name === 'listItem') {
+      if (isListItemType($pos.node(d).type.name)) {
         depth += 1;
       }
     }
@@ -83,7 +85,7 @@ export function executeCommand(editor: Editor, command: CommandName): boolean {
 
   const resolveListItemPosFromSelection = (): number | null => {
     const selection = editor.state.selection;
-    if (selection instanceof NodeSelection && selection.node.type.name === 'listItem') {
+    if (selection instanceof NodeSelection && isListItemType(selection.node.type.name)) {
       return selection.from;
     }
     const byDepth = findNearestListItemPos(selection.from);
@@ -91,10 +93,10 @@ export function executeCommand(editor: Editor, command: CommandName): boolean {
       return byDepth;
     }
     const { $from } = selection;
-    if ($from.nodeBefore?.type.name === 'listItem') {
+    if ($from.nodeBefore && isListItemType($from.nodeBefore.type.name)) {
       return $from.pos - $from.nodeBefore.nodeSize;
     }
-    if ($from.nodeAfter?.type.name === 'listItem') {
+    if (isListItemType($from.nodeAfter?.type.name)) {
       return $from.pos;
     }
     return null;
@@ -131,7 +133,7 @@ export function executeCommand(editor: Editor, command: CommandName): boolean {
     if (!node?.isBlock) {return false;}
     const typeName = node.type?.name;
     if (!typeName) {return false;}
-    if (typeName === 'listItem') {
+    if (isListItemType(typeName)) {
       return false;
     }
     if (node.type?.spec && node.type.spec.tableRole) {
@@ -206,6 +208,7 @@ export function executeCommand(editor: Editor, command: CommandName): boolean {
     // Lists & Blocks
     toggleBulletList: () => editor.chain().focus().toggleBulletList().run(),
     toggleOrderedList: () => editor.chain().focus().toggleOrderedList().run(),
+    toggleTaskList: () => editor.chain().focus().toggleTaskList().run(),
     toggleBlockquote: () => editor.chain().focus().toggleBlockquote().run(),
     toggleCodeBlock: () => editor.chain().focus().toggleCodeBlock().run(),
     indentBlock: () => {
@@ -349,7 +352,8 @@ export function executeCommand(editor: Editor, command: CommandName): boolean {
         );
         return false;
       }
-      const listItem = editor.state.schema.nodes.listItem;
+      // taskItem も同じ（項目の型で sink / lift する）
+      const listItem = editor.state.doc.nodeAt(listItemPos)?.type;
       if (!listItem) {
         log.error('listItem node not found');
         return false;
@@ -389,7 +393,7 @@ export function executeCommand(editor: Editor, command: CommandName): boolean {
         log.error('List outdent failed: not in listItem');
         return false;
       }
-      const listItem = editor.state.schema.nodes.listItem;
+      const listItem = editor.state.doc.nodeAt(listItemPos)?.type;
       if (!listItem) {
         log.error('listItem node not found');
         return false;
@@ -458,6 +462,7 @@ export const DEFAULT_KEYBINDINGS: Array<{
   // Lists & Blocks
   { command: 'toggleBulletList', key: 'ctrl+shift+8', mac: 'cmd+shift+8', title: 'Toggle Bullet List', titleJa: '箇条書きの切り替え' },
   { command: 'toggleOrderedList', key: 'ctrl+shift+7', mac: 'cmd+shift+7', title: 'Toggle Ordered List', titleJa: '番号付きリストの切り替え' },
+  { command: 'toggleTaskList', key: 'ctrl+shift+9', mac: 'cmd+shift+9', title: 'Toggle Task List', titleJa: 'タスクリストの切り替え' },
   { command: 'toggleBlockquote', key: 'ctrl+shift+b', mac: 'cmd+shift+b', title: 'Toggle Blockquote', titleJa: '引用の切り替え' },
   { command: 'toggleCodeBlock', key: 'ctrl+alt+c', mac: 'cmd+alt+c', title: 'Toggle Code Block', titleJa: 'コードブロックの切り替え' },
   { command: 'setHorizontalRule', key: 'ctrl+alt+h', mac: 'cmd+alt+h', title: 'Insert Horizontal Rule', titleJa: '水平線の挿入' },
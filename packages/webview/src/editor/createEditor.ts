@@ -7,80 +7,88 @@
  * 
  * EditorInstance インターフェース (設計書 12.2):
  * - setContent(markdown): Markdown を Tiptap ドキュメントに変換してセット
- * - applyChanges(changes): Replace[] を適用（差分更新）
- * - getContent(): 現在のエディタ内容を Markdown として取得
+ * - applyChanges(changes): Replace[] を適用（Replace[] の範囲のトップレベルブロックだけ parse し直して置換する。rangePatch.ts。
+ *   範囲を決められない場合は全文を parse して変化したブロックを置換する）
+ * - applyMerged(markdown): 外部変更との 3-way マージの結果を反映し、shadowText との差分を edit として送る（threeWayMerge.ts）
+ * - getContent(): 現在のエディタ内容を Markdown として取得（未変更ブロックは元の source のまま）
  * - destroy(): エディタを破棄
  * 
- * 拡張機能一覧:
+ * 拡張機能一覧（スキーマと Markdown 変換の拡張は documentExtensions.ts。リッチ差分ビューと共通）:
  * - StarterKit: 基本的な Markdown 要素（見出し、リスト、コードブロック等）
  * - Link: リンク（openOnClick: false で直接開かない）
  * - Image: 画像（inline: true, allowBase64: true）
  * - RawBlock: :::raw 記法の保持
  * - FrontmatterBlock: frontmatter の保持
  * - HtmlToCodeBlock: HTML ブロックは不明ブロックとして表示
+ * - Footnote*: 脚注の参照・定義・脚注セクション。FootnoteNavigation はホバーとジャンプ、
+ *   FootnoteManager（編集時のみ）は番号の振り直しとセクションの整理（footnoteExtension.ts）
+ * - MathInline / MathBlock: 数式（KaTeX で表示）。MathSourceFocus（編集時のみ）はカーソルがある数式の source を出す（mathExtension.ts）
+ * - QuickDiff: git HEAD との差分を gutter バーで表示（表示専用）
+ * - PeerCursors: 他のパネルの選択と、その編集で変わったブロックを表示（表示専用）
+ *
+ * 読み取り専用 (readOnly。init の readOnly がある場合):
+ * - editable: false。ドラッグハンドル・ブロックメニュー（+ / スラッシュコマンド）・テーブル UI・BubbleMenu・Placeholder を組み込まない
+ * - ReadOnlyGuard が docChanged のトランザクションを docChanged の適用中（applyingRemote）以外は捨てる
+ *   （NodeView 内の操作・検索の置換・host からのエディタコマンドも document を変えない）
+ * - round-trip 検査は行わない（編集しないので書式が変わらない）
+ *
+ * 開いた直後の round-trip 検査 (roundTripFidelity.ts):
+ * - serialize で書式が変わるブロックを host に報告し、設定 fidelity.protectLossyBlocks なら plainTextBlock で保護する
  * 
  * onUpdate コールバック (設計書 10.1):
  * - applyingRemote 中は何もしない（ループ防止）
  * - scheduleEdit() で debounce 後に edit 送信
  * 
  * ChangeGuard (設計書 11):
- * - 大規模変更を検出して警告
- * - maxChangedRatio, maxChangedChars, maxHunks で閾値設定
- * - 超過時は onChangeGuardExceeded コールバック
+ * - 大規模変更の判定は host 側（edit 受信時）で行い、差分プレビューで適用/破棄を確認する
+ * - Webview は Replace[] をそのまま送る（ここでは止めない）
  * 
  * 差分計算 (設計書 12.3.5):
  * - shadowText と現在の Markdown を比較
- * - diff-match-patch で最小差分を計算
+ * - 現在の Markdown は sourcePreservingSerializer で組み立てる（触っていないブロックの書式を変えない）
+ * - diff-match-patch で最小差分を計算（大きな変更は diffWorkerClient 経由で Web Worker。scheduleEdit は Promise を待つ）
  * - G5-lite: 整形を最小限に抑える
+ *
+ * 改行コード (lineEndings.ts):
+ * - editor / snapshot / 差分計算は LF 正規化後のテキストで行う
+ * - 送信する Replace[] は shadowText（document の改行コードのまま）の offset と改行コード（init / docChanged の eol）に戻す
+ * - 文書末尾の改行は format.insertFinalNewline に従う（serialize 時に付ける）
  */
 
-import { Editor, Extension } from '@tiptap/core';
-import StarterKit from '@tiptap/starter-kit';
-import Link from '@tiptap/extension-link';
-import Image from '@tiptap/extension-image';
-import { Markdown } from '@tiptap/markdown';
+import { Editor, Extension, type AnyExtension } from '@tiptap/core';
 import type { Slice } from '@tiptap/pm/model';
 import { Plugin } from '@tiptap/pm/state';
-import { TableRow, TableCell, TableHeader } from '@tiptap/extension-table';
 import Placeholder from '@tiptap/extension-placeholder';
 import BubbleMenu from '@tiptap/extension-bubble-menu';
 import Dropcursor from '@tiptap/extension-dropcursor';
-import { RawBlock } from './rawBlockExtension.js';
-import { FrontmatterBlock } from './frontmatterBlockExtension.js';
-import { PlainTextBlock } from './plainTextBlockExtension.js';
-import { HtmlToCodeBlock } from './htmlToCodeBlockExtension.js';
-import { NestedPage } from './nestedPageExtension.js';
 import { TableControls } from './tableControlsExtension.js';
-import { TableBlock } from './tableBlockWrapperExtension.js';
 import { BlockHandles, createDragHandleElement, DRAG_HANDLE_ALLOWED_NODE_TYPES } from './blockHandlesExtension.js';
 import { InlineDragHandle } from './inlineDragHandleExtension.js';
 import { ListIndentShortcuts } from './listIndentShortcuts.js';
-import { IndentMarker } from './indentMarkerExtension.js';
 import { EnterSelectionFix } from './enterSelectionFixExtension.js';
 import { SearchHighlight } from './searchExtension.js';
 import { CurrentLineHighlight } from './currentLineHighlightExtension.js';
+import { QuickDiff } from './quickDiffExtension.js';
+import { PeerCursors } from './peerCursorsExtension.js';
+import { FootnoteManager, FootnoteNavigation } from './footnoteExtension.js';
+import { MathSourceFocus } from './mathExtension.js';
 import { serializeMarkdown } from './markdownUtils.js';
+import { applyMarkdownAsBlockPatch } from './blockPatch.js';
+import { applyReplacesAsRangePatch } from './rangePatch.js';
+import {
+  captureSourceSnapshot,
+  serializePreservingSource,
+  type SourceSnapshot,
+} from './sourcePreservingSerializer.js';
+import { analyzeRoundTrip, protectLossyBlocks } from './roundTripFidelity.js';
+import { normalizeLineEndings, toDocumentReplaces } from './lineEndings.js';
 import NodeRange from '@tiptap/extension-node-range';
-import { createLowlight, common } from 'lowlight';
 import { setHostNotifier } from './hostNotifier.js';
-import {
-  ParagraphNoShortcut,
-  BoldNoShortcut,
-  ItalicNoShortcut,
-  StrikeNoShortcut,
-  CodeNoShortcut,
-  UnderlineNoShortcut,
-  HeadingNoShortcut,
-  BulletListNoShortcut,
-  OrderedListNoShortcut,
-  ListItemNoShortcut,
-  BlockquoteNoShortcut,
-  CodeBlockNoShortcut,
-  HorizontalRuleNoShortcut,
-  HistoryNoShortcut,
-} from './disableKeyboardShortcuts.js';
+import { SharedHistory } from './sharedHistoryExtension.js';
+import { applyFinalNewlineRule } from './markdownFormat.js';
+import { createDocumentExtensions } from './documentExtensions.js';
 import { t } from './i18n.js';
-import { computeDiff, type DiffResult } from './diffEngine.js';
+import { computeChangesOffThread } from './diffWorkerClient.js';
 import type { SyncClient } from '../protocol/client.js';
 import type { Replace } from '../protocol/types.js';
 import { createLogger } from '../logger.js';
@@ -90,19 +98,22 @@ export interface EditorInstance {
   destroy: () => void;
   setContent: (markdown: string) => void;
   applyChanges: (changes: Replace[]) => void;
+  applyMerged: (markdown: string) => void;
   getContent: () => string;
 }
 
 export interface CreateEditorOptions {
   container: HTMLElement;
   syncClient: SyncClient;
-  onChangeGuardExceeded?: (metrics: DiffResult['metrics']) => void;
   initialContent: string;
+  /** 読み取り専用で表示する（init の readOnly がある場合） */
+  readOnly?: boolean;
 }
 
 export function createEditor(options: CreateEditorOptions): EditorInstance {
-  const { container, syncClient, onChangeGuardExceeded, initialContent } = options;
-  const lowlightInstance = createLowlight(common);
+  const { container, syncClient } = options;
+  const readOnly = options.readOnly === true;
+  const initialContent = normalizeLineEndings(options.initialContent);
   const CLIPBOARD_MODULE = 'Clipboard';
   const logClipboard = createLogger(CLIPBOARD_MODULE);
   const logEditor = createLogger('Editor');
@@ -170,25 +181,41 @@ export function createEditor(options: CreateEditorOptions): EditorInstance {
     },
   });
 
+  // 読み取り専用: docChanged の適用（host の正本の反映）以外で document を変えない
+  const ReadOnlyGuard = Extension.create({
+    name: 'readOnlyGuard',
+    priority: 1000,
+    addProseMirrorPlugins() {
+      return [
+        new Plugin({
+          filterTransaction: (transaction) => {
+            if (!transaction.docChanged || syncClient.isApplyingRemote()) {
+              return true;
+            }
+            logEditor.debug('Blocked transaction (read-only)', { stepCount: transaction.steps.length });
+            return false;
+          },
+        }),
+      ];
+    },
+  });
+
+  // 読み取り専用では編集 UI の拡張を組み込まない
+  const editingOnly = (...extensions: AnyExtension[]): AnyExtension[] => (readOnly ? [] : extensions);
+
   // UI要素の作成: BubbleMenu（選択時ツールバー）
   const bubbleMenuElement = createBubbleMenuElement();
-  container.appendChild(bubbleMenuElement);
+  if (!readOnly) {
+    container.appendChild(bubbleMenuElement);
+  }
   let bubbleMenuSuspended = false;
 
 
-  // Tiptap 3.x モダン化:
-  // - StarterKit に Link/Underline/ListKeymap が含まれるようになった
-  // - 重複を避けるため、StarterKit の link を無効化し、カスタム Link を使用
-  // - これにより openOnClick: false などのセキュリティ設定を確実に適用
-  // @tiptap/markdown 統合:
-  // - Markdown 拡張で GFM (GitHub Flavored Markdown) を有効化
-  // - FrontmatterBlock で frontmatter を保持
-  // - RawBlock で :::raw を保持
-  // - HtmlToCodeBlock で HTML ブロックを不明ブロックに変換
-  // - Table 拡張で GFM テーブルをサポート
-  // VSCodeキーバインドで全ショートカットを管理するため、
-  // StarterKitの拡張を無効化し、ショートカット無しバージョンを使用
+  // スキーマと Markdown 変換（ショートカット無しの StarterKit 拡張・Link・テーブル・frontmatter / RAW 等）は
+  // documentExtensions.ts。ここでは同期・編集 UI・表示専用のデコレーションの拡張を足す
   let editor: Editor | null = null;
+  // 直近に setContent / 外部変更で取り込んだ Markdown とトップレベルノードの対応（未変更ブロックの原文出力用）
+  let sourceSnapshot: SourceSnapshot | null = null;
 
   const serializeSelectionMarkdown = (slice: Slice): string => {
     const startedAt = Date.now();
@@ -277,133 +304,93 @@ export function createEditor(options: CreateEditorOptions): EditorInstance {
     element: container,
     content: initialContent,
     contentType: 'markdown',
+    editable: !readOnly,
     // VS Code Webview CSP での inline style 注入を回避
     injectCSS: false,
     extensions: [
-      StarterKit.configure({
-        // ショートカット無しバージョンを使用するため、デフォルトを無効化
-        bold: false,
-        italic: false,
-        strike: false,
-        code: false,
-        paragraph: false,
-        heading: false,
-        bulletList: false,
-        orderedList: false,
-        listItem: false,
-        blockquote: false,
-        codeBlock: false,
-        horizontalRule: false,
-        // Tiptap 3.x: history → undoRedo
-        undoRedo: false,
-        // Dropcursor は単体で configure する
-        dropcursor: false,
-        // Tiptap 3.x: StarterKit に Link/Underline が含まれるため無効化
-        link: false,
-        underline: false,
-        // appendTransaction(insert) 由来の invalid content 例外を避ける
-        trailingNode: false,
-      }),
-      // ショートカット無効化した拡張を追加
-      BoldNoShortcut,
-      ItalicNoShortcut,
-      StrikeNoShortcut,
-      CodeNoShortcut,
-      UnderlineNoShortcut,
-      ParagraphNoShortcut,
-      HeadingNoShortcut.configure({ levels: [1, 2, 3, 4, 5, 6] }),
-      BulletListNoShortcut,
-      OrderedListNoShortcut,
-      ListItemNoShortcut,
-      BlockquoteNoShortcut,
-      CodeBlockNoShortcut.configure({
-        lowlight: lowlightInstance,
-        defaultLanguage: 'plaintext',
-      }),
-      HorizontalRuleNoShortcut,
-      HistoryNoShortcut,
-      Dropcursor.configure({
-        color: 'var(--vscode-focusBorder)',
-        width: 2,
-        class: 'inline-markdown-dropcursor',
-      }),
-      Link.configure({
-        openOnClick: false,
-        HTMLAttributes: {
-          rel: 'noopener noreferrer',
-          target: '_blank',
+      // スキーマと Markdown の parse / serialize（リッチ差分ビューと共通。documentExtensions.ts）
+      ...createDocumentExtensions({
+        onOpenNestedPage: (path) => {
+          syncClient.openNestedPage(path);
         },
       }),
-      Image.configure({
-        inline: true,
-        allowBase64: true,
+      SharedHistory.configure({
+        onRequest: (direction) => syncClient.requestHistory(direction),
       }),
-      // GFM テーブルサポート（resizable: false はデフォルト値のため省略）
-      TableBlock,
-      TableRow,
-      TableCell,
-      TableHeader,
+      ...editingOnly(
+        Dropcursor.configure({
+          color: 'var(--vscode-focusBorder)',
+          width: 2,
+          class: 'inline-markdown-dropcursor',
+        })
+      ),
       // テーブルUI（Notion風 + ボタン、ハンドル、コンテキストメニュー）
-      TableControls,
+      ...editingOnly(TableControls),
       NodeRange,
       SearchHighlight,
       CurrentLineHighlight,
-      NestedPage.configure({
-        onOpen: (path) => {
-          syncClient.openNestedPage(path);
-        },
-      }),
-      InlineDragHandle.configure({
-        render: () => createDragHandleElement(),
-        allowedNodeTypes: DRAG_HANDLE_ALLOWED_NODE_TYPES,
-      }),
-      ListIndentShortcuts,
-      // ブロックメニュー（+ / コンテキスト / スラッシュコマンド）
-      BlockHandles.configure({
-        createNestedPage: async (title) => {
-          return syncClient.createNestedPage(title);
-        },
-        openNestedPage: (path) => {
-          syncClient.openNestedPage(path);
-        },
-      }),
+      // git HEAD との差分（gutter バー）
+      QuickDiff,
+      // 同じ document を開いている他のパネルの選択と編集（peerCursors）
+      PeerCursors,
+      // 脚注のホバー表示とジャンプ / 番号の振り直し
+      FootnoteNavigation,
+      ...editingOnly(
+        FootnoteManager.configure({
+          isApplyingRemote: () => syncClient.isApplyingRemote(),
+        })
+      ),
+      // カーソルがある数式は source を出す
+      ...editingOnly(MathSourceFocus),
+      ...editingOnly(
+        InlineDragHandle.configure({
+          render: () => createDragHandleElement(),
+          allowedNodeTypes: DRAG_HANDLE_ALLOWED_NODE_TYPES,
+        }),
+        ListIndentShortcuts,
+        // ブロックメニュー（+ / コンテキスト / スラッシュコマンド）
+        BlockHandles.configure({
+          createNestedPage: async (title) => {
+            return syncClient.createNestedPage(title);
+          },
+          openNestedPage: (path) => {
+            syncClient.openNestedPage(path);
+          },
+        })
+      ),
       EnterSelectionFix,
-      // カスタム拡張（indent コメント, frontmatter, RAW）
-      IndentMarker,
-      FrontmatterBlock,
-      RawBlock,
-      PlainTextBlock,
-      HtmlToCodeBlock,
-      // @tiptap/markdown で Markdown パース/シリアライズを統合
-      Markdown.configure({
-        markedOptions: { gfm: true },
-      }),
       // Notion/Slack風UI拡張（多言語対応）
-      Placeholder.configure({
-        placeholder: ({ node }) => {
-          const translations = t();
-          if (node.type.name === 'heading') {
-            return translations.placeholder.heading;
-          }
-          return translations.placeholder.paragraph;
-        },
-        emptyEditorClass: 'is-editor-empty',
-        emptyNodeClass: 'is-empty',
-      }),
-      BubbleMenu.configure({
-        element: bubbleMenuElement,
-        shouldShow: ({ editor, state }) => {
-          if (bubbleMenuSuspended) {
-            return false;
-          }
-          // テキスト選択がある場合のみ表示（コードブロック、テーブル内は除外）
-          const { selection } = state;
-          const isEmptySelection = selection.empty;
-          const isCodeBlock = editor.isActive('codeBlock');
-          const isTable = editor.isActive('table');
-          return !isEmptySelection && !isCodeBlock && !isTable;
-        },
-      }),
+      ...editingOnly(
+        Placeholder.configure({
+          placeholder: ({ node }) => {
+            const translations = t();
+            if (node.type.name === 'heading') {
+              return translations.placeholder.heading;
+            }
+            if (node.type.name === 'detailsSummary') {
+              return translations.placeholder.detailsSummary;
+            }
+            return translations.placeholder.paragraph;
+          },
+          emptyEditorClass: 'is-editor-empty',
+          emptyNodeClass: 'is-empty',
+        }),
+        BubbleMenu.configure({
+          element: bubbleMenuElement,
+          shouldShow: ({ editor, state }) => {
+            if (bubbleMenuSuspended) {
+              return false;
+            }
+            // テキスト選択がある場合のみ表示（コードブロック、テーブル内は除外）
+            const { selection } = state;
+            const isEmptySelection = selection.empty;
+            const isCodeBlock = editor.isActive('codeBlock');
+            const isTable = editor.isActive('table');
+            return !isEmptySelection && !isCodeBlock && !isTable;
+          },
+        })
+      ),
+      ...(readOnly ? [ReadOnlyGuard] : []),
       InvalidTransactionGuard,
       // Note: FloatingMenu removed - block type selection is handled by BlockHandles + button
     ],
@@ -430,11 +417,58 @@ export function createEditor(options: CreateEditorOptions): EditorInstance {
       }
 
       syncClient.scheduleEdit(() => {
-        return computeChanges(updatedEditor, syncClient, onChangeGuardExceeded);
+        return computeChanges(serializeDocument(updatedEditor), syncClient);
       });
     },
   });
 
+  // 未変更ブロックは元の source のまま、文書末尾の改行は format に従う（LF 正規化後のテキスト）
+  const serializeDocument = (target: Editor): string => {
+    return applyFinalNewlineRule(serializePreservingSource(target, sourceSnapshot));
+  };
+
+  const captureSource = (markdown: string, reason: string): void => {
+    if (!editor) {return;}
+    sourceSnapshot = captureSourceSnapshot(editor, markdown);
+    logEditor.debug('Source snapshot captured', {
+      reason,
+      blockCount: sourceSnapshot?.blocks.length ?? null,
+    });
+  };
+  captureSource(initialContent, 'init');
+
+  // 開いた直後の round-trip で書式が変わるブロックを host に報告する（設定により plainTextBlock で保護）
+  const checkRoundTripFidelity = (markdown: string): void => {
+    if (!editor) {return;}
+    const startedAt = Date.now();
+    const report = analyzeRoundTrip(editor, markdown);
+    if (!report) {
+      logEditor.debug('Round-trip check skipped: source layout unavailable');
+      return;
+    }
+    logEditor.info('Round-trip check completed', {
+      lossyBlocks: report.lossy.length,
+      unassignedChanges: report.unassignedChanges,
+      durationMs: Date.now() - startedAt,
+    });
+    if (report.lossy.length === 0) {
+      return;
+    }
+    const protectedCount = syncClient.getConfig()?.fidelity.protectLossyBlocks
+      ? protectLossyBlocks(editor, report)
+      : 0;
+    if (protectedCount > 0) {
+      captureSource(markdown, 'fidelityProtect');
+    }
+    syncClient.reportFidelity(
+      report.lossy.map((entry) => entry.block),
+      protectedCount > 0
+    );
+  };
+  if (!readOnly) {
+    checkRoundTripFidelity(initialContent);
+  }
+
   setHostNotifier((level, code, message, remediation, details) => {
     syncClient.notifyHost(level, code, message, remediation, details);
   });
@@ -525,16 +559,69 @@ export function createEditor(options: CreateEditorOptions): EditorInstance {
   window.addEventListener('blur', onModifierBlur);
 
   function setContent(markdown: string): void {
-    editor.commands.setContent(markdown, { contentType: 'markdown' });
+    const normalized = normalizeLineEndings(markdown);
+    editor.commands.setContent(normalized, { contentType: 'markdown' });
+    captureSource(normalized, 'setContent');
   }
 
   function applyChanges(changes: Replace[]): void {
     // NOTE:
     // The authoritative Markdown (`shadowText`) is updated in SyncClient.handleDocChanged().
-    // For non-self docChanged we rebuild the editor from that updated shadowText.
+    // For non-self docChanged we re-parse only the top-level blocks the changes touch (located
+    // through the source snapshot), so untouched blocks keep their node identity (NodeView state,
+    // preview toggles) and the selection is remapped instead of reset. When the touched range
+    // cannot be located, the whole shadowText is parsed and diffed block by block instead.
     // (Self docChanged does NOT reach here; see SyncClient: reason=self short-circuit.)
-    if (changes.length === 0) {return;}
-    setContent(syncClient.getShadowText());
+    if (changes.length === 0 || !editor) {return;}
+    const startedAt = Date.now();
+    const ranged = applyReplacesAsRangePatch(editor, sourceSnapshot, changes, syncClient.getShadowText());
+    const shadowText = normalizeLineEndings(syncClient.getShadowText());
+    if (ranged.applied) {
+      if (ranged.snapshot) {
+        sourceSnapshot = ranged.snapshot;
+      } else {
+        captureSource(shadowText, 'rangePatch');
+      }
+      logEditor.debug('Range patch applied', {
+        changesCount: changes.length,
+        ...ranged.result,
+        parsedBlocks: ranged.parsedBlocks,
+        parsedLength: ranged.parsedLength,
+        durationMs: Date.now() - startedAt,
+      });
+      return;
+    }
+    logEditor.debug('Range patch skipped; diffing the whole document', { reason: ranged.reason });
+    const result = applyMarkdownAsBlockPatch(editor, shadowText, {
+      changesCount: changes.length,
+    });
+    if (!result) {
+      logEditor.warn('Block patch failed; falling back to full setContent', {
+        changesCount: changes.length,
+      });
+      setContent(shadowText);
+      return;
+    }
+    captureSource(shadowText, 'blockPatch');
+    logEditor.debug('Block patch applied', {
+      changesCount: changes.length,
+      ...result,
+      durationMs: Date.now() - startedAt,
+    });
+  }
+
+  function applyMerged(markdown: string): void {
+    // 外部変更と違い、マージ結果は未送信の編集として扱う（shadowText は外部変更後のまま、差分を edit で送る）
+    if (!editor) {return;}
+    const normalized = normalizeLineEndings(markdown);
+    const result = applyMarkdownAsBlockPatch(editor, normalized, { mode: 'merge' });
+    if (result) {
+      captureSource(normalized, 'merge');
+    } else {
+      logEditor.warn('Block patch failed for merge result; falling back to full setContent');
+      setContent(normalized);
+    }
+    syncClient.scheduleEdit(() => computeChanges(serializeDocument(editor), syncClient));
   }
 
   function destroy(): void {
@@ -548,7 +635,8 @@ export function createEditor(options: CreateEditorOptions): EditorInstance {
   }
 
   function getContent(): string {
-    return editor.getMarkdown();
+    if (!editor) {return '';}
+    return serializeDocument(editor);
   }
 
   return {
@@ -556,34 +644,38 @@ export function createEditor(options: CreateEditorOptions): EditorInstance {
     destroy,
     setContent,
     applyChanges,
+    applyMerged,
     getContent,
   };
 }
 
-function computeChanges(
-  editor: Editor,
-  syncClient: SyncClient,
-  _onChangeGuardExceeded?: (metrics: DiffResult['metrics']) => void
-): Replace[] {
-  const shadowText = syncClient.getShadowText();
-  const nextMarkdown = editor.getMarkdown();
+let normalizedShadowCache: { source: string; normalized: string } | null = null;
 
-  if (shadowText === nextMarkdown) {
-    return [];
+const getNormalizedShadow = (shadowText: string): string => {
+  if (normalizedShadowCache?.source !== shadowText) {
+    normalizedShadowCache = { source: shadowText, normalized: normalizeLineEndings(shadowText) };
   }
+  return normalizedShadowCache.normalized;
+};
 
-  const diffResult = computeDiff(shadowText, nextMarkdown);
+/**
+ * LF 正規化後の nextMarkdown と shadowText の差分を、shadowText の offset と document の改行コードで返す
+ * （大きな変更の diff は Web Worker で計算するため Promise になる）
+ */
+function computeChanges(nextMarkdown: string, syncClient: SyncClient): Replace[] | Promise<Replace[]> {
+  const shadowText = syncClient.getShadowText();
+  const normalizedShadow = getNormalizedShadow(shadowText);
+  const eol = syncClient.getEol();
 
-  // ChangeGuard: 大規模編集の警告ロジック（一時的にコメントアウト）
-  // const config = syncClient.getConfig();
-  // if (config && isChangeGuardExceeded(diffResult.metrics, config.changeGuard)) {
-  //   if (onChangeGuardExceeded) {
-  //     onChangeGuardExceeded(diffResult.metrics);
-  //   }
-  //   return [];
-  // }
+  if (normalizedShadow === nextMarkdown) {
+    return [];
+  }
 
-  return diffResult.changes;
+  const changes = computeChangesOffThread(normalizedShadow, nextMarkdown);
+  if (changes instanceof Promise) {
+    return changes.then((resolved) => toDocumentReplaces(shadowText, resolved, eol));
+  }
+  return toDocumentReplaces(shadowText, changes, eol);
 }
 
 /**
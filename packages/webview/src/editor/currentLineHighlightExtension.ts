@@ -2,9 +2,11 @@
  * Current line highlight extension
  * - Adds a decoration to the current textblock (cursor line)
  * - Matches VS Code line highlight color as closely as possible
+ * - flashCurrentLine(): host navigation 適用時に対象 textblock を一時的に強調する
  */
 
-import { Extension } from '@tiptap/core';
+import { Extension, type Editor } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
 import { Plugin, PluginKey, type EditorState } from '@tiptap/pm/state';
 import { Decoration, DecorationSet } from '@tiptap/pm/view';
 import { createLogger } from '../logger.js';
@@ -29,6 +31,36 @@ const log = (level: 'DEBUG' | 'INFO' | 'WARNING' | 'ERROR', message: string, det
   }
 };
 
+const currentLineHighlightKey = new PluginKey('currentLineHighlight');
+
+/** flash 対象の textblock 数上限（巨大 range の選択で decoration が膨らまないように） */
+const MAX_FLASH_BLOCKS = 50;
+
+type FlashMeta = { from: number; to: number } | null;
+
+type HighlightState = {
+  deco: DecorationSet;
+  pos: number | null;
+  flash: Array<{ pos: number; size: number }>;
+};
+
+const resolveFlashTargets = (doc: ProseMirrorNode, from: number, to: number): Array<{ pos: number; size: number }> => {
+  const targets: Array<{ pos: number; size: number }> = [];
+  const start = Math.max(0, Math.min(from, doc.content.size));
+  const end = Math.max(start, Math.min(to, doc.content.size));
+  doc.nodesBetween(start, Math.max(end, start + 1), (node, pos) => {
+    if (targets.length >= MAX_FLASH_BLOCKS) {
+      return false;
+    }
+    if (node.isTextblock || (node.isBlock && node.isLeaf) || (node.isBlock && node.isAtom)) {
+      targets.push({ pos, size: node.nodeSize });
+      return false;
+    }
+    return true;
+  });
+  return targets;
+};
+
 const resolveHighlightTarget = (state: EditorState): { pos: number; size: number } | null => {
   const selection = state.selection;
   if (!selection.empty) {
@@ -50,13 +82,45 @@ const resolveHighlightTarget = (state: EditorState): { pos: number; size: number
   return null;
 };
 
-const buildDecorations = (state: EditorState): { deco: DecorationSet; pos: number | null } => {
+const buildDecorations = (
+  state: EditorState,
+  flash: Array<{ pos: number; size: number }>
+): HighlightState => {
   const target = resolveHighlightTarget(state);
-  if (!target) {
-    return { deco: DecorationSet.empty, pos: null };
+  const decorations: Decoration[] = [];
+  if (target) {
+    decorations.push(Decoration.node(target.pos, target.pos + target.size, { class: 'is-current-line' }));
+  }
+  for (const item of flash) {
+    decorations.push(
+      Decoration.node(item.pos, item.pos + item.size, { class: 'is-current-line is-navigation-flash' })
+    );
   }
-  const decoration = Decoration.node(target.pos, target.pos + target.size, { class: 'is-current-line' });
-  return { deco: DecorationSet.create(state.doc, [decoration]), pos: target.pos };
+  if (decorations.length === 0) {
+    return { deco: DecorationSet.empty, pos: null, flash };
+  }
+  return { deco: DecorationSet.create(state.doc, decorations), pos: target?.pos ?? null, flash };
+};
+
+/**
+ * from..to に含まれる textblock を durationMs の間だけ強調する。
+ * 現在行ハイライトと同じ配色 (is-current-line) に is-navigation-flash を重ねる。
+ */
+let flashSequence = 0;
+
+export const flashCurrentLine = (editor: Editor, from: number, to: number, durationMs = 1200): void => {
+  flashSequence += 1;
+  const sequence = flashSequence;
+  const meta: FlashMeta = { from, to };
+  editor.view.dispatch(editor.state.tr.setMeta(currentLineHighlightKey, meta).setMeta('addToHistory', false));
+  window.setTimeout(() => {
+    // 後続の flash が始まっている場合はそちらに任せる
+    if (editor.isDestroyed || sequence !== flashSequence) {
+      return;
+    }
+    const clear: FlashMeta = null;
+    editor.view.dispatch(editor.state.tr.setMeta(currentLineHighlightKey, clear).setMeta('addToHistory', false));
+  }, durationMs);
 };
 
 export const CurrentLineHighlight = Extension.create({
@@ -66,19 +130,37 @@ export const CurrentLineHighlight = Extension.create({
     let lastPos: number | null = null;
     return [
       new Plugin({
-        key: new PluginKey('currentLineHighlight'),
+        key: currentLineHighlightKey,
         state: {
           init(_config, state) {
-            const result = buildDecorations(state);
+            const result = buildDecorations(state, []);
             lastPos = result.pos;
             log('INFO', 'Current line highlight initialized', { pos: result.pos });
             return result;
           },
-          apply(tr, prev: { deco: DecorationSet; pos: number | null }, _oldState, newState) {
-            if (!tr.selectionSet && !tr.docChanged) {
+          apply(tr, prev: HighlightState, _oldState, newState) {
+            const flashMeta = tr.getMeta(currentLineHighlightKey) as FlashMeta | undefined;
+            if (!tr.selectionSet && !tr.docChanged && flashMeta === undefined) {
               return prev;
             }
-            const next = buildDecorations(newState);
+            let flash = prev.flash;
+            if (flashMeta !== undefined) {
+              flash = flashMeta ? resolveFlashTargets(newState.doc, flashMeta.from, flashMeta.to) : [];
+              log('DEBUG', 'Navigation flash updated', {
+                from: flashMeta?.from ?? null,
+                to: flashMeta?.to ?? null,
+                blocks: flash.length,
+              });
+            } else if (tr.docChanged && flash.length > 0) {
+              flash = flash
+                .map((item) => {
+                  const pos = tr.mapping.map(item.pos, 1);
+                  const node = newState.doc.nodeAt(pos);
+                  return node ? { pos, size: node.nodeSize } : null;
+                })
+                .filter((item): item is { pos: number; size: number } => item !== null);
+            }
+            const next = buildDecorations(newState, flash);
             if (next.pos !== lastPos) {
               log('DEBUG', 'Current line highlight updated', { from: lastPos, to: next.pos });
               lastPos = next.pos;
@@ -88,7 +170,7 @@ export const CurrentLineHighlight = Extension.create({
         },
         props: {
           decorations(state) {
-            const pluginState = this.getState(state) as { deco: DecorationSet } | undefined;
+            const pluginState = this.getState(state) as HighlightState | undefined;
             return pluginState?.deco ?? DecorationSet.empty;
           },
         },
@@ -0,0 +1,417 @@
+/**
+ * 役割: `<details>` / `<summary>` のトグルブロック
+ * 責務: details（トグル）・detailsSummary（見出しの行）・detailsContent（本文）のスキーマと Markdown の往復、
+ *       開閉の三角（DetailsToggle の plugin state）と、見出しでの Enter
+ * 不変条件:
+ * - 見出しは inline の Markdown、本文はブロックの Markdown として編集する（HTML としては持たない）
+ * - 開閉は表示だけの状態で、文書は変えない（`open` 属性は source の `<details open>` を保つだけ）。
+ *   初期状態は `open` 属性に従い、折りたたまれた本文にカーソルが入ったら開く
+ * - tokenizer は `<details>` の直後に `<summary>…</summary>` の 1 行があり、対応する `</details>` が行として閉じるものだけを読む。
+ *   それ以外（summary が無い・属性が付いている等）は従来どおり HTML の rawBlock になる
+ *
+ * serialize は `<details><summary>…</summary>` + 空行 + 本文 + 空行 + `</details>`。
+ * `<details>` と `<summary>` を別の行に書いた source は inlineSummary: false でその書き方を保つ
+ */
+
+import { Node, mergeAttributes } from '@tiptap/core';
+import type { Editor, JSONContent, MarkdownLexerConfiguration, MarkdownToken } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey, Selection, TextSelection } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { applyIndentAttributesToDom, indentAttribute, normalizeIndentAttr, renderIndentMarker } from './indentConfig.js';
+import { applyNodeViewHandleState, createNodeViewHandleContainer, resolveBlockHandleEligibility } from './blockHandlesExtension.js';
+import { isListItemType } from './listTypes.js';
+import { fillInlineTokens } from './markdownUtils.js';
+import { icons } from './icons.js';
+import { t } from './i18n.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Details');
+
+const DETAILS_OPEN_RE = /^ {0,3}<details(\s+open(?:=(?:"open"|'open'|""|''|open))?)?\s*>[ \t]*(\n[ \t]*)?<summary>([^\n]*?)<\/summary>[ \t]*(?:\n|$)/i;
+const DETAILS_NESTED_OPEN_RE = /^ {0,3}<details[\s>]/i;
+const DETAILS_CLOSE_RE = /^ {0,3}<\/details>[ \t]*$/i;
+const DETAILS_LINE_START_RE = /^ {0,3}<details[\s>]/gim;
+
+export const detailsToggleKey = new PluginKey<DecorationSet>('detailsToggle');
+
+type DetailsToggleMeta = { pos: number; expanded: boolean };
+
+type DetailsToken = MarkdownToken & {
+  open: boolean;
+  inlineSummary: boolean;
+  summaryTokens: MarkdownToken[];
+  bodyTokens: MarkdownToken[];
+};
+
+/**
+ * src の先頭の `<details>` を、対応する `</details>` の行まで切り出す（入れ子の `<details>` を数える）
+ */
+const matchDetails = (
+  src: string
+): { raw: string; open: boolean; inlineSummary: boolean; summary: string; body: string } | null => {
+  const head = DETAILS_OPEN_RE.exec(src);
+  if (!head) {
+    return null;
+  }
+  const rest = src.slice(head[0].length);
+  const lines = rest.split('\n');
+  let depth = 1;
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+    if (DETAILS_NESTED_OPEN_RE.test(line)) {
+      depth += 1;
+    } else if (DETAILS_CLOSE_RE.test(line)) {
+      depth -= 1;
+      if (depth === 0) {
+        const consumed = lines.slice(0, index + 1).join('\n');
+        const hasNewline = index < lines.length - 1;
+        return {
+          raw: `${head[0]}${consumed}${hasNewline ? '\n' : ''}`,
+          open: Boolean(head[1]),
+          inlineSummary: !head[2],
+          summary: head[3],
+          body: lines.slice(0, index).join('\n').replace(/^\s*\n/, '').replace(/\n\s*$/, ''),
+        };
+      }
+    }
+  }
+  return null;
+};
+
+const readExpanded = (decorations: readonly Decoration[]): boolean => {
+  const found = decorations.find((decoration) => typeof decoration.spec?.detailsExpanded === 'boolean');
+  // DetailsToggle の無いエディタ（plugin を外した場合）では開いて表示する
+  return found ? Boolean(found.spec.detailsExpanded) : true;
+};
+
+const findOverride = (overrides: DecorationSet, pos: number, node: ProseMirrorNode): Decoration | undefined =>
+  overrides
+    .find(pos, pos + node.nodeSize, (spec) => typeof spec.detailsExpanded === 'boolean')
+    .find((decoration) => decoration.from === pos);
+
+const isExpanded = (overrides: DecorationSet, pos: number, node: ProseMirrorNode): boolean => {
+  const override = findOverride(overrides, pos, node);
+  return override ? Boolean(override.spec.detailsExpanded) : Boolean(node.attrs.open);
+};
+
+/**
+ * pos のトグルを開く / 閉じる（表示だけ。文書は変えない）
+ */
+export const setDetailsExpanded = (editor: Editor, pos: number, expanded: boolean): void => {
+  const meta: DetailsToggleMeta = { pos, expanded };
+  editor.view.dispatch(editor.state.tr.setMeta(detailsToggleKey, meta));
+};
+
+/**
+ * selection の段落を、その内容を見出しにしたトグルに置き換える（スラッシュコマンド）。
+ * 段落以外では、そのブロックの後ろに空のトグルを入れる
+ */
+export const insertDetailsAtSelection = (editor: Editor, indent: number): void => {
+  const { state } = editor;
+  const { $from } = state.selection;
+  const { schema } = state;
+  const textblock = $from.parent;
+  const replace = textblock.type.name === 'paragraph' && $from.depth > 0;
+  const from = replace ? $from.before() : $from.after();
+  const to = replace ? $from.after() : from;
+  const details = schema.nodes.details.create({ indent }, [
+    schema.nodes.detailsSummary.create(null, replace ? textblock.content : undefined),
+    schema.nodes.detailsContent.create(null, schema.nodes.paragraph.create()),
+  ]);
+  const tr = state.tr.replaceWith(from, to, details);
+  const summaryEnd = from + 2 + (replace ? textblock.content.size : 0);
+  tr.setSelection(TextSelection.create(tr.doc, summaryEnd));
+  editor.view.dispatch(tr.scrollIntoView());
+  editor.view.focus();
+};
+
+export const DetailsSummary = Node.create({
+  name: 'detailsSummary',
+
+  content: 'inline*',
+
+  defining: true,
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="details-summary"]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-type': 'details-summary', class: 'details-summary' }), 0];
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      // 見出しの Enter は本文の先頭へ移る（見出しは 1 行）
+      Enter: () => {
+        const { state } = this.editor;
+        const { $from, empty } = state.selection;
+        if (!empty || $from.parent.type.name !== 'detailsSummary') {
+          return false;
+        }
+        const detailsDepth = $from.depth - 1;
+        const detailsPos = $from.before(detailsDepth);
+        const contentPos = $from.after();
+        const selection = Selection.findFrom(state.doc.resolve(contentPos + 1), 1, true);
+        if (!selection) {
+          return false;
+        }
+        const meta: DetailsToggleMeta = { pos: detailsPos, expanded: true };
+        this.editor.view.dispatch(state.tr.setSelection(selection).setMeta(detailsToggleKey, meta).scrollIntoView());
+        return true;
+      },
+    };
+  },
+});
+
+export const DetailsContent = Node.create({
+  name: 'detailsContent',
+
+  content: 'block+',
+
+  defining: true,
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="details-content"]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-type': 'details-content', class: 'details-content' }), 0];
+  },
+});
+
+export const Details = Node.create({
+  name: 'details',
+
+  group: 'block',
+
+  content: 'detailsSummary detailsContent',
+
+  defining: true,
+
+  isolating: true,
+
+  draggable: true,
+
+  addAttributes() {
+    return {
+      indent: indentAttribute,
+      open: {
+        default: false,
+        parseHTML: (element: HTMLElement) => element.getAttribute('data-open') === 'true',
+        renderHTML: (attributes: Record<string, unknown>) => ({ 'data-open': attributes.open ? 'true' : 'false' }),
+      },
+      inlineSummary: {
+        default: true,
+        rendered: false,
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="details"]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-type': 'details', class: 'details-block' }), 0];
+  },
+
+  addNodeView() {
+    return ({ node, getPos, editor, decorations }) => {
+      const dom = document.createElement('div');
+      dom.setAttribute('data-type', 'details');
+      dom.className = 'details-block';
+      const handleContainer = createNodeViewHandleContainer();
+      dom.appendChild(handleContainer);
+
+      const box = document.createElement('div');
+      box.className = 'details';
+      dom.appendChild(box);
+
+      const toggle = document.createElement('button');
+      toggle.type = 'button';
+      toggle.className = 'details-toggle';
+      toggle.setAttribute('contenteditable', 'false');
+      toggle.tabIndex = -1;
+      const toggleIcon = document.createElement('span');
+      toggleIcon.className = icons.chevronRight;
+      toggle.appendChild(toggleIcon);
+      box.appendChild(toggle);
+
+      const contentDom = document.createElement('div');
+      contentDom.className = 'details-body';
+      box.appendChild(contentDom);
+
+      const resolvePos = (): number | undefined => (typeof getPos === 'function' ? getPos() : undefined);
+      let expanded = readExpanded(decorations);
+
+      const applyExpanded = (next: boolean) => {
+        expanded = next;
+        dom.classList.toggle('is-open', next);
+        toggle.setAttribute('aria-expanded', String(next));
+        toggle.title = next ? t().details.collapse : t().details.expand;
+      };
+
+      const syncHandleState = (updatedNode: typeof node) => {
+        const eligibility = resolveBlockHandleEligibility(editor.state, () => resolvePos() ?? Number.NaN, 'details');
+        const shouldShowHandle = applyNodeViewHandleState(dom, handleContainer, eligibility, 'details');
+        applyIndentAttributesToDom(dom, shouldShowHandle ? updatedNode.attrs?.indent : 0);
+      };
+
+      const onToggleMouseDown = (event: MouseEvent) => {
+        event.preventDefault();
+        event.stopPropagation();
+        const pos = resolvePos();
+        if (typeof pos !== 'number') {
+          return;
+        }
+        setDetailsExpanded(editor, pos, !expanded);
+        log.debug('Details toggled', { pos, expanded: !expanded });
+      };
+      toggle.addEventListener('mousedown', onToggleMouseDown);
+
+      applyExpanded(expanded);
+      syncHandleState(node);
+
+      return {
+        dom,
+        contentDOM: contentDom,
+        update: (updatedNode, updatedDecorations) => {
+          if (updatedNode.type.name !== 'details') {
+            return false;
+          }
+          applyExpanded(readExpanded(updatedDecorations));
+          syncHandleState(updatedNode);
+          return true;
+        },
+        stopEvent: (event) => event.target instanceof Element && toggle.contains(event.target),
+        ignoreMutation: (mutation) => mutation.type !== 'selection' && !contentDom.contains(mutation.target),
+        destroy: () => {
+          toggle.removeEventListener('mousedown', onToggleMouseDown);
+        },
+      };
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<DecorationSet>({
+        key: detailsToggleKey,
+        state: {
+          // 開閉を `open` 属性から変えたトグルだけを node decoration（spec.detailsExpanded）で持つ
+          init: () => DecorationSet.empty,
+          apply: (tr, value, _oldState, newState) => {
+            let overrides = value.map(tr.mapping, tr.doc);
+            const setExpanded = (pos: number, node: ProseMirrorNode, expanded: boolean) => {
+              const existing = findOverride(overrides, pos, node);
+              if (existing) {
+                overrides = overrides.remove([existing]);
+              }
+              if (expanded !== Boolean(node.attrs.open)) {
+                overrides = overrides.add(tr.doc, [Decoration.node(pos, pos + node.nodeSize, {}, { detailsExpanded: expanded })]);
+              }
+            };
+
+            const meta = tr.getMeta(detailsToggleKey) as DetailsToggleMeta | undefined;
+            if (meta) {
+              const node = tr.doc.nodeAt(meta.pos);
+              if (node?.type.name === 'details') {
+                setExpanded(meta.pos, node, meta.expanded);
+              }
+            }
+
+            // 折りたたまれた本文にカーソルが入ったら開く（検索・矢印キーでの移動）
+            if (tr.selectionSet || tr.docChanged) {
+              const { $head } = newState.selection;
+              for (let depth = $head.depth; depth > 1; depth -= 1) {
+                if ($head.node(depth).type.name !== 'detailsContent') {
+                  continue;
+                }
+                const pos = $head.before(depth - 1);
+                const details = $head.node(depth - 1);
+                if (!isExpanded(overrides, pos, details)) {
+                  setExpanded(pos, details, true);
+                }
+              }
+            }
+            return overrides;
+          },
+        },
+        props: {
+          decorations: (state) => {
+            const overrides = detailsToggleKey.getState(state) ?? DecorationSet.empty;
+            const decorations: Decoration[] = [];
+            state.doc.descendants((node, pos) => {
+              if (node.type.name === 'details') {
+                decorations.push(
+                  Decoration.node(pos, pos + node.nodeSize, {}, { detailsExpanded: isExpanded(overrides, pos, node) })
+                );
+              }
+              return !node.isTextblock;
+            });
+            return DecorationSet.create(state.doc, decorations);
+          },
+        },
+      }),
+    ];
+  },
+
+  markdownTokenizer: {
+    name: 'details',
+    level: 'block' as const,
+    start: (src: string) => {
+      // tokenize できる位置だけを返す（返した位置で段落が切れるため）
+      DETAILS_LINE_START_RE.lastIndex = 0;
+      for (let match = DETAILS_LINE_START_RE.exec(src); match; match = DETAILS_LINE_START_RE.exec(src)) {
+        if (matchDetails(src.slice(match.index))) {
+          return match.index;
+        }
+      }
+      return -1;
+    },
+    tokenize: (src: string, _tokens: MarkdownToken[], lexer: MarkdownLexerConfiguration) => {
+      const matched = matchDetails(src);
+      if (!matched) {
+        return undefined;
+      }
+      const bodyTokens = matched.body.trim() ? lexer.blockTokens(matched.body) : [];
+      fillInlineTokens(bodyTokens, lexer);
+      const token: DetailsToken = {
+        type: 'details',
+        raw: matched.raw,
+        open: matched.open,
+        inlineSummary: matched.inlineSummary,
+        summaryTokens: lexer.inlineTokens(matched.summary),
+        bodyTokens,
+      };
+      return token;
+    },
+  },
+
+  parseMarkdown: (token, helpers) => {
+    const detailsToken = token as DetailsToken;
+    const summary = helpers.parseInline(detailsToken.summaryTokens ?? []);
+    const body = helpers.parseChildren(detailsToken.bodyTokens ?? []);
+    return helpers.createNode('details', { open: Boolean(detailsToken.open), inlineSummary: detailsToken.inlineSummary !== false }, [
+      helpers.createNode('detailsSummary', {}, summary),
+      helpers.createNode('detailsContent', {}, body.length > 0 ? body : [helpers.createNode('paragraph', {}, [])]),
+    ]);
+  },
+
+  renderMarkdown: (node, h, context) => {
+    const [summaryNode, contentNode] = node.content ?? [];
+    // 見出しは 1 行に書く（改行を含むと tokenizer が読めない）
+    const summary = summaryNode?.content ? h.renderChildren(summaryNode.content).replace(/[ \t]*\n[ \t]*/g, ' ') : '';
+    const blocks = (contentNode?.content ?? [])
+      .map((child: JSONContent) => h.renderChildren([child]))
+      .filter((block: string) => block.trim() !== '');
+    const open = node.attrs?.open ? ' open' : '';
+    const separator = node.attrs?.inlineSummary === false ? '\n' : '';
+    const head = `<details${open}>${separator}<summary>${summary}</summary>`;
+    const body = blocks.length > 0 ? `\n\n${blocks.join('\n\n')}` : '';
+    const indent = normalizeIndentAttr(node.attrs?.indent);
+    const marker = isListItemType(context?.parentType) ? '' : renderIndentMarker(indent);
+    return `${marker}${head}${body}\n\n</details>`;
+  },
+});
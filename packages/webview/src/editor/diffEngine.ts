@@ -9,6 +9,11 @@
  * - diff-match-patch ライブラリを使用
  * - diff_cleanupSemantic で人間が読みやすい差分に整理
  * - 最小限の変更で元の書式を保持
+ * - 先頭・末尾の共通部分を先に除き、変更を含む範囲（DiffWindow）だけを diff する
+ *   （diff の計算量が文書サイズではなく変更の大きさに比例する）
+ * - DiffWindow の切り出しと Replace[] への変換は packages/extension/src/util/diffWindow.ts（依存の無い純粋な関数。host のテストで確かめる）
+ * - timeoutMs は diff_main の時間予算。超過すると最小ではないが正しい差分を返す
+ *   （呼び出しごとに DiffMatchPatch を作る。UI スレッドと Worker で予算が違っても互いに上書きしない）
  * 
  * Replace[] の例:
  * shadowText: "Hello World"
@@ -24,13 +29,14 @@
  * - maxChangedRatio: 最大変更率 (default: 0.5)
  * - maxChangedChars: 最大変更文字数 (default: 10000)
  * - maxHunks: 最大変更箇所数 (default: 100)
- * - 超過時は警告を表示して編集をブロック
+ * - 超過時は host が編集を保留し、差分プレビューで適用/破棄を確認する（判定は host 側と同じ基準）
  */
 
 import DiffMatchPatch from 'diff-match-patch';
 import type { Replace } from '../protocol/types.js';
+import { diffsToReplaces, getDiffWindow, type DiffWindow } from '../../../extension/src/util/diffWindow.js';
 
-const dmp = new DiffMatchPatch();
+export { getDiffWindow, type DiffWindow };
 
 export interface DiffResult {
   changes: Replace[];
@@ -43,88 +49,35 @@ export interface ChangeMetrics {
   hunkCount: number;
 }
 
-export function computeDiff(shadowText: string, nextMarkdown: string): DiffResult {
-  if (shadowText === nextMarkdown) {
-    return {
-      changes: [],
-      metrics: {
-        changedChars: 0,
-        changedRatio: 0,
-        hunkCount: 0,
-      },
-    };
-  }
+export interface DiffOptions {
+  /** diff_main の時間予算 (ms)。未指定は diff-match-patch の既定 (1 秒) */
+  timeoutMs?: number;
+}
 
-  const diffs = dmp.diff_main(shadowText, nextMarkdown);
+/**
+ * DiffWindow 内の差分を shadowText 基準の Replace[] にする（Web Worker からも呼ばれる）。
+ */
+export function computeWindowChanges(window: DiffWindow, options: DiffOptions = {}): Replace[] {
+  const dmp = new DiffMatchPatch();
+  dmp.Diff_Timeout = options.timeoutMs !== undefined ? options.timeoutMs / 1000 : 1;
+  const diffs = dmp.diff_main(window.before, window.after);
   dmp.diff_cleanupSemantic(diffs);
+  return diffsToReplaces(window, diffs);
+}
 
-  const changes: Replace[] = [];
-  let offset = 0;
-
-  for (const [op, text] of diffs) {
-    switch (op) {
-      case DiffMatchPatch.DIFF_EQUAL:
-        offset += text.length;
-        break;
-
-      case DiffMatchPatch.DIFF_DELETE: {
-        const lastChange = changes[changes.length - 1];
-        if (lastChange && lastChange.end === offset && lastChange.text === '') {
-          lastChange.end = offset + text.length;
-        } else {
-          changes.push({
-            start: offset,
-            end: offset + text.length,
-            text: '',
-          });
-        }
-        offset += text.length;
-        break;
-      }
-
-      case DiffMatchPatch.DIFF_INSERT: {
-        const lastChange = changes[changes.length - 1];
-        if (lastChange && lastChange.end === offset) {
-          lastChange.text += text;
-        } else {
-          changes.push({
-            start: offset,
-            end: offset,
-            text: text,
-          });
-        }
-        break;
-      }
-    }
-  }
-
-  const normalizedChanges = normalizeChanges(changes);
-
-  const metrics = calculateMetrics(normalizedChanges, shadowText.length);
-
+export function toDiffResult(changes: Replace[], originalLength: number): DiffResult {
   return {
-    changes: normalizedChanges,
-    metrics,
+    changes,
+    metrics: calculateMetrics(changes, originalLength),
   };
 }
 
-function normalizeChanges(changes: Replace[]): Replace[] {
-  if (changes.length === 0) {return [];}
-
-  const sorted = [...changes].sort((a, b) => a.start - b.start);
-
-  const merged: Replace[] = [];
-  for (const change of sorted) {
-    const last = merged[merged.length - 1];
-    if (last && last.end >= change.start) {
-      last.end = Math.max(last.end, change.end);
-      last.text += change.text;
-    } else {
-      merged.push({ ...change });
-    }
+export function computeDiff(shadowText: string, nextMarkdown: string, options?: DiffOptions): DiffResult {
+  const window = getDiffWindow(shadowText, nextMarkdown);
+  if (!window) {
+    return toDiffResult([], shadowText.length);
   }
-
-  return merged;
+  return toDiffResult(computeWindowChanges(window, options), shadowText.length);
 }
 
 function calculateMetrics(changes: Replace[], originalLength: number): ChangeMetrics {
@@ -0,0 +1,21 @@
+/**
+ * 役割: 差分計算を UI スレッドの外で行う Web Worker
+ * 責務: diffWorkerClient から受け取った DiffWindow を computeWindowChanges で Replace[] にして返す
+ * 不変条件: 要求 1 件につき応答を 1 件だけ返す（失敗時は error を返し、呼び出し側は UI スレッドで計算し直す）
+ *
+ * 設計書参照: 12.3.5 (G5-lite 差分計算)
+ */
+
+import { computeWindowChanges } from './diffEngine.js';
+import type { DiffWorkerRequest, DiffWorkerResponse } from './diffWorkerClient.js';
+
+self.onmessage = (event: MessageEvent<DiffWorkerRequest>) => {
+  const { id, window, timeoutMs } = event.data;
+  let response: DiffWorkerResponse;
+  try {
+    response = { id, changes: computeWindowChanges(window, { timeoutMs }) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
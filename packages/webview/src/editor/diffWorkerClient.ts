@@ -0,0 +1,135 @@
+/**
+ * 役割: 差分計算の Web Worker への振り分け
+ * 責務: shadowText と nextMarkdown の DiffWindow を求め、小さい変更は UI スレッドで、大きい変更は Web Worker で Replace[] にする
+ * 不変条件: 返す Replace[] は computeDiff と同じく非重複・昇順で、shadowText に適用すると nextMarkdown になること
+ *
+ * 設計書参照: 12.3.5 (G5-lite 差分計算)
+ *
+ * 方針:
+ * - 先頭・末尾の共通部分の除去（getDiffWindow）は UI スレッドで行い、Worker には変更を含む範囲だけを送る
+ * - DiffWindow が WORKER_MIN_WINDOW_CHARS 未満なら Worker を使わない（往復の方が高くつくため）
+ * - Worker の diff_main には WORKER_DIFF_BUDGET_MS の時間予算を与える（超過時は最小ではないが正しい差分）
+ * - Worker が生成できない / エラーを返す / WORKER_RESPONSE_TIMEOUT_MS 以内に応答しない場合は、
+ *   UI スレッドで FALLBACK_DIFF_BUDGET_MS の時間予算で計算する（Worker はその後使わない）
+ */
+
+import DiffWorker from './diffWorker?worker&inline';
+import type { Replace } from '../protocol/types.js';
+import { computeWindowChanges, getDiffWindow, type DiffWindow } from './diffEngine.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('DiffWorker');
+
+const WORKER_MIN_WINDOW_CHARS = 4000;
+const WORKER_DIFF_BUDGET_MS = 1000;
+const WORKER_RESPONSE_TIMEOUT_MS = 5000;
+const FALLBACK_DIFF_BUDGET_MS = 200;
+
+export interface DiffWorkerRequest {
+  id: number;
+  window: DiffWindow;
+  timeoutMs: number;
+}
+
+export type DiffWorkerResponse = { id: number; changes: Replace[] } | { id: number; error: string };
+
+interface PendingRequest {
+  resolve: (changes: Replace[]) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+let worker: Worker | null = null;
+let workerDisabled = false;
+let requestIdCounter = 0;
+const pendingRequests = new Map<number, PendingRequest>();
+
+const disableWorker = (reason: string, details?: Record<string, unknown>): void => {
+  log.warn('Diff worker disabled, computing on UI thread', { reason, ...details });
+  workerDisabled = true;
+  worker?.terminate();
+  worker = null;
+  const pending = [...pendingRequests.values()];
+  pendingRequests.clear();
+  for (const request of pending) {
+    clearTimeout(request.timer);
+    request.reject(new Error(reason));
+  }
+};
+
+const getWorker = (): Worker | null => {
+  if (workerDisabled) {
+    return null;
+  }
+  if (worker) {
+    return worker;
+  }
+  try {
+    worker = new DiffWorker({ name: 'inlineMark-diff' });
+  } catch (error) {
+    disableWorker('create failed', { error: String(error) });
+    return null;
+  }
+  worker.onmessage = (event: MessageEvent<DiffWorkerResponse>) => {
+    const response = event.data;
+    const request = pendingRequests.get(response.id);
+    if (!request) {
+      return;
+    }
+    pendingRequests.delete(response.id);
+    clearTimeout(request.timer);
+    if ('error' in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.changes);
+    }
+  };
+  worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault();
+    disableWorker('worker error', { message: event.message });
+  };
+  return worker;
+};
+
+const requestWorkerDiff = (target: Worker, window: DiffWindow): Promise<Replace[]> => {
+  return new Promise((resolve, reject) => {
+    const id = ++requestIdCounter;
+    const timer = setTimeout(() => {
+      disableWorker('response timeout', { id, timeoutMs: WORKER_RESPONSE_TIMEOUT_MS });
+    }, WORKER_RESPONSE_TIMEOUT_MS);
+    pendingRequests.set(id, { resolve, reject, timer });
+    const request: DiffWorkerRequest = { id, window, timeoutMs: WORKER_DIFF_BUDGET_MS };
+    target.postMessage(request);
+  });
+};
+
+/**
+ * shadowText → nextMarkdown の Replace[]。変更が小さい場合は同期的に計算した結果を返す。
+ */
+export const computeChangesOffThread = (shadowText: string, nextMarkdown: string): Replace[] | Promise<Replace[]> => {
+  const window = getDiffWindow(shadowText, nextMarkdown);
+  if (!window) {
+    return [];
+  }
+  const windowChars = window.before.length + window.after.length;
+  const target = windowChars >= WORKER_MIN_WINDOW_CHARS ? getWorker() : null;
+  if (!target) {
+    return computeWindowChanges(window, { timeoutMs: FALLBACK_DIFF_BUDGET_MS });
+  }
+
+  const startedAt = performance.now();
+  return requestWorkerDiff(target, window).then(
+    (changes) => {
+      log.debug('Diff computed in worker', {
+        windowChars,
+        changes: changes.length,
+        elapsedMs: Math.round(performance.now() - startedAt),
+      });
+      return changes;
+    },
+    (error: unknown) => {
+      log.warn('Diff worker failed, computing on UI thread', { error: String(error) });
+      return computeWindowChanges(window, { timeoutMs: FALLBACK_DIFF_BUDGET_MS });
+    }
+  );
+};
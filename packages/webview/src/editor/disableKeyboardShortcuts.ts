@@ -7,7 +7,7 @@
  * 各拡張をextendしてaddKeyboardShortcutsを空にオーバーライド
  */
 
-import { mergeAttributes } from '@tiptap/core';
+import { mergeAttributes, renderNestedMarkdownContent } from '@tiptap/core';
 import type { MarkdownParseHelpers, MarkdownToken } from '@tiptap/core';
 import Bold from '@tiptap/extension-bold';
 import Italic from '@tiptap/extension-italic';
@@ -22,10 +22,12 @@ import ListItem from '@tiptap/extension-list-item';
 import Blockquote from '@tiptap/extension-blockquote';
 import CodeBlockLowlight from '@tiptap/extension-code-block-lowlight';
 import HorizontalRule from '@tiptap/extension-horizontal-rule';
-import History from '@tiptap/extension-history';
 import { applyIndentAttributesToDom, indentAttribute, normalizeIndentAttr, renderIndentMarker } from './indentConfig.js';
 import { createDragHandleElement, resolveBlockHandleEligibility } from './blockHandlesExtension.js';
 import { BlockPreviewController } from './blockPreview.js';
+import { parseCalloutMarkdown } from './calloutExtension.js';
+import { parseTaskListMarkdown } from './taskListExtension.js';
+import { getBulletListMarker, getCodeFence, getMarkdownFormat, getOrderedListMarker } from './markdownFormat.js';
 import { createLogger } from '../logger.js';
 
 const CODE_BLOCK_FENCE_RE = /^(```|~~~)([^\n]*)\n/;
@@ -114,6 +116,9 @@ const createHandleDecisionLogger = (nodeType: string) => {
         inListItem: decision.inListItem ?? false,
         inTableCell: decision.inTableCell ?? false,
         inBlockquote: decision.inBlockquote ?? false,
+        inCallout: decision.inCallout ?? false,
+        inDetails: decision.inDetails ?? false,
+        inFootnote: decision.inFootnote ?? false,
         error: decision.error ?? null,
       };
     if (decision.allowed) {
@@ -122,7 +127,10 @@ const createHandleDecisionLogger = (nodeType: string) => {
       const expectedIneligible =
         decision.reason === 'in-list' ||
         decision.reason === 'in-table' ||
-        decision.reason === 'in-blockquote';
+        decision.reason === 'in-blockquote' ||
+        decision.reason === 'in-callout' ||
+        decision.reason === 'in-details' ||
+        decision.reason === 'in-footnote';
       if (expectedIneligible) {
         logInfo('Handle ineligible', payload);
       } else {
@@ -212,18 +220,26 @@ const buildCodeBlockLabelNodes = (language: string | null, filename: string | nu
 };
 
 /**
- * Bold拡張 (Mod-b 無効化)
+ * Bold拡張 (Mod-b 無効化 + 記号を MarkdownFormat に合わせる)
  */
 export const BoldNoShortcut = Bold.extend({
+  renderMarkdown: (node, h) => {
+    const marker = getMarkdownFormat().strongMarker;
+    return `${marker}${h.renderChildren(node)}${marker}`;
+  },
   addKeyboardShortcuts() {
     return {};
   },
 });
 
 /**
- * Italic拡張 (Mod-i 無効化)
+ * Italic拡張 (Mod-i 無効化 + 記号を MarkdownFormat に合わせる)
  */
 export const ItalicNoShortcut = Italic.extend({
+  renderMarkdown: (node, h) => {
+    const marker = getMarkdownFormat().emphasisMarker;
+    return `${marker}${h.renderChildren(node)}${marker}`;
+  },
   addKeyboardShortcuts() {
     return {};
   },
@@ -399,7 +415,7 @@ export const HeadingNoShortcut = Heading.extend({
 });
 
 /**
- * BulletList拡張 (Mod-Shift-8 無効化)
+ * BulletList拡張 (Mod-Shift-8 無効化 + タスクの項目は taskList にする)
  */
 export const BulletListNoShortcut = BulletList.extend({
   addAttributes() {
@@ -408,6 +424,10 @@ export const BulletListNoShortcut = BulletList.extend({
       indent: indentAttribute,
     };
   },
+  parseMarkdown: (token, helpers) => {
+    const parseBulletList = (listToken: MarkdownToken) => BulletList.config.parseMarkdown?.(listToken, helpers) ?? [];
+    return parseTaskListMarkdown(token, helpers, parseBulletList) ?? parseBulletList(token);
+  },
   renderMarkdown: (node, h, context) => {
     if (!node.content) {
       return '';
@@ -449,7 +469,7 @@ export const OrderedListNoShortcut = OrderedList.extend({
 });
 
 /**
- * ListItem拡張 (Tab/Shift-Tab 無効化)
+ * ListItem拡張 (Tab/Shift-Tab 無効化 + リスト記号を MarkdownFormat に合わせる)
  */
 export const ListItemNoShortcut = ListItem.extend({
   // Allow plainTextBlock as the first child for per-item plain text editing.
@@ -491,6 +511,15 @@ export const ListItemNoShortcut = ListItem.extend({
       };
     };
   },
+  renderMarkdown: (node, h, ctx) => {
+    return renderNestedMarkdownContent(
+      node,
+      h,
+      (context) =>
+        context.parentType === 'orderedList' ? getOrderedListMarker(context.index) : getBulletListMarker(),
+      ctx
+    );
+  },
   addKeyboardShortcuts() {
     return {};
   },
@@ -548,6 +577,9 @@ export const BlockquoteNoShortcut = Blockquote.extend({
       };
     };
   },
+  // GitHub のアラート（先頭の行が `[!NOTE]` など）は callout にする
+  parseMarkdown: (token, helpers) =>
+    parseCalloutMarkdown(token, helpers) ?? helpers.createNode('blockquote', undefined, helpers.parseChildren(token.tokens || [])),
   renderMarkdown: (node, h, context) => {
     if (!node.content) {
       return '';
@@ -678,6 +710,11 @@ export const CodeBlockNoShortcut = CodeBlockLowlight.extend({
         return languageAttr.trim().toLowerCase() === 'mermaid';
       };
 
+      const resolvePos = () => {
+        const pos = getPos();
+        return typeof pos === 'number' ? pos : null;
+      };
+
       const preview = new BlockPreviewController({
         renderer: 'mermaid',
         host: pre,
@@ -685,6 +722,7 @@ export const CodeBlockNoShortcut = CodeBlockLowlight.extend({
         getSource: () => currentNode.textContent,
         padded: false,
         initialAvailable: isMermaidLanguage(node),
+        viewState: { nodeType: 'codeBlock', getPos: () => resolvePos() ?? undefined },
       });
 
       const buildLabelText = (language: string | null, filename: string | null): string => {
@@ -862,13 +900,14 @@ export const CodeBlockNoShortcut = CodeBlockLowlight.extend({
     const language = node.attrs?.language ? String(node.attrs.language) : '';
     const filename = node.attrs?.filename ? String(node.attrs.filename) : '';
     const info = buildCodeBlockInfo(language || null, filename || null);
-    const fence = info ? `\`\`\`${info}` : '```';
 
     if (!node.content) {
-      output = `${fence}\n\n\`\`\``;
+      const fence = getCodeFence('');
+      output = `${fence}${info}\n\n${fence}`;
     } else {
-      const lines = [fence, h.renderChildren(node.content), '```'];
-      output = lines.join('\n');
+      const code = h.renderChildren(node.content);
+      const fence = getCodeFence(code);
+      output = [`${fence}${info}`, code, fence].join('\n');
     }
 
     const indent = normalizeIndentAttr(node.attrs?.indent);
@@ -948,12 +987,3 @@ export const HorizontalRuleNoShortcut = HorizontalRule.extend({
     return {};
   },
 });
-
-/**
- * History拡張 (Mod-z, Mod-Shift-z 無効化)
- */
-export const HistoryNoShortcut = History.extend({
-  addKeyboardShortcuts() {
-    return {};
-  },
-});
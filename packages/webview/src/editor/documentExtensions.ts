@@ -0,0 +1,141 @@
+/**
+ * 役割: document の表示に使う Tiptap 拡張（スキーマと Markdown の parse / serialize）の組み合わせ
+ * 責務: エディタ（createEditor.ts）とリッチ差分ビュー（richDiffView.ts）が同じスキーマ・同じ Markdown 変換で表示できるようにする
+ * 不変条件: ノード・マークと Markdown 変換を持つ拡張だけを含める。編集 UI・同期・表示専用のデコレーションは呼び出し側で足す
+ *
+ * - 拡張の順序は Markdown の parse 規則の優先順位に効くので、ここでの並びを変えない
+ * - VS Code のキーバインドで全ショートカットを管理するため、StarterKit の拡張を無効化してショートカット無しバージョンを使う
+ */
+
+import type { AnyExtension } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import Link from '@tiptap/extension-link';
+import Image from '@tiptap/extension-image';
+import { Markdown } from '@tiptap/markdown';
+import { TableRow, TableCell, TableHeader } from '@tiptap/extension-table';
+import { createLowlight, common } from 'lowlight';
+import { RawBlock } from './rawBlockExtension.js';
+import { FrontmatterBlock } from './frontmatterBlockExtension.js';
+import { PlainTextBlock } from './plainTextBlockExtension.js';
+import { HtmlToCodeBlock } from './htmlToCodeBlockExtension.js';
+import { NestedPage } from './nestedPageExtension.js';
+import { TableBlock } from './tableBlockWrapperExtension.js';
+import { IndentMarker } from './indentMarkerExtension.js';
+import { FootnoteReference, FootnoteDefinition, Footnotes } from './footnoteExtension.js';
+import { MathInline, MathBlock } from './mathExtension.js';
+import { Callout } from './calloutExtension.js';
+import { TaskList, TaskItem } from './taskListExtension.js';
+import { Details, DetailsSummary, DetailsContent } from './detailsExtension.js';
+import {
+  ParagraphNoShortcut,
+  BoldNoShortcut,
+  ItalicNoShortcut,
+  StrikeNoShortcut,
+  CodeNoShortcut,
+  UnderlineNoShortcut,
+  HeadingNoShortcut,
+  BulletListNoShortcut,
+  OrderedListNoShortcut,
+  ListItemNoShortcut,
+  BlockquoteNoShortcut,
+  CodeBlockNoShortcut,
+  HorizontalRuleNoShortcut,
+} from './disableKeyboardShortcuts.js';
+import { FormattedHardBreak } from './markdownFormat.js';
+
+export interface DocumentExtensionOptions {
+  /** 子ページのリンクを開く（リッチ差分ビューでは何もしない） */
+  onOpenNestedPage: (path: string) => void;
+}
+
+export const createDocumentExtensions = (options: DocumentExtensionOptions): AnyExtension[] => [
+  StarterKit.configure({
+    // ショートカット無しバージョンを使用するため、デフォルトを無効化
+    bold: false,
+    italic: false,
+    strike: false,
+    code: false,
+    paragraph: false,
+    heading: false,
+    bulletList: false,
+    orderedList: false,
+    listItem: false,
+    blockquote: false,
+    codeBlock: false,
+    horizontalRule: false,
+    // Tiptap 3.x: history → undoRedo
+    undoRedo: false,
+    // Dropcursor は単体で configure する
+    dropcursor: false,
+    // Tiptap 3.x: StarterKit に Link/Underline が含まれるため無効化
+    link: false,
+    underline: false,
+    // appendTransaction(insert) 由来の invalid content 例外を避ける
+    trailingNode: false,
+    // 改行の書き方を MarkdownFormat に合わせるため FormattedHardBreak を使う
+    hardBreak: false,
+  }),
+  FormattedHardBreak,
+  // ショートカット無効化した拡張を追加
+  BoldNoShortcut,
+  ItalicNoShortcut,
+  StrikeNoShortcut,
+  CodeNoShortcut,
+  UnderlineNoShortcut,
+  ParagraphNoShortcut,
+  HeadingNoShortcut.configure({ levels: [1, 2, 3, 4, 5, 6] }),
+  BulletListNoShortcut,
+  OrderedListNoShortcut,
+  ListItemNoShortcut,
+  // タスクリスト（`- [ ]` / `- [x]`。parse は BulletListNoShortcut が振り分ける）
+  TaskList,
+  TaskItem,
+  // GitHub のアラート（`> [!NOTE]` など。parse は BlockquoteNoShortcut が振り分ける）
+  Callout,
+  BlockquoteNoShortcut,
+  CodeBlockNoShortcut.configure({
+    lowlight: createLowlight(common),
+    defaultLanguage: 'plaintext',
+  }),
+  HorizontalRuleNoShortcut,
+  Link.configure({
+    openOnClick: false,
+    HTMLAttributes: {
+      rel: 'noopener noreferrer',
+      target: '_blank',
+    },
+  }),
+  Image.configure({
+    inline: true,
+    allowBase64: true,
+  }),
+  // GFM テーブルサポート（resizable: false はデフォルト値のため省略）
+  TableBlock,
+  TableRow,
+  TableCell,
+  TableHeader,
+  NestedPage.configure({
+    onOpen: options.onOpenNestedPage,
+  }),
+  // 脚注（`[^1]` 参照と `[^1]: text` 定義）
+  FootnoteReference,
+  FootnoteDefinition,
+  Footnotes,
+  // 数式（`$…$` / `$$…$$`。KaTeX で表示）
+  MathInline,
+  MathBlock,
+  // トグル（`<details>` / `<summary>`。HTML の rawBlock より先に読む）
+  Details,
+  DetailsSummary,
+  DetailsContent,
+  // カスタム拡張（indent コメント, frontmatter, RAW）
+  IndentMarker,
+  FrontmatterBlock,
+  RawBlock,
+  PlainTextBlock,
+  HtmlToCodeBlock,
+  // @tiptap/markdown で Markdown パース/シリアライズを統合
+  Markdown.configure({
+    markedOptions: { gfm: true },
+  }),
+];
@@ -160,8 +160,11 @@ export const createFindWidget = (options: {
   scrollContainer?: HTMLElement;
   onVisibilityChange?: (visible: boolean) => void;
   onStateChange?: (state: FindWidgetState) => void;
+  /** 読み取り専用の document では置換欄を出さない（検索のみ） */
+  readOnly?: boolean;
 }): FindWidgetApi => {
   const { editor, container, scrollContainer, onVisibilityChange, onStateChange } = options;
+  const readOnly = options.readOnly === true;
   const labels = t().findWidget;
 
   const widget = document.createElement('div');
@@ -183,6 +186,7 @@ export const createFindWidget = (options: {
 
   const toggleReplaceButton = createActionButton('chevronRight', labels.toggleReplace);
   toggleReplaceButton.classList.add('find-toggle-replace');
+  toggleReplaceButton.hidden = readOnly;
   toggleArea.appendChild(toggleReplaceButton);
 
   const findInput = document.createElement('textarea');
@@ -370,7 +374,8 @@ export const createFindWidget = (options: {
     log('INFO', visible ? 'Find widget opened' : 'Find widget closed');
   };
 
-  const setReplaceVisible = (visible: boolean): void => {
+  const setReplaceVisible = (requested: boolean): void => {
+    const visible = requested && !readOnly;
     if (state.replaceVisible === visible) {
       return;
     }
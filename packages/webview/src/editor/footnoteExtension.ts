@@ -0,0 +1,620 @@
+/**
+ * 役割: 脚注（GFM の `[^1]` 参照と `[^1]: text` 定義）の Tiptap 拡張
+ * 責務: 参照（footnoteReference）・定義（footnoteDefinition）・文書末尾の脚注セクション（footnotes）の
+ *       スキーマと Markdown の往復、参照のホバー表示とジャンプ（FootnoteNavigation）、
+ *       参照の増減・移動に合わせた番号の振り直しとセクションの整理（FootnoteManager）
+ * 不変条件:
+ * - 参照は label だけを持つ inline atom。定義の本文は脚注セクションの中でだけ編集する
+ * - 連続する定義の並びは 1 つの marked トークン（= 1 つの footnotes ノード）にする（sourceSpans の 1 トークン単位と合わせる）
+ * - FootnoteManager は参照・定義の label の並びが変わったトランザクションの後だけ動く。
+ *   開いた直後・docChanged の適用中（applyingRemote）・addToHistory: false の変更では文書を書き換えない
+ *
+ * 番号の振り直し:
+ * - 数字の label は、本文で最初に参照される順に 1, 2, ... と振り直す（名前付きの label はそのまま。順番は数える）
+ * - 定義は参照順に並べ、どこからも参照されていない定義は後ろに残す（本文を消さない）
+ * - 定義の無い参照には空の定義を作る。脚注セクションは 1 つにまとめて文書の末尾に置く
+ */
+
+import { Extension, Node, mergeAttributes } from '@tiptap/core';
+import type { Editor, JSONContent, MarkdownLexerConfiguration, MarkdownToken } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey, TextSelection, type EditorState, type Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { t } from './i18n.js';
+import { fillInlineTokens } from './markdownUtils.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Footnote');
+
+const REFERENCE_RE = /^\[\^([^\]\s]+)\]/;
+const DEFINITION_RE = /^\[\^([^\]\s]+)\]:[ \t]?/;
+const DEFINITION_START_RE = /^\[\^[^\]\s]+\]:/m;
+const CONTINUATION_INDENT_RE = /^(?: {4}|\t)/;
+/** 定義の段落の途中で新しいブロックを始める行（lazy continuation にしない） */
+const BLOCK_START_RE = /^ {0,3}(?:[-+*]\s|\d{1,9}[.)]\s|#{1,6}(?:\s|$)|>|```|~~~|<)/;
+const NUMERIC_LABEL_RE = /^\d+$/;
+const CONTINUATION_INDENT = '    ';
+const PREVIEW_MAX_LENGTH = 200;
+
+const footnoteNavigationKey = new PluginKey('footnoteNavigation');
+const footnoteManagerKey = new PluginKey('footnoteManager');
+
+interface DefinitionToken {
+  label: string;
+  tokens: MarkdownToken[];
+}
+
+/**
+ * src の先頭から連続する脚注定義を切り出す。定義の 2 行目以降は 4 スペース（またはタブ）のインデントか、
+ * 段落の続き（lazy continuation）。空行は後ろにインデントされた行か次の定義が続く場合だけ含める。
+ */
+const splitDefinitions = (src: string): { raw: string; definitions: Array<{ label: string; lines: string[] }> } | null => {
+  if (!DEFINITION_RE.test(src)) {
+    return null;
+  }
+  const lines = src.split('\n');
+  const definitions: Array<{ label: string; lines: string[] }> = [];
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    const start = DEFINITION_RE.exec(line);
+    if (start) {
+      definitions.push({ label: start[1], lines: [line.slice(start[0].length)] });
+      index += 1;
+      continue;
+    }
+    const current = definitions[definitions.length - 1];
+    if (line.trim() === '') {
+      let next = index;
+      while (next < lines.length && lines[next].trim() === '') {
+        next += 1;
+      }
+      if (next >= lines.length) {
+        break;
+      }
+      if (DEFINITION_RE.test(lines[next])) {
+        index = next;
+        continue;
+      }
+      if (!CONTINUATION_INDENT_RE.test(lines[next])) {
+        break;
+      }
+      for (; index < next; index += 1) {
+        current.lines.push('');
+      }
+      continue;
+    }
+    if (CONTINUATION_INDENT_RE.test(line)) {
+      current.lines.push(line.replace(CONTINUATION_INDENT_RE, ''));
+      index += 1;
+      continue;
+    }
+    const previous = current.lines[current.lines.length - 1];
+    if (previous.trim() !== '' && !BLOCK_START_RE.test(line)) {
+      current.lines.push(line);
+      index += 1;
+      continue;
+    }
+    break;
+  }
+  const consumed = lines.slice(0, index).join('\n');
+  return { raw: index < lines.length ? `${consumed}\n` : consumed, definitions };
+};
+
+const isNumericLabel = (label: string): boolean => NUMERIC_LABEL_RE.test(label);
+
+const truncatePreview = (text: string): string => {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  return normalized.length > PREVIEW_MAX_LENGTH ? `${normalized.slice(0, PREVIEW_MAX_LENGTH - 1)}…` : normalized;
+};
+
+interface FootnoteIndex {
+  references: Array<{ pos: number; label: string }>;
+  definitions: Array<{ pos: number; node: ProseMirrorNode; label: string }>;
+  sections: Array<{ pos: number; node: ProseMirrorNode }>;
+}
+
+const indexCache = new WeakMap<ProseMirrorNode, FootnoteIndex>();
+
+/** doc の参照・定義・脚注セクションを文書順に集める（doc ごとにキャッシュ） */
+const indexFootnotes = (doc: ProseMirrorNode): FootnoteIndex => {
+  const cached = indexCache.get(doc);
+  if (cached) {
+    return cached;
+  }
+  const index: FootnoteIndex = { references: [], definitions: [], sections: [] };
+  doc.descendants((node, pos) => {
+    switch (node.type.name) {
+      case 'footnoteReference':
+        index.references.push({ pos, label: String(node.attrs.label) });
+        return false;
+      case 'footnoteDefinition':
+        index.definitions.push({ pos, node, label: String(node.attrs.label) });
+        return true;
+      case 'footnotes':
+        index.sections.push({ pos, node });
+        return true;
+      default:
+        return !node.isLeaf;
+    }
+  });
+  indexCache.set(doc, index);
+  return index;
+};
+
+/** FootnoteManager が動くかどうかの判定に使う、label の並びとセクション数 */
+const footnoteSignature = (doc: ProseMirrorNode): string => {
+  const index = indexFootnotes(doc);
+  return [
+    index.references.map((reference) => reference.label).join('\u0000'),
+    index.definitions.map((definition) => definition.label).join('\u0000'),
+    String(index.sections.length),
+  ].join('\u0001');
+};
+
+const findDefinition = (doc: ProseMirrorNode, label: string): FootnoteIndex['definitions'][number] | null =>
+  indexFootnotes(doc).definitions.find((definition) => definition.label === label) ?? null;
+
+/**
+ * 番号の振り直しと脚注セクションの整理を行うトランザクションを作る。変える必要が無ければ null。
+ */
+export const normalizeFootnotes = (state: EditorState): Transaction | null => {
+  const { schema, doc } = state;
+  const sectionType = schema.nodes.footnotes;
+  const definitionType = schema.nodes.footnoteDefinition;
+  if (!sectionType || !definitionType) {
+    return null;
+  }
+  const index = indexFootnotes(doc);
+
+  const referencedLabels: string[] = [];
+  for (const reference of index.references) {
+    if (!referencedLabels.includes(reference.label)) {
+      referencedLabels.push(reference.label);
+    }
+  }
+  const renames = new Map<string, string>();
+  referencedLabels.forEach((label, order) => {
+    renames.set(label, isNumericLabel(label) ? String(order + 1) : label);
+  });
+
+  // 参照順の定義、その後ろに参照されていない定義（同じ label の 2 つ目以降を含む）
+  const firstDefinitions = new Map<string, FootnoteIndex['definitions'][number]>();
+  const orphans: Array<{ definition: FootnoteIndex['definitions'][number]; label: string }> = [];
+  let nextOrphanNumber = referencedLabels.length + 1;
+  for (const definition of index.definitions) {
+    if (renames.has(definition.label) && !firstDefinitions.has(definition.label)) {
+      firstDefinitions.set(definition.label, definition);
+      continue;
+    }
+    let label = definition.label;
+    if (isNumericLabel(label)) {
+      label = String(nextOrphanNumber);
+      nextOrphanNumber += 1;
+    }
+    orphans.push({ definition, label });
+  }
+
+  const entries: Array<{ definition: FootnoteIndex['definitions'][number] | null; label: string }> = [
+    ...referencedLabels.map((label) => ({
+      definition: firstDefinitions.get(label) ?? null,
+      label: renames.get(label) ?? label,
+    })),
+    ...orphans,
+  ];
+
+  const referencesRenamed = index.references.some((reference) => renames.get(reference.label) !== reference.label);
+  const definitionsInPlace =
+    entries.length === 0
+      ? index.sections.length === 0
+      : index.sections.length === 1 &&
+        index.sections[0].pos + index.sections[0].node.nodeSize === doc.content.size &&
+        doc.resolve(index.sections[0].pos).depth === 0 &&
+        index.sections[0].node.childCount === entries.length &&
+        entries.every(
+          (entry, order) =>
+            entry.definition !== null &&
+            entry.definition.node === index.sections[0].node.child(order) &&
+            entry.definition.label === entry.label
+        );
+  if (!referencesRenamed && definitionsInPlace) {
+    return null;
+  }
+
+  const tr = state.tr;
+  // 定義の中の参照も含めて label を変える（位置は変わらない）
+  for (const reference of index.references) {
+    const label = renames.get(reference.label);
+    if (label !== undefined && label !== reference.label) {
+      const node = tr.doc.nodeAt(reference.pos);
+      if (node) {
+        tr.setNodeMarkup(reference.pos, undefined, { ...node.attrs, label });
+      }
+    }
+  }
+
+  const { selection } = state;
+  let selectionInDefinition: { entry: number; offset: number } | null = null;
+  const definitions: ProseMirrorNode[] = [];
+  for (const entry of entries) {
+    if (!entry.definition) {
+      definitions.push(definitionType.create({ label: entry.label }, schema.nodes.paragraph.create()));
+      continue;
+    }
+    const { pos } = entry.definition;
+    const current = tr.doc.nodeAt(pos) ?? entry.definition.node;
+    if (selection.from > pos && selection.from < pos + current.nodeSize) {
+      selectionInDefinition = { entry: definitions.length, offset: selection.from - pos };
+    }
+    definitions.push(definitionType.create({ ...current.attrs, label: entry.label }, current.content, current.marks));
+  }
+
+  for (const section of [...index.sections].reverse()) {
+    // 引用などの中のセクションで親が空になる場合は親ごと消す
+    const $section = tr.doc.resolve(section.pos);
+    let from = section.pos;
+    let to = section.pos + section.node.nodeSize;
+    for (let depth = $section.depth; depth > 0 && $section.node(depth).childCount === 1; depth -= 1) {
+      from = $section.before(depth);
+      to = $section.after(depth);
+    }
+    tr.delete(from, to);
+  }
+  if (definitions.length > 0) {
+    const insertPos = tr.doc.content.size;
+    tr.insert(insertPos, sectionType.create(null, definitions));
+    if (selectionInDefinition) {
+      const restore = selectionInDefinition;
+      let definitionPos = insertPos + 1;
+      for (let order = 0; order < restore.entry; order += 1) {
+        definitionPos += definitions[order].nodeSize;
+      }
+      const target = Math.min(definitionPos + restore.offset, definitionPos + definitions[restore.entry].nodeSize - 1);
+      tr.setSelection(TextSelection.near(tr.doc.resolve(target)));
+    }
+  }
+
+  log.debug('Footnotes normalized', {
+    references: index.references.length,
+    definitions: definitions.length,
+    sections: index.sections.length,
+  });
+  return tr.setMeta(footnoteManagerKey, true);
+};
+
+/** 参照の位置から定義の本文の先頭へ（定義が無ければ false） */
+const jumpToDefinition = (editor: Editor, label: string): boolean => {
+  const definition = findDefinition(editor.state.doc, label);
+  if (!definition) {
+    return false;
+  }
+  const tr = editor.state.tr.setSelection(TextSelection.near(editor.state.doc.resolve(definition.pos + 1)));
+  editor.view.dispatch(tr.scrollIntoView());
+  editor.view.focus();
+  return true;
+};
+
+/** 定義から最初の参照の直後へ（参照が無ければ false） */
+const jumpToReference = (editor: Editor, label: string): boolean => {
+  const reference = indexFootnotes(editor.state.doc).references.find((candidate) => candidate.label === label);
+  if (!reference) {
+    return false;
+  }
+  const tr = editor.state.tr.setSelection(TextSelection.create(editor.state.doc, reference.pos + 1));
+  editor.view.dispatch(tr.scrollIntoView());
+  editor.view.focus();
+  return true;
+};
+
+/**
+ * pos に新しい脚注の参照を入れ、その定義の本文にカーソルを移す（ブロックメニュー / スラッシュコマンド）。
+ * 定義は FootnoteManager が作る。脚注セクションの中・inline を置けない位置では何もしない。
+ */
+export const insertFootnote = (editor: Editor, pos: number): boolean => {
+  const { state } = editor;
+  const referenceType = state.schema.nodes.footnoteReference;
+  if (!referenceType) {
+    return false;
+  }
+  const $pos = state.doc.resolve(pos);
+  if (!$pos.parent.inlineContent || !$pos.parent.type.contentMatch.matchType(referenceType)) {
+    return false;
+  }
+  for (let depth = $pos.depth; depth > 0; depth -= 1) {
+    if ($pos.node(depth).type.name === 'footnotes') {
+      return false;
+    }
+  }
+
+  const index = indexFootnotes(state.doc);
+  const used = [...index.references, ...index.definitions]
+    .map((entry) => entry.label)
+    .filter(isNumericLabel)
+    .map(Number);
+  const label = String(Math.max(0, ...used) + 1);
+  if (!editor.chain().focus().insertContentAt(pos, { type: 'footnoteReference', attrs: { label } }).run()) {
+    return false;
+  }
+
+  const inserted = editor.state.doc.nodeAt(pos);
+  const finalLabel = inserted?.type === referenceType ? String(inserted.attrs.label) : label;
+  const definition = findDefinition(editor.state.doc, finalLabel);
+  if (definition?.node.firstChild) {
+    const end = definition.pos + 2 + definition.node.firstChild.content.size;
+    editor.chain().focus().setTextSelection(end).scrollIntoView().run();
+  }
+  log.info('Footnote inserted', { label: finalLabel, hasDefinition: Boolean(definition) });
+  return true;
+};
+
+export const FootnoteReference = Node.create({
+  name: 'footnoteReference',
+
+  group: 'inline',
+
+  inline: true,
+
+  atom: true,
+
+  selectable: true,
+
+  addAttributes() {
+    return {
+      label: {
+        default: '1',
+        parseHTML: (element) => element.getAttribute('data-footnote-ref') ?? '1',
+        renderHTML: (attributes) => ({ 'data-footnote-ref': attributes.label }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'sup[data-footnote-ref]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['sup', mergeAttributes(HTMLAttributes, { class: 'footnote-ref' }), String(node.attrs.label)];
+  },
+
+  renderText({ node }) {
+    return `[^${String(node.attrs.label)}]`;
+  },
+
+  markdownTokenizer: {
+    name: 'footnoteReference',
+    level: 'inline' as const,
+    start: (src: string) => src.indexOf('[^'),
+    tokenize: (src: string) => {
+      const match = REFERENCE_RE.exec(src);
+      // `[^1]:` は定義（行頭の場合は block の tokenizer が先に取る）
+      if (!match || src.charAt(match[0].length) === ':') {
+        return undefined;
+      }
+      return { type: 'footnoteReference', raw: match[0], label: match[1] };
+    },
+  },
+
+  parseMarkdown: (token, helpers) => helpers.createNode('footnoteReference', { label: token.label }),
+
+  renderMarkdown: (node) => `[^${String(node.attrs?.label ?? '')}]`,
+});
+
+export const FootnoteDefinition = Node.create({
+  name: 'footnoteDefinition',
+
+  content: 'paragraph block*',
+
+  defining: true,
+
+  addAttributes() {
+    return {
+      label: {
+        default: '1',
+        parseHTML: (element) => element.getAttribute('data-footnote-label') ?? '1',
+        renderHTML: (attributes) => ({ 'data-footnote-label': attributes.label }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'li[data-footnote-label]', contentElement: '.footnote-content' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'li',
+      mergeAttributes(HTMLAttributes, { class: 'footnote-definition' }),
+      [
+        'span',
+        { class: 'footnote-label', contenteditable: 'false', title: t().footnotes.backToReference },
+        String(node.attrs.label),
+      ],
+      ['div', { class: 'footnote-content' }, 0],
+    ];
+  },
+
+  renderMarkdown: (node, helpers) => {
+    const blocks = (node.content ?? []).map((child: JSONContent) => helpers.renderChildren([child]));
+    const [first = '', ...rest] = blocks;
+    const indentLines = (text: string) =>
+      text
+        .split('\n')
+        .map((line) => (line.trim() === '' ? '' : `${CONTINUATION_INDENT}${line}`))
+        .join('\n');
+    const head = `[^${String(node.attrs?.label ?? '')}]: ${first.split('\n').join(`\n${CONTINUATION_INDENT}`)}`.trimEnd();
+    return [head, ...rest.map(indentLines)].join('\n\n');
+  },
+});
+
+export const Footnotes = Node.create({
+  name: 'footnotes',
+
+  group: 'block',
+
+  content: 'footnoteDefinition+',
+
+  defining: true,
+
+  isolating: true,
+
+  selectable: false,
+
+  parseHTML() {
+    return [{ tag: 'section[data-footnotes]', contentElement: 'ol' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      'section',
+      mergeAttributes(HTMLAttributes, { class: 'footnotes', 'data-footnotes': '' }),
+      ['div', { class: 'footnotes-title', contenteditable: 'false' }, t().footnotes.title],
+      ['ol', { class: 'footnotes-list' }, 0],
+    ];
+  },
+
+  markdownTokenizer: {
+    name: 'footnotes',
+    level: 'block' as const,
+    start: (src: string) => DEFINITION_START_RE.exec(src)?.index ?? -1,
+    tokenize: (src: string, _tokens: MarkdownToken[], lexer: MarkdownLexerConfiguration) => {
+      const split = splitDefinitions(src);
+      if (!split) {
+        return undefined;
+      }
+      const definitions: DefinitionToken[] = split.definitions.map((definition) => {
+        const tokens = lexer.blockTokens(definition.lines.join('\n'));
+        fillInlineTokens(tokens, lexer);
+        return { label: definition.label, tokens };
+      });
+      return { type: 'footnotes', raw: split.raw, definitions };
+    },
+  },
+
+  parseMarkdown: (token, helpers) => {
+    const definitions = ((token.definitions as DefinitionToken[] | undefined) ?? []).map((definition) => {
+      const content = helpers.parseChildren(definition.tokens);
+      // 定義の本文は段落で始める（`[^1]:` だけの定義や、リストで始まる定義）
+      if (content[0]?.type !== 'paragraph') {
+        content.unshift({ type: 'paragraph' });
+      }
+      return helpers.createNode('footnoteDefinition', { label: definition.label }, content);
+    });
+    return helpers.createNode('footnotes', {}, definitions);
+  },
+
+  renderMarkdown: (node, helpers) =>
+    (node.content ?? []).map((child: JSONContent) => helpers.renderChildren([child])).join('\n'),
+});
+
+/**
+ * 参照のホバー（title に定義の本文）と、参照 → 定義 / 定義の番号 → 参照のジャンプ。
+ * 定義の無い参照・参照されていない定義に印を付ける。表示専用（文書は変えない）
+ */
+export const FootnoteNavigation = Extension.create({
+  name: 'footnoteNavigation',
+
+  addProseMirrorPlugins() {
+    const editor = this.editor;
+    const decorationCache = new WeakMap<ProseMirrorNode, DecorationSet>();
+
+    const buildDecorations = (doc: ProseMirrorNode): DecorationSet => {
+      const cached = decorationCache.get(doc);
+      if (cached) {
+        return cached;
+      }
+      const index = indexFootnotes(doc);
+      const strings = t().footnotes;
+      const referenced = new Set(index.references.map((reference) => reference.label));
+      const decorations: Decoration[] = [];
+      for (const reference of index.references) {
+        const definition = index.definitions.find((candidate) => candidate.label === reference.label);
+        const preview = definition ? truncatePreview(definition.node.textContent) : '';
+        decorations.push(
+          Decoration.node(reference.pos, reference.pos + 1, {
+            class: definition ? 'footnote-ref-linked' : 'footnote-ref-missing',
+            title: preview || strings.empty,
+          })
+        );
+      }
+      for (const definition of index.definitions) {
+        if (!referenced.has(definition.label)) {
+          decorations.push(
+            Decoration.node(definition.pos, definition.pos + definition.node.nodeSize, {
+              class: 'is-orphan',
+              title: strings.unreferenced,
+            })
+          );
+        }
+      }
+      const set = DecorationSet.create(doc, decorations);
+      decorationCache.set(doc, set);
+      return set;
+    };
+
+    return [
+      new Plugin({
+        key: footnoteNavigationKey,
+        props: {
+          decorations: (state) => buildDecorations(state.doc),
+          handleClickOn: (_view, _pos, node) => {
+            if (node.type.name !== 'footnoteReference') {
+              return false;
+            }
+            return jumpToDefinition(editor, String(node.attrs.label));
+          },
+          handleDOMEvents: {
+            mousedown: (_view, event) => {
+              const target = event.target instanceof Element ? event.target.closest('.footnote-label') : null;
+              const label = target?.closest('li[data-footnote-label]')?.getAttribute('data-footnote-label');
+              if (!label) {
+                return false;
+              }
+              event.preventDefault();
+              jumpToReference(editor, label);
+              return true;
+            },
+          },
+        },
+      }),
+    ];
+  },
+});
+
+export interface FootnoteManagerOptions {
+  /** docChanged の適用中（true の間は番号を振り直さない） */
+  isApplyingRemote: () => boolean;
+}
+
+/**
+ * 参照の追加・移動・削除の後に番号を振り直し、定義を脚注セクションにまとめる（編集時のみ）
+ */
+export const FootnoteManager = Extension.create<FootnoteManagerOptions>({
+  name: 'footnoteManager',
+
+  addOptions() {
+    return {
+      isApplyingRemote: () => false,
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const options = this.options;
+    return [
+      new Plugin({
+        key: footnoteManagerKey,
+        appendTransaction(transactions, oldState, newState) {
+          if (!transactions.some((tr) => tr.docChanged) || options.isApplyingRemote()) {
+            return null;
+          }
+          if (transactions.some((tr) => tr.getMeta('addToHistory') === false || tr.getMeta(footnoteManagerKey))) {
+            return null;
+          }
+          if (footnoteSignature(oldState.doc) === footnoteSignature(newState.doc)) {
+            return null;
+          }
+          return normalizeFootnotes(newState);
+        },
+      }),
+    ];
+  },
+});
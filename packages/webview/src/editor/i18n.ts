@@ -14,6 +14,7 @@ export interface Translations {
   placeholder: {
     paragraph: string;
     heading: string;
+    detailsSummary: string;
   };
   findWidget: {
     findPlaceholder: string;
@@ -45,11 +46,15 @@ export interface Translations {
     heading3: string;
     bulletList: string;
     orderedList: string;
+    taskList: string;
     codeBlock: string;
     blockquote: string;
     table: string;
     horizontalRule: string;
     nestedPage: string;
+    footnote: string;
+    mathBlock: string;
+    details: string;
   };
   slashCommand: {
     heading1: string;
@@ -104,10 +109,65 @@ export interface Translations {
   nestedPage: {
     defaultTitle: string;
   };
+  footnotes: {
+    title: string;
+    backToReference: string;
+    unreferenced: string;
+    empty: string;
+  };
+  callouts: {
+    note: string;
+    tip: string;
+    important: string;
+    warning: string;
+    caution: string;
+  };
+  details: {
+    expand: string;
+    collapse: string;
+  };
   preview: {
     show: string;
     edit: string;
   };
+  quickDiff: {
+    added: string;
+    modified: string;
+    deleted: string;
+  };
+  syncBanner: {
+    desynced: string;
+    retrying: string;
+    actions: string;
+  };
+  mergePanel: {
+    title: string;
+    message: string;
+    conflict: string;
+    base: string;
+    local: string;
+    external: string;
+    empty: string;
+    acceptLocal: string;
+    acceptExternal: string;
+    editMerged: string;
+    apply: string;
+  };
+  readOnlyBanner: {
+    gitRevision: string;
+    readOnlyFileSystem: string;
+    untrustedWorkspace: string;
+  };
+  richDiff: {
+    title: string;
+    inserted: string;
+    deleted: string;
+    modified: string;
+    noChanges: string;
+    formattingOnly: string;
+    previousChange: string;
+    nextChange: string;
+  };
 }
 
 // English translations (default)
@@ -115,6 +175,7 @@ const en: Translations = {
   placeholder: {
     paragraph: "Type '/' to select block type",
     heading: 'Heading...',
+    detailsSummary: 'Toggle title',
   },
   findWidget: {
     findPlaceholder: 'Find',
@@ -146,11 +207,15 @@ const en: Translations = {
     heading3: 'Heading 3',
     bulletList: 'Bullet list',
     orderedList: 'Numbered list',
+    taskList: 'To-do list',
     codeBlock: 'Code block',
     blockquote: 'Quote',
     table: 'Table',
     horizontalRule: 'Divider',
     nestedPage: 'Nested page',
+    footnote: 'Footnote',
+    mathBlock: 'Math block',
+    details: 'Toggle',
   },
   slashCommand: {
     heading1: 'Heading 1',
@@ -205,10 +270,65 @@ const en: Translations = {
   nestedPage: {
     defaultTitle: 'New Page',
   },
+  footnotes: {
+    title: 'Footnotes',
+    backToReference: 'Back to reference',
+    unreferenced: 'Not referenced from the text',
+    empty: '(empty footnote)',
+  },
+  callouts: {
+    note: 'Note',
+    tip: 'Tip',
+    important: 'Important',
+    warning: 'Warning',
+    caution: 'Caution',
+  },
+  details: {
+    expand: 'Expand',
+    collapse: 'Collapse',
+  },
   preview: {
     show: 'Preview',
     edit: 'Edit',
   },
+  quickDiff: {
+    added: 'Added since HEAD',
+    modified: 'Changed since HEAD',
+    deleted: 'Deleted since HEAD',
+  },
+  syncBanner: {
+    desynced: 'This editor may be out of sync with the file. New edits may not be saved.',
+    retrying: 'Resyncing with the file…',
+    actions: 'Sync Options…',
+  },
+  mergePanel: {
+    title: 'Merge external changes',
+    message: 'The file changed before your edits here were saved to it. Choose what to keep for each conflicting block.',
+    conflict: 'Conflict',
+    base: 'Before',
+    local: 'Your Edits',
+    external: 'File',
+    empty: '(removed)',
+    acceptLocal: 'Keep Your Edits',
+    acceptExternal: 'Use File',
+    editMerged: 'Edit Merged',
+    apply: 'Apply Merge',
+  },
+  readOnlyBanner: {
+    gitRevision: 'This is a git revision and cannot be edited.',
+    readOnlyFileSystem: 'This file is on a read-only file system and cannot be edited.',
+    untrustedWorkspace: 'Restricted Mode: trust this workspace to edit this file.',
+  },
+  richDiff: {
+    title: 'Rich diff',
+    inserted: 'Inserted',
+    deleted: 'Deleted',
+    modified: 'Modified',
+    noChanges: 'No differences.',
+    formattingOnly: 'Only the Markdown formatting differs. The rendered content is the same.',
+    previousChange: 'Previous Change',
+    nextChange: 'Next Change',
+  },
 };
 
 // Japanese translations
@@ -216,6 +336,7 @@ const ja: Translations = {
   placeholder: {
     paragraph: "'/' でブロックタイプを選択",
     heading: '見出しを入力...',
+    detailsSummary: 'トグルの見出し',
   },
   findWidget: {
     findPlaceholder: '検索',
@@ -247,11 +368,15 @@ const ja: Translations = {
     heading3: '見出し3',
     bulletList: '箇条書きリスト',
     orderedList: '番号付きリスト',
+    taskList: 'ToDo リスト',
     codeBlock: 'コードブロック',
     blockquote: '引用',
     table: 'テーブル',
     horizontalRule: '区切り線',
     nestedPage: 'ネストページ',
+    footnote: '脚注',
+    mathBlock: '数式ブロック',
+    details: 'トグル',
   },
   slashCommand: {
     heading1: '見出し1',
@@ -306,10 +431,65 @@ const ja: Translations = {
   nestedPage: {
     defaultTitle: '新規ページ',
   },
+  footnotes: {
+    title: '脚注',
+    backToReference: '参照へ戻る',
+    unreferenced: '本文から参照されていません',
+    empty: '（空の脚注）',
+  },
+  callouts: {
+    note: 'メモ',
+    tip: 'ヒント',
+    important: '重要',
+    warning: '警告',
+    caution: '注意',
+  },
+  details: {
+    expand: '開く',
+    collapse: '閉じる',
+  },
   preview: {
     show: 'プレビュー',
     edit: '編集',
   },
+  quickDiff: {
+    added: 'HEAD から追加',
+    modified: 'HEAD から変更',
+    deleted: 'HEAD から削除',
+  },
+  syncBanner: {
+    desynced: 'このエディタの内容がファイルと一致していない可能性があります。以降の編集が保存されないことがあります。',
+    retrying: 'ファイルと同期し直しています…',
+    actions: '同期の操作…',
+  },
+  mergePanel: {
+    title: '外部の変更のマージ',
+    message: 'このエディタの編集がファイルに保存される前に、ファイルが変更されました。衝突したブロックごとに残す内容を選んでください。',
+    conflict: '衝突',
+    base: '変更前',
+    local: 'このエディタの編集',
+    external: 'ファイル',
+    empty: '（削除）',
+    acceptLocal: '編集を残す',
+    acceptExternal: 'ファイルを使う',
+    editMerged: '手で編集',
+    apply: 'マージを適用',
+  },
+  readOnlyBanner: {
+    gitRevision: 'git のリビジョンを表示しています（読み取り専用）。',
+    readOnlyFileSystem: '書き込めないファイルシステム上のファイルです（読み取り専用）。',
+    untrustedWorkspace: '制限モード: ワークスペースを信頼するまで読み取り専用です。',
+  },
+  richDiff: {
+    title: 'リッチ差分',
+    inserted: '追加',
+    deleted: '削除',
+    modified: '変更',
+    noChanges: '差分はありません。',
+    formattingOnly: 'Markdown の書き方だけが異なります。表示される内容は同じです。',
+    previousChange: '前の変更',
+    nextChange: '次の変更',
+  },
 };
 
 // Chinese translations
@@ -317,6 +497,7 @@ const zh: Translations = {
   placeholder: {
     paragraph: "输入 '/' 选择块类型",
     heading: '输入标题...',
+    detailsSummary: '折叠块标题',
   },
   findWidget: {
     findPlaceholder: '查找',
@@ -348,11 +529,15 @@ const zh: Translations = {
     heading3: '三级标题',
     bulletList: '无序列表',
     orderedList: '有序列表',
+    taskList: '待办列表',
     codeBlock: '代码块',
     blockquote: '引用',
     table: '表格',
     horizontalRule: '分割线',
     nestedPage: '嵌套页面',
+    footnote: '脚注',
+    mathBlock: '公式块',
+    details: '折叠块',
   },
   slashCommand: {
     heading1: '一级标题',
@@ -407,10 +592,65 @@ const zh: Translations = {
   nestedPage: {
     defaultTitle: '新建页面',
   },
+  footnotes: {
+    title: '脚注',
+    backToReference: '返回引用处',
+    unreferenced: '正文中没有引用',
+    empty: '（空脚注）',
+  },
+  callouts: {
+    note: '备注',
+    tip: '提示',
+    important: '重要',
+    warning: '警告',
+    caution: '注意',
+  },
+  details: {
+    expand: '展开',
+    collapse: '折叠',
+  },
   preview: {
     show: '预览',
     edit: '编辑',
   },
+  quickDiff: {
+    added: '自 HEAD 以来新增',
+    modified: '自 HEAD 以来更改',
+    deleted: '自 HEAD 以来删除',
+  },
+  syncBanner: {
+    desynced: '此编辑器可能与文件不同步，后续编辑可能不会被保存。',
+    retrying: '正在与文件重新同步…',
+    actions: '同步选项…',
+  },
+  mergePanel: {
+    title: '合并外部更改',
+    message: '此编辑器中的编辑写入文件之前，文件已被更改。请为每个冲突的块选择要保留的内容。',
+    conflict: '冲突',
+    base: '更改前',
+    local: '此编辑器的编辑',
+    external: '文件',
+    empty: '（已删除）',
+    acceptLocal: '保留编辑',
+    acceptExternal: '使用文件',
+    editMerged: '手动编辑',
+    apply: '应用合并',
+  },
+  readOnlyBanner: {
+    gitRevision: '正在查看 git 修订版本（只读）。',
+    readOnlyFileSystem: '此文件位于只读文件系统上（只读）。',
+    untrustedWorkspace: '受限模式：在信任此工作区之前，此文件为只读。',
+  },
+  richDiff: {
+    title: '富文本差异',
+    inserted: '新增',
+    deleted: '删除',
+    modified: '修改',
+    noChanges: '没有差异。',
+    formattingOnly: '仅 Markdown 写法不同，显示的内容相同。',
+    previousChange: '上一个更改',
+    nextChange: '下一个更改',
+  },
 };
 
 const translations: Record<string, Translations> = { en, ja, zh };
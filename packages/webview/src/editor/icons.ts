@@ -11,13 +11,20 @@ export type IconName =
   | 'plus'
   | 'listUnordered'
   | 'listOrdered'
+  | 'checklist'
   | 'code'
   | 'openPreview'
   | 'quote'
   | 'table'
   | 'info'
+  | 'lightbulb'
+  | 'report'
+  | 'warning'
+  | 'stop'
   | 'fileText'
   | 'fileSubmodule'
+  | 'note'
+  | 'math'
   | 'chevronUp'
   | 'chevronDown'
   | 'chevronRight'
@@ -40,13 +47,20 @@ export const icons: Record<IconName, string> = {
   plus: 'codicon codicon-add',
   listUnordered: 'codicon codicon-list-unordered',
   listOrdered: 'codicon codicon-list-ordered',
+  checklist: 'codicon codicon-checklist',
   code: 'codicon codicon-code',
   openPreview: 'codicon codicon-open-preview',
   quote: 'codicon codicon-quote',
   table: 'codicon codicon-table',
   info: 'codicon codicon-info',
+  lightbulb: 'codicon codicon-lightbulb',
+  report: 'codicon codicon-report',
+  warning: 'codicon codicon-warning',
+  stop: 'codicon codicon-stop-circle',
   fileText: 'codicon codicon-file-text',
   fileSubmodule: 'codicon codicon-file-submodule',
+  note: 'codicon codicon-note',
+  math: 'codicon codicon-symbol-operator',
   chevronUp: 'codicon codicon-chevron-up',
   chevronDown: 'codicon codicon-chevron-down',
   chevronRight: 'codicon codicon-chevron-right',
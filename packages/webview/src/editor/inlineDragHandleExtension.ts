@@ -17,6 +17,7 @@ import { DEBUG } from './debug.js';
 import { notifyHostWarn } from './hostNotifier.js';
 import { INDENT_LEVEL_MAX, INDENT_MAX_DEPTH_MESSAGE, normalizeIndentAttr } from './indentConfig.js';
 import { LIST_MAX_DEPTH } from './listIndentConfig.js';
+import { isListItemType } from './listTypes.js';
 import { createDragHandleElement, shouldRenderBlockHandle } from './blockHandlesExtension.js';
 import { createLogger } from '../logger.js';
 
@@ -30,14 +31,18 @@ const HANDLE_NODEVIEW_EXCLUSIONS = new Set<string>([
   'paragraph',
   'heading',
   'blockquote',
+  'callout',
+  'details',
   'codeBlock',
   'listItem',
+  'taskItem',
   'horizontalRule',
   'frontmatterBlock',
   'rawBlock',
   'plainTextBlock',
   'nestedPage',
   'table',
+  'mathBlock',
 ]);
 const NOOP_TOLERANCE_POS = 1;
 const log = createLogger(MODULE);
@@ -109,7 +114,7 @@ const getListItemDepth = (doc: ProseMirrorNode, insidePos: number): number => {
   const $pos = doc.resolve(insidePos);
   let depth = 0;
   for (let d = $pos.depth; d >= 0; d -= 1) {
-    if ($pos.node(d).type.name === 'listItem') {
+    if (isListItemType($pos.node(d).type.name)) {
       depth += 1;
     }
   }
@@ -119,7 +124,7 @@ const getListItemDepth = (doc: ProseMirrorNode, insidePos: number): number => {
 const findNearestListItemPos = (doc: ProseMirrorNode, fromPos: number): number | null => {
   const $pos = doc.resolve(fromPos);
   for (let d = $pos.depth; d >= 0; d -= 1) {
-    if ($pos.node(d).type.name === 'listItem') {
+    if (isListItemType($pos.node(d).type.name)) {
       return $pos.before(d);
     }
   }
@@ -221,7 +226,7 @@ const isIndentableNode = (node: ProseMirrorNode | null | undefined): boolean =>
   if (!node?.isBlock) {
     return false;
   }
-  if (node.type.name === 'listItem') {
+  if (isListItemType(node.type.name)) {
     return false;
   }
   if (node.type.spec.tableRole || node.type.name === 'table') {
@@ -1015,7 +1020,7 @@ export const InlineDragHandle = Extension.create<InlineDragHandleOptions>({
       }
 
       const selectionAnchor =
-        insertedNode && insertedNode.type.name === 'listItem'
+        insertedNode && isListItemType(insertedNode.type.name)
           ? Math.min(tr.doc.content.size, insertPos + 1)
           : insertPos;
       tr = tr.setSelection(Selection.near(tr.doc.resolve(selectionAnchor), 1)).scrollIntoView();
@@ -1215,13 +1220,8 @@ export const InlineDragHandle = Extension.create<InlineDragHandleOptions>({
         return;
       }
 
-      const listItemType = editor.state.schema.nodes.listItem;
-      if (!listItemType) {
-        DEBUG.error(MODULE, 'List indent adjust failed: listItem node missing');
-        logError('List indent adjust failed: listItem node missing');
-        restoreDropcursorAfterIndent();
-        return;
-      }
+      // taskItem も同じ（項目の型で sink / lift する）
+      const listItemType = listItemNode.type;
 
       const insidePos = resolveListItemTextPos(editor.state.doc, listItemPos) ?? listItemPos + 1;
       const listItemDom = editor.view.nodeDOM(listItemPos) as HTMLElement | null;
@@ -1745,7 +1745,7 @@ export const InlineDragHandle = Extension.create<InlineDragHandleOptions>({
       };
       dragPayload = { slice: dragSlice, move };
 
-      if (node.type.name === 'listItem') {
+      if (isListItemType(node.type.name)) {
         const listItemDom = editor.view.nodeDOM(pos) as HTMLElement | null;
         const listItem = listItemDom ? resolveListItem(listItemDom) : null;
         const baseX = listItem ? resolveListItemTextStartX(listItem) : null;
@@ -1778,7 +1778,7 @@ export const InlineDragHandle = Extension.create<InlineDragHandleOptions>({
       logInfo('Drag start', {
         nodeType: node.type.name,
         pos,
-        isListItem: node.type.name === 'listItem',
+        isListItem: isListItemType(node.type.name),
         selection: {
           from: activeAfter.from,
           to: activeAfter.to,
@@ -0,0 +1,59 @@
+/**
+ * 役割: document の改行コード（LF / CRLF）と、Webview 内の LF 正規化テキストの相互変換
+ * 責務: 編集用に LF へ正規化し、LF 基準で計算した Replace[] を document（shadowText）の offset と改行コードに戻す
+ * 不変条件: 変換後の Replace[] を shadowText に適用した結果は、LF 基準の変更を適用して改行を eol にしたものと一致する
+ *           （変更していない行の改行コードは変えない）
+ *
+ * 方針:
+ * - editor / snapshot / 差分計算はすべて LF 正規化後のテキストで行う（marked / serializer は LF を出力するため）
+ * - shadowText は host の document と同じ改行コードのまま保持する（offset は document の offset）
+ * - LF 基準の offset は CRLF を 1 文字として数えるため、CRLF の途中（\r と \n の間）には対応しない
+ *
+ * 例（eol=crlf）:
+ * shadowText "a\r\nb\r\n"、LF 基準の変更 { start: 2, end: 3, text: "B\nc" }
+ * → { start: 3, end: 4, text: "B\r\nc" }
+ */
+
+import type { DocumentEol, Replace } from '../protocol/types.js';
+
+export const normalizeLineEndings = (text: string): string => text.replace(/\r\n|\r/g, '\n');
+
+const EOL_TEXT: Record<DocumentEol, string> = { lf: '\n', crlf: '\r\n' };
+
+/**
+ * LF 正規化後の offset（昇順）を元の source の offset に変換する。
+ * CRLF は 1 文字、CR 単独は 1 文字として正規化されているため、その分だけずらす。
+ */
+export const toSourceOffsets = (source: string, normalizedOffsets: number[]): number[] => {
+  const result: number[] = [];
+  let sourceIndex = 0;
+  let normalizedIndex = 0;
+  for (const target of normalizedOffsets) {
+    while (normalizedIndex < target && sourceIndex < source.length) {
+      sourceIndex += source[sourceIndex] === '\r' && source[sourceIndex + 1] === '\n' ? 2 : 1;
+      normalizedIndex += 1;
+    }
+    result.push(sourceIndex);
+  }
+  return result;
+};
+
+/**
+ * normalizeLineEndings(source) に対する Replace[]（非重複・昇順）を、source に対する Replace[] に変換する。
+ * 挿入テキストの改行は eol にする。
+ */
+export const toDocumentReplaces = (source: string, changes: Replace[], eol: DocumentEol): Replace[] => {
+  if (eol === 'lf' && !source.includes('\r')) {
+    return changes;
+  }
+  const offsets = toSourceOffsets(
+    source,
+    changes.flatMap((change) => [change.start, change.end])
+  );
+  const lineBreak = EOL_TEXT[eol];
+  return changes.map((change, index) => ({
+    start: offsets[index * 2],
+    end: offsets[index * 2 + 1],
+    text: eol === 'lf' ? change.text : change.text.replace(/\n/g, lineBreak),
+  }));
+};
@@ -14,7 +14,7 @@ export const ListIndentShortcuts = Extension.create({
   addKeyboardShortcuts() {
     return {
       Tab: () => {
-        if (this.editor.isActive('listItem')) {
+        if ((this.editor.isActive('listItem') || this.editor.isActive('taskItem'))) {
           executeCommand(this.editor, 'indentListItem');
           return true;
         }
@@ -22,7 +22,7 @@ export const ListIndentShortcuts = Extension.create({
         return true;
       },
       'Shift-Tab': () => {
-        if (this.editor.isActive('listItem')) {
+        if ((this.editor.isActive('listItem') || this.editor.isActive('taskItem'))) {
           executeCommand(this.editor, 'outdentListItem');
           return true;
         }
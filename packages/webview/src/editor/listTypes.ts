@@ -0,0 +1,13 @@
+/**
+ * List node types
+ *
+ * 役割: リストとリストの項目のノード型名をまとめる（通常のリストとタスクリスト）
+ * 不変条件: 項目の操作（インデント・D&D・ブロックハンドル・プレーンテキスト編集）は listItem と taskItem を同じに扱う
+ */
+
+export const LIST_ITEM_TYPES: ReadonlySet<string> = new Set(['listItem', 'taskItem']);
+export const LIST_TYPES: ReadonlySet<string> = new Set(['bulletList', 'orderedList', 'taskList']);
+
+export const isListItemType = (name: string | null | undefined): boolean => Boolean(name && LIST_ITEM_TYPES.has(name));
+
+export const isListType = (name: string | null | undefined): boolean => Boolean(name && LIST_TYPES.has(name));
@@ -0,0 +1,67 @@
+/**
+ * 役割: serialize 時の Markdown の書き方（MarkdownFormat）の適用
+ * 責務: 拡張機能が解決した書き方（inlineMark.format.* / .markdownlint.json / .editorconfig）を各ノード・マークの renderMarkdown に提供する
+ * 不変条件: 設定を受信する前は @tiptap/markdown の既定と同じ出力になること（既存の文書を書き換えない）
+ *
+ * 方針:
+ * - 書き方は runtimeConfig から読む（doc 同期・クリップボードのどちらの serialize にも同じ値が効く）
+ * - コードフェンスは、コード内に同じ文字の連続があればそれより長くする（フェンスが途中で閉じないように）
+ * - 番号付きリストの "one" は全項目を 1. にする（"increment" は 1. 2. 3.）
+ * - trimTrailingWhitespace は serialize したブロックのみに適用する（元の source のまま出すブロックは変えない）
+ * - insertFinalNewline は文書全体の末尾に適用する（doc 同期のみ。クリップボードには適用しない）
+ */
+
+import HardBreak from '@tiptap/extension-hard-break';
+import type { MarkdownFormat } from '../protocol/types.js';
+import { getRuntimeConfig } from './runtimeConfig.js';
+
+export const DEFAULT_MARKDOWN_FORMAT: MarkdownFormat = {
+  bulletMarker: '-',
+  emphasisMarker: '*',
+  strongMarker: '**',
+  codeFenceChar: '`',
+  codeFenceLength: 3,
+  orderedListNumbering: 'increment',
+  hardBreak: 'spaces',
+  insertFinalNewline: false,
+  trimTrailingWhitespace: false,
+};
+
+export const getMarkdownFormat = (): MarkdownFormat => {
+  return { ...DEFAULT_MARKDOWN_FORMAT, ...getRuntimeConfig()?.format };
+};
+
+export const getBulletListMarker = (): string => `${getMarkdownFormat().bulletMarker} `;
+
+export const getOrderedListMarker = (index: number): string => {
+  return getMarkdownFormat().orderedListNumbering === 'one' ? '1. ' : `${index + 1}. `;
+};
+
+export const getCodeFence = (code: string): string => {
+  const { codeFenceChar, codeFenceLength } = getMarkdownFormat();
+  let longestRun = 0;
+  for (const match of code.matchAll(codeFenceChar === '`' ? /`+/g : /~+/g)) {
+    longestRun = Math.max(longestRun, match[0].length);
+  }
+  return codeFenceChar.repeat(Math.max(codeFenceLength, longestRun + 1));
+};
+
+export const getHardBreakMarkdown = (): string => {
+  return getMarkdownFormat().hardBreak === 'backslash' ? '\\\n' : '  \n';
+};
+
+export const applyTrailingWhitespaceRule = (markdown: string): string => {
+  return getMarkdownFormat().trimTrailingWhitespace ? markdown.replace(/[ \t]+$/gm, '') : markdown;
+};
+
+export const applyFinalNewlineRule = (markdown: string): string => {
+  const { insertFinalNewline } = getMarkdownFormat();
+  return insertFinalNewline && markdown !== '' && !markdown.endsWith('\n') ? `${markdown}\n` : markdown;
+};
+
+/**
+ * HardBreak拡張 (出力する改行の書き方を MarkdownFormat に合わせる)
+ */
+export const FormattedHardBreak = HardBreak.extend({
+  renderMarkdown: () => getHardBreakMarkdown(),
+});
@@ -4,16 +4,20 @@
  * - Provide parse/serialize with explicit error logging
  */
 
-import type { Editor } from '@tiptap/core';
+import type { Editor, MarkdownLexerConfiguration, MarkdownToken as LexerToken } from '@tiptap/core';
 import { notifyHostError } from './hostNotifier.js';
 
 let markdownManagerUnavailableNotified = false;
 
 export type MarkdownParseResult = { type: string; content?: unknown };
 
+export type MarkdownToken = { type: string; raw?: string };
+
 export type MarkdownManager = {
   parse: (markdown: string) => MarkdownParseResult;
   serialize: (json: unknown) => string;
+  /** marked インスタンス（カスタムトークナイザ登録済み）。parse と同じ字句解析結果を得るために使う */
+  instance?: { lexer: (markdown: string) => MarkdownToken[] };
 };
 
 type MarkdownManagerLike = {
@@ -51,6 +55,10 @@ export const getMarkdownManager = (editor: Editor): MarkdownManager | null => {
   return null;
 };
 
+/**
+ * json を Markdown にする（doc 同期・クリップボード共通）。
+ * 記号などの書き方は各 renderMarkdown が runtimeConfig の MarkdownFormat から読む（markdownFormat.ts）。
+ */
 export const serializeMarkdown = (
   editor: Editor,
   json: unknown,
@@ -90,3 +98,35 @@ export const parseMarkdown = (
     return null;
   }
 };
+
+/**
+ * blockTokens で作ったトークンの inline トークンを埋める。
+ * tokenizer の helper は MarkdownManager の Lexer を使うため、段落などの inline の字句解析（inlineQueue）が実行されない。
+ */
+export const fillInlineTokens = (tokens: LexerToken[], lexer: MarkdownLexerConfiguration): void => {
+  for (const token of tokens) {
+    const needsInline =
+      (token.type === 'paragraph' || token.type === 'heading' || token.type === 'text') &&
+      Array.isArray(token.tokens) &&
+      token.tokens.length === 0 &&
+      typeof token.text === 'string' &&
+      token.text.length > 0;
+    if (needsInline) {
+      token.tokens = lexer.inlineTokens(token.text as string);
+    }
+    if (token.type === 'table') {
+      const cells = [...((token.header as LexerToken[] | undefined) ?? []), ...((token.rows as LexerToken[][] | undefined) ?? []).flat()];
+      for (const cell of cells) {
+        if (Array.isArray(cell.tokens) && cell.tokens.length === 0 && cell.text) {
+          cell.tokens = lexer.inlineTokens(cell.text);
+        }
+      }
+    }
+    if (!needsInline && token.tokens) {
+      fillInlineTokens(token.tokens, lexer);
+    }
+    if (token.items) {
+      fillInlineTokens(token.items, lexer);
+    }
+  }
+};
@@ -0,0 +1,440 @@
+/**
+ * 役割: 数式（`$…$` / `$$…$$`）の Tiptap 拡張
+ * 責務: インライン数式（mathInline）とブロック数式（mathBlock）のスキーマと Markdown の往復、
+ *       KaTeX での表示（BlockPreviewController の renderer: 'math' / 'mathInline'）と、カーソルがある間の source 表示（MathSourceFocus）
+ * 不変条件:
+ * - 数式の source は text としてそのまま持つ（エスケープ・空白の正規化をしない）。serialize は区切りを付けて戻すだけ
+ * - 表示は文書に保存しない（プレビューの状態は UI に閉じる）
+ *
+ * 構文:
+ * - インライン: `$` の直後と閉じる `$` の直前は空白以外、閉じる `$` の直後は数字以外（`$5 and $10` を数式にしない）。改行を含まない
+ * - ブロック: 行頭の `$$` の行から `$$` の行まで（`$$…$$` の 1 行も可。singleLine で書き方を保つ）
+ */
+
+import { Extension, InputRule, Node, mergeAttributes, textblockTypeInputRule } from '@tiptap/core';
+import type { Editor, JSONContent, MarkdownToken } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { NodeSelection, Plugin, PluginKey, TextSelection, type EditorState } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { BlockPreviewController } from './blockPreview.js';
+import { applyIndentAttributesToDom, indentAttribute, normalizeIndentAttr, renderIndentMarker } from './indentConfig.js';
+import { applyNodeViewHandleState, createNodeViewHandleContainer, resolveBlockHandleEligibility } from './blockHandlesExtension.js';
+import { isListItemType } from './listTypes.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Math');
+
+const INLINE_MATH_RE = /^\$(?![\s$])((?:\\[^\n]|[^\\$\n])+?)\$(?!\d)/;
+const INLINE_MATH_INPUT_RE = /(?:^|[^$\\])(\$(?![\s$])((?:\\[^\n]|[^\\$\n])+?)\$)$/;
+const BLOCK_MATH_FENCED_RE = /^\$\$[ \t]*\n(?:([\s\S]*?)\n)?\$\$[ \t]*(?:\n|$)/;
+const BLOCK_MATH_SINGLE_LINE_RE = /^\$\$([^\n]*?[^\s$][^\n]*?)\$\$[ \t]*(?:\n|$)/;
+const BLOCK_MATH_LINE_START_RE = /^\$\$/gm;
+const BLOCK_MATH_INPUT_RE = /^\$\$\s$/;
+const MATH_NODE_TYPES = new Set(['mathInline', 'mathBlock']);
+
+const mathSourceFocusKey = new PluginKey('mathSourceFocus');
+
+const matchBlockMath = (src: string): { raw: string; text: string; singleLine: boolean } | null => {
+  const fenced = BLOCK_MATH_FENCED_RE.exec(src);
+  if (fenced) {
+    return { raw: fenced[0], text: fenced[1] ?? '', singleLine: false };
+  }
+  const singleLine = BLOCK_MATH_SINGLE_LINE_RE.exec(src);
+  if (singleLine) {
+    return { raw: singleLine[0], text: singleLine[1], singleLine: true };
+  }
+  return null;
+};
+
+const textOf = (node: JSONContent): string => (node.content ?? []).map((child) => child.text ?? '').join('');
+
+/** 数式のノードの中へカーソルを移す（表示をクリックしたとき） */
+const focusMathSource = (editor: Editor, getPos: () => number | undefined, node: ProseMirrorNode): void => {
+  const pos = getPos();
+  if (typeof pos !== 'number' || !editor.isEditable) {
+    return;
+  }
+  const end = pos + 1 + node.content.size;
+  editor.view.dispatch(editor.state.tr.setSelection(TextSelection.create(editor.state.doc, end)));
+  editor.view.focus();
+};
+
+const hasSourceFocus = (decorations: readonly Decoration[]): boolean =>
+  decorations.some((decoration) => (decoration.spec as { mathSource?: boolean } | undefined)?.mathSource === true);
+
+export const MathInline = Node.create({
+  name: 'mathInline',
+
+  group: 'inline',
+
+  inline: true,
+
+  content: 'text*',
+
+  marks: '',
+
+  code: true,
+
+  addAttributes() {
+    return {};
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="math-inline"]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes, { 'data-type': 'math-inline', class: 'math-inline' }), 0];
+  },
+
+  renderText({ node }) {
+    return `$${node.textContent}$`;
+  },
+
+  addNodeView() {
+    return ({ node, getPos, editor }) => {
+      const dom = document.createElement('span');
+      dom.className = 'math-inline';
+      dom.setAttribute('data-type', 'math-inline');
+
+      const contentDom = document.createElement('span');
+      contentDom.className = 'math-inline-source';
+      contentDom.spellcheck = false;
+      dom.appendChild(contentDom);
+
+      let latestNode = node;
+      const preview = new BlockPreviewController({
+        renderer: 'mathInline',
+        host: dom,
+        contentDom,
+        getSource: () => latestNode.textContent,
+        padded: false,
+        initialAvailable: node.textContent.trim() !== '',
+        inline: true,
+      });
+      const previewElement = preview.getPreviewElement();
+      const onPreviewMouseDown = (event: MouseEvent) => {
+        if (!editor.isEditable) {
+          return;
+        }
+        event.preventDefault();
+        focusMathSource(editor, () => (typeof getPos === 'function' ? getPos() : undefined), latestNode);
+      };
+      previewElement.addEventListener('mousedown', onPreviewMouseDown);
+
+      return {
+        dom,
+        contentDOM: contentDom,
+        update: (updatedNode, decorations) => {
+          if (updatedNode.type.name !== 'mathInline') {
+            return false;
+          }
+          latestNode = updatedNode;
+          const focused = hasSourceFocus(decorations);
+          dom.classList.toggle('is-editing-source', focused);
+          preview.setSourceFocused(focused);
+          preview.setAvailable(updatedNode.textContent.trim() !== '');
+          preview.notifySourceChanged();
+          return true;
+        },
+        stopEvent: (event) => event.target instanceof Element && previewElement.contains(event.target),
+        ignoreMutation: (mutation) => {
+          if (mutation.type === 'selection') {
+            return false;
+          }
+          const target = mutation.target as globalThis.Node;
+          if (target === contentDom && mutation.type === 'attributes') {
+            return true;
+          }
+          return !contentDom.contains(target);
+        },
+        destroy: () => {
+          previewElement.removeEventListener('mousedown', onPreviewMouseDown);
+          preview.destroy();
+        },
+      };
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: INLINE_MATH_INPUT_RE,
+        handler: ({ state, range, match }) => {
+          const source = match[2];
+          if (/\s$/.test(source)) {
+            return null;
+          }
+          // 先頭の 1 文字（`$` の前の文字）は残す
+          const from = range.from + (match[0].length - match[1].length);
+          state.tr.replaceWith(from, range.to, this.type.create(null, state.schema.text(source)));
+          log.info('Inline math created by input rule', { sourceLength: source.length });
+        },
+      }),
+    ];
+  },
+
+  markdownTokenizer: {
+    name: 'mathInline',
+    level: 'inline' as const,
+    start: (src: string) => src.indexOf('$'),
+    tokenize: (src: string, tokens: MarkdownToken[]) => {
+      const match = INLINE_MATH_RE.exec(src);
+      if (!match || /\s$/.test(match[1])) {
+        return undefined;
+      }
+      // `$$x$$` の 2 つ目の `$` からは始めない
+      const previous = tokens[tokens.length - 1];
+      if (previous?.type === 'text' && String(previous.raw ?? '').endsWith('$')) {
+        return undefined;
+      }
+      return { type: 'mathInline', raw: match[0], text: match[1] };
+    },
+  },
+
+  parseMarkdown: (token, helpers) => {
+    const text = String(token.text ?? '');
+    return helpers.createNode('mathInline', {}, text ? [helpers.createTextNode(text)] : []);
+  },
+
+  // 空の数式は出さない（`$$` はブロック数式の区切りになる）
+  renderMarkdown: (node) => {
+    const text = textOf(node);
+    return text ? `$${text}$` : '';
+  },
+});
+
+export const MathBlock = Node.create({
+  name: 'mathBlock',
+
+  group: 'block',
+
+  content: 'text*',
+
+  marks: '',
+
+  code: true,
+
+  defining: true,
+
+  isolating: true,
+
+  draggable: true,
+
+  addAttributes() {
+    return {
+      indent: indentAttribute,
+      singleLine: {
+        default: false,
+        rendered: false,
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="math-block"]', preserveWhitespace: 'full' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes(HTMLAttributes, { 'data-type': 'math-block', class: 'math-block-wrapper code-block-wrapper' }),
+      ['div', { class: 'block-content' }, ['pre', { class: 'code-block math-block', 'data-has-label': 'true' }, ['code', 0]]],
+    ];
+  },
+
+  addNodeView() {
+    return ({ node, getPos, editor }) => {
+      const resolvePos = () => {
+        const pos = typeof getPos === 'function' ? getPos() : undefined;
+        return typeof pos === 'number' ? pos : undefined;
+      };
+
+      const dom = document.createElement('div');
+      dom.setAttribute('data-type', 'math-block');
+      dom.className = 'math-block-wrapper code-block-wrapper';
+      applyIndentAttributesToDom(dom, node.attrs?.indent);
+      const handleContainer = createNodeViewHandleContainer();
+      dom.appendChild(handleContainer);
+
+      const syncHandleState = (updatedNode: typeof node) => {
+        const eligibility = resolveBlockHandleEligibility(editor.state, () => resolvePos() ?? Number.NaN, 'mathBlock');
+        const shouldShowHandle = applyNodeViewHandleState(dom, handleContainer, eligibility, 'mathBlock');
+        applyIndentAttributesToDom(dom, shouldShowHandle ? updatedNode.attrs?.indent : 0);
+      };
+
+      syncHandleState(node);
+
+      const contentWrapper = document.createElement('div');
+      contentWrapper.className = 'block-content';
+      dom.appendChild(contentWrapper);
+
+      const pre = document.createElement('pre');
+      pre.className = 'code-block math-block';
+      pre.setAttribute('data-has-label', 'true');
+      contentWrapper.appendChild(pre);
+
+      const label = document.createElement('span');
+      label.className = 'block-label code-block-label';
+      label.setAttribute('contenteditable', 'false');
+      label.textContent = 'Math';
+      pre.appendChild(label);
+
+      const contentDom = document.createElement('code');
+      contentDom.className = 'math-block-content';
+      contentDom.spellcheck = false;
+      pre.appendChild(contentDom);
+
+      let latestNode = node;
+      const preview = new BlockPreviewController({
+        renderer: 'math',
+        host: pre,
+        contentDom,
+        getSource: () => latestNode.textContent,
+        padded: false,
+        initialAvailable: node.textContent.trim() !== '',
+        viewState: { nodeType: 'mathBlock', getPos: resolvePos },
+      });
+      const previewElement = preview.getPreviewElement();
+      const onPreviewMouseDown = (event: MouseEvent) => {
+        if (!editor.isEditable) {
+          return;
+        }
+        event.preventDefault();
+        focusMathSource(editor, resolvePos, latestNode);
+      };
+      previewElement.addEventListener('mousedown', onPreviewMouseDown);
+
+      log.info('NodeView created', { contentLength: node.textContent.length });
+
+      return {
+        dom,
+        contentDOM: contentDom,
+        update: (updatedNode, decorations) => {
+          if (updatedNode.type.name !== 'mathBlock') {
+            return false;
+          }
+          latestNode = updatedNode;
+          syncHandleState(updatedNode);
+          const focused = hasSourceFocus(decorations);
+          dom.classList.toggle('is-editing-source', focused);
+          preview.setSourceFocused(focused);
+          preview.setAvailable(updatedNode.textContent.trim() !== '');
+          preview.notifySourceChanged();
+          return true;
+        },
+        stopEvent: (event) => {
+          if (!(event.target instanceof Element)) {
+            return false;
+          }
+          return (
+            label.contains(event.target) ||
+            preview.getToolbarElement().contains(event.target) ||
+            previewElement.contains(event.target)
+          );
+        },
+        ignoreMutation: (mutation) => {
+          if (mutation.type === 'selection') {
+            return false;
+          }
+          const target = mutation.target as globalThis.Node;
+          if (target === contentDom && mutation.type === 'attributes') {
+            return true;
+          }
+          return !contentDom.contains(target);
+        },
+        destroy: () => {
+          previewElement.removeEventListener('mousedown', onPreviewMouseDown);
+          preview.destroy();
+        },
+      };
+    };
+  },
+
+  addInputRules() {
+    return [textblockTypeInputRule({ find: BLOCK_MATH_INPUT_RE, type: this.type })];
+  },
+
+  markdownTokenizer: {
+    name: 'mathBlock',
+    level: 'block' as const,
+    // 段落の途中の `$$` で段落を切らないよう、ブロック数式として読める位置だけを返す
+    start: (src: string) => {
+      BLOCK_MATH_LINE_START_RE.lastIndex = 0;
+      for (let match = BLOCK_MATH_LINE_START_RE.exec(src); match; match = BLOCK_MATH_LINE_START_RE.exec(src)) {
+        if (matchBlockMath(src.slice(match.index))) {
+          return match.index;
+        }
+      }
+      return -1;
+    },
+    tokenize: (src: string) => {
+      const match = matchBlockMath(src);
+      if (!match) {
+        return undefined;
+      }
+      return { type: 'mathBlock', raw: match.raw, text: match.text, singleLine: match.singleLine };
+    },
+  },
+
+  parseMarkdown: (token, helpers) => {
+    const text = String(token.text ?? '');
+    return helpers.createNode(
+      'mathBlock',
+      { singleLine: Boolean(token.singleLine) },
+      text ? [helpers.createTextNode(text)] : []
+    );
+  },
+
+  renderMarkdown: (node, _helpers, context) => {
+    const text = textOf(node);
+    const indent = normalizeIndentAttr(node.attrs?.indent);
+    const isInListItem = isListItemType(context?.parentType);
+    const marker = isInListItem ? '' : renderIndentMarker(indent);
+    const singleLine = node.attrs?.singleLine === true && text.trim() !== '' && !text.includes('\n');
+    return singleLine ? `${marker}$$${text}$$` : `${marker}$$\n${text}\n$$`;
+  },
+});
+
+/** selection を含む数式のノード（NodeSelection を含む）。無ければ null */
+const findFocusedMath = (state: EditorState): { pos: number; node: ProseMirrorNode } | null => {
+  const { selection } = state;
+  if (selection instanceof NodeSelection && MATH_NODE_TYPES.has(selection.node.type.name)) {
+    return { pos: selection.from, node: selection.node };
+  }
+  const { $from, $to } = selection;
+  for (let depth = $from.depth; depth > 0; depth -= 1) {
+    const node = $from.node(depth);
+    if (MATH_NODE_TYPES.has(node.type.name)) {
+      const pos = $from.before(depth);
+      return $to.pos <= pos + node.nodeSize - 1 ? { pos, node } : null;
+    }
+  }
+  return null;
+};
+
+/**
+ * カーソルがある数式のノードに印（decoration の spec.mathSource）を付け、NodeView が source を出すようにする（編集時のみ）
+ */
+export const MathSourceFocus = Extension.create({
+  name: 'mathSourceFocus',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: mathSourceFocusKey,
+        props: {
+          decorations: (state) => {
+            const focused = findFocusedMath(state);
+            if (!focused) {
+              return DecorationSet.empty;
+            }
+            return DecorationSet.create(state.doc, [
+              Decoration.node(focused.pos, focused.pos + focused.node.nodeSize, {}, { mathSource: true }),
+            ]);
+          },
+        },
+      }),
+    ];
+  },
+});
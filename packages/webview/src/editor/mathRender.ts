@@ -0,0 +1,40 @@
+/**
+ * 役割: 数式（TeX）の描画
+ * 責務: 同梱の KaTeX で数式の source を HTML にする（ネットワークは使わない）
+ * 不変条件: trust: false で描画する（\href / \url / \htmlClass 等で任意の URL・属性を出さない）。
+ *           TeX の構文エラーは例外にせず、KaTeX のエラー表示（source とメッセージ）にする
+ *
+ * KaTeX は最初の描画のときに読み込む（数式の無い文書では読み込まない）。CSS とフォントは styles.css で同梱する
+ */
+
+import type { KatexOptions } from 'katex';
+
+type Katex = typeof import('katex').default;
+
+let katexLoader: Promise<Katex> | null = null;
+
+const loadKatex = (): Promise<Katex> => {
+  if (!katexLoader) {
+    katexLoader = import('katex').then((module) => module.default);
+    katexLoader.catch(() => {
+      // 次の描画で読み込み直す
+      katexLoader = null;
+    });
+  }
+  return katexLoader;
+};
+
+/**
+ * source を KaTeX の HTML にする。displayMode は $$…$$（ブロック）なら true。
+ */
+export const renderMathToHtml = async (source: string, displayMode: boolean): Promise<string> => {
+  const katex = await loadKatex();
+  const options: KatexOptions = {
+    displayMode,
+    throwOnError: false,
+    trust: false,
+    strict: 'ignore',
+    output: 'htmlAndMathml',
+  };
+  return katex.renderToString(source, options);
+};
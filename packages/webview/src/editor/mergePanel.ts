@@ -0,0 +1,174 @@
+/**
+ * 役割: 外部変更と未送信の編集が衝突したブロックを、エディタ上部のパネルでマージさせる
+ * 責務: 衝突ごとに base / ローカルの編集 / ファイル（外部変更）の内容を並べ、採用する側か手で編集した内容を選ばせる
+ * 不変条件: パネルは選択を集めるだけ。マージ結果の組み立てと送信は呼び出し側（main.ts）が行う
+ *
+ * - すべての衝突で選択するまで「マージを適用」は押せない
+ * - 「手で編集」はローカルの編集を初期値にした textarea を出す（Markdown のまま編集する）
+ * - show を呼び直すと選択はリセットされる（表示中に外部変更が続いた場合。マージし直した結果を表示する）
+ */
+
+import type { ThreeWayMergeResult } from './threeWayMerge.js';
+import { t } from './i18n.js';
+
+type ConflictChoice = 'local' | 'external' | 'edit';
+
+export interface MergePanel {
+  /** onApply には衝突ごとの結果のテキストが conflict の順に渡る */
+  show: (result: ThreeWayMergeResult, onApply: (resolutions: string[]) => void) => void;
+  hide: () => void;
+  isOpen: () => boolean;
+  destroy: () => void;
+}
+
+const createVersionColumn = (label: string, text: string, className: string): HTMLElement => {
+  const column = document.createElement('div');
+  column.className = `merge-conflict-version ${className}`;
+  const heading = document.createElement('div');
+  heading.className = 'merge-conflict-version-label';
+  heading.textContent = label;
+  const body = document.createElement('pre');
+  body.className = 'merge-conflict-version-text';
+  if (text.trim() === '') {
+    body.classList.add('is-empty');
+    body.textContent = t().mergePanel.empty;
+  } else {
+    body.textContent = text.trimEnd();
+  }
+  column.append(heading, body);
+  return column;
+};
+
+export const createMergePanel = (container: HTMLElement, before: Node | null): MergePanel => {
+  const el = document.createElement('div');
+  el.className = 'merge-panel';
+  el.setAttribute('role', 'region');
+  el.hidden = true;
+
+  const header = document.createElement('div');
+  header.className = 'merge-panel-header';
+  const icon = document.createElement('span');
+  icon.className = 'codicon codicon-git-merge';
+  icon.setAttribute('aria-hidden', 'true');
+  const message = document.createElement('span');
+  message.className = 'merge-panel-message';
+  const apply = document.createElement('button');
+  apply.type = 'button';
+  apply.className = 'merge-panel-apply';
+  header.append(icon, message, apply);
+
+  const list = document.createElement('div');
+  list.className = 'merge-panel-conflicts';
+
+  el.append(header, list);
+  container.insertBefore(el, before);
+
+  let applyHandler: (() => void) | null = null;
+  apply.addEventListener('click', () => applyHandler?.());
+
+  const hide = (): void => {
+    el.hidden = true;
+    list.replaceChildren();
+    applyHandler = null;
+  };
+
+  const show = (result: ThreeWayMergeResult, onApply: (resolutions: string[]) => void): void => {
+    const strings = t().mergePanel;
+    el.setAttribute('aria-label', strings.title);
+    message.textContent = strings.message;
+    apply.textContent = strings.apply;
+    list.replaceChildren();
+
+    const conflicts = result.chunks.flatMap((chunk) => (chunk.kind === 'conflict' ? [chunk] : []));
+    const choices: (ConflictChoice | null)[] = conflicts.map(() => null);
+    const editors: HTMLTextAreaElement[] = [];
+
+    const updateApply = (): void => {
+      apply.disabled = choices.some((choice) => choice === null);
+    };
+
+    conflicts.forEach((conflict, index) => {
+      const section = document.createElement('section');
+      section.className = 'merge-conflict';
+
+      const title = document.createElement('div');
+      title.className = 'merge-conflict-title';
+      title.textContent = `${strings.conflict} ${index + 1} / ${conflicts.length}`;
+
+      const versions = document.createElement('div');
+      versions.className = 'merge-conflict-versions';
+      versions.append(
+        createVersionColumn(strings.base, conflict.base, 'is-base'),
+        createVersionColumn(strings.local, conflict.local, 'is-local'),
+        createVersionColumn(strings.external, conflict.external, 'is-external')
+      );
+
+      const editor = document.createElement('textarea');
+      editor.className = 'merge-conflict-editor';
+      editor.value = conflict.local;
+      editor.spellcheck = false;
+      editor.hidden = true;
+      editor.setAttribute('aria-label', strings.editMerged);
+      editors.push(editor);
+
+      const actions = document.createElement('div');
+      actions.className = 'merge-conflict-actions';
+      const buttons = new Map<ConflictChoice, HTMLButtonElement>();
+      const select = (choice: ConflictChoice): void => {
+        choices[index] = choice;
+        for (const [key, button] of buttons) {
+          button.setAttribute('aria-pressed', String(key === choice));
+        }
+        editor.hidden = choice !== 'edit';
+        if (choice === 'edit') {
+          editor.focus();
+        }
+        updateApply();
+      };
+      const options: [ConflictChoice, string][] = [
+        ['local', strings.acceptLocal],
+        ['external', strings.acceptExternal],
+        ['edit', strings.editMerged],
+      ];
+      for (const [choice, label] of options) {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'merge-conflict-action';
+        button.textContent = label;
+        button.setAttribute('aria-pressed', 'false');
+        button.addEventListener('click', () => select(choice));
+        buttons.set(choice, button);
+        actions.append(button);
+      }
+
+      section.append(title, versions, actions, editor);
+      list.append(section);
+    });
+
+    applyHandler = () => {
+      if (choices.some((choice) => choice === null)) {
+        return;
+      }
+      const resolutions = conflicts.map((conflict, index) => {
+        const choice = choices[index];
+        return choice === 'local' ? conflict.local : choice === 'external' ? conflict.external : editors[index].value;
+      });
+      hide();
+      onApply(resolutions);
+    };
+
+    updateApply();
+    el.hidden = false;
+    list.querySelector<HTMLButtonElement>('.merge-conflict-action')?.focus();
+  };
+
+  return {
+    show,
+    hide,
+    isOpen: () => !el.hidden,
+    destroy: () => {
+      hide();
+      el.remove();
+    },
+  };
+};
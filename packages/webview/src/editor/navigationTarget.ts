@@ -0,0 +1,266 @@
+/**
+ * 役割: Host 起点の NavigationTarget を ProseMirror の selection / scroll に適用する
+ * 責務: Markdown source offset → ProseMirror position の対応付け、選択、reveal、flash
+ * 不変条件: target は受信ごとに 1 回だけ適用する。正本は host 側（Webview は逆算しない）
+ *
+ * 設計書参照: _docs/2026-03-31-vscode-standard-editor-gap-audit.md (Phase 1)
+ *
+ * offset → position の対応付け:
+ * 1. 対象行より前の Markdown をパースしてトップレベルブロック数を数え、対象ブロックを特定
+ *    - 対象行を含めてもブロック数が増えない場合は直前ブロックの続き（段落の 2 行目など）
+ * 2. ブロック内では、行頭の Markdown 記法（# / > / - / 1. 等）とインライン記法を除いた
+ *    可視テキストをブロックのテキストから検索し、列位置を合わせる
+ * 3. 見つからない場合はブロック先頭に置く（fallback として記録）
+ *
+ * undo / redo で変わった範囲の選択（selectMarkdownRange）も同じ対応付けを使う。
+ */
+
+import type { Editor } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Selection, TextSelection } from '@tiptap/pm/state';
+import type { NavigationRevealType, NavigationTarget } from '../protocol/types.js';
+import { parseMarkdown } from './markdownUtils.js';
+import { flashCurrentLine } from './currentLineHighlightExtension.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('NavigationTarget');
+
+const LINE_PREFIX_PATTERN = /^[ \t]*(?:>[ \t]?)*[ \t]*(?:#{1,6}[ \t]+|[-*+][ \t]+(?:\[[ xX]\][ \t]+)?|\d+[.)][ \t]+|\|[ \t]*)?/;
+const NEEDLE_LENGTH = 40;
+const SHORT_NEEDLE_LENGTH = 12;
+
+interface MappedPosition {
+  pos: number;
+  blockIndex: number;
+  fallback: boolean;
+}
+
+export interface NavigationApplyResult {
+  from: number;
+  to: number;
+  fallback: boolean;
+  revealApplied: boolean;
+  scrollBefore: number;
+  scrollAfter: number;
+}
+
+const stripInlineMarkup = (text: string): string => {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_~`]/g, '')
+    .replace(/\\(.)/g, '$1');
+};
+
+const countTopLevelBlocks = (editor: Editor, markdown: string): number | null => {
+  if (markdown.trim() === '') {
+    return 0;
+  }
+  const json = parseMarkdown(editor, markdown, { mode: 'navigationTarget' });
+  if (!json) {
+    return null;
+  }
+  return Array.isArray(json.content) ? json.content.length : 0;
+};
+
+const collectBlockText = (block: ProseMirrorNode, blockPos: number): { text: string; positions: number[] } => {
+  let text = '';
+  const positions: number[] = [];
+  const contentStart = blockPos + (block.isLeaf ? 0 : 1);
+  block.descendants((node, pos) => {
+    if (node.isText && node.text) {
+      for (let i = 0; i < node.text.length; i += 1) {
+        positions.push(contentStart + pos + i);
+      }
+      text += node.text;
+      return false;
+    }
+    if (node.isTextblock && text.length > 0) {
+      positions.push(contentStart + pos + 1);
+      text += '\n';
+    }
+    return true;
+  });
+  if (block.isTextblock && text.length === 0) {
+    positions.push(contentStart);
+  }
+  // 末尾位置（最終文字の直後）
+  const last = positions.length > 0 ? positions[positions.length - 1] : contentStart;
+  positions.push(text.length > 0 ? last + 1 : last);
+  return { text, positions };
+};
+
+const mapOffset = (editor: Editor, markdown: string, offset: number): MappedPosition | null => {
+  const doc = editor.state.doc;
+  if (doc.childCount === 0) {
+    return null;
+  }
+
+  const clamped = Math.max(0, Math.min(offset, markdown.length));
+  const lineStart = markdown.lastIndexOf('\n', clamped - 1) + 1;
+  const newlineIndex = markdown.indexOf('\n', clamped);
+  const lineEnd = newlineIndex === -1 ? markdown.length : newlineIndex;
+
+  const before = countTopLevelBlocks(editor, markdown.slice(0, lineStart));
+  const through = countTopLevelBlocks(editor, markdown.slice(0, lineEnd));
+  if (before === null || through === null) {
+    return null;
+  }
+  const rawIndex = through > before ? through - 1 : before - 1;
+  const blockIndex = Math.max(0, Math.min(rawIndex, doc.childCount - 1));
+
+  let blockPos = 0;
+  for (let i = 0; i < blockIndex; i += 1) {
+    blockPos += doc.child(i).nodeSize;
+  }
+  const block = doc.child(blockIndex);
+  const { text, positions } = collectBlockText(block, blockPos);
+  const fallbackPos = positions[0] ?? blockPos;
+
+  const lineText = markdown.slice(lineStart, lineEnd);
+  const contentStart = LINE_PREFIX_PATTERN.exec(lineText)?.[0].length ?? 0;
+  const visibleLine = stripInlineMarkup(lineText.slice(contentStart));
+  const column = clamped - lineStart;
+  const visibleColumn = stripInlineMarkup(lineText.slice(contentStart, Math.max(contentStart, column))).length;
+
+  if (visibleLine.trim() === '' || text.length === 0) {
+    return { pos: fallbackPos, blockIndex, fallback: visibleLine.trim() !== '' };
+  }
+
+  let index = text.indexOf(visibleLine.slice(0, NEEDLE_LENGTH));
+  if (index < 0) {
+    index = text.indexOf(visibleLine.slice(0, SHORT_NEEDLE_LENGTH));
+  }
+  if (index < 0) {
+    return { pos: fallbackPos, blockIndex, fallback: true };
+  }
+
+  const textOffset = Math.min(index + Math.min(visibleColumn, visibleLine.length), text.length);
+  return { pos: positions[textOffset] ?? fallbackPos, blockIndex, fallback: false };
+};
+
+const createSelection = (editor: Editor, from: number, to: number): Selection => {
+  const doc = editor.state.doc;
+  try {
+    const selection = TextSelection.create(doc, from, to);
+    if (selection.$from.parent.inlineContent) {
+      return selection;
+    }
+  } catch {
+    // fall through
+  }
+  return Selection.near(doc.resolve(from));
+};
+
+/**
+ * Markdown source の範囲を選択して表示する（undo / redo の各手順で変わった範囲）。
+ * 対応付けに失敗した場合は選択を変えない。
+ */
+export const selectMarkdownRange = (
+  editor: Editor,
+  markdown: string,
+  range: { start: number; end: number }
+): boolean => {
+  const start = mapOffset(editor, markdown, range.start);
+  const end = range.end === range.start ? start : mapOffset(editor, markdown, range.end);
+  if (!start || !end) {
+    log.warn('Markdown range mapping failed', { range });
+    return false;
+  }
+  const selection = createSelection(editor, Math.min(start.pos, end.pos), Math.max(start.pos, end.pos));
+  editor.view.dispatch(editor.state.tr.setSelection(selection).setMeta('addToHistory', false).scrollIntoView());
+  return true;
+};
+
+const reveal = (
+  editor: Editor,
+  scrollContainer: HTMLElement,
+  pos: number,
+  revealType: NavigationRevealType
+): boolean => {
+  let coords: { top: number; bottom: number };
+  try {
+    coords = editor.view.coordsAtPos(pos);
+  } catch (error) {
+    log.warn('coordsAtPos failed', { pos, error: String(error) });
+    return false;
+  }
+  const rect = scrollContainer.getBoundingClientRect();
+  const relativeTop = coords.top - rect.top;
+  const relativeBottom = coords.bottom - rect.top;
+  const outsideViewport = relativeTop < 0 || relativeBottom > rect.height;
+
+  if ((revealType === 'centerIfOutsideViewport' || revealType === 'nearTopIfOutsideViewport') && !outsideViewport) {
+    return false;
+  }
+
+  const lineHeight = Math.max(coords.bottom - coords.top, 1);
+  const anchor =
+    revealType === 'center' || revealType === 'centerIfOutsideViewport'
+      ? rect.height / 2 - lineHeight / 2
+      : Math.min(rect.height * 0.2, lineHeight * 5);
+  scrollContainer.scrollTop = Math.max(0, scrollContainer.scrollTop + relativeTop - anchor);
+  return true;
+};
+
+/**
+ * NavigationTarget を適用する（selection → reveal → flash）
+ * reveal は次フレームで行い、NodeView/画像のレイアウト確定後に座標を測る。
+ */
+export const applyNavigationTarget = (
+  editor: Editor,
+  scrollContainer: HTMLElement,
+  markdown: string,
+  target: NavigationTarget
+): Promise<NavigationApplyResult | null> => {
+  const start = mapOffset(editor, markdown, target.range.start);
+  const end =
+    target.range.end === target.range.start ? start : mapOffset(editor, markdown, target.range.end);
+  if (!start || !end) {
+    log.warn('Navigation target mapping failed', { seq: target.seq, range: target.range });
+    return Promise.resolve(null);
+  }
+
+  const from = Math.min(start.pos, end.pos);
+  const to = Math.max(start.pos, end.pos);
+  const fallback = start.fallback || end.fallback;
+  log.info('Navigation target mapped', {
+    seq: target.seq,
+    range: target.range,
+    from,
+    to,
+    startBlockIndex: start.blockIndex,
+    endBlockIndex: end.blockIndex,
+    fallback,
+  });
+
+  editor.view.dispatch(editor.state.tr.setSelection(createSelection(editor, from, to)).setMeta('addToHistory', false));
+  editor.view.focus();
+
+  return new Promise((resolve) => {
+    requestAnimationFrame(() => {
+      if (editor.isDestroyed) {
+        resolve(null);
+        return;
+      }
+      const scrollBefore = scrollContainer.scrollTop;
+      const revealApplied = reveal(editor, scrollContainer, editor.state.selection.from, target.revealType);
+      const scrollAfter = scrollContainer.scrollTop;
+      flashCurrentLine(editor, editor.state.selection.from, editor.state.selection.to);
+      log.info('Navigation target revealed', {
+        seq: target.seq,
+        revealType: target.revealType,
+        revealApplied,
+        scrollBefore,
+        scrollAfter,
+      });
+      resolve({
+        from: editor.state.selection.from,
+        to: editor.state.selection.to,
+        fallback,
+        revealApplied,
+        scrollBefore,
+        scrollAfter,
+      });
+    });
+  });
+};
@@ -0,0 +1,193 @@
+/**
+ * 役割: 同じ document を開いている他のパネル（peer）の選択と、peer の編集で変わったブロックを表示する
+ * 責務: host から届いた peer の選択を caret / 選択範囲の decoration にし、peer の docChanged で変わったトップレベルブロックを一時的に強調する
+ * 不変条件: 表示専用。doc は変更しない（meta のみのトランザクション、Undo 履歴に積まない）
+ *
+ * peer の選択:
+ * - position は peer の docVersion 時点のもの。ローカルの document と同じ version のときだけ置き直す
+ * - version が違う peer は、表示中なら前回の位置をローカルの変更で写像して残す（peer が新しい version で送り直すまで）
+ * - 色は colorIndex を PEER_COLOR_COUNT で剰余を取ったクラス（peer-color-N、styles.css）
+ *
+ * 変更ブロックの強調 (flashPeerChange):
+ * - 変更前の doc と現在の doc のトップレベルブロックを比較し（diffTopLevelBlocks）、変わったブロックに node decoration
+ * - FLASH_DURATION_MS 後に消す。後続の flash が始まっている場合はそちらに任せる
+ */
+
+import { Extension, type Editor } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey, type EditorState } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { PeerSelection } from '../protocol/types.js';
+import { diffTopLevelBlocks } from './blockPatch.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('PeerCursors');
+
+/** styles.css の peer-color-N の数 */
+const PEER_COLOR_COUNT = 6;
+const FLASH_DURATION_MS = 1200;
+
+let flashSequence = 0;
+
+interface PeerMarker {
+  colorIndex: number;
+  anchor: number;
+  head: number;
+}
+
+interface PeerCursorsState {
+  peers: Map<string, PeerMarker>;
+  flash: DecorationSet;
+}
+
+type PeerCursorsMeta = { peers: Map<string, PeerMarker> } | { flash: DecorationSet };
+
+const peerCursorsKey = new PluginKey<PeerCursorsState>('peerCursors');
+
+const colorClass = (colorIndex: number): string => `peer-color-${Math.abs(colorIndex) % PEER_COLOR_COUNT}`;
+
+const clampPos = (doc: ProseMirrorNode, pos: number): number => Math.max(0, Math.min(pos, doc.content.size));
+
+const buildDecorations = (state: EditorState, pluginState: PeerCursorsState): DecorationSet => {
+  const doc = state.doc;
+  const decorations: Decoration[] = [];
+  for (const [peerId, marker] of pluginState.peers) {
+    const className = colorClass(marker.colorIndex);
+    const from = Math.min(marker.anchor, marker.head);
+    const to = Math.max(marker.anchor, marker.head);
+    if (from < to) {
+      decorations.push(Decoration.inline(from, to, { class: `peer-selection ${className}` }));
+    }
+    decorations.push(
+      Decoration.widget(
+        marker.head,
+        () => {
+          const caret = document.createElement('span');
+          caret.className = `peer-caret ${className}`;
+          caret.setAttribute('aria-hidden', 'true');
+          return caret;
+        },
+        { key: `peer-caret-${peerId}-${marker.colorIndex}`, side: -1, ignoreSelection: true }
+      )
+    );
+  }
+  return pluginState.flash.add(doc, decorations);
+};
+
+/**
+ * host から届いた peer の選択を表示に反映する（docVersion: ローカルの document の version）。
+ * 届かなかった peer（閉じた / 選択を送っていない）の表示は消す。
+ */
+export const setPeerSelections = (editor: Editor, peers: PeerSelection[], docVersion: number): void => {
+  if (editor.isDestroyed) {
+    return;
+  }
+  const current = peerCursorsKey.getState(editor.state);
+  const doc = editor.state.doc;
+  const next = new Map<string, PeerMarker>();
+  let stale = 0;
+  for (const peer of peers) {
+    if (peer.docVersion === docVersion) {
+      next.set(peer.peerId, {
+        colorIndex: peer.colorIndex,
+        anchor: clampPos(doc, peer.anchor),
+        head: clampPos(doc, peer.head),
+      });
+      continue;
+    }
+    stale += 1;
+    const previous = current?.peers.get(peer.peerId);
+    if (previous) {
+      next.set(peer.peerId, previous);
+    }
+  }
+  log.debug('Peer selections applied', { peerCount: peers.length, shown: next.size, stale, docVersion });
+  const meta: PeerCursorsMeta = { peers: next };
+  editor.view.dispatch(editor.state.tr.setMeta(peerCursorsKey, meta).setMeta('addToHistory', false));
+};
+
+/**
+ * peer の編集を適用した後に、before（適用前の doc）から変わったトップレベルブロックを一時的に強調する
+ */
+export const flashPeerChange = (editor: Editor, before: ProseMirrorNode, colorIndex: number | null): void => {
+  if (editor.isDestroyed || before === editor.state.doc) {
+    return;
+  }
+  const doc = editor.state.doc;
+  const offsets: number[] = [];
+  let offset = 0;
+  doc.forEach((child) => {
+    offsets.push(offset);
+    offset += child.nodeSize;
+  });
+
+  const className = colorIndex === null ? 'peer-change-flash' : `peer-change-flash ${colorClass(colorIndex)}`;
+  const decorations: Decoration[] = [];
+  for (const hunk of diffTopLevelBlocks(before, doc)) {
+    for (let index = hunk.newFrom; index < hunk.newTo; index += 1) {
+      decorations.push(Decoration.node(offsets[index], offsets[index] + doc.child(index).nodeSize, { class: className }));
+    }
+  }
+  if (decorations.length === 0) {
+    return;
+  }
+
+  flashSequence += 1;
+  const sequence = flashSequence;
+  const show: PeerCursorsMeta = { flash: DecorationSet.create(doc, decorations) };
+  editor.view.dispatch(editor.state.tr.setMeta(peerCursorsKey, show).setMeta('addToHistory', false));
+  window.setTimeout(() => {
+    if (editor.isDestroyed || sequence !== flashSequence) {
+      return;
+    }
+    const clear: PeerCursorsMeta = { flash: DecorationSet.empty };
+    editor.view.dispatch(editor.state.tr.setMeta(peerCursorsKey, clear).setMeta('addToHistory', false));
+  }, FLASH_DURATION_MS);
+};
+
+export const PeerCursors = Extension.create({
+  name: 'peerCursors',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<PeerCursorsState>({
+        key: peerCursorsKey,
+        state: {
+          init() {
+            return { peers: new Map(), flash: DecorationSet.empty };
+          },
+          apply(tr, value) {
+            const meta = tr.getMeta(peerCursorsKey) as PeerCursorsMeta | undefined;
+            let next = value;
+            if (meta && 'peers' in meta) {
+              next = { ...next, peers: meta.peers };
+            } else if (meta) {
+              next = { ...next, flash: meta.flash };
+            }
+            if (!tr.docChanged || (meta && 'peers' in meta)) {
+              return next;
+            }
+            const peers = new Map<string, PeerMarker>();
+            for (const [peerId, marker] of next.peers) {
+              peers.set(peerId, {
+                colorIndex: marker.colorIndex,
+                anchor: tr.mapping.map(marker.anchor),
+                head: tr.mapping.map(marker.head),
+              });
+            }
+            return { peers, flash: next.flash.map(tr.mapping, tr.doc) };
+          },
+        },
+        props: {
+          decorations(state) {
+            const pluginState = peerCursorsKey.getState(state);
+            if (!pluginState || (pluginState.peers.size === 0 && pluginState.flash === DecorationSet.empty)) {
+              return DecorationSet.empty;
+            }
+            return buildDecorations(state, pluginState);
+          },
+        },
+      }),
+    ];
+  },
+});
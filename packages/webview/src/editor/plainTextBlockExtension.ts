@@ -12,6 +12,7 @@ import { notifyHostError } from './hostNotifier.js';
 import { parseMarkdown } from './markdownUtils.js';
 import { t } from './i18n.js';
 import { applyNodeViewHandleState, createNodeViewHandleContainer, resolveBlockHandleEligibility } from './blockHandlesExtension.js';
+import { isListItemType } from './listTypes.js';
 import { createLogger } from '../logger.js';
 
 const MODULE = 'PlainTextBlock';
@@ -175,7 +176,7 @@ export const PlainTextBlock = Node.create<PlainTextBlockOptions>({
         }
 
         const $pos = editor.state.doc.resolve(pos);
-        const isInListItem = $pos.parent.type.name === 'listItem';
+        const isInListItem = isListItemType($pos.parent.type.name);
 
         if (isInListItem) {
           const content = ensureListItemContent(parsed.content);
@@ -0,0 +1,321 @@
+/**
+ * 役割: git HEAD との差分をトップレベルブロックの gutter バーとして表示する
+ * 責務: 行単位の quick diff ハンクをブロックに割り当て、node decoration とホバー表示を提供する
+ * 不変条件: 表示専用。doc は変更しない（meta のみのトランザクション、Undo 履歴に積まない）
+ *
+ * ハンク → ブロックの割り当て:
+ * - added: ブロックの行範囲をすべて覆う場合は added、一部だけなら modified
+ * - modified: 行範囲が重なるブロックを modified
+ * - deleted: ブロック内部の削除は modified。ブロック間の削除は直後のブロックの上端、
+ *   末尾の削除は最後のブロックの下端に deleted マーカー
+ * - 1 ブロックに複数種類が重なる場合は modified
+ *
+ * バーは block handle の右隣（gutter 内）に ::after で描画し、
+ * ホバーは mousemove でバーの領域を判定して変更前の Markdown を表示する。
+ */
+
+import { Extension, type Editor } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet, type EditorView } from '@tiptap/pm/view';
+import type { QuickDiffHunk, QuickDiffHunkKind } from '../protocol/types.js';
+import { computeTopLevelLineSpans, type TopLevelLineSpan } from './sourceSpans.js';
+import { t } from './i18n.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('QuickDiff');
+
+const quickDiffKey = new PluginKey<DecorationSet>('quickDiff');
+
+/** バー領域の左右に足すホバー判定の余白（px） */
+const HOVER_SLACK_PX = 4;
+/** ホバーに表示する変更前 Markdown の最大文字数 */
+const MAX_HOVER_CHARS = 2000;
+
+type DeletedPlacement = 'above' | 'below';
+
+interface BlockMarker {
+  index: number;
+  kind: QuickDiffHunkKind;
+  deletedPlacement: DeletedPlacement | null;
+  originalText: string;
+}
+
+interface MarkerAccumulator {
+  kinds: Set<QuickDiffHunkKind>;
+  deletedPlacement: DeletedPlacement | null;
+  originalTexts: string[];
+}
+
+export interface QuickDiffApplyResult {
+  markerCount: number;
+  hunkCount: number;
+  unmappedHunks: number;
+}
+
+const collectMarkers = (spans: TopLevelLineSpan[], hunks: QuickDiffHunk[]): { markers: BlockMarker[]; unmapped: number } => {
+  const byIndex = new Map<number, MarkerAccumulator>();
+  let unmapped = 0;
+
+  const add = (index: number, kind: QuickDiffHunkKind, originalText: string, placement: DeletedPlacement | null = null): void => {
+    let entry = byIndex.get(index);
+    if (!entry) {
+      entry = { kinds: new Set(), deletedPlacement: null, originalTexts: [] };
+      byIndex.set(index, entry);
+    }
+    entry.kinds.add(kind);
+    if (placement) {
+      entry.deletedPlacement = placement;
+    }
+    if (originalText !== '') {
+      entry.originalTexts.push(originalText);
+    }
+  };
+
+  for (const hunk of hunks) {
+    if (hunk.lineCount === 0) {
+      const inside = spans.findIndex((span) => span.startLine < hunk.startLine && hunk.startLine < span.endLine);
+      if (inside !== -1) {
+        add(inside, 'modified', hunk.originalText);
+        continue;
+      }
+      const next = spans.findIndex((span) => span.startLine >= hunk.startLine);
+      if (next !== -1) {
+        add(next, 'deleted', hunk.originalText, 'above');
+      } else if (spans.length > 0) {
+        add(spans.length - 1, 'deleted', hunk.originalText, 'below');
+      } else {
+        unmapped += 1;
+      }
+      continue;
+    }
+
+    const hunkEnd = hunk.startLine + hunk.lineCount;
+    let mapped = false;
+    spans.forEach((span, index) => {
+      if (span.startLine >= hunkEnd || span.endLine <= hunk.startLine) {
+        return;
+      }
+      mapped = true;
+      const covers = hunk.startLine <= span.startLine && span.endLine <= hunkEnd;
+      add(index, hunk.kind === 'added' && covers ? 'added' : 'modified', hunk.originalText);
+    });
+    if (!mapped) {
+      // ブロック間の空行だけの変更はブロック表示に影響しない
+      unmapped += 1;
+    }
+  }
+
+  const markers: BlockMarker[] = [];
+  for (const [index, entry] of byIndex) {
+    const kind: QuickDiffHunkKind = entry.kinds.size === 1 ? Array.from(entry.kinds)[0] : 'modified';
+    markers.push({
+      index,
+      kind,
+      deletedPlacement: kind === 'deleted' ? entry.deletedPlacement : null,
+      originalText: entry.originalTexts.join('\n'),
+    });
+  }
+  markers.sort((a, b) => a.index - b.index);
+  return { markers, unmapped };
+};
+
+const buildDecorations = (editor: Editor, markers: BlockMarker[]): DecorationSet => {
+  const doc = editor.state.doc;
+  const offsets: number[] = [];
+  let offset = 0;
+  doc.forEach((child) => {
+    offsets.push(offset);
+    offset += child.nodeSize;
+  });
+
+  const decorations = markers.map((marker) => {
+    const from = offsets[marker.index];
+    const to = from + doc.child(marker.index).nodeSize;
+    const classes = ['has-quick-diff', `quick-diff-${marker.kind}`];
+    if (marker.deletedPlacement === 'below') {
+      classes.push('quick-diff-deleted-below');
+    }
+    return Decoration.node(
+      from,
+      to,
+      { class: classes.join(' ') },
+      { quickDiff: { kind: marker.kind, originalText: marker.originalText } }
+    );
+  });
+  return DecorationSet.create(doc, decorations);
+};
+
+/**
+ * host から受け取った quick diff ハンクを表示に反映する。
+ * available=false またはブロック対応が取れない場合はマーカーを消す。
+ */
+export const applyQuickDiff = (
+  editor: Editor,
+  markdown: string,
+  hunks: QuickDiffHunk[],
+  available: boolean
+): QuickDiffApplyResult | null => {
+  if (editor.isDestroyed) {
+    return null;
+  }
+  if (!available || hunks.length === 0) {
+    editor.view.dispatch(
+      editor.state.tr.setMeta(quickDiffKey, DecorationSet.empty).setMeta('addToHistory', false)
+    );
+    return { markerCount: 0, hunkCount: hunks.length, unmappedHunks: 0 };
+  }
+
+  const spans = computeTopLevelLineSpans(editor, markdown);
+  if (!spans) {
+    log.warn('Quick diff block mapping unavailable', { hunkCount: hunks.length });
+    editor.view.dispatch(
+      editor.state.tr.setMeta(quickDiffKey, DecorationSet.empty).setMeta('addToHistory', false)
+    );
+    return null;
+  }
+
+  const { markers, unmapped } = collectMarkers(spans, hunks);
+  editor.view.dispatch(
+    editor.state.tr.setMeta(quickDiffKey, buildDecorations(editor, markers)).setMeta('addToHistory', false)
+  );
+  return { markerCount: markers.length, hunkCount: hunks.length, unmappedHunks: unmapped };
+};
+
+const findTopLevelElement = (view: EditorView, target: EventTarget | null): HTMLElement | null => {
+  let element = target instanceof Element ? target : null;
+  while (element && element.parentElement !== view.dom) {
+    element = element.parentElement;
+  }
+  return element instanceof HTMLElement ? element : null;
+};
+
+const resolveMarkerAt = (
+  view: EditorView,
+  element: HTMLElement
+): { kind: QuickDiffHunkKind; originalText: string } | null => {
+  const decorations = quickDiffKey.getState(view.state);
+  if (!decorations) {
+    return null;
+  }
+  const decoration = decorations.find().find((candidate) => view.nodeDOM(candidate.from) === element);
+  const spec = decoration?.spec as { quickDiff?: { kind: QuickDiffHunkKind; originalText: string } } | undefined;
+  return spec?.quickDiff ?? null;
+};
+
+const isOverBar = (element: HTMLElement, clientX: number): boolean => {
+  const bar = window.getComputedStyle(element, '::after');
+  const left = Number.parseFloat(bar.left);
+  const width = Number.parseFloat(bar.width);
+  if (!Number.isFinite(left) || !Number.isFinite(width)) {
+    return false;
+  }
+  const x = clientX - element.getBoundingClientRect().left;
+  return x >= left - HOVER_SLACK_PX && x <= left + width + HOVER_SLACK_PX;
+};
+
+const createHoverElement = (): HTMLElement => {
+  const hover = document.createElement('div');
+  hover.className = 'quick-diff-hover';
+  hover.setAttribute('role', 'tooltip');
+  hover.hidden = true;
+  document.body.appendChild(hover);
+  return hover;
+};
+
+const renderHover = (hover: HTMLElement, kind: QuickDiffHunkKind, originalText: string): void => {
+  hover.replaceChildren();
+  const title = document.createElement('div');
+  title.className = `quick-diff-hover-title is-${kind}`;
+  title.textContent = t().quickDiff[kind];
+  hover.appendChild(title);
+  if (originalText !== '') {
+    const pre = document.createElement('pre');
+    pre.className = 'quick-diff-hover-original';
+    pre.textContent =
+      originalText.length > MAX_HOVER_CHARS ? `${originalText.slice(0, MAX_HOVER_CHARS)}\n…` : originalText;
+    hover.appendChild(pre);
+  }
+};
+
+export const QuickDiff = Extension.create({
+  name: 'quickDiff',
+
+  addProseMirrorPlugins() {
+    let hover: HTMLElement | null = null;
+    let hoveredElement: HTMLElement | null = null;
+
+    const hideHover = (): void => {
+      hoveredElement = null;
+      if (hover) {
+        hover.hidden = true;
+      }
+    };
+
+    return [
+      new Plugin<DecorationSet>({
+        key: quickDiffKey,
+        state: {
+          init() {
+            return DecorationSet.empty;
+          },
+          apply(tr, value) {
+            const next = tr.getMeta(quickDiffKey) as DecorationSet | undefined;
+            if (next) {
+              return next;
+            }
+            return tr.docChanged ? value.map(tr.mapping, tr.doc) : value;
+          },
+        },
+        props: {
+          decorations(state) {
+            return quickDiffKey.getState(state) ?? DecorationSet.empty;
+          },
+          handleDOMEvents: {
+            mousemove(view, event) {
+              const element = findTopLevelElement(view, event.target);
+              if (!element || !element.classList.contains('has-quick-diff') || !isOverBar(element, event.clientX)) {
+                if (hoveredElement) {
+                  hideHover();
+                }
+                return false;
+              }
+              if (element !== hoveredElement || !hover) {
+                const marker = resolveMarkerAt(view, element);
+                if (!marker) {
+                  hideHover();
+                  return false;
+                }
+                hover ??= createHoverElement();
+                renderHover(hover, marker.kind, marker.originalText);
+              }
+              const rect = element.getBoundingClientRect();
+              const barLeft = Number.parseFloat(window.getComputedStyle(element, '::after').left) || 0;
+              hover.style.left = `${Math.round(rect.left + barLeft + 12)}px`;
+              hover.style.top = `${Math.round(Math.max(rect.top, 4))}px`;
+              hover.hidden = false;
+              hoveredElement = element;
+              return false;
+            },
+            mouseleave() {
+              hideHover();
+              return false;
+            },
+            wheel() {
+              hideHover();
+              return false;
+            },
+          },
+        },
+        view() {
+          return {
+            destroy() {
+              hover?.remove();
+              hover = null;
+              hoveredElement = null;
+            },
+          };
+        },
+      }),
+    ];
+  },
+});
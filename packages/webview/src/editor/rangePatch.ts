@@ -0,0 +1,265 @@
+/**
+ * 役割: docChanged の Replace[] を、変わったトップレベルブロックの範囲だけ parse し直してエディタに適用する
+ * 責務: Replace[] の offset から変わった範囲を求め、source snapshot のブロック範囲（sourceSpans.ts で求めたもの）で
+ *       トップレベルブロックの境界まで広げ、その範囲の Markdown だけを parse して置換する。適用後の source snapshot を組み立てる
+ * 不変条件: 範囲の外のブロックはノードも source の記録もそのまま。範囲を決められない場合は何も変えずに理由を返す
+ *           （呼び出し側は全文の parse とブロック差分にフォールバックする）
+ *
+ * 範囲の決め方:
+ * - Replace[] は同時適用（すべての offset が適用前の Markdown 基準。詳細設計 9.3）。start の最小値までが共通の先頭、
+ *   end の最大値より後ろが共通の末尾
+ * - 共通の先頭 / 末尾が snapshot を連結した Markdown と新しい Markdown で一致することを確かめる
+ * - 変更の手前のブロックを 1 つ含める（空行を消して直前の段落に続いた場合など、直前のトークンの終わりが変わるため）
+ * - 範囲は次のブロックの先頭まで（間の空行を含む）。新しい Markdown の字句解析がそこでトークンを始めなければ
+ *   （閉じていないコードフェンス、同じ種類のリストの連結など）範囲を 1 ブロックずつ広げ、MAX_EXPANSIONS を超えたら諦める
+ *
+ * 全文にフォールバックする場合:
+ * - snapshot が無い / doc のトップレベルノードと対応しない（ローカル編集の後など）
+ * - 範囲と前後のブロックに参照定義・脚注の定義がある（定義が変わると範囲の外のリンク・脚注も変わる）
+ * - 範囲に、範囲の外の参照定義を使う参照（`[text][label]` など）がある（範囲だけを parse するとリンクが解決されない）
+ * - Replace[] が重なる / 適用前の Markdown の外を指す
+ * - 文書の途中の範囲が frontmatter として parse された（frontmatter は文書の先頭のトークンだけ）
+ * - parse / スキーマ検証 / source 範囲の対応付けに失敗した
+ *
+ * 例: "# A\n\nb\n\nc\n" の "b" を "B" にする { start: 5, end: 6, text: "B" }
+ * → 範囲は "# A"（手前のブロック）から "c" の手前まで。"c" のノードはそのまま
+ */
+
+import type { Editor } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import type { Replace } from '../protocol/types.js';
+import { applyBlocksAsPatch, type BlockPatchResult } from './blockPatch.js';
+import { normalizeLineEndings } from './lineEndings.js';
+import { getMarkdownManager, parseMarkdown } from './markdownUtils.js';
+import { computeSourceLayoutForNodes } from './sourceSpans.js';
+import {
+  buildSourceSnapshot,
+  getSourceBlockSpans,
+  type SourceBlockSpan,
+  type SourceSnapshot,
+} from './sourcePreservingSerializer.js';
+
+/** 次のブロックがトークンの先頭にならない場合に範囲を広げる回数の上限 */
+const MAX_EXPANSIONS = 2;
+/** 参照定義・脚注の定義（[label]: / [^label]:） */
+const DEFINITION_RE = /^ {0,3}\[[^\]\n]+\]:/m;
+/** 参照定義のラベル（脚注の定義は参照の parse に要らないので除く） */
+const LINK_DEFINITION_LABEL_RE = /^ {0,3}\[([^\]\n^][^\]\n]*)\]:/gm;
+
+export type RangePatchOutcome =
+  | {
+      applied: true;
+      result: BlockPatchResult;
+      /** 適用後の snapshot。組み立てられなかった場合は null（呼び出し側で記録し直す） */
+      snapshot: SourceSnapshot | null;
+      parsedBlocks: number;
+      parsedLength: number;
+    }
+  | { applied: false; reason: string };
+
+const skip = (reason: string): RangePatchOutcome => ({ applied: false, reason });
+
+/**
+ * Replace[] の前後で変わっていない先頭 / 末尾の長さ（text は適用後。改行は LF に揃えた長さで返す）。
+ * Replace[] は同時適用（すべての start / end が適用前の text の offset。詳細設計 9.3）で、重なる・範囲外の変更があれば null
+ */
+const unchangedEnds = (changes: Replace[], text: string): { prefix: number; suffix: number } | null => {
+  const lengthBefore = changes.reduce((length, change) => length - change.text.length + (change.end - change.start), text.length);
+  const sorted = [...changes].sort((a, b) => a.start - b.start);
+  let lastEnd = 0;
+  for (const change of sorted) {
+    if (change.start < lastEnd || change.end < change.start || change.end > lengthBefore) {
+      return null;
+    }
+    lastEnd = change.end;
+  }
+  let prefix = sorted.length > 0 ? sorted[0].start : text.length;
+  let suffix = lengthBefore - lastEnd;
+  suffix = Math.max(0, Math.min(suffix, text.length - prefix, lengthBefore - prefix));
+  if (!text.includes('\r')) {
+    return { prefix, suffix };
+  }
+  // CRLF の間で切らない（LF に揃えた長さがずれないように、手前 / 後ろに 1 文字ずらす）
+  if (prefix > 0 && text[prefix - 1] === '\r') {
+    prefix -= 1;
+  }
+  if (suffix > 0 && text[text.length - suffix] === '\n' && text[text.length - suffix - 1] === '\r') {
+    suffix -= 1;
+  }
+  return {
+    prefix: normalizeLineEndings(text.slice(0, prefix)).length,
+    suffix: normalizeLineEndings(text.slice(text.length - suffix)).length,
+  };
+};
+
+/** text の字句解析で position からトークン（空行以外）が始まるか */
+const startsTokenAt = (editor: Editor, text: string, position: number): boolean => {
+  const lexer = getMarkdownManager(editor)?.instance;
+  if (!lexer) {
+    return false;
+  }
+  let offset = 0;
+  for (const token of lexer.lexer(text)) {
+    const raw = token.raw ?? '';
+    const at = text.indexOf(raw, offset);
+    if (at === -1 || at > position) {
+      return false;
+    }
+    if (at === position && token.type !== 'space' && raw.trim() !== '') {
+      return true;
+    }
+    offset = at + raw.length;
+    if (offset > position) {
+      return false;
+    }
+  }
+  return false;
+};
+
+const normalizeLabel = (label: string): string => label.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/** markdown の参照定義のラベルが region に `[label]` として出てくるか（`[text][label]` / `[label][]` / `[label]`） */
+const usesLinkDefinitions = (markdown: string, region: string): boolean => {
+  const normalizedRegion = region.replace(/\s+/g, ' ').toLowerCase();
+  for (const match of markdown.matchAll(LINK_DEFINITION_LABEL_RE)) {
+    if (normalizedRegion.includes(`[${normalizeLabel(match[1])}]`)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+const parseNodes = (editor: Editor, markdown: string): ProseMirrorNode[] | null => {
+  const json = parseMarkdown(editor, markdown, { mode: 'rangePatch' });
+  if (!json) {
+    return null;
+  }
+  try {
+    const doc = editor.schema.nodeFromJSON(json);
+    doc.check();
+    const nodes: ProseMirrorNode[] = [];
+    doc.forEach((child) => {
+      nodes.push(child);
+    });
+    return nodes;
+  } catch {
+    return null;
+  }
+};
+
+const countNodes = (spans: SourceBlockSpan[], end: number): number =>
+  spans.slice(0, end).reduce((count, span) => count + span.nodes.length, 0);
+
+/**
+ * changes（docChanged の Replace[]。offset は適用前の Markdown 基準、markdown は適用後の shadowText）を、
+ * 変わったブロックの範囲だけ parse し直して適用する。
+ */
+export const applyReplacesAsRangePatch = (
+  editor: Editor,
+  snapshot: SourceSnapshot | null,
+  changes: Replace[],
+  markdown: string
+): RangePatchOutcome => {
+  if (!snapshot) {
+    return skip('noSnapshot');
+  }
+  const current = getSourceBlockSpans(snapshot, editor.state.doc);
+  if (!current) {
+    return skip('staleSnapshot');
+  }
+  const previous = current.markdown;
+  const next = normalizeLineEndings(markdown);
+
+  const ends = unchangedEnds(changes, markdown);
+  if (!ends) {
+    return skip('changes');
+  }
+  const { prefix, suffix } = ends;
+  if (
+    prefix + suffix > Math.min(previous.length, next.length) ||
+    previous.slice(0, prefix) !== next.slice(0, prefix) ||
+    previous.slice(previous.length - suffix) !== next.slice(next.length - suffix)
+  ) {
+    return skip('staleSnapshot');
+  }
+
+  const spans = current.spans;
+  const delta = next.length - previous.length;
+  const changedTo = previous.length - suffix;
+  const firstTouched = spans.findIndex((span) => span.to >= prefix);
+  const startBlock = Math.max((firstTouched === -1 ? spans.length : firstTouched) - 1, 0);
+  let endBlock = startBlock;
+  while (endBlock + 1 < spans.length && spans[endBlock + 1].from <= changedTo) {
+    endBlock += 1;
+  }
+
+  // 範囲の直後のブロックが新しい Markdown でもトークンの先頭になるところまで広げる
+  for (let expansions = 0; endBlock + 1 < spans.length; expansions += 1) {
+    const regionStart = startBlock === 0 ? 0 : spans[startBlock].from;
+    const following = spans[endBlock + 1];
+    if (startsTokenAt(editor, next.slice(regionStart, following.to + delta), following.from + delta - regionStart)) {
+      break;
+    }
+    if (expansions >= MAX_EXPANSIONS) {
+      return skip('boundary');
+    }
+    endBlock += 1;
+  }
+
+  const regionFrom = startBlock === 0 ? 0 : spans[startBlock].from;
+  const regionTo = (endBlock + 1 < spans.length ? spans[endBlock + 1].from : previous.length) + delta;
+  const regionText = next.slice(regionFrom, regionTo);
+  // 範囲と前後のブロックに定義があれば、変更で定義が増減・変化しうる（範囲の外のリンクが変わる）
+  const windowFrom = startBlock > 0 ? spans[startBlock - 1].from : 0;
+  const windowTo = endBlock + 2 < spans.length ? spans[endBlock + 2].from : previous.length;
+  if (DEFINITION_RE.test(previous.slice(windowFrom, windowTo)) || DEFINITION_RE.test(next.slice(windowFrom, windowTo + delta))) {
+    return skip('definitions');
+  }
+  // 範囲の外の参照定義を使う参照があると、範囲だけの parse ではリンクにならない
+  if (usesLinkDefinitions(next, regionText)) {
+    return skip('references');
+  }
+  const nodes = parseNodes(editor, regionText);
+  if (!nodes) {
+    return skip('parse');
+  }
+  if (regionFrom > 0 && nodes[0]?.type.name === 'frontmatterBlock') {
+    return skip('frontmatter');
+  }
+  const layout = computeSourceLayoutForNodes(editor, regionText, nodes);
+  if (!layout) {
+    return skip('layout');
+  }
+
+  const childFrom = countNodes(spans, startBlock);
+  const childTo = countNodes(spans, endBlock + 1);
+  const result = applyBlocksAsPatch(editor, childFrom, childTo, nodes);
+
+  // 範囲のブロックは適用後の doc のノード（変わらなかったノードは元のまま残る）で記録し直す
+  const doc = editor.state.doc;
+  const rebuilt: SourceBlockSpan[] = spans.slice(0, startBlock);
+  let childIndex = childFrom;
+  for (const group of layout.groups) {
+    const groupNodes: ProseMirrorNode[] = [];
+    for (const type of group.nodeTypes) {
+      const child = childIndex < doc.childCount ? doc.child(childIndex) : null;
+      if (child?.type.name !== type) {
+        return { applied: true, result, snapshot: null, parsedBlocks: nodes.length, parsedLength: regionText.length };
+      }
+      groupNodes.push(child);
+      childIndex += 1;
+    }
+    rebuilt.push({ from: regionFrom + group.from, to: regionFrom + group.to, nodes: groupNodes });
+  }
+  for (const span of spans.slice(endBlock + 1)) {
+    rebuilt.push({ from: span.from + delta, to: span.to + delta, nodes: span.nodes });
+  }
+  const total = rebuilt.reduce((count, span) => count + span.nodes.length, 0);
+  return {
+    applied: true,
+    result,
+    snapshot: total === doc.childCount ? buildSourceSnapshot(next, rebuilt) : null,
+    parsedBlocks: nodes.length,
+    parsedLength: regionText.length,
+  };
+};
@@ -249,6 +249,7 @@ export const RawBlock = Node.create<RawBlockOptions>({
         getSource: () => latestNode.textContent,
         padded: true,
         initialAvailable: String(node.attrs?.kind || 'raw') === 'html',
+        viewState: { nodeType: 'rawBlock', getPos: () => resolvePos() ?? undefined },
       });
 
       log.info('NodeView created (contentDOM)', { 
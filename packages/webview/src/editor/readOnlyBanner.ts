@@ -0,0 +1,44 @@
+/**
+ * 役割: 読み取り専用で開いていることをエディタ上部のバナーで知らせる
+ * 責務: init の readOnly（git のリビジョン / 書き込めないファイルシステム / Restricted Mode）に応じた理由を表示する
+ * 不変条件: 表示専用。編集できるかは init の readOnly（SyncClient）が正本で、バナーは状態を変えない
+ */
+
+import type { ReadOnlyReason } from '../protocol/types.js';
+import { t } from './i18n.js';
+
+export interface ReadOnlyBanner {
+  /** reason が undefined なら隠す（次の init で編集できるようになった場合） */
+  update: (reason: ReadOnlyReason | undefined) => void;
+  destroy: () => void;
+}
+
+export const createReadOnlyBanner = (container: HTMLElement, before: Node | null): ReadOnlyBanner => {
+  const el = document.createElement('div');
+  el.className = 'read-only-banner';
+  el.setAttribute('role', 'status');
+  el.hidden = true;
+
+  const icon = document.createElement('span');
+  icon.className = 'codicon codicon-lock';
+  icon.setAttribute('aria-hidden', 'true');
+  const message = document.createElement('span');
+  message.className = 'read-only-banner-message';
+
+  el.append(icon, message);
+  container.insertBefore(el, before);
+
+  return {
+    update: (reason) => {
+      if (!reason) {
+        el.hidden = true;
+        return;
+      }
+      message.textContent = t().readOnlyBanner[reason];
+      el.hidden = false;
+    },
+    destroy: () => {
+      el.remove();
+    },
+  };
+};
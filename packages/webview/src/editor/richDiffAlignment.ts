@@ -0,0 +1,250 @@
+/**
+ * 役割: リッチ差分ビューの 2 つの document のトップレベルブロックの対応と、ブロック内の単語単位の差分
+ * 責務: 変わらないブロック・変わったブロックの組・削除 / 追加されたブロックを表示順の行（RichDiffRow）として返し、
+ *       変わったブロックの組ではテキストの差分の範囲（textContent の offset）を返す
+ * 不変条件: 表示専用。document を変えない。行は両側のブロックをそれぞれ先頭から順に 1 度ずつ含む
+ *
+ * 方針:
+ * - 変わらないブロックは blockPatch と同じ対応（node.eq の先頭 / 末尾一致 + LCS。diffTopLevelBlocks）
+ * - 対応の取れなかった範囲（hunk）の中では、同じノード型のブロックを LCS で組にして modified にする。
+ *   テキストがほとんど一致しない組（MODIFIED_SIMILARITY_MIN 未満）は組にせず deleted / inserted にする
+ * - ブロック内の差分は diff-match-patch を単語（CJK は 1 文字）を 1 文字に置き換えた列で取る（単語の途中で切らない）
+ */
+
+import DiffMatchPatch from 'diff-match-patch';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { diffTopLevelBlocks } from './blockPatch.js';
+
+const dmp = new DiffMatchPatch();
+
+/** ブロック内の差分の時間予算（秒）。超えた場合は diff-match-patch がそこまでの結果を返す */
+const INLINE_DIFF_TIMEOUT_S = 0.5;
+
+/** hunk 内でブロックを組にする LCS のセル数上限（超過時は組にしない） */
+const MAX_PAIR_CELLS = 2_500;
+
+/** modified として組にするテキストの一致率の下限（一致した文字数 × 2 / 両側の文字数） */
+const MODIFIED_SIMILARITY_MIN = 0.3;
+
+/** CJK は 1 文字、それ以外は英数字の連続・空白の連続・その他の 1 文字を単語とする */
+const WORD_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{N}_]+|\s+|./gsu;
+
+/** 単語に割り当てる文字（私用領域 U+E000〜U+F8FF）の数。単語の種類が超える場合は文字単位で比較する */
+const MAX_WORD_CODES = 0x1900;
+
+export type RichDiffRowKind = 'equal' | 'modified' | 'deleted' | 'inserted';
+
+/** original / modified はトップレベルの子の index（その側にブロックが無い行は null） */
+export interface RichDiffRow {
+  kind: RichDiffRowKind;
+  original: number | null;
+  modified: number | null;
+}
+
+/** textContent の offset の範囲（to を含まない） */
+export interface TextRange {
+  from: number;
+  to: number;
+}
+
+export interface InlineDiff {
+  /** original で削除されたテキスト */
+  original: TextRange[];
+  /** modified で追加されたテキスト */
+  modified: TextRange[];
+  /** 一致した文字数 × 2 / 両側の文字数（両側とも空なら 1） */
+  similarity: number;
+}
+
+/**
+ * テキストを単語単位で比較する。
+ */
+export const diffInlineText = (originalText: string, modifiedText: string): InlineDiff => {
+  if (originalText === modifiedText) {
+    return { original: [], modified: [], similarity: 1 };
+  }
+
+  // 単語を 1 文字（私用領域から順に割り当てた文字）に置き換えて比較する（diff_linesToChars_ と同じ考え方）
+  const codes = new Map<string, string>();
+  let overflow = false;
+  const encode = (text: string): { encoded: string; words: string[] } => {
+    const words = text.match(WORD_PATTERN) ?? [];
+    let encoded = '';
+    for (const word of words) {
+      let code = codes.get(word);
+      if (code === undefined) {
+        if (codes.size >= MAX_WORD_CODES) {
+          overflow = true;
+          break;
+        }
+        code = String.fromCharCode(0xe000 + codes.size);
+        codes.set(word, code);
+      }
+      encoded += code;
+    }
+    return { encoded, words };
+  };
+
+  const left = encode(originalText);
+  const right = encode(modifiedText);
+  const wordMode = !overflow;
+
+  dmp.Diff_Timeout = INLINE_DIFF_TIMEOUT_S;
+  const diffs = wordMode
+    ? dmp.diff_main(left.encoded, right.encoded, false)
+    : dmp.diff_main(originalText, modifiedText, false);
+  dmp.diff_cleanupSemantic(diffs);
+
+  const result: InlineDiff = { original: [], modified: [], similarity: 0 };
+  let originalOffset = 0;
+  let modifiedOffset = 0;
+  let originalWord = 0;
+  let modifiedWord = 0;
+  let equalChars = 0;
+  const push = (ranges: TextRange[], from: number, to: number): void => {
+    const last = ranges[ranges.length - 1];
+    if (last && last.to === from) {
+      last.to = to;
+    } else if (to > from) {
+      ranges.push({ from, to });
+    }
+  };
+
+  for (const [operation, text] of diffs) {
+    let length = text.length;
+    if (wordMode) {
+      // 置き換えた 1 文字を元の単語の長さに戻す
+      const source = operation === DiffMatchPatch.DIFF_INSERT ? right.words : left.words;
+      const start = operation === DiffMatchPatch.DIFF_INSERT ? modifiedWord : originalWord;
+      length = source.slice(start, start + text.length).reduce((sum, word) => sum + word.length, 0);
+    }
+    if (operation === DiffMatchPatch.DIFF_EQUAL) {
+      originalOffset += length;
+      modifiedOffset += length;
+      originalWord += text.length;
+      modifiedWord += text.length;
+      equalChars += length;
+    } else if (operation === DiffMatchPatch.DIFF_DELETE) {
+      push(result.original, originalOffset, originalOffset + length);
+      originalOffset += length;
+      originalWord += text.length;
+    } else {
+      push(result.modified, modifiedOffset, modifiedOffset + length);
+      modifiedOffset += length;
+      modifiedWord += text.length;
+    }
+  }
+
+  const totalChars = originalText.length + modifiedText.length;
+  result.similarity = totalChars === 0 ? 1 : (equalChars * 2) / totalChars;
+  return result;
+};
+
+const childrenOf = (node: ProseMirrorNode): ProseMirrorNode[] => {
+  const children: ProseMirrorNode[] = [];
+  node.forEach((child) => {
+    children.push(child);
+  });
+  return children;
+};
+
+const isSimilar = (original: ProseMirrorNode, modified: ProseMirrorNode): boolean => {
+  if (original.type !== modified.type) {
+    return false;
+  }
+  const originalText = original.textContent;
+  const modifiedText = modified.textContent;
+  if (originalText === '' || modifiedText === '') {
+    // テキストの無いブロック（区切り線・画像だけの段落等）は型が同じなら組にする
+    return originalText === modifiedText;
+  }
+  return diffInlineText(originalText, modifiedText).similarity >= MODIFIED_SIMILARITY_MIN;
+};
+
+/** hunk 内のブロックを組にし、表示順の行にする */
+const alignHunk = (
+  original: ProseMirrorNode[],
+  modified: ProseMirrorNode[],
+  oldFrom: number,
+  oldTo: number,
+  newFrom: number,
+  newTo: number
+): RichDiffRow[] => {
+  const oldLen = oldTo - oldFrom;
+  const newLen = newTo - newFrom;
+  const pairs: [number, number][] = [];
+
+  if (oldLen > 0 && newLen > 0 && oldLen * newLen <= MAX_PAIR_CELLS) {
+    const width = newLen + 1;
+    const similar = new Uint8Array(oldLen * newLen);
+    for (let i = 0; i < oldLen; i += 1) {
+      for (let j = 0; j < newLen; j += 1) {
+        similar[i * newLen + j] = isSimilar(original[oldFrom + i], modified[newFrom + j]) ? 1 : 0;
+      }
+    }
+    const lcs = new Uint32Array((oldLen + 1) * width);
+    for (let i = oldLen - 1; i >= 0; i -= 1) {
+      for (let j = newLen - 1; j >= 0; j -= 1) {
+        lcs[i * width + j] = similar[i * newLen + j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < oldLen && j < newLen) {
+      if (similar[i * newLen + j] && lcs[i * width + j] === lcs[(i + 1) * width + j + 1] + 1) {
+        pairs.push([oldFrom + i, newFrom + j]);
+        i += 1;
+        j += 1;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        i += 1;
+      } else {
+        j += 1;
+      }
+    }
+  }
+
+  const rows: RichDiffRow[] = [];
+  let oldCursor = oldFrom;
+  let newCursor = newFrom;
+  for (const [oldIndex, newIndex] of [...pairs, [oldTo, newTo] as [number, number]]) {
+    for (; oldCursor < oldIndex; oldCursor += 1) {
+      rows.push({ kind: 'deleted', original: oldCursor, modified: null });
+    }
+    for (; newCursor < newIndex; newCursor += 1) {
+      rows.push({ kind: 'inserted', original: null, modified: newCursor });
+    }
+    if (oldIndex < oldTo) {
+      rows.push({ kind: 'modified', original: oldIndex, modified: newIndex });
+      oldCursor = oldIndex + 1;
+      newCursor = newIndex + 1;
+    }
+  }
+  return rows;
+};
+
+/**
+ * 2 つの document のトップレベルブロックを表示順の行に並べる。
+ */
+export const alignTopLevelBlocks = (originalDoc: ProseMirrorNode, modifiedDoc: ProseMirrorNode): RichDiffRow[] => {
+  const original = childrenOf(originalDoc);
+  const modified = childrenOf(modifiedDoc);
+  const rows: RichDiffRow[] = [];
+  let oldCursor = 0;
+  let newCursor = 0;
+  const pushEqual = (oldTo: number): void => {
+    for (; oldCursor < oldTo; oldCursor += 1, newCursor += 1) {
+      rows.push({ kind: 'equal', original: oldCursor, modified: newCursor });
+    }
+  };
+
+  for (const hunk of diffTopLevelBlocks(originalDoc, modifiedDoc)) {
+    pushEqual(hunk.oldFrom);
+    rows.push(...alignHunk(original, modified, hunk.oldFrom, hunk.oldTo, hunk.newFrom, hunk.newTo));
+    oldCursor = hunk.oldTo;
+    newCursor = hunk.newTo;
+  }
+  pushEqual(original.length);
+  return rows;
+};
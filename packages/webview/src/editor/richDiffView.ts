@@ -0,0 +1,382 @@
+/**
+ * 役割: 2 つの版の Markdown をエディタと同じスキーマで並べて表示し、差分を色分けする（リッチ差分ビュー）
+ * 責務: 左右に読み取り専用の Tiptap を作り、トップレベルブロックの対応（richDiffAlignment.ts）に従って
+ *       追加・削除・変更されたブロックと、変更されたブロック内の単語を decoration で示す。対応するブロックの高さを揃える
+ * 不変条件: 表示専用。document は render（host の richDiff）でだけ変わり、それ以外のトランザクションは捨てる
+ *
+ * 行の高さ揃え:
+ * - 行（RichDiffRow）ごとに両側のブロックの直前（その側にブロックが無い行は次のブロックの直前）に gap の widget を置く
+ * - 上の行から順に、両側の gap の下端（= その行のブロックの上端）の位置を比べ、上にある側の gap を伸ばす
+ * - 片側だけにブロックがある行は、無い側の gap を相手のブロックの下端まで伸ばして空き（斜線）にする
+ * - gap は display: flow-root（高さ 0 でもブロックの margin を相殺させない。伸ばしたときに位置がずれない）
+ * - 画像の読み込み・NodeView のプレビュー等で高さが変わったら揃え直す（ResizeObserver）
+ */
+
+import { Editor, Extension } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { RichDiffSide } from '../protocol/types.js';
+import { createDocumentExtensions } from './documentExtensions.js';
+import { normalizeLineEndings } from './lineEndings.js';
+import { alignTopLevelBlocks, diffInlineText, type RichDiffRow, type TextRange } from './richDiffAlignment.js';
+import { t } from './i18n.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('RichDiff');
+
+/** 揃えない位置のずれ（px） */
+const ALIGN_TOLERANCE_PX = 0.5;
+
+type DiffSideName = 'original' | 'modified';
+
+export interface RichDiffView {
+  render: (original: RichDiffSide, modified: RichDiffSide) => void;
+  destroy: () => void;
+}
+
+interface DiffPane {
+  name: DiffSideName;
+  editor: Editor;
+  /** 行ごとの gap（render のたびに作り直す） */
+  gaps: HTMLElement[];
+  label: HTMLElement;
+}
+
+const richDiffDecorationsKey = new PluginKey<DecorationSet>('richDiffDecorations');
+
+const topLevelOffsets = (doc: ProseMirrorNode): number[] => {
+  const offsets: number[] = [];
+  let offset = 0;
+  doc.forEach((child) => {
+    offsets.push(offset);
+    offset += child.nodeSize;
+  });
+  offsets.push(offset);
+  return offsets;
+};
+
+/** ブロック内の textContent の範囲を document の position の範囲（テキストノードごと）にする */
+const textRangesToPositions = (block: ProseMirrorNode, blockPos: number, ranges: TextRange[]): TextRange[] => {
+  if (ranges.length === 0) {
+    return [];
+  }
+  const positions: TextRange[] = [];
+  let textOffset = 0;
+  block.descendants((node, pos) => {
+    if (!node.isText || !node.text) {
+      return true;
+    }
+    const start = textOffset;
+    const end = start + node.text.length;
+    for (const range of ranges) {
+      const from = Math.max(range.from, start);
+      const to = Math.min(range.to, end);
+      if (from < to) {
+        // descendants の pos はブロックの内容の先頭からの位置（+1 でブロックの開始タグを越える）
+        positions.push({ from: blockPos + 1 + pos + (from - start), to: blockPos + 1 + pos + (to - start) });
+      }
+    }
+    textOffset = end;
+    return false;
+  });
+  return positions;
+};
+
+const createPane = (container: HTMLElement, name: DiffSideName, isApplying: () => boolean): DiffPane => {
+  const column = document.createElement('div');
+  column.className = `rich-diff-side is-${name}`;
+
+  const label = document.createElement('div');
+  label.className = 'rich-diff-side-label';
+
+  const content = document.createElement('div');
+  content.className = 'rich-diff-side-content editor-container is-full-width';
+  column.append(label, content);
+  container.append(column);
+
+  // render 以外で document を変えない（NodeView 内の操作等）
+  const RichDiffGuard = Extension.create({
+    name: 'richDiffGuard',
+    priority: 1000,
+    addProseMirrorPlugins() {
+      return [
+        new Plugin({
+          filterTransaction: (transaction) => !transaction.docChanged || isApplying(),
+        }),
+        new Plugin<DecorationSet>({
+          key: richDiffDecorationsKey,
+          state: {
+            init: () => DecorationSet.empty,
+            apply: (transaction, decorations) => {
+              const next = transaction.getMeta(richDiffDecorationsKey) as DecorationSet | undefined;
+              return next ?? decorations.map(transaction.mapping, transaction.doc);
+            },
+          },
+          props: {
+            decorations: (state) => richDiffDecorationsKey.getState(state),
+          },
+        }),
+      ];
+    },
+  });
+
+  const editor = new Editor({
+    element: content,
+    content: '',
+    contentType: 'markdown',
+    editable: false,
+    // VS Code Webview CSP での inline style 注入を回避
+    injectCSS: false,
+    extensions: [
+      ...createDocumentExtensions({
+        onOpenNestedPage: () => {},
+      }),
+      RichDiffGuard,
+    ],
+    editorProps: {
+      attributes: {
+        class: 'inline-markdown-editor-content',
+        'aria-readonly': 'true',
+      },
+      handleDOMEvents: {
+        // リンクで Webview を遷移させない
+        click: (_view, event) => {
+          const target = event.target as HTMLElement | null;
+          if (target?.closest('a')) {
+            event.preventDefault();
+            return true;
+          }
+          return false;
+        },
+      },
+    },
+  });
+
+  return { name, editor, gaps: [], label };
+};
+
+export const createRichDiffView = (container: HTMLElement): RichDiffView => {
+  const el = document.createElement('div');
+  el.className = 'rich-diff';
+  el.setAttribute('role', 'region');
+
+  const toolbar = document.createElement('div');
+  toolbar.className = 'rich-diff-toolbar';
+  const summary = document.createElement('span');
+  summary.className = 'rich-diff-summary';
+  summary.setAttribute('role', 'status');
+  const createNavButton = (icon: string): HTMLButtonElement => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'rich-diff-nav';
+    const codicon = document.createElement('span');
+    codicon.className = `codicon codicon-${icon}`;
+    codicon.setAttribute('aria-hidden', 'true');
+    button.append(codicon);
+    return button;
+  };
+  const previous = createNavButton('arrow-up');
+  const next = createNavButton('arrow-down');
+  toolbar.append(summary, previous, next);
+
+  const body = document.createElement('div');
+  body.className = 'rich-diff-body';
+  el.append(toolbar, body);
+  container.append(el);
+
+  let applying = false;
+  const isApplying = (): boolean => applying;
+  const panes: Record<DiffSideName, DiffPane> = {
+    original: createPane(body, 'original', isApplying),
+    modified: createPane(body, 'modified', isApplying),
+  };
+
+  let rows: RichDiffRow[] = [];
+  /** 変更のある行の index（前 / 次の変更への移動用） */
+  let changedRows: number[] = [];
+  let renderSequence = 0;
+  let alignFrame: number | null = null;
+
+  const align = (): void => {
+    alignFrame = null;
+    const { original, modified } = panes;
+    if (original.gaps.length !== rows.length || modified.gaps.length !== rows.length) {
+      return;
+    }
+    for (const gap of [...original.gaps, ...modified.gaps]) {
+      gap.style.height = '0px';
+    }
+    const grow = (gap: HTMLElement, delta: number): void => {
+      gap.style.height = `${(Number.parseFloat(gap.style.height) || 0) + delta}px`;
+    };
+    rows.forEach((row, index) => {
+      const originalGap = original.gaps[index];
+      const modifiedGap = modified.gaps[index];
+      const delta = originalGap.getBoundingClientRect().bottom - modifiedGap.getBoundingClientRect().bottom;
+      if (Math.abs(delta) > ALIGN_TOLERANCE_PX) {
+        grow(delta > 0 ? modifiedGap : originalGap, Math.abs(delta));
+      }
+      if (row.original !== null && row.modified !== null) {
+        return;
+      }
+      // 片側だけのブロックの向かいは、gap をそのブロックの下端まで伸ばして空きにする（gap の直後がブロックの DOM）
+      const [blank, other] = row.original === null ? [originalGap, modifiedGap] : [modifiedGap, originalGap];
+      const block = other.nextElementSibling;
+      if (block) {
+        const extra = block.getBoundingClientRect().bottom - blank.getBoundingClientRect().bottom;
+        if (extra > ALIGN_TOLERANCE_PX) {
+          grow(blank, extra);
+        }
+      }
+    });
+    log.debug('Rows aligned', { rowCount: rows.length });
+  };
+
+  const scheduleAlign = (): void => {
+    if (alignFrame !== null) {
+      return;
+    }
+    alignFrame = window.requestAnimationFrame(align);
+  };
+
+  const resizeObserver = new ResizeObserver(scheduleAlign);
+  resizeObserver.observe(panes.original.editor.view.dom);
+  resizeObserver.observe(panes.modified.editor.view.dom);
+
+  const decorate = (sameSource: boolean): void => {
+    renderSequence += 1;
+    const sequence = renderSequence;
+    const docs = { original: panes.original.editor.state.doc, modified: panes.modified.editor.state.doc };
+    const offsets = { original: topLevelOffsets(docs.original), modified: topLevelOffsets(docs.modified) };
+    const decorations: Record<DiffSideName, Decoration[]> = { original: [], modified: [] };
+    const nextIndex = { original: 0, modified: 0 };
+    const gaps: Record<DiffSideName, HTMLElement[]> = { original: [], modified: [] };
+
+    rows = alignTopLevelBlocks(docs.original, docs.modified);
+    changedRows = [];
+    const counts = { inserted: 0, deleted: 0, modified: 0 };
+
+    rows.forEach((row, rowIndex) => {
+      if (row.kind !== 'equal') {
+        changedRows.push(rowIndex);
+        counts[row.kind] += 1;
+      }
+      const inline =
+        row.kind === 'modified' && row.original !== null && row.modified !== null
+          ? diffInlineText(docs.original.child(row.original).textContent, docs.modified.child(row.modified).textContent)
+          : null;
+
+      for (const side of ['original', 'modified'] as const) {
+        const index = row[side];
+        const pos = offsets[side][index ?? nextIndex[side]];
+        const gap = document.createElement('div');
+        gap.className = row.kind === 'equal' ? 'rich-diff-gap' : `rich-diff-gap is-${row.kind}`;
+        gap.setAttribute('aria-hidden', 'true');
+        gaps[side].push(gap);
+        // 同じ位置の gap（ブロックの無い行が続く場合）は行の順に並べる
+        decorations[side].push(
+          Decoration.widget(pos, () => gap, {
+            key: `rich-diff-gap-${sequence}-${rowIndex}`,
+            side: rowIndex - rows.length - 1,
+            ignoreSelection: true,
+          })
+        );
+        if (index === null) {
+          continue;
+        }
+        nextIndex[side] = index + 1;
+        const block = docs[side].child(index);
+        if (row.kind !== 'equal') {
+          decorations[side].push(
+            Decoration.node(pos, pos + block.nodeSize, { class: `rich-diff-block is-${row.kind}` })
+          );
+        }
+        if (inline) {
+          const wordClass = side === 'original' ? 'rich-diff-word is-deleted' : 'rich-diff-word is-inserted';
+          for (const range of textRangesToPositions(block, pos, inline[side])) {
+            decorations[side].push(Decoration.inline(range.from, range.to, { class: wordClass }));
+          }
+        }
+      }
+    });
+
+    for (const side of ['original', 'modified'] as const) {
+      const { editor } = panes[side];
+      panes[side].gaps = gaps[side];
+      const set = DecorationSet.create(editor.state.doc, decorations[side]);
+      editor.view.dispatch(editor.state.tr.setMeta(richDiffDecorationsKey, set).setMeta('addToHistory', false));
+    }
+
+    const strings = t().richDiff;
+    summary.textContent =
+      changedRows.length > 0
+        ? [
+            counts.inserted > 0 ? `${strings.inserted} ${counts.inserted}` : null,
+            counts.deleted > 0 ? `${strings.deleted} ${counts.deleted}` : null,
+            counts.modified > 0 ? `${strings.modified} ${counts.modified}` : null,
+          ]
+            .filter((part) => part !== null)
+            .join(' · ')
+        : sameSource
+          ? strings.noChanges
+          : strings.formattingOnly;
+    previous.disabled = changedRows.length === 0;
+    next.disabled = changedRows.length === 0;
+    log.info('Rich diff rendered', { rowCount: rows.length, ...counts });
+  };
+
+  /** 変更のある行へ移動する（direction: 1 = 次 / -1 = 前）。現在の表示位置より後 / 前の最初の行 */
+  const reveal = (direction: 1 | -1): void => {
+    if (changedRows.length === 0) {
+      return;
+    }
+    const top = body.getBoundingClientRect().top;
+    const rowTop = (rowIndex: number): number => panes.modified.gaps[rowIndex].getBoundingClientRect().bottom - top;
+    const candidates = direction === 1 ? changedRows : [...changedRows].reverse();
+    const target =
+      candidates.find((rowIndex) => (direction === 1 ? rowTop(rowIndex) > 1 : rowTop(rowIndex) < -1)) ?? candidates[0];
+    body.scrollTop += rowTop(target) - body.clientHeight / 4;
+  };
+  previous.addEventListener('click', () => reveal(-1));
+  next.addEventListener('click', () => reveal(1));
+
+  const render = (original: RichDiffSide, modified: RichDiffSide): void => {
+    const strings = t().richDiff;
+    el.setAttribute('aria-label', strings.title);
+    previous.title = strings.previousChange;
+    previous.setAttribute('aria-label', strings.previousChange);
+    next.title = strings.nextChange;
+    next.setAttribute('aria-label', strings.nextChange);
+
+    const scrollTop = body.scrollTop;
+    applying = true;
+    try {
+      for (const [pane, side] of [
+        [panes.original, original],
+        [panes.modified, modified],
+      ] as const) {
+        pane.label.textContent = side.label;
+        pane.editor.commands.setContent(normalizeLineEndings(side.content), { contentType: 'markdown' });
+      }
+    } finally {
+      applying = false;
+    }
+    decorate(normalizeLineEndings(original.content) === normalizeLineEndings(modified.content));
+    align();
+    body.scrollTop = scrollTop;
+  };
+
+  return {
+    render,
+    destroy: () => {
+      if (alignFrame !== null) {
+        window.cancelAnimationFrame(alignFrame);
+      }
+      resizeObserver.disconnect();
+      panes.original.editor.destroy();
+      panes.modified.editor.destroy();
+      el.remove();
+    },
+  };
+};
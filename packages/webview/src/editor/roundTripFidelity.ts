@@ -0,0 +1,149 @@
+/**
+ * 役割: 開いた直後の round-trip（parse → serialize）で書式が変わるブロックの検出と保護
+ * 責務: 読み込んだ Markdown と editor.getMarkdown() を computeDiff で比較し、差分が掛かるトップレベルブロックを
+ *       行番号付きで列挙する。保護が有効な場合はそのブロックを元の source を持つ plainTextBlock に置き換える
+ * 不変条件: 検出は doc を変更しない。保護は元の source のテキストをそのまま使い、undo 履歴に積まない
+ *
+ * 検出:
+ * - 比較は LF 正規化後の source 基準（改行コードの違いは差分にしない）
+ * - 差分がブロックの範囲に掛かるブロックを lossy とする。ブロックの端への挿入は空白以外を含む場合のみ
+ *   （見出しの直後に空行が足されるなど、区切りだけの差分をブロックに割り当てない）
+ * - ブロック間の空行や参照定義だけの差分はブロックに割り当てない（sourcePreservingSerializer が元のまま出力する）
+ *
+ * 保護 (fidelity.protectLossyBlocks):
+ * - 1 トークン分のノード群（分割されたリストなど）をまとめて 1 つの plainTextBlock にする
+ * - plainTextBlock は text をそのまま出力するため、編集しても他の書式は変わらない
+ *   （完了ボタンで通常のブロックに戻すと、その時点で通常の serialize に戻る）
+ * - 置き換え後も sourceSpans は同じテキストの plainTextBlock を元のグループとして数える
+ *
+ * 行番号: 1-based、endLine はブロックの最終行（含む）。
+ */
+
+import type { Editor } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { computeTopLevelSourceLayout, type TopLevelSourceGroup } from './sourceSpans.js';
+import { computeDiff } from './diffEngine.js';
+import type { LossyBlock } from '../protocol/types.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('RoundTripFidelity');
+
+const PROTECTED_NODE_TYPE = 'plainTextBlock';
+
+interface LossyGroup {
+  group: TopLevelSourceGroup;
+  /** グループの先頭ノードの doc 内の子 index */
+  childIndex: number;
+  block: LossyBlock;
+}
+
+export interface RoundTripReport {
+  /** LF 正規化後の source（グループの offset の基準） */
+  normalized: string;
+  lossy: LossyGroup[];
+  /** どのブロックにも割り当てなかった差分（ブロック間の空行など）の数 */
+  unassignedChanges: number;
+}
+
+const countNewlines = (text: string, from: number, to: number): number => {
+  let count = 0;
+  let index = text.indexOf('\n', from);
+  while (index !== -1 && index < to) {
+    count += 1;
+    index = text.indexOf('\n', index + 1);
+  }
+  return count;
+};
+
+/**
+ * 現在の doc が markdown を parse した結果である前提で、serialize すると変わるブロックを求める。
+ * ブロックとの対応が取れない場合は null。
+ */
+export const analyzeRoundTrip = (editor: Editor, markdown: string): RoundTripReport | null => {
+  const layout = computeTopLevelSourceLayout(editor, markdown);
+  if (!layout) {
+    return null;
+  }
+
+  const serialized = editor.getMarkdown();
+  const { changes } = computeDiff(layout.normalized, serialized);
+
+  const lossy: LossyGroup[] = [];
+  const assigned = new Set<number>();
+  let childIndex = 0;
+  let line = 1;
+  let lineOffset = 0;
+  for (const group of layout.groups) {
+    const overlapping = changes.filter((change, index) => {
+      const hit =
+        change.start === change.end
+          ? (change.start > group.from && change.start < group.to) ||
+            ((change.start === group.from || change.start === group.to) && change.text.trim() !== '')
+          : change.start < group.to && change.end > group.from;
+      if (hit) {
+        assigned.add(index);
+      }
+      return hit;
+    });
+    line += countNewlines(layout.normalized, lineOffset, group.from);
+    const startLine = line;
+    line += countNewlines(layout.normalized, group.from, group.to);
+    lineOffset = group.to;
+
+    if (overlapping.length > 0 && group.nodeTypes[0] !== PROTECTED_NODE_TYPE) {
+      lossy.push({
+        group,
+        childIndex,
+        block: {
+          startLine,
+          endLine: line,
+          nodeTypes: group.nodeTypes,
+          changedChars: overlapping.reduce(
+            (total, change) => total + Math.max(change.end - change.start, change.text.length),
+            0
+          ),
+        },
+      });
+    }
+    childIndex += group.nodeTypes.length;
+  }
+
+  return { normalized: layout.normalized, lossy, unassignedChanges: changes.length - assigned.size };
+};
+
+/**
+ * lossy なブロックを元の source を持つ plainTextBlock に置き換える。置き換えたブロック数を返す。
+ * report は同じ doc に対して analyzeRoundTrip した結果であること。
+ */
+export const protectLossyBlocks = (editor: Editor, report: RoundTripReport): number => {
+  const nodeType = editor.schema.nodes[PROTECTED_NODE_TYPE];
+  if (!nodeType || report.lossy.length === 0) {
+    return 0;
+  }
+
+  const positions: number[] = [];
+  const children: ProseMirrorNode[] = [];
+  editor.state.doc.forEach((child, offset) => {
+    positions.push(offset);
+    children.push(child);
+  });
+
+  const tr = editor.state.tr;
+  // 後ろから置き換えて、前方の位置がずれないようにする
+  for (const { group, childIndex } of [...report.lossy].reverse()) {
+    const lastIndex = childIndex + group.nodeTypes.length - 1;
+    if (lastIndex >= children.length) {
+      log.warn('Lossy block out of range; protection skipped', { childIndex, childCount: children.length });
+      return 0;
+    }
+    const text = report.normalized.slice(group.from, group.to);
+    tr.replaceWith(
+      positions[childIndex],
+      positions[lastIndex] + children[lastIndex].nodeSize,
+      nodeType.create(null, text ? editor.schema.text(text) : null)
+    );
+  }
+  tr.setMeta('addToHistory', false);
+  editor.view.dispatch(tr);
+  return report.lossy.length;
+};
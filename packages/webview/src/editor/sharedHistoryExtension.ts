@@ -0,0 +1,82 @@
+/**
+ * 役割: undo / redo を TextDocument の履歴に委ねる
+ * 責務: undo / redo コマンドと beforeinput(historyUndo / historyRedo) を host への要求に置き換える
+ * 不変条件: Webview 側に undo stack を持たない（履歴は VS Code の TextDocument が正本）
+ *
+ * 方針:
+ * - Webview の編集も外部の編集も同じ TextDocument の undo stack に積まれるため、1 本の履歴になる
+ * - 要求は SyncClient.requestHistory に渡し、送信待ちの編集が落ち着いてから host に送る
+ * - 戻した結果は docChanged (reason: 'undo' | 'redo') で届き、変わった範囲に選択を置き直す
+ */
+
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import type { HistoryDirection } from '../protocol/types.js';
+
+export interface SharedHistoryOptions {
+  onRequest: (direction: HistoryDirection) => void;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    sharedHistory: {
+      undo: () => ReturnType;
+      redo: () => ReturnType;
+    };
+  }
+}
+
+const sharedHistoryKey = new PluginKey('sharedHistory');
+
+export const SharedHistory = Extension.create<SharedHistoryOptions>({
+  name: 'sharedHistory',
+
+  addOptions() {
+    return {
+      onRequest: () => undefined,
+    };
+  },
+
+  addCommands() {
+    return {
+      undo:
+        () =>
+        ({ dispatch }) => {
+          if (dispatch) {
+            this.options.onRequest('undo');
+          }
+          return true;
+        },
+      redo:
+        () =>
+        ({ dispatch }) => {
+          if (dispatch) {
+            this.options.onRequest('redo');
+          }
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { onRequest } = this.options;
+    return [
+      new Plugin({
+        key: sharedHistoryKey,
+        props: {
+          handleDOMEvents: {
+            beforeinput: (_view, event) => {
+              const inputType = (event as InputEvent).inputType;
+              if (inputType !== 'historyUndo' && inputType !== 'historyRedo') {
+                return false;
+              }
+              event.preventDefault();
+              onRequest(inputType === 'historyUndo' ? 'undo' : 'redo');
+              return true;
+            },
+          },
+        },
+      }),
+    ];
+  },
+});
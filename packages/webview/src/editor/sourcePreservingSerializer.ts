@@ -0,0 +1,308 @@
+/**
+ * 役割: ユーザーが触っていないトップレベルブロックを元の Markdown のまま出力するシリアライザ
+ * 責務: parse した source をトップレベルノード（の同一性）ごとに記録し、未変更のノードは元のバイト列、
+ *       変更・追加されたノードだけを MarkdownManager で serialize して Markdown 全体を組み立てる
+ * 不変条件: 記録時から doc が変わっていなければ、出力は記録した Markdown と完全に一致する。
+ *           記録が無い場合は editor.getMarkdown() と同じ結果を返す（serialize した部分には format の行末空白の削除を適用）
+ *
+ * 未変更の判定:
+ * - ProseMirror は変更されていないノードのオブジェクトを使い回すため、トップレベルの子ノードの同一性で判定する
+ * - 1 トークンから複数ノードができるグループ（分割されたリスト等）は、全ノードが同じ並びで残っている場合のみ元のまま出す
+ *
+ * ブロック間の source（空行、参照定義などノードを生成しない部分）:
+ * - 元の並びで隣接する未変更ブロックの間は元のまま
+ * - それ以外（間に変更ブロックがある / 間のブロックが削除された / 並べ替え）は空行 1 つ（serializer と同じ "\n\n"）で区切り、
+ *   空白以外を含む部分（参照定義など）は捨てずにその位置に出力する
+ * - 先頭（最初のブロックより前）と末尾（最後のブロックより後、末尾の改行を含む）は常に元のまま出力する
+ *
+ * 記録のタイミング: 元の Markdown と doc が一致していることが分かっている時点（setContent 直後、
+ * 外部変更のブロック差分適用直後）のみ。ローカル編集の送信後には記録し直さない。
+ * 外部変更を変わった範囲だけ適用した場合（rangePatch.ts）は、範囲外のブロックの記録を使い回して組み立て直す（buildSourceSnapshot）。
+ *
+ * serialize のキャッシュ:
+ * - 変更・追加されたトップレベルノードは 1 ノードずつ serialize し、ノード（の同一性）ごとに結果を保持する
+ *   （serializer はトップレベルを "\n\n" で連結するため、連結結果はまとめて serialize した場合と同じ）
+ * - 以前の編集で変わったまま今回触っていないノードは再 serialize しない（1 回の編集のコストが変更したブロックの大きさに比例する）
+ * - runtimeConfig（format 等）が差し替わったらキャッシュを捨てる
+ */
+
+import type { Editor } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { getMarkdownManager, type MarkdownManager } from './markdownUtils.js';
+import { computeTopLevelSourceLayout } from './sourceSpans.js';
+import { toSourceOffsets } from './lineEndings.js';
+import { applyTrailingWhitespaceRule } from './markdownFormat.js';
+import { getRuntimeConfig } from './runtimeConfig.js';
+import type { WebviewConfig } from '../protocol/types.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('SourcePreservingSerializer');
+
+const BLOCK_SEPARATOR = '\n\n';
+
+interface SourceBlock {
+  index: number;
+  nodes: ProseMirrorNode[];
+  text: string;
+}
+
+export interface SourceSnapshot {
+  /** 最初のブロックより前の source */
+  prefix: string;
+  blocks: SourceBlock[];
+  /** gaps[i] は blocks[i] と blocks[i + 1] の間の source。最後の要素は末尾 */
+  gaps: string[];
+  byNode: WeakMap<ProseMirrorNode, { block: SourceBlock; position: number }>;
+}
+
+export interface SerializeStats {
+  preservedBlocks: number;
+  serializedNodes: number;
+  /** serializedNodes のうちキャッシュから出力したノード数 */
+  cachedNodes: number;
+}
+
+let serializedNodeCache = new WeakMap<ProseMirrorNode, string>();
+let serializedNodeCacheConfig: WebviewConfig | null = null;
+
+const serializeNode = (manager: MarkdownManager, node: ProseMirrorNode): { text: string; cached: boolean } => {
+  const config = getRuntimeConfig();
+  if (config !== serializedNodeCacheConfig) {
+    serializedNodeCache = new WeakMap();
+    serializedNodeCacheConfig = config;
+  }
+  const cached = serializedNodeCache.get(node);
+  if (cached !== undefined) {
+    return { text: cached, cached: true };
+  }
+  const text = applyTrailingWhitespaceRule(manager.serialize({ type: 'doc', content: [node.toJSON()] }));
+  serializedNodeCache.set(node, text);
+  return { text, cached: false };
+};
+
+/** source 上の範囲 [from, to) と、そこから parse したトップレベルノード */
+export interface SourceBlockSpan {
+  from: number;
+  to: number;
+  nodes: ProseMirrorNode[];
+}
+
+/**
+ * ブロックの範囲（昇順で重ならない）から snapshot を組み立てる。ブロックが無い場合は null。
+ */
+export const buildSourceSnapshot = (markdown: string, spans: SourceBlockSpan[]): SourceSnapshot | null => {
+  if (spans.length === 0) {
+    return null;
+  }
+  const byNode: SourceSnapshot['byNode'] = new WeakMap();
+  const blocks: SourceBlock[] = [];
+  const gaps: string[] = [];
+  spans.forEach((span, i) => {
+    const block: SourceBlock = { index: i, nodes: span.nodes, text: markdown.slice(span.from, span.to) };
+    span.nodes.forEach((node, position) => {
+      byNode.set(node, { block, position });
+    });
+    blocks.push(block);
+    gaps.push(markdown.slice(span.to, i + 1 < spans.length ? spans[i + 1].from : markdown.length));
+  });
+  return { prefix: markdown.slice(0, spans[0].from), blocks, gaps, byNode };
+};
+
+/**
+ * snapshot の各ブロックの範囲（記録した Markdown の offset）と、それを連結した Markdown を返す。
+ * doc のトップレベルノードが記録時と同じ並びでなければ null（ローカル編集の後など、記録が doc と対応しない）。
+ */
+export const getSourceBlockSpans = (
+  snapshot: SourceSnapshot,
+  doc: ProseMirrorNode
+): { markdown: string; spans: SourceBlockSpan[] } | null => {
+  const parts: string[] = [snapshot.prefix];
+  const spans: SourceBlockSpan[] = [];
+  let offset = snapshot.prefix.length;
+  let childIndex = 0;
+  for (let i = 0; i < snapshot.blocks.length; i += 1) {
+    const block = snapshot.blocks[i];
+    for (const node of block.nodes) {
+      if (childIndex >= doc.childCount || doc.child(childIndex) !== node) {
+        return null;
+      }
+      childIndex += 1;
+    }
+    spans.push({ from: offset, to: offset + block.text.length, nodes: block.nodes });
+    offset += block.text.length + snapshot.gaps[i].length;
+    parts.push(block.text, snapshot.gaps[i]);
+  }
+  if (childIndex !== doc.childCount) {
+    return null;
+  }
+  return { markdown: parts.join(''), spans };
+};
+
+/**
+ * 現在の doc が markdown を parse した結果である前提で、トップレベルノードと source の対応を記録する。
+ * 対応が取れない場合は null（呼び出し側は通常の serialize を使う）。
+ */
+export const captureSourceSnapshot = (editor: Editor, markdown: string): SourceSnapshot | null => {
+  const layout = computeTopLevelSourceLayout(editor, markdown);
+  if (!layout || layout.groups.length === 0) {
+    return null;
+  }
+
+  const boundaries = layout.groups.flatMap((group) => [group.from, group.to]);
+  const offsets = layout.normalized === markdown ? boundaries : toSourceOffsets(markdown, boundaries);
+
+  const doc = editor.state.doc;
+  const spans: SourceBlockSpan[] = [];
+  let childIndex = 0;
+  for (let i = 0; i < layout.groups.length; i += 1) {
+    const group = layout.groups[i];
+    const nodes: ProseMirrorNode[] = [];
+    for (const type of group.nodeTypes) {
+      const child = doc.child(childIndex);
+      if (child.type.name !== type) {
+        log.debug('Top-level node type mismatch', { childIndex, expected: type, actual: child.type.name });
+        return null;
+      }
+      nodes.push(child);
+      childIndex += 1;
+    }
+    spans.push({ from: offsets[i * 2], to: offsets[i * 2 + 1], nodes });
+  }
+
+  return buildSourceSnapshot(markdown, spans);
+};
+
+const matchBlockAt = (
+  snapshot: SourceSnapshot,
+  children: ProseMirrorNode[],
+  index: number
+): SourceBlock | null => {
+  const entry = snapshot.byNode.get(children[index]);
+  if (!entry || entry.position !== 0) {
+    return null;
+  }
+  const { block } = entry;
+  for (let i = 1; i < block.nodes.length; i += 1) {
+    if (children[index + i] !== block.nodes[i]) {
+      return null;
+    }
+  }
+  return block;
+};
+
+/**
+ * snapshot を使って doc を Markdown にする。snapshot が無い場合は editor.getMarkdown() と同じ結果（ノードごとのキャッシュを使う）。
+ */
+export const serializePreservingSource = (
+  editor: Editor,
+  snapshot: SourceSnapshot | null,
+  stats?: SerializeStats
+): string => {
+  const manager = getMarkdownManager(editor);
+  if (!manager) {
+    return applyTrailingWhitespaceRule(editor.getMarkdown());
+  }
+
+  const children: ProseMirrorNode[] = [];
+  editor.state.doc.forEach((child) => {
+    children.push(child);
+  });
+  if (!snapshot) {
+    return children.map((child) => serializeNode(manager, child).text).join(BLOCK_SEPARATOR);
+  }
+
+  const parts: string[] = [snapshot.prefix];
+  const usedBlocks = new Set<number>();
+  const emittedGaps = new Set<number>();
+  let lastBlock: number | null = null;
+  let lastWasBlock = false;
+  let hasContent = false;
+  let run: ProseMirrorNode[] = [];
+  let preservedBlocks = 0;
+  let serializedNodes = 0;
+  let cachedNodes = 0;
+
+  const pushSeparated = (text: string): void => {
+    parts.push(hasContent ? BLOCK_SEPARATOR + text : text);
+    hasContent = true;
+  };
+
+  // 隣接しない位置へ移るときに通過したブロック間 source のうち、空白以外（参照定義など）を残す
+  const emitPassedGaps = (from: number, to: number): void => {
+    for (let gap = from; gap < to; gap += 1) {
+      if (emittedGaps.has(gap) || snapshot.gaps[gap].trim() === '') {
+        continue;
+      }
+      emittedGaps.add(gap);
+      pushSeparated(snapshot.gaps[gap].trim());
+    }
+  };
+
+  const flushRun = (): void => {
+    if (run.length === 0) {
+      return;
+    }
+    const texts = run.map((node) => {
+      const { text, cached } = serializeNode(manager, node);
+      if (cached) {
+        cachedNodes += 1;
+      }
+      return text;
+    });
+    pushSeparated(texts.join(BLOCK_SEPARATOR));
+    serializedNodes += run.length;
+    run = [];
+    lastWasBlock = false;
+  };
+
+  let index = 0;
+  while (index < children.length) {
+    const block = matchBlockAt(snapshot, children, index);
+    if (!block || usedBlocks.has(block.index)) {
+      run.push(children[index]);
+      index += 1;
+      continue;
+    }
+
+    if (run.length === 0 && lastWasBlock && lastBlock === block.index - 1) {
+      parts.push(snapshot.gaps[lastBlock] + block.text);
+      emittedGaps.add(lastBlock);
+    } else if (run.length === 0 && !hasContent && block.index === 0) {
+      parts.push(block.text);
+      hasContent = true;
+    } else {
+      flushRun();
+      emitPassedGaps(lastBlock ?? 0, block.index);
+      pushSeparated(block.text);
+    }
+
+    usedBlocks.add(block.index);
+    lastBlock = block.index;
+    lastWasBlock = true;
+    preservedBlocks += 1;
+    index += block.nodes.length;
+  }
+  flushRun();
+
+  const lastGap = snapshot.gaps.length - 1;
+  if (lastWasBlock && lastBlock === lastGap) {
+    parts.push(snapshot.gaps[lastGap]);
+  } else {
+    emitPassedGaps(lastBlock ?? 0, lastGap);
+    // 末尾の改行などは元のまま残す（参照定義などを含む場合は区切りを入れる）
+    const tail = snapshot.gaps[lastGap];
+    const trailingContent = tail.trimStart();
+    if (trailingContent === '') {
+      parts.push(tail);
+    } else {
+      pushSeparated(trailingContent);
+    }
+  }
+
+  if (stats) {
+    stats.preservedBlocks = preservedBlocks;
+    stats.serializedNodes = serializedNodes;
+    stats.cachedNodes = cachedNodes;
+  }
+  return parts.join('');
+};
@@ -0,0 +1,156 @@
+/**
+ * 役割: トップレベルブロックと Markdown source の範囲の対応付け
+ * 責務: MarkdownManager と同じ字句解析結果から、doc の各トップレベルノードが占める source の範囲（offset / 行）を求める
+ * 不変条件: ノードを生成するグループのノード数の合計は doc.childCount と一致する。一致しない場合は null（推測で埋めない）
+ *
+ * 方針:
+ * - marked のトップレベルトークンの raw は source（改行は LF 正規化後）に順に現れる
+ *   （参照定義はトークンに残らないため、raw の間に読み飛ばされた source がありうる）
+ * - 1 トークンが生成するノード数は、そのトークンの raw を単独で parse して数える
+ *   （リストの分割や HTML ブロックなど 1:1 にならないトークンがあるため）
+ * - ノードを生成しないトークンや読み飛ばされた source（空行、参照定義など）はグループ間の隙間として扱う
+ * - グループの範囲には前後の空行を含めない。行番号は 0-based、endLine は exclusive
+ * - 保護済みブロック（グループの source と同じテキストの plainTextBlock に置き換えたもの）は 1 ノードとして数える
+ * - offset は LF 正規化後の source 基準。元の source（CRLF / CR）の offset は toSourceOffsets（lineEndings.ts）で求める
+ */
+
+import type { Editor } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { getMarkdownManager } from './markdownUtils.js';
+import { normalizeLineEndings } from './lineEndings.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('SourceSpans');
+
+const LEADING_BLANK_LINES = /^(?:[ \t]*\n)+/;
+const TRAILING_BLANK_LINES = /\n\s*$/;
+
+export interface TopLevelLineSpan {
+  startLine: number;
+  endLine: number;
+}
+
+/** 1 トークン分のトップレベルノード群と、その source 範囲 */
+export interface TopLevelSourceGroup {
+  from: number;
+  to: number;
+  nodeTypes: string[];
+}
+
+export interface TopLevelSourceLayout {
+  /** LF 正規化後の source（offset の基準） */
+  normalized: string;
+  groups: TopLevelSourceGroup[];
+}
+
+const countNewlines = (text: string): number => {
+  let count = 0;
+  let index = text.indexOf('\n');
+  while (index !== -1) {
+    count += 1;
+    index = text.indexOf('\n', index + 1);
+  }
+  return count;
+};
+
+export const computeTopLevelSourceLayout = (editor: Editor, markdown: string): TopLevelSourceLayout | null => {
+  const children: ProseMirrorNode[] = [];
+  editor.state.doc.forEach((child) => {
+    children.push(child);
+  });
+  return computeSourceLayoutForNodes(editor, markdown, children);
+};
+
+/**
+ * markdown を parse した結果が nodes（doc に入る前のノード列でもよい）である前提で、各ノードの source 範囲を求める。
+ * 不変条件は computeTopLevelSourceLayout と同じ（ノード数が一致しなければ null）
+ */
+export const computeSourceLayoutForNodes = (
+  editor: Editor,
+  markdown: string,
+  nodes: readonly ProseMirrorNode[]
+): TopLevelSourceLayout | null => {
+  const manager = getMarkdownManager(editor);
+  if (!manager?.instance) {
+    return null;
+  }
+
+  const normalized = normalizeLineEndings(markdown);
+  let tokens;
+  try {
+    tokens = manager.instance.lexer(normalized);
+  } catch (error) {
+    log.warn('Markdown lex failed', { error: String(error) });
+    return null;
+  }
+
+  const groups: TopLevelSourceGroup[] = [];
+  let offset = 0;
+  let nodeCount = 0;
+  for (const token of tokens) {
+    const raw = token.raw ?? '';
+    const at = normalized.indexOf(raw, offset);
+    if (at === -1) {
+      log.debug('Token raw not found in source', { tokenType: token.type, offset });
+      return null;
+    }
+    offset = at;
+    if (token.type !== 'space' && raw.trim() !== '') {
+      let nodeTypes: string[];
+      try {
+        const parsed = manager.parse(raw);
+        nodeTypes = Array.isArray(parsed.content)
+          ? parsed.content.map((node) => (node as { type?: string }).type ?? '')
+          : [];
+      } catch (error) {
+        log.warn('Token parse failed', { tokenType: token.type, error: String(error) });
+        return null;
+      }
+      if (nodeTypes.length > 0) {
+        const leading = LEADING_BLANK_LINES.exec(raw)?.[0].length ?? 0;
+        const trailing = TRAILING_BLANK_LINES.exec(raw);
+        const from = offset + leading;
+        const to = offset + (trailing ? trailing.index : raw.length);
+        const child = nodeCount < nodes.length ? nodes[nodeCount] : null;
+        if (
+          child?.type.name === 'plainTextBlock' &&
+          nodeTypes[0] !== 'plainTextBlock' &&
+          child.textContent === normalized.slice(from, to)
+        ) {
+          nodeTypes = ['plainTextBlock'];
+        }
+        groups.push({ from, to, nodeTypes });
+        nodeCount += nodeTypes.length;
+      }
+    }
+    offset += raw.length;
+  }
+
+  const childCount = nodes.length;
+  if (nodeCount !== childCount) {
+    log.debug('Top-level span count mismatch', { spanCount: nodeCount, childCount });
+    return null;
+  }
+  return { normalized, groups };
+};
+
+export const computeTopLevelLineSpans = (editor: Editor, markdown: string): TopLevelLineSpan[] | null => {
+  const layout = computeTopLevelSourceLayout(editor, markdown);
+  if (!layout) {
+    return null;
+  }
+
+  const spans: TopLevelLineSpan[] = [];
+  let line = 0;
+  let lineOffset = 0;
+  for (const group of layout.groups) {
+    line += countNewlines(layout.normalized.slice(lineOffset, group.from));
+    const startLine = line;
+    line += countNewlines(layout.normalized.slice(group.from, group.to));
+    lineOffset = group.to;
+    for (let i = 0; i < group.nodeTypes.length; i += 1) {
+      spans.push({ startLine, endLine: line + 1 });
+    }
+  }
+  return spans;
+};
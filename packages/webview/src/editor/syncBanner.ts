@@ -0,0 +1,81 @@
+/**
+ * 役割: 同期の異常をエディタ上部のバナーで知らせる
+ * 責務: SyncState が desynced / retrying の間だけバナーを表示し、復旧操作（host の選択 UI）への導線を出す
+ * 不変条件: 表示専用。同期の状態は SyncClient が正本で、バナーは状態を変えない
+ *
+ * - desynced はすぐに表示する（以降の編集が保存されない可能性があるため）
+ * - retrying は自動の resync で短時間に終わることが多いので、RETRYING_BANNER_DELAY_MS 続いた場合のみ表示する
+ * - idle / pending / inFlight では表示しない（status bar のみ）
+ */
+
+import type { SyncState } from '../protocol/types.js';
+import { t } from './i18n.js';
+
+const RETRYING_BANNER_DELAY_MS = 1000;
+
+export interface SyncBanner {
+  update: (state: SyncState) => void;
+  destroy: () => void;
+}
+
+export const createSyncBanner = (container: HTMLElement, before: Node | null, onShowActions: () => void): SyncBanner => {
+  const el = document.createElement('div');
+  el.className = 'sync-banner';
+  el.hidden = true;
+
+  const icon = document.createElement('span');
+  icon.setAttribute('aria-hidden', 'true');
+  const message = document.createElement('span');
+  message.className = 'sync-banner-message';
+  const action = document.createElement('button');
+  action.type = 'button';
+  action.className = 'sync-banner-action';
+  action.textContent = t().syncBanner.actions;
+  action.addEventListener('click', onShowActions);
+
+  el.append(icon, message, action);
+  container.insertBefore(el, before);
+
+  let retryingTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const clearRetryingTimer = (): void => {
+    if (retryingTimer) {
+      clearTimeout(retryingTimer);
+      retryingTimer = null;
+    }
+  };
+
+  const show = (state: 'desynced' | 'retrying'): void => {
+    const desynced = state === 'desynced';
+    el.classList.toggle('is-desynced', desynced);
+    el.setAttribute('role', desynced ? 'alert' : 'status');
+    icon.className = desynced ? 'codicon codicon-warning' : 'codicon codicon-sync codicon-modifier-spin';
+    message.textContent = desynced ? t().syncBanner.desynced : t().syncBanner.retrying;
+    action.hidden = !desynced;
+    el.hidden = false;
+  };
+
+  return {
+    update: (state) => {
+      clearRetryingTimer();
+      if (state === 'desynced') {
+        show(state);
+      } else if (state === 'retrying') {
+        if (el.hidden) {
+          retryingTimer = setTimeout(() => {
+            retryingTimer = null;
+            show('retrying');
+          }, RETRYING_BANNER_DELAY_MS);
+        } else {
+          show(state);
+        }
+      } else {
+        el.hidden = true;
+      }
+    },
+    destroy: () => {
+      clearRetryingTimer();
+      el.remove();
+    },
+  };
+};
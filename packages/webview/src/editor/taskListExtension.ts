@@ -0,0 +1,258 @@
+/**
+ * 役割: GFM のタスクリスト（`- [ ] a` / `- [x] b`）を表す taskList / taskItem ノード
+ * 責務: スキーマと Markdown の往復、チェックボックスの表示と切り替え、`[ ] ` の入力ルール、toggleTaskList コマンド
+ * 不変条件:
+ * - 独自の tokenizer は持たない。marked の list トークン（項目の `task` / `checked`）を BulletListNoShortcut の parseMarkdown が
+ *   parseTaskListMarkdown で振り分ける（@tiptap/extension-list の TaskList の tokenizer は入れ子の通常の項目を落とす）
+ * - serialize は箇条書きの記号（MarkdownFormat）+ `[ ] ` / `[x] ` に戻す
+ * - taskItem は listItem と同じ content を持ち、インデント・D&D・ブロックハンドルは listTypes.ts で listItem と同じに扱う
+ *
+ * タスクと通常の項目が混ざったリストは、連続するタスクごとに別のリストにする（再 serialize では空行でつながる）
+ */
+
+import { InputRule, Node, mergeAttributes, renderNestedMarkdownContent } from '@tiptap/core';
+import type { JSONContent, MarkdownParseHelpers, MarkdownToken } from '@tiptap/core';
+import { indentAttribute, normalizeIndentAttr, renderIndentMarker } from './indentConfig.js';
+import { applyNodeViewHandleState, createNodeViewHandleContainer, resolveBlockHandleEligibility } from './blockHandlesExtension.js';
+import { isListItemType } from './listTypes.js';
+import { getBulletListMarker } from './markdownFormat.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('TaskList');
+
+/** 行頭の [] / [ ] / [x] + 空白でタスクにする */
+const TASK_INPUT_RULE_RE = /^\[([ xX]?)\]\s$/;
+
+const parseChecked = (value: unknown): boolean => value === true || value === 'true';
+
+/**
+ * 箇条書きの list トークンにタスクの項目があれば、連続するタスク・通常の項目ごとに taskList / bulletList のノードにする。
+ * タスクが無ければ null（呼び出し側で通常の箇条書きにする）
+ */
+export const parseTaskListMarkdown = (
+  token: MarkdownToken,
+  helpers: MarkdownParseHelpers,
+  parseBulletList: (token: MarkdownToken) => JSONContent | JSONContent[]
+): JSONContent[] | null => {
+  const items = token.items ?? [];
+  if (token.type !== 'list' || token.ordered || !items.some((item) => item.task)) {
+    return null;
+  }
+
+  const groups: { task: boolean; items: MarkdownToken[] }[] = [];
+  for (const item of items) {
+    const task = Boolean(item.task);
+    const last = groups[groups.length - 1];
+    if (last && last.task === task) {
+      last.items.push(item);
+    } else {
+      groups.push({ task, items: [item] });
+    }
+  }
+
+  return groups.flatMap((group) => {
+    if (!group.task) {
+      return parseBulletList({ ...token, items: group.items });
+    }
+    // 項目の本文は listItem と同じ handler で読み、型だけ taskItem にする（marked が `[ ] ` を取り除いている）
+    const content = group.items.flatMap((item) =>
+      helpers.parseChildren([item]).map((child) =>
+        child.type === 'listItem' ? { ...child, type: 'taskItem', attrs: { ...child.attrs, checked: Boolean(item.checked) } } : child
+      )
+    );
+    return [helpers.createNode('taskList', {}, content)];
+  });
+};
+
+export const TaskList = Node.create({
+  name: 'taskList',
+
+  group: 'block list',
+
+  content: 'taskItem+',
+
+  addAttributes() {
+    return {
+      indent: indentAttribute,
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'ul[data-type="taskList"]', priority: 51 }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['ul', mergeAttributes(HTMLAttributes, { 'data-type': 'taskList' }), 0];
+  },
+
+  renderMarkdown: (node, h, context) => {
+    if (!node.content) {
+      return '';
+    }
+    const indent = normalizeIndentAttr(node.attrs?.indent);
+    const marker = isListItemType(context?.parentType) ? '' : renderIndentMarker(indent);
+    return `${marker}${h.renderChildren(node.content, '\n')}`;
+  },
+
+  addCommands() {
+    // コマンドの型は @tiptap/extension-list の TaskList が宣言している（toggleTaskList）
+    return {
+      toggleTaskList:
+        () =>
+        ({ commands }) =>
+          commands.toggleList(this.name, 'taskItem'),
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {};
+  },
+});
+
+export const TaskItem = Node.create({
+  name: 'taskItem',
+
+  // Allow plainTextBlock as the first child for per-item plain text editing.
+  content: '(paragraph | plainTextBlock) block*',
+
+  defining: true,
+
+  addAttributes() {
+    return {
+      checked: {
+        default: false,
+        keepOnSplit: false,
+        parseHTML: (element: HTMLElement) => parseChecked(element.getAttribute('data-checked')),
+        renderHTML: (attributes: Record<string, unknown>) => ({
+          'data-checked': String(parseChecked(attributes.checked)),
+        }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'li[data-type="taskItem"]', priority: 51 }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'li',
+      mergeAttributes(HTMLAttributes, { 'data-type': 'taskItem' }),
+      [
+        'label',
+        { class: 'task-checkbox', contenteditable: 'false' },
+        ['input', { type: 'checkbox', checked: parseChecked(node.attrs.checked) ? 'checked' : null }],
+      ],
+      ['div', { class: 'block-content' }, 0],
+    ];
+  },
+
+  addNodeView() {
+    return ({ node, getPos, editor }) => {
+      const dom = document.createElement('li');
+      dom.setAttribute('data-type', 'taskItem');
+      const handleContainer = createNodeViewHandleContainer();
+      dom.appendChild(handleContainer);
+
+      const checkboxWrapper = document.createElement('label');
+      checkboxWrapper.className = 'task-checkbox';
+      checkboxWrapper.contentEditable = 'false';
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkboxWrapper.appendChild(checkbox);
+      dom.appendChild(checkboxWrapper);
+
+      const contentDom = document.createElement('div');
+      contentDom.className = 'block-content';
+      dom.appendChild(contentDom);
+
+      let currentNode = node;
+
+      const sync = () => {
+        const checked = parseChecked(currentNode.attrs.checked);
+        dom.dataset.checked = String(checked);
+        checkbox.checked = checked;
+        checkbox.disabled = !editor.isEditable;
+        const eligibility = resolveBlockHandleEligibility(editor.state, () => getPos() ?? Number.NaN, 'taskItem');
+        applyNodeViewHandleState(dom, handleContainer, eligibility, 'taskItem');
+      };
+
+      const onCheckboxMouseDown = (event: MouseEvent) => {
+        // クリックで本文の選択（カーソル）を動かさない
+        event.preventDefault();
+      };
+      const onCheckboxChange = () => {
+        const pos = getPos();
+        if (!editor.isEditable || typeof pos !== 'number') {
+          // 読み取り専用（readOnlyBanner）の間は切り替えない
+          checkbox.checked = parseChecked(currentNode.attrs.checked);
+          log.warn('Task toggle ignored', { editable: editor.isEditable, pos: pos ?? null });
+          return;
+        }
+        editor.view.dispatch(editor.state.tr.setNodeMarkup(pos, undefined, { ...currentNode.attrs, checked: checkbox.checked }));
+        log.info('Task toggled', { pos, checked: checkbox.checked });
+      };
+      checkbox.addEventListener('mousedown', onCheckboxMouseDown);
+      checkbox.addEventListener('change', onCheckboxChange);
+
+      sync();
+
+      return {
+        dom,
+        contentDOM: contentDom,
+        update: (updatedNode) => {
+          if (updatedNode.type.name !== 'taskItem') {
+            return false;
+          }
+          currentNode = updatedNode;
+          sync();
+          return true;
+        },
+        stopEvent: (event) => event.target instanceof Element && checkboxWrapper.contains(event.target),
+        ignoreMutation: (mutation) => mutation.type !== 'selection' && checkboxWrapper.contains(mutation.target),
+        destroy: () => {
+          checkbox.removeEventListener('mousedown', onCheckboxMouseDown);
+          checkbox.removeEventListener('change', onCheckboxChange);
+        },
+      };
+    };
+  },
+
+  renderMarkdown: (node, h, ctx) =>
+    renderNestedMarkdownContent(
+      node,
+      h,
+      () => `${getBulletListMarker()}${parseChecked(node.attrs?.checked) ? '[x] ' : '[ ] '}`,
+      ctx
+    ),
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: TASK_INPUT_RULE_RE,
+        handler: ({ state, range, match, chain, can }) => {
+          const checked = match[1].toLowerCase() === 'x';
+          const $from = state.doc.resolve(range.from);
+          if ($from.parent.type.name !== 'paragraph') {
+            return null;
+          }
+          const itemDepth = $from.depth - 1;
+          const item = itemDepth > 0 ? $from.node(itemDepth) : null;
+          // 項目の先頭の段落だけ（2 段落目以降とタスクの項目はそのまま）
+          if (item && isListItemType(item.type.name) && (item.type.name === this.name || $from.index(itemDepth) !== 0)) {
+            return null;
+          }
+          if (!can().toggleTaskList()) {
+            return null;
+          }
+          chain().deleteRange(range).toggleTaskList().updateAttributes(this.name, { checked }).run();
+          log.info('Task list created by input rule', { checked, fromListItem: Boolean(item && isListItemType(item.type.name)) });
+        },
+      }),
+    ];
+  },
+
+  addKeyboardShortcuts() {
+    return {};
+  },
+});
@@ -0,0 +1,294 @@
+/**
+ * 役割: 外部変更とローカルの未送信の編集をトップレベルブロック単位で 3-way マージする
+ * 責務: base（最後に同期した Markdown）/ local（エディタの内容）/ external（外部変更後の Markdown）をブロックに分け、
+ *       片側だけが変えた範囲はその側を採り、両側が違う形で変えた範囲を衝突として返す
+ * 不変条件: 入力はすべて LF 正規化済み。衝突の無い範囲の結果は、採った側の source をそのまま使う（書式を変えない）
+ *
+ * 方針（diff3）:
+ * - ブロックは marked のトップレベルトークンの開始位置で区切る（前後の空行は直前のブロックに含まれる）。
+ *   lexer が使えない・トークンが source に見つからない場合は空行で区切る
+ * - ブロックの比較は末尾の空白を除いて行う（文書末尾への追加で直前のブロックの後ろの空行だけが変わる場合があるため）
+ * - base と local、base と external のそれぞれで LCS を取り、対応が取れなかった範囲を hunk とする
+ * - base 上で重なる（同じ位置への挿入、挿入と接する変更を含む）hunk を 1 つの範囲にまとめる。
+ *   片側の hunk だけの範囲はその側、両側の範囲は local と external が同じならそれ、違えば衝突
+ * - 別の側・別の範囲から採ったテキストをつなぐ場所では、ブロックが続けて 1 つにならないよう空行を補う
+ */
+
+import type { MarkdownToken } from './markdownUtils.js';
+
+/** LCS テーブルのセル数上限（超過時は中間部分を対応なしとして扱う。blockPatch と同じ） */
+const MAX_LCS_CELLS = 250_000;
+
+type MergeSide = 'local' | 'external';
+
+interface MergePiece {
+  text: string;
+  side: MergeSide;
+  from: number;
+  to: number;
+}
+
+export type MergeChunk =
+  | { kind: 'resolved'; pieces: MergePiece[] }
+  | { kind: 'conflict'; base: string; local: string; external: string };
+
+export interface ThreeWayMergeResult {
+  chunks: MergeChunk[];
+  conflictCount: number;
+}
+
+const blockKey = (block: string): string => block.trimEnd();
+
+const sameBlocks = (left: string[], right: string[]): boolean =>
+  left.length === right.length && left.every((block, index) => blockKey(block) === blockKey(right[index]));
+
+const splitOnBlankLines = (markdown: string): string[] => markdown.split(/(?<=\n[ \t]*\n)(?=[^\n])/);
+
+/**
+ * Markdown をトップレベルブロックに分ける。結果を連結すると元の markdown に戻る。
+ */
+export const splitMarkdownBlocks = (
+  markdown: string,
+  lexer: ((markdown: string) => MarkdownToken[]) | null
+): string[] => {
+  if (markdown === '') {
+    return [];
+  }
+  if (!lexer) {
+    return splitOnBlankLines(markdown);
+  }
+
+  let tokens: MarkdownToken[];
+  try {
+    tokens = lexer(markdown);
+  } catch {
+    return splitOnBlankLines(markdown);
+  }
+
+  const starts: number[] = [];
+  let offset = 0;
+  for (const token of tokens) {
+    const raw = token.raw ?? '';
+    const at = markdown.indexOf(raw, offset);
+    if (at === -1) {
+      return splitOnBlankLines(markdown);
+    }
+    if (token.type !== 'space' && raw.trim() !== '') {
+      starts.push(at);
+    }
+    offset = at + raw.length;
+  }
+
+  const blocks: string[] = [];
+  let from = 0;
+  for (const start of starts) {
+    if (start > from) {
+      blocks.push(markdown.slice(from, start));
+      from = start;
+    }
+  }
+  blocks.push(markdown.slice(from));
+  return blocks;
+};
+
+/** base と other の対応するブロックの index（base の index → other の index） */
+const matchBlocks = (base: string[], other: string[]): Map<number, number> => {
+  const matches = new Map<number, number>();
+  const baseKeys = base.map(blockKey);
+  const otherKeys = other.map(blockKey);
+
+  let prefix = 0;
+  const maxPrefix = Math.min(baseKeys.length, otherKeys.length);
+  while (prefix < maxPrefix && baseKeys[prefix] === otherKeys[prefix]) {
+    matches.set(prefix, prefix);
+    prefix += 1;
+  }
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (
+    suffix < maxSuffix &&
+    baseKeys[baseKeys.length - 1 - suffix] === otherKeys[otherKeys.length - 1 - suffix]
+  ) {
+    matches.set(baseKeys.length - 1 - suffix, otherKeys.length - 1 - suffix);
+    suffix += 1;
+  }
+
+  const baseStart = prefix;
+  const otherStart = prefix;
+  const baseLen = baseKeys.length - suffix - prefix;
+  const otherLen = otherKeys.length - suffix - prefix;
+  if (baseLen === 0 || otherLen === 0 || baseLen * otherLen > MAX_LCS_CELLS) {
+    return matches;
+  }
+
+  // lcs[i][j] = baseKeys[baseStart+i..] と otherKeys[otherStart+j..] の LCS 長
+  const width = otherLen + 1;
+  const lcs = new Uint32Array((baseLen + 1) * width);
+  for (let i = baseLen - 1; i >= 0; i -= 1) {
+    for (let j = otherLen - 1; j >= 0; j -= 1) {
+      lcs[i * width + j] =
+        baseKeys[baseStart + i] === otherKeys[otherStart + j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < baseLen && j < otherLen) {
+    if (baseKeys[baseStart + i] === otherKeys[otherStart + j]) {
+      matches.set(baseStart + i, otherStart + j);
+      i += 1;
+      j += 1;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      i += 1;
+    } else {
+      j += 1;
+    }
+  }
+  return matches;
+};
+
+interface BlockHunk {
+  side: MergeSide;
+  baseFrom: number;
+  baseTo: number;
+  from: number;
+  to: number;
+}
+
+/** base から other への変更を、対応が取れなかったブロックの範囲（hunk）として返す */
+const diffBlocks = (base: string[], other: string[], side: MergeSide): BlockHunk[] => {
+  const matches = [...matchBlocks(base, other)].sort((left, right) => left[0] - right[0]);
+  matches.push([base.length, other.length]);
+  const hunks: BlockHunk[] = [];
+  let baseFrom = 0;
+  let from = 0;
+  for (const [baseIndex, otherIndex] of matches) {
+    if (baseIndex > baseFrom || otherIndex > from) {
+      hunks.push({ side, baseFrom, baseTo: baseIndex, from, to: otherIndex });
+    }
+    baseFrom = baseIndex + 1;
+    from = otherIndex + 1;
+  }
+  return hunks;
+};
+
+const hunkDelta = (hunk: BlockHunk): number => hunk.to - hunk.from - (hunk.baseTo - hunk.baseFrom);
+
+/**
+ * ブロック単位の 3-way マージ。衝突の無い範囲は resolved、両側が違う形で変えた範囲は conflict になる。
+ */
+export const mergeMarkdownBlocks = (base: string[], local: string[], external: string[]): ThreeWayMergeResult => {
+  const hunks = [...diffBlocks(base, local, 'local'), ...diffBlocks(base, external, 'external')].sort(
+    (left, right) => left.baseFrom - right.baseFrom || left.baseTo - right.baseTo
+  );
+  const chunks: MergeChunk[] = [];
+  let conflictCount = 0;
+
+  const pushPiece = (side: MergeSide, from: number, to: number): void => {
+    if (from >= to) {
+      return;
+    }
+    const blocks = side === 'local' ? local : external;
+    const piece: MergePiece = { text: blocks.slice(from, to).join(''), side, from, to };
+    const last = chunks[chunks.length - 1];
+    if (last?.kind === 'resolved') {
+      last.pieces.push(piece);
+    } else {
+      chunks.push({ kind: 'resolved', pieces: [piece] });
+    }
+  };
+
+  // 重なる（挿入同士・挿入と変更が同じ位置で接する場合を含む）hunk をまとめて 1 つの範囲にする
+  const groups: BlockHunk[][] = [];
+  let groupFrom = 0;
+  let groupTo = 0;
+  for (const hunk of hunks) {
+    const group = groups[groups.length - 1];
+    const touches =
+      group !== undefined &&
+      (hunk.baseFrom < groupTo ||
+        (hunk.baseFrom === groupTo && (hunk.baseFrom === hunk.baseTo || groupFrom === groupTo)));
+    if (touches) {
+      group.push(hunk);
+      groupTo = Math.max(groupTo, hunk.baseTo);
+    } else {
+      groups.push([hunk]);
+      groupFrom = hunk.baseFrom;
+      groupTo = hunk.baseTo;
+    }
+  }
+
+  // hunk の外では base と各側のブロックは 1:1 に対応する（delta はそれまでの hunk による index のずれ）
+  let baseCursor = 0;
+  let localDelta = 0;
+  let externalDelta = 0;
+  for (const group of groups) {
+    const from = group[0].baseFrom;
+    const to = Math.max(...group.map((hunk) => hunk.baseTo));
+    pushPiece('local', baseCursor + localDelta, from + localDelta);
+
+    const localHunks = group.filter((hunk) => hunk.side === 'local');
+    const externalHunks = group.filter((hunk) => hunk.side === 'external');
+    const localFrom = from + localDelta;
+    const externalFrom = from + externalDelta;
+    localDelta += localHunks.reduce((sum, hunk) => sum + hunkDelta(hunk), 0);
+    externalDelta += externalHunks.reduce((sum, hunk) => sum + hunkDelta(hunk), 0);
+    const localTo = to + localDelta;
+    const externalTo = to + externalDelta;
+
+    if (localHunks.length === 0) {
+      pushPiece('external', externalFrom, externalTo);
+    } else if (
+      externalHunks.length === 0 ||
+      sameBlocks(local.slice(localFrom, localTo), external.slice(externalFrom, externalTo))
+    ) {
+      pushPiece('local', localFrom, localTo);
+    } else {
+      conflictCount += 1;
+      chunks.push({
+        kind: 'conflict',
+        base: base.slice(from, to).join(''),
+        local: local.slice(localFrom, localTo).join(''),
+        external: external.slice(externalFrom, externalTo).join(''),
+      });
+    }
+    baseCursor = to;
+  }
+  pushPiece('local', baseCursor + localDelta, base.length + localDelta);
+
+  return { chunks, conflictCount };
+};
+
+/** 直前のテキストとつないでもブロックが 1 つにならないよう、必要なら空行を補う */
+const joinBlocks = (before: string, after: string): string => {
+  if (before === '' || after === '' || before.endsWith('\n\n')) {
+    return before + after;
+  }
+  return before + (before.endsWith('\n') ? '\n' : '\n\n') + after;
+};
+
+/**
+ * マージ結果の Markdown を組み立てる。resolutions は衝突ごとに選んだ（編集した）テキスト（conflict の順）。
+ */
+export const buildMergedMarkdown = (result: ThreeWayMergeResult, resolutions: string[]): string => {
+  let merged = '';
+  let previous: MergePiece | null = null;
+  let conflictIndex = 0;
+  for (const chunk of result.chunks) {
+    if (chunk.kind === 'conflict') {
+      merged = joinBlocks(merged, resolutions[conflictIndex] ?? chunk.local);
+      conflictIndex += 1;
+      previous = null;
+      continue;
+    }
+    for (const piece of chunk.pieces) {
+      const contiguous = previous !== null && previous.side === piece.side && previous.to === piece.from;
+      merged = contiguous ? merged + piece.text : joinBlocks(merged, piece.text);
+      previous = piece;
+    }
+  }
+  return merged;
+};
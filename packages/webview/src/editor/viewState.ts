@@ -0,0 +1,109 @@
+/**
+ * 役割: ブロック単位の表示状態（プレビューの切り替え）の収集と復元、保存時の document 指紋
+ * 責務: NodeView が登録したブロックの状態を WebviewViewState.blocks に集め、init 時に保存済みの状態を NodeView に渡す
+ * 不変条件: ProseMirror doc には状態を保存しない（UI 状態はランタイムと setState / host に閉じる）
+ *
+ * 方針:
+ * - ブロックは「ProseMirror の position + ノード種別」で識別する（保存時と同じ document の場合のみ復元するため十分）
+ * - 保存するのは既定から切り替えたブロックのみ（既定のままのブロックは記録しない）
+ * - 復元する状態は editor 生成前に setRestoredBlockViewStates で渡し、NodeView の生成時に takeRestoredBlockViewState で受け取る
+ * - 指紋は shadowText から計算し、shadowText が変わらない間は計算し直さない
+ */
+
+import type { Editor } from '@tiptap/core';
+import { TextSelection } from '@tiptap/pm/state';
+import type { BlockViewState, WebviewViewState } from '../protocol/types.js';
+
+export interface BlockViewStateSource {
+  nodeType: string;
+  getPos: () => number | undefined;
+  /** 既定のままなら null */
+  getPreviewOverride: () => boolean | null;
+}
+
+const sources = new Set<BlockViewStateSource>();
+let restoredBlocks = new Map<string, boolean>();
+let changeListener: (() => void) | null = null;
+let hashCache: { text: string; hash: string } | null = null;
+
+const blockKey = (pos: number, nodeType: string): string => `${pos}:${nodeType}`;
+
+export const setBlockViewStateListener = (listener: (() => void) | null): void => {
+  changeListener = listener;
+};
+
+export const notifyBlockViewStateChanged = (): void => {
+  changeListener?.();
+};
+
+export const registerBlockViewState = (source: BlockViewStateSource): (() => void) => {
+  sources.add(source);
+  return () => {
+    sources.delete(source);
+  };
+};
+
+export const setRestoredBlockViewStates = (blocks: BlockViewState[] | undefined): void => {
+  restoredBlocks = new Map((blocks ?? []).map((block) => [blockKey(block.pos, block.nodeType), block.preview]));
+};
+
+/**
+ * 保存済みのプレビュー状態（無ければ null）。1 回受け取ると消える。
+ */
+export const takeRestoredBlockViewState = (pos: number | undefined, nodeType: string): boolean | null => {
+  if (pos === undefined) {
+    return null;
+  }
+  const key = blockKey(pos, nodeType);
+  const preview = restoredBlocks.get(key);
+  if (preview === undefined) {
+    return null;
+  }
+  restoredBlocks.delete(key);
+  return preview;
+};
+
+export const collectBlockViewStates = (): BlockViewState[] => {
+  const blocks: BlockViewState[] = [];
+  for (const source of sources) {
+    const preview = source.getPreviewOverride();
+    const pos = source.getPos();
+    if (preview === null || pos === undefined) {
+      continue;
+    }
+    blocks.push({ pos, nodeType: source.nodeType, preview });
+  }
+  return blocks.sort((a, b) => a.pos - b.pos);
+};
+
+/**
+ * document 内容の指紋（FNV-1a 32bit + 長さ）。
+ */
+export const computeContentHash = (text: string): string => {
+  if (hashCache?.text === text) {
+    return hashCache.hash;
+  }
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  const result = `${(hash >>> 0).toString(16)}:${text.length}`;
+  hashCache = { text, hash: result };
+  return result;
+};
+
+/**
+ * 保存済みの選択を戻す（doc の範囲に収める。スクロールはしない）。
+ */
+export const restoreSelection = (editor: Editor, selection: NonNullable<WebviewViewState['selection']>): boolean => {
+  const { doc } = editor.state;
+  const clamp = (pos: number): number => Math.min(Math.max(0, Math.round(pos)), doc.content.size);
+  try {
+    const next = TextSelection.between(doc.resolve(clamp(selection.anchor)), doc.resolve(clamp(selection.head)));
+    editor.view.dispatch(editor.state.tr.setSelection(next).setMeta('addToHistory', false));
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -11,32 +11,61 @@
  * 3. 編集 → SyncClient.scheduleEdit() → debounce 後に edit 送信
  * 4. ack/nack 受信 → 状態更新
  * 5. docChanged 受信 → エディタに差分適用
- * 6. beforeunload → getState/setState でスクロール位置保存
+ * 6. スクロール・選択・検索・プレビュー切り替えのたびに表示状態を保存（setState + host）
+ * 7. 選択を同じ document の他のパネルと共有し、他のパネルの選択と編集で変わったブロックを表示（peerCursors）
+ * 8. 未送信の編集がある間の外部変更はブロック単位で 3-way マージし、衝突があればマージパネルで選ばせる（threeWayMerge.ts / mergePanel.ts）
+ * 9. init の readOnly がある場合は編集できないエディタと検索のみのウィジェットを作り、理由をバナーで表示する（readOnlyBanner.ts）
  *
  * NOTE:
  * エラー/警告（例: ChangeGuard 超過）は Webview 内オーバーレイではなく
  * VS Code 標準の通知 UI で表示する（追加方針）。
  * 
  * 状態永続化 (設計書 13.2):
- * - getState/setState でスクロール位置を保存
- * - タブ切り替え/リロード後も位置を復元
+ * - 表示状態（スクロール位置・選択・検索ウィジェット・ブロックのプレビュー切り替え）を変わるたびに setState で保存
+ * - 同じ状態を host にも送り（document 単位で workspaceState に保存）、setState が空のとき（タブを開き直した等）は init の viewState を使う
+ * - タブ切り替え（retainContextWhenHidden 無効）/リロード後も復元する
+ * - 選択とブロックの状態は、保存時と document の内容（contentHash）が同じ場合のみ復元する
  */
 
-import { SyncClient } from './protocol/client.js';
+import { SyncClient, type HistoryStep } from './protocol/client.js';
 import { createEditor, type EditorInstance } from './editor/createEditor.js';
 import { createFindWidget, type FindWidgetApi, type FindWidgetState } from './editor/findWidget.js';
-import type { Replace, Remediation, WebviewConfig } from './protocol/types.js';
-import type { ChangeMetrics } from './editor/diffEngine.js';
+import type {
+  ChangeGuardMetrics,
+  NavigationTarget,
+  PeerSelection,
+  QuickDiffHunk,
+  ReadOnlyReason,
+  Replace,
+  Remediation,
+  WebviewConfig,
+  WebviewViewState,
+} from './protocol/types.js';
 import { executeCommand, type CommandName } from './editor/commands.js';
+import { applyNavigationTarget, selectMarkdownRange } from './editor/navigationTarget.js';
+import { createSyncBanner, type SyncBanner } from './editor/syncBanner.js';
+import { createMergePanel, type MergePanel } from './editor/mergePanel.js';
+import { createReadOnlyBanner, type ReadOnlyBanner } from './editor/readOnlyBanner.js';
+import { buildMergedMarkdown, mergeMarkdownBlocks, splitMarkdownBlocks } from './editor/threeWayMerge.js';
+import { getMarkdownManager } from './editor/markdownUtils.js';
+import { normalizeLineEndings } from './editor/lineEndings.js';
+import { applyQuickDiff } from './editor/quickDiffExtension.js';
+import { flashPeerChange, setPeerSelections } from './editor/peerCursorsExtension.js';
 import { getRuntimeConfig, setRuntimeConfig } from './editor/runtimeConfig.js';
+import {
+  collectBlockViewStates,
+  computeContentHash,
+  restoreSelection,
+  setBlockViewStateListener,
+  setRestoredBlockViewStates,
+} from './editor/viewState.js';
 import { createLogger, setDebugEnabled } from './logger.js';
 import './styles.css';
 
-interface AppState {
-  scrollTop?: number;
-  scrollLeft?: number;
-  findWidget?: FindWidgetState;
-}
+type AppState = Omit<WebviewViewState, 'findWidget'> & { findWidget?: FindWidgetState };
+
+const SAVE_STATE_DEBOUNCE_MS = 150;
+const HOST_VIEW_STATE_DEBOUNCE_MS = 1000;
 
 let editorInstance: EditorInstance | null = null;
 let syncClient: SyncClient | null = null;
@@ -45,7 +74,13 @@ let appRootEl: HTMLElement | null = null;
 let findWidget: FindWidgetApi | null = null;
 let appState: AppState = {};
 let saveStateTimer: number | null = null;
+let hostViewStateTimer: number | null = null;
 let loadingEl: HTMLElement | null = null;
+let syncBanner: SyncBanner | null = null;
+let mergePanel: MergePanel | null = null;
+let readOnlyBanner: ReadOnlyBanner | null = null;
+/** host から最後に届いた他のパネルの選択 */
+let peerSelections: PeerSelection[] = [];
 let initSequence = 0;
 let colorResolveEl: HTMLSpanElement | null = null;
 let colorCompositeCtx: CanvasRenderingContext2D | null = null;
@@ -70,6 +105,7 @@ const VALID_EDITOR_COMMANDS: ReadonlySet<CommandName> = new Set([
   'toggleHeading6',
   'toggleBulletList',
   'toggleOrderedList',
+  'toggleTaskList',
   'toggleBlockquote',
   'toggleCodeBlock',
   'indentBlock',
@@ -147,6 +183,11 @@ function main(): void {
   editorContainerEl = document.createElement('div');
   editorContainerEl.className = 'editor-container';
   appContainer.appendChild(editorContainerEl);
+  editorContainerEl.addEventListener('scroll', scheduleSaveState, { passive: true });
+  setBlockViewStateListener(scheduleSaveState);
+  syncBanner = createSyncBanner(appContainer, editorContainerEl, () => syncClient?.showSyncActions());
+  mergePanel = createMergePanel(appContainer, editorContainerEl);
+  readOnlyBanner = createReadOnlyBanner(appContainer, editorContainerEl);
 
   log.info('Creating SyncClient');
   syncClient = new SyncClient({
@@ -155,6 +196,23 @@ function main(): void {
     onError: handleError,
     onImageResolved: handleImageResolved,
     onConfigChanged: handleConfigChanged,
+    onNavigate: handleNavigate,
+    onQuickDiff: handleQuickDiff,
+    onEditHeld: handleChangeGuardExceeded,
+    onSyncStateChange: (state) => {
+      syncBanner?.update(state);
+      // 送信待ちの編集がある間に届いた peer の選択は、ローカルの document と位置が合わないので idle になってから置く
+      if (state === 'idle') {
+        applyPeerSelections();
+      }
+    },
+    onPeerSelections: handlePeerSelections,
+    onMergeRequired: handleMergeRequired,
+    getSelection: () => {
+      const selection = editorInstance?.editor.state.selection;
+      return selection ? { anchor: selection.anchor, head: selection.head } : null;
+    },
+    getJournalContent: () => editorInstance?.getContent() ?? null,
   });
 
   window.addEventListener('error', (event) => {
@@ -271,8 +329,37 @@ const waitForInitialContent = (
   requestAnimationFrame(check);
 };
 
+const captureViewState = (): AppState => {
+  const selection = editorInstance?.editor.state.selection;
+  return {
+    contentHash: syncClient ? computeContentHash(syncClient.getShadowText()) : appState.contentHash,
+    scrollTop: editorContainerEl?.scrollTop ?? appState.scrollTop,
+    scrollLeft: editorContainerEl?.scrollLeft ?? appState.scrollLeft,
+    selection: selection ? { anchor: selection.anchor, head: selection.head } : appState.selection,
+    findWidget: findWidget?.getState() ?? appState.findWidget,
+    blocks: editorInstance ? collectBlockViewStates() : appState.blocks,
+  };
+};
+
+const flushViewState = (): void => {
+  if (!syncClient || !editorInstance) {
+    return;
+  }
+  if (saveStateTimer) {
+    clearTimeout(saveStateTimer);
+    saveStateTimer = null;
+  }
+  if (hostViewStateTimer) {
+    clearTimeout(hostViewStateTimer);
+    hostViewStateTimer = null;
+  }
+  appState = captureViewState();
+  syncClient.saveState(appState);
+  syncClient.sendViewState(appState);
+};
+
 const scheduleSaveState = (): void => {
-  if (!syncClient) {
+  if (!syncClient || !editorInstance) {
     return;
   }
   if (saveStateTimer) {
@@ -280,8 +367,17 @@ const scheduleSaveState = (): void => {
   }
   saveStateTimer = window.setTimeout(() => {
     saveStateTimer = null;
+    appState = captureViewState();
     syncClient?.saveState(appState);
-  }, 150);
+  }, SAVE_STATE_DEBOUNCE_MS);
+  // host（workspaceState）への保存は間隔を空ける
+  if (hostViewStateTimer) {
+    clearTimeout(hostViewStateTimer);
+  }
+  hostViewStateTimer = window.setTimeout(() => {
+    hostViewStateTimer = null;
+    syncClient?.sendViewState(captureViewState());
+  }, HOST_VIEW_STATE_DEBOUNCE_MS);
 };
 
 const ensureColorResolveElement = (): HTMLSpanElement => {
@@ -399,7 +495,8 @@ function handleInit(
   content: string,
   _version: number,
   config: WebviewConfig,
-  _i18n: Record<string, string>
+  _i18n: Record<string, string>,
+  options: { navigationPending: boolean; viewState?: WebviewViewState; readOnly?: ReadOnlyReason }
 ): void {
   const initStartedAt = Date.now();
   setDebugEnabled(Boolean(config.debug?.enabled));
@@ -434,14 +531,19 @@ function handleInit(
     log.info('Destroying existing editor instance');
     editorInstance.destroy();
   }
+  // init はマージ中の内容も置き換える（SyncClient もマージを取り消している）
+  mergePanel?.hide();
 
   if (findWidget) {
     findWidget.destroy();
     findWidget = null;
   }
 
-  const savedState = syncClient?.loadState<AppState>();
+  // パネルの setState が第一候補。無ければ host が document ごとに保存した状態
+  const savedState = syncClient?.loadState<AppState>() ?? (options.viewState as AppState | undefined);
   appState = savedState ?? {};
+  const sameContent = savedState?.contentHash !== undefined && savedState.contentHash === computeContentHash(content);
+  setRestoredBlockViewStates(sameContent ? savedState?.blocks : undefined);
 
   applyViewConfig(config);
   applyOpaqueBlockShellBackground('init');
@@ -450,9 +552,14 @@ function handleInit(
   editorInstance = createEditor({
     container: editorContainerEl,
     syncClient: syncClient!,
-    onChangeGuardExceeded: handleChangeGuardExceeded,
     initialContent: content,
+    readOnly: options.readOnly !== undefined,
   });
+  readOnlyBanner?.update(options.readOnly);
+  // NodeView の生成時に受け取られなかったブロック状態は捨てる（以降に作られるブロックへ誤適用しない）
+  setRestoredBlockViewStates(undefined);
+  editorInstance.editor.on('selectionUpdate', scheduleSaveState);
+  editorInstance.editor.on('selectionUpdate', () => syncClient?.notifySelectionChanged());
 
   resolveImagesInEditor();
   setupImageObserver();
@@ -468,15 +575,30 @@ function handleInit(
       appState = { ...appState, findWidget: state };
       scheduleSaveState();
     },
+    readOnly: options.readOnly !== undefined,
   });
 
   if (appState.findWidget) {
     findWidget.restoreState(appState.findWidget);
   }
 
-  if (savedState?.scrollTop !== undefined) {
+  // NavigationTarget がある init では保存済みスクロールより host の target を優先する
+  const hasSavedScroll = savedState?.scrollTop !== undefined;
+  const restoreScroll = hasSavedScroll && !options.navigationPending;
+  log.debug('Scroll restore decision', {
+    hasSavedScroll,
+    hasNavigationTarget: options.navigationPending,
+    restored: restoreScroll,
+    reason: options.navigationPending ? 'navigationTarget' : hasSavedScroll ? 'savedState' : 'noSavedState',
+  });
+  if (restoreScroll && savedState?.scrollTop !== undefined) {
     log.debug('Restoring scroll position', { scrollTop: savedState.scrollTop });
     editorContainerEl.scrollTop = savedState.scrollTop;
+    editorContainerEl.scrollLeft = savedState.scrollLeft ?? 0;
+  }
+  if (sameContent && !options.navigationPending && savedState?.selection) {
+    const restored = restoreSelection(editorInstance.editor, savedState.selection);
+    log.debug('Selection restore', { restored, selection: savedState.selection });
   }
 
   initSequence += 1;
@@ -540,7 +662,9 @@ function applyViewConfig(config: WebviewConfig): void {
 function handleDocChanged(
   _version: number,
   changes: Replace[],
-  fullContent?: string
+  fullContent?: string,
+  history?: HistoryStep,
+  peerId?: string
 ): void {
   log.debug('DocChanged received', { 
     version: _version, 
@@ -554,6 +678,13 @@ function handleDocChanged(
     return;
   }
 
+  const before = editorInstance.editor.state.doc;
+  // 全文の docChanged はマージを取り消す（SyncClient 側も取り消し済み）
+  if (fullContent !== undefined && mergePanel?.isOpen()) {
+    log.info('Merge panel closed by full content replacement');
+    mergePanel.hide();
+    editorInstance.editor.setEditable(true, false);
+  }
   if (fullContent !== undefined) {
     log.info('Applying full content replacement', { contentLength: fullContent.length });
     editorInstance.setContent(fullContent);
@@ -565,6 +696,115 @@ function handleDocChanged(
   } else {
     log.debug('No changes to apply');
   }
+
+  // undo / redo は TextDocument の履歴で行うため、選択は変わった範囲に置き直す
+  if (history && syncClient) {
+    const selected = selectMarkdownRange(editorInstance.editor, syncClient.getShadowText(), history.range);
+    log.debug('History step applied', { direction: history.direction, range: history.range, selected });
+  }
+
+  // 別のパネルの編集は変わったブロックを一時的に強調する（全文の置き換えは対象外）
+  if (peerId && fullContent === undefined) {
+    const peer = peerSelections.find((candidate) => candidate.peerId === peerId);
+    flashPeerChange(editorInstance.editor, before, peer?.colorIndex ?? null);
+  }
+}
+
+/**
+ * 未送信の編集がある間の外部変更。エディタの内容（local）を base / external とブロック単位でマージし、
+ * 衝突が無ければそのまま、あればマージパネルで選ばせてから反映する（結果は 1 つの edit で送られる）
+ */
+function handleMergeRequired(merge: { base: string; external: string; version: number }): void {
+  if (!editorInstance || !syncClient) {
+    syncClient?.completeMerge();
+    return;
+  }
+  const manager = getMarkdownManager(editorInstance.editor);
+  const lexer = manager?.instance ? manager.instance.lexer.bind(manager.instance) : null;
+  const result = mergeMarkdownBlocks(
+    splitMarkdownBlocks(normalizeLineEndings(merge.base), lexer),
+    splitMarkdownBlocks(editorInstance.getContent(), lexer),
+    splitMarkdownBlocks(normalizeLineEndings(merge.external), lexer)
+  );
+  log.info('External change merged with unsent edits', {
+    version: merge.version,
+    chunkCount: result.chunks.length,
+    conflictCount: result.conflictCount,
+  });
+
+  if (result.conflictCount === 0) {
+    finishMerge(buildMergedMarkdown(result, []));
+    return;
+  }
+  // 選んでいる間の入力はマージの local に含まれないため、エディタは読み取り専用にする
+  editorInstance.editor.setEditable(false, false);
+  mergePanel?.show(result, (resolutions) => finishMerge(buildMergedMarkdown(result, resolutions)));
+}
+
+function finishMerge(merged: string): void {
+  if (!editorInstance || !syncClient) {
+    return;
+  }
+  editorInstance.editor.setEditable(true, false);
+  syncClient.completeMerge();
+  editorInstance.applyMerged(merged);
+  resolveImagesInEditor();
+}
+
+function handleNavigate(target: NavigationTarget, docVersion: number): void {
+  if (!editorInstance || !editorContainerEl || !syncClient) {
+    log.warn('No editor instance - ignoring navigation target', { seq: target.seq });
+    return;
+  }
+
+  void applyNavigationTarget(
+    editorInstance.editor,
+    editorContainerEl,
+    syncClient.getShadowText(),
+    target
+  ).then((result) => {
+    log.info('Navigation target applied', {
+      seq: target.seq,
+      docVersion,
+      selectionApplied: result !== null,
+      fallback: result?.fallback ?? null,
+      revealApplied: result?.revealApplied ?? false,
+      targetPos: result?.from ?? null,
+      scrollBefore: result?.scrollBefore ?? null,
+      scrollAfter: result?.scrollAfter ?? null,
+    });
+  });
+}
+
+function handleQuickDiff(hunks: QuickDiffHunk[], available: boolean, docVersion: number): void {
+  if (!editorInstance || !syncClient) {
+    log.debug('No editor instance - ignoring quick diff', { hunkCount: hunks.length });
+    return;
+  }
+
+  const result = applyQuickDiff(editorInstance.editor, syncClient.getShadowText(), hunks, available);
+  log.debug('Quick diff applied', {
+    docVersion,
+    available,
+    hunkCount: hunks.length,
+    markerCount: result?.markerCount ?? 0,
+    unmappedHunks: result?.unmappedHunks ?? null,
+    mapped: result !== null,
+  });
+}
+
+function handlePeerSelections(peers: PeerSelection[]): void {
+  peerSelections = peers;
+  if (syncClient?.getSyncState() === 'idle') {
+    applyPeerSelections();
+  }
+}
+
+function applyPeerSelections(): void {
+  if (!editorInstance || !syncClient) {
+    return;
+  }
+  setPeerSelections(editorInstance.editor, peerSelections, syncClient.getBaseVersion());
 }
 
 function handleError(code: string, message: string, remediation: string[]): void {
@@ -573,18 +813,14 @@ function handleError(code: string, message: string, remediation: string[]): void
   syncClient?.notifyHost('ERROR', code, message, filterRemediations(remediation));
 }
 
-// ChangeGuard: 大規模編集の警告ロジック（一時的にコメントアウト）
-// function handleChangeGuardExceeded(metrics: ChangeMetrics): void {
-//   const message = syncClient?.t(
-//     'Large change detected. {0} characters changed ({1}%).',
-//     metrics.changedChars,
-//     Math.round(metrics.changedRatio * 100)
-//   ) || `Large change detected. ${metrics.changedChars} characters changed (${Math.round(metrics.changedRatio * 100)}%).`;
-//
-//   syncClient?.notifyHost('WARN', 'CHANGE_GUARD_EXCEEDED', message, ['resync', 'resetSession']);
-// }
-function handleChangeGuardExceeded(_metrics: ChangeMetrics): void {
-  // ChangeGuard disabled - do nothing
+// ChangeGuard: 判定と確認（差分プレビュー / 適用・破棄）は host 側で行う。
+// Webview は確認が終わるまで in-flight のまま待ち、結果は ack/nack と docChanged で受け取る。
+function handleChangeGuardExceeded(metrics: ChangeGuardMetrics): void {
+  log.info('Large edit is waiting for confirmation', {
+    changedChars: metrics.changedChars,
+    changedRatio: metrics.changedRatio,
+    hunkCount: metrics.hunkCount,
+  });
 }
 
 function filterRemediations(remediation: string[]): Remediation[] {
@@ -725,17 +961,12 @@ function handleFindCommand(command: FindCommandName): void {
 }
 
 window.addEventListener('beforeunload', () => {
-  if (syncClient) {
-    const editorContainer = document.querySelector('.editor-container') as HTMLElement;
-    if (editorContainer) {
-      appState = {
-        ...appState,
-        scrollTop: editorContainer.scrollTop,
-        scrollLeft: editorContainer.scrollLeft,
-        findWidget: findWidget?.getState() ?? appState.findWidget,
-      };
-      syncClient.saveState(appState);
-    }
+  flushViewState();
+});
+
+document.addEventListener('visibilitychange', () => {
+  if (document.visibilityState === 'hidden') {
+    flushViewState();
   }
 });
 
@@ -763,6 +994,10 @@ window.addEventListener('message', (event) => {
       log.warn('Unknown editor command', { command: msg.command });
       return;
     }
+    if (syncClient?.isReadOnly()) {
+      log.debug('Editor command ignored (read-only)', { command: msg.command });
+      return;
+    }
     log.info('Executing editor command', { command: msg.command });
     executeCommand(editorInstance.editor, msg.command);
   }
@@ -8,20 +8,30 @@
  * 同期アルゴリズム (設計書 10):
  * - baseVersion: 最後に受信した docChanged/init の version
  * - txId: 送信ごとにインクリメント（クライアント内でユニーク）
- * - shadowText: 最後に同期した Markdown テキスト（差分計算の基準）
+ * - shadowText: 最後に同期した Markdown テキスト（差分計算の基準。document と同じ改行コードのまま保持）
+ * - eol: document の改行コード（init / docChanged で更新。editor 側は LF 正規化して編集する）
  * 
  * in-flight 管理 (設計書 10.1):
  * - 同時に送信できる edit は 1 件まで
  * - in-flight 中の編集は pendingChanges に coalesce
  * - ack 受信後に pendingChanges を送信
+ * - getChanges が Promise を返す（Web Worker で差分計算）間も in-flight と同じく coalesce する。
+ *   完了までに shadowText が変わった場合は結果を捨てて最新の getChanges で計算し直す
  * 
  * nack 後の自動再送 (設計書 10.2):
- * - baseVersionMismatch の場合、1 回だけ自動リトライ
+ * - host は古い baseVersion の edit を途中の変更で変換（rebase）して適用する（ack.rebasedFrom）
+ *   rebase された結果は reason=external の docChanged で届く（Webview は途中の変更と一緒に保留し、ack の後にマージする。10.7）
+ * - baseVersionMismatch（host に履歴が無い）の場合、1 回だけ自動リトライ
  * - requestResync → docChanged 受信 → 保留していた edit を再送
  * - 2 回目の nack はエラー表示
+ * - conflict（外部変更と範囲が重なる）は自動リトライしない（上書きで外部変更を消さないため）
+ * - in-flight の間に外部変更を保留していた場合（10.7）、conflict と baseVersionMismatch は resync / desynced にせず、
+ *   送った edit と coalesce 中の編集を local として保留した外部変更とマージする（base は送信時の shadowText）
+ * - changeGuardRejected（大規模編集をユーザーが破棄）は保留中の編集も捨て、host の再同期を待つ
  * 
  * タイムアウト (設計書 10.4):
  * - timeoutMs 以内に ack/nack が来なければ SYNC_TIMEOUT
+ * - editHeld（ChangeGuard 超過でユーザーの確認待ち）を受信したらタイムアウトを止めて ack/nack を待つ
  * - ErrorOverlay で復旧導線を表示
  * 
  * sessionId フィルタリング (設計書 13.1):
@@ -29,6 +39,33 @@
  * - 以降のメッセージは sessionId が一致しなければ破棄
  * - タブ復元時の古いメッセージ混入を防止
  * 
+ * 受信メッセージの検証と capability (設計書 9.7):
+ * - 全フィールドを validateExtensionToWebviewMessage で検証し、一致しないものは破棄する
+ * - v が MIN_PROTOCOL_VERSION..PROTOCOL_VERSION の範囲外なら PROTOCOL_VERSION_MISMATCH
+ * - ready で CAPABILITIES を送り、init の capabilities に含まれる機能（viewState / undoRedo / syncState / quickDiff / peerCursors）だけを使う
+ *
+ * 未送信の編集と外部変更の 3-way マージ (設計書 10.7):
+ * - 送信前の編集（debounce 中 / coalesce 中 / 差分計算中）がある間に差分の docChanged（self 以外）が届いたら、
+ *   エディタを上書きせず onMergeRequired で base（直前の shadowText）と external（新しい shadowText）を渡す
+ * - マージが終わる（completeMerge）まで edit は送らない。その間に届いた docChanged も同じ base でマージし直す
+ * - in-flight の edit がある間（ack / その docChanged 待ち）に届いた差分の docChanged（self 以外）はエディタに反映せず保留する。
+ *   ack の後に送った edit を適用した base（inFlightBase + inFlightChanges）でマージする（送った edit と以降の編集が local になる）
+ * - 全文の docChanged と init はマージと保留を取り消す
+ *
+ * 届いていない編集の記録 (editJournal):
+ * - syncState が idle 以外の間、JOURNAL_INTERVAL_MS ごとにエディタの内容と ack 待ちの Replace[] を baseVersion と一緒に送る（内容が変わった場合のみ）
+ * - base にはエディタの内容の元になった document の内容（LF。通常は shadowText、マージ中・外部変更の保留中はその前の内容）を入れる。
+ *   host は復元時に base → content の編集を現在の document へ rebase する
+ * - idle に戻ったら entry=null で消す。Webview が落ちて消せなかった記録は、次の ready で host が復元を確認する
+ *
+ * 読み取り専用 (readOnly):
+ * - init の readOnly がある間は edit と undo / redo の要求を送らない（エディタ側も編集できない表示にする）
+ * - host が readOnly で nack した場合（capability を合意していない古い Webview など）は送信待ちの編集を捨て、host の再同期を待つ
+ *
+ * 選択の共有 (peerCursors):
+ * - 選択が変わる・baseVersion が変わるたびに debounce して selectionChange（baseVersion と position）を送る
+ * - 送信待ちの編集がある間（syncState が idle 以外）は position が baseVersion の document と対応しないため、idle になるまで送らない
+ *
  * applyingRemote フラグ (設計書 9.5 ルール 3):
  * - docChanged 適用中は true
  * - この間は edit を送信しない（ループ防止）
@@ -48,8 +85,19 @@
 import {
   type ExtensionToWebviewMessage,
   type WebviewConfig,
+  type NavigationTarget,
+  type QuickDiffHunk,
+  type ChangeGuardMetrics,
+  type LossyBlock,
   type Replace,
+  type DocumentEol,
   type Remediation,
+  type WebviewViewState,
+  type HistoryDirection,
+  type SyncState,
+  type Capability,
+  type PeerSelection,
+  type ReadOnlyReason,
   createReadyMessage,
   createInitAckMessage,
   createEditMessage,
@@ -66,27 +114,34 @@ import {
   createOverwriteSaveWithConfirmMessage,
   createResolveImageMessage,
   createNotifyHostMessage,
+  createFidelityReportMessage,
   createFindWidgetStateChangeMessage,
+  createViewStateMessage,
+  createUndoRedoMessage,
+  createSyncStateMessage,
+  createShowSyncActionsMessage,
+  createSelectionChangeMessage,
+  createEditJournalMessage,
+  negotiateCapabilities,
+  validateExtensionToWebviewMessage,
+  EXTENSION_TO_WEBVIEW_MESSAGE_TYPES,
+  MESSAGE_CAPABILITIES,
+  MIN_PROTOCOL_VERSION,
   PROTOCOL_VERSION,
 } from './types.js';
 import { createLogger } from '../logger.js';
+import { applyChangesToText } from '../editor/diffEngine.js';
+import { normalizeLineEndings } from '../editor/lineEndings.js';
 import { setVsCodePostMessage } from './vscodeApi.js';
 
 const clientLog = createLogger('SyncClient');
 const INIT_MESSAGE_TIMEOUT_MS = 5000;
-const EXTENSION_MESSAGE_TYPES = new Set<string>([
-  'init',
-  'configChanged',
-  'ack',
-  'nack',
-  'docChanged',
-  'error',
-  'imageResolved',
-  'nestedPageCreateAck',
-  'nestedPageCreated',
-  'nestedPageCreateFailed',
-  'editorCommand',
-]);
+/** 選択の共有（selectionChange）の debounce */
+const SELECTION_DEBOUNCE_MS = 100;
+/** document に届いていない編集がある間、記録（editJournal）を送る間隔 */
+const JOURNAL_INTERVAL_MS = 1000;
+/** editorCommand は main.ts が扱う（同期プロトコル外）ので検証せずに通す */
+const EXTENSION_MESSAGE_TYPES = new Set<string>([...EXTENSION_TO_WEBVIEW_MESSAGE_TYPES, 'editorCommand']);
 
 interface VsCodeApi {
   postMessage(message: unknown): void;
@@ -96,15 +151,67 @@ interface VsCodeApi {
 
 declare function acquireVsCodeApi(): VsCodeApi;
 
-export type SyncState = 'idle' | 'syncing' | 'error';
+export type { SyncState };
+
+/** undo / redo による docChanged。range は変更後の shadowText で変わった範囲 */
+export interface HistoryStep {
+  direction: HistoryDirection;
+  range: { start: number; end: number };
+}
+
+const findChangedRange = (before: string, after: string): { start: number; end: number } => {
+  const maxPrefix = Math.min(before.length, after.length);
+  let start = 0;
+  while (start < maxPrefix && before.charCodeAt(start) === after.charCodeAt(start)) {
+    start += 1;
+  }
+  let suffix = 0;
+  const maxSuffix = maxPrefix - start;
+  while (
+    suffix < maxSuffix &&
+    before.charCodeAt(before.length - 1 - suffix) === after.charCodeAt(after.length - 1 - suffix)
+  ) {
+    suffix += 1;
+  }
+  return { start, end: after.length - suffix };
+};
+
+/** shadowText に対する Replace[] を返す。重い差分計算は Promise で返してよい */
+export type ChangeProducer = () => Replace[] | Promise<Replace[]>;
 
 export interface SyncClientCallbacks {
-  onInit: (content: string, version: number, config: WebviewConfig, i18n: Record<string, string>) => void;
-  onDocChanged: (version: number, changes: Replace[], fullContent?: string) => void;
+  onInit: (
+    content: string,
+    version: number,
+    config: WebviewConfig,
+    i18n: Record<string, string>,
+    options: { navigationPending: boolean; viewState?: WebviewViewState; readOnly?: ReadOnlyReason }
+  ) => void;
+  /** peerId: 別の inlineMark パネルの編集による変更の場合、そのパネルの clientId（peerCursors） */
+  onDocChanged: (
+    version: number,
+    changes: Replace[],
+    fullContent?: string,
+    history?: HistoryStep,
+    peerId?: string
+  ) => void;
   onError: (code: string, message: string, remediation: string[]) => void;
   onConfigChanged?: (config: WebviewConfig) => void;
   onSyncStateChange?: (state: SyncState) => void;
   onImageResolved?: (requestId: string, resolvedSrc: string) => void;
+  onNavigate?: (target: NavigationTarget, docVersion: number) => void;
+  onQuickDiff?: (hunks: QuickDiffHunk[], available: boolean, docVersion: number) => void;
+  onEditHeld?: (metrics: ChangeGuardMetrics) => void;
+  onPeerSelections?: (peers: PeerSelection[]) => void;
+  /** 共有する選択（ProseMirror の position）。editor が無い場合は null */
+  getSelection?: () => { anchor: number; head: number } | null;
+  /** 記録する現在のエディタの内容（serialize した Markdown）。editor が無い場合は null */
+  getJournalContent?: () => string | null;
+  /**
+   * 未送信の編集がある間の外部変更。エディタには適用していないので、base / external とエディタの内容をマージし、
+   * 終わったら completeMerge を呼んでから結果をエディタに反映する（テキストは document の改行コードのまま）
+   */
+  onMergeRequired?: (merge: { base: string; external: string; version: number }) => void;
 }
 
 export class SyncClient {
@@ -127,17 +234,26 @@ export class SyncClient {
 
   private sessionId: string | null = null;
   private clientId: string | null = null;
+  /** init で host と合意した capability（init までは空） */
+  private capabilities = new Set<Capability>();
   private baseVersion = 0;
   private shadowText = '';
+  private eol: DocumentEol = 'lf';
 
   private txIdCounter = 0;
   private inFlightTxId: number | null = null;
   private inFlightTimeout: ReturnType<typeof setTimeout> | null = null;
   private coalescePending = false;
-  private pendingGetChanges: (() => Replace[]) | null = null;
-  private latestGetChanges: (() => Replace[]) | null = null;
+  private pendingGetChanges: ChangeProducer | null = null;
+  private latestGetChanges: ChangeProducer | null = null;
+  /** getChanges が返した Promise の完了待ち（その間の編集は coalesce する） */
+  private computingChanges = false;
 
   private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  /** debounce 中の producer（undo / redo の前に即時送信するため） */
+  private scheduledGetChanges: ChangeProducer | null = null;
+  /** 送信待ちの編集が落ち着いてから host に送る undo / redo */
+  private pendingHistoryDirection: HistoryDirection | null = null;
   private applyingRemote = false;
 
   /**
@@ -155,6 +271,32 @@ export class SyncClient {
    */
   private resyncMode: 'preserve' | null = null;
 
+  /** 最後に通知した同期の状態（変わったときだけ callback と host に通知する） */
+  private syncState: SyncState = 'idle';
+  /** 同期に失敗した原因（エラーコード）。init / ack / 全文の docChanged で解除する */
+  private desyncReason: string | null = null;
+  /** resetSession の後、init を待っている */
+  private resetPending = false;
+  /** 3-way マージ中の base（外部変更が届く前の shadowText）。マージ中でなければ null */
+  private mergeBase: string | null = null;
+  /** init で受け取った編集できない理由（capability readOnly）。編集できる場合は null */
+  private readOnly: ReadOnlyReason | null = null;
+
+  private selectionTimer: ReturnType<typeof setTimeout> | null = null;
+  /** 選択か baseVersion が変わり、まだ送っていない */
+  private selectionDirty = false;
+  private lastSentSelection: { docVersion: number; anchor: number; head: number } | null = null;
+
+  private journalTimer: ReturnType<typeof setTimeout> | null = null;
+  /** host に残っている記録（idle に戻ったら消す） */
+  private lastJournal: { baseVersion: number; content: string; txId: number | null } | null = null;
+  /** in-flight の edit の Replace[]（記録用） */
+  private inFlightChanges: Replace[] = [];
+  /** in-flight の edit を送ったときの shadowText（inFlightChanges の基準） */
+  private inFlightBase = '';
+  /** in-flight の edit の間に届いた外部変更をエディタに反映せず保留している（ack / nack の後にマージする） */
+  private holdingExternal = false;
+
   private baseVersionMismatchRetryCount = 0;
   private readonly MAX_BASE_VERSION_MISMATCH_RETRY = 1;
   private initTimeoutId: ReturnType<typeof setTimeout> | null = null;
@@ -180,6 +322,14 @@ export class SyncClient {
     this.vscode.postMessage(createFindWidgetStateChangeMessage(visible));
   }
 
+  /** 表示状態を host に保存する（document 単位。次に開いたときの init で返る） */
+  sendViewState(state: WebviewViewState): void {
+    if (!this.capabilities.has('viewState')) {
+      return;
+    }
+    this.vscode.postMessage(createViewStateMessage(state));
+  }
+
   start(): void {
     this.vscode.postMessage(createReadyMessage());
     this.log('DEBUG', 'Ready message sent');
@@ -237,46 +387,65 @@ export class SyncClient {
       return;
     }
 
-    const msg = raw as ExtensionToWebviewMessage & { type?: string; v?: number };
-    if (!msg.type || !EXTENSION_MESSAGE_TYPES.has(msg.type)) {
-      if (msg.type === 'inlineMarkPreviewHeight') {
+    const candidate = raw as { type?: string; v?: unknown; requestId?: unknown; sessionId?: unknown };
+    if (!candidate.type || !EXTENSION_MESSAGE_TYPES.has(candidate.type)) {
+      if (candidate.type === 'inlineMarkPreviewHeight') {
         return;
       }
       this.logPreInit('DEBUG', 'Ignored non-protocol window message', {
-        messageType: msg.type ?? null,
+        messageType: candidate.type ?? null,
       });
       return;
     }
 
-    if (typeof msg.type === 'string' && msg.type.startsWith('nestedPage')) {
+    if (candidate.type.startsWith('nestedPage')) {
       clientLog.debug('NestedPage raw message received', {
-        type: msg.type,
-        v: msg.v,
-        requestId: (msg as { requestId?: string }).requestId,
-        sessionId: (msg as { sessionId?: string }).sessionId,
+        type: candidate.type,
+        v: candidate.v,
+        requestId: candidate.requestId,
+        sessionId: candidate.sessionId,
       });
     }
-    if (msg.type === 'editorCommand') {
+    if (candidate.type === 'editorCommand') {
       // editorCommand is handled by main.ts and is not part of the sync protocol.
       return;
     }
 
-    if (typeof msg.v !== 'number') {
+    if (typeof candidate.v !== 'number') {
       this.logPreInit('DEBUG', 'Ignored non-protocol message with missing version', {
-        messageType: msg.type,
+        messageType: candidate.type,
       });
       return;
     }
 
-    if (msg.v !== PROTOCOL_VERSION) {
-      if (typeof msg.type === 'string' && msg.type.startsWith('nestedPage')) {
-        clientLog.warn('NestedPage protocol mismatch', { type: msg.type, v: msg.v });
+    const validation = validateExtensionToWebviewMessage(raw);
+    if (!validation.ok) {
+      if (validation.reason === 'unsupportedVersion') {
+        if (candidate.type.startsWith('nestedPage')) {
+          clientLog.warn('NestedPage protocol mismatch', { type: candidate.type, v: candidate.v });
+        }
+        this.callbacks.onError(
+          'PROTOCOL_VERSION_MISMATCH',
+          `Protocol version mismatch: expected ${MIN_PROTOCOL_VERSION}..${PROTOCOL_VERSION}, got ${candidate.v}`,
+          ['resetSession']
+        );
+        return;
       }
-      this.callbacks.onError(
-        'PROTOCOL_VERSION_MISMATCH',
-        `Protocol version mismatch: expected ${PROTOCOL_VERSION}, got ${msg.v}`,
-        ['resetSession']
-      );
+      this.logPreInit('WARN', 'Dropping invalid message', {
+        messageType: candidate.type,
+        reason: validation.reason,
+        error: validation.error,
+      });
+      return;
+    }
+    const msg = validation.message;
+
+    const capability = MESSAGE_CAPABILITIES[msg.type];
+    if (capability && !this.capabilities.has(capability)) {
+      this.log('WARN', 'Dropping message for a capability that was not negotiated', {
+        messageType: msg.type,
+        capability,
+      });
       return;
     }
 
@@ -323,6 +492,9 @@ export class SyncClient {
       case 'nack':
         this.handleNack(msg);
         break;
+      case 'editHeld':
+        this.handleEditHeld(msg);
+        break;
       case 'docChanged':
         this.handleDocChanged(msg);
         break;
@@ -343,6 +515,15 @@ export class SyncClient {
       case 'nestedPageCreateFailed':
         this.handleNestedPageCreateFailed(msg);
         break;
+      case 'navigate':
+        this.handleNavigate(msg);
+        break;
+      case 'quickDiff':
+        this.handleQuickDiff(msg);
+        break;
+      case 'peerSelections':
+        this.callbacks.onPeerSelections?.(msg.peers);
+        break;
     }
   }
 
@@ -414,8 +595,11 @@ export class SyncClient {
     }
     this.sessionId = msg.sessionId;
     this.clientId = msg.clientId;
+    this.capabilities = new Set(negotiateCapabilities(msg.capabilities));
+    this.readOnly = this.capabilities.has('readOnly') ? msg.readOnly ?? null : null;
     this.baseVersion = msg.version;
     this.shadowText = msg.content;
+    this.eol = msg.eol ?? 'lf';
     this.config = msg.config;
     this.i18n = msg.i18n;
 
@@ -424,15 +608,32 @@ export class SyncClient {
     this.coalescePending = false;
     this.pendingGetChanges = null;
     this.latestGetChanges = null;
+    this.pendingHistoryDirection = null;
     this.resyncMode = null;
     this.baseVersionMismatchRetryCount = 0;
+    this.desyncReason = null;
+    this.resetPending = false;
+    this.mergeBase = null;
+    this.holdingExternal = false;
+    this.lastSentSelection = null;
+    // 前の Webview の記録は host が ready 時に扱う。このセッションでは書いていないので消さない
+    this.lastJournal = null;
+    if (this.journalTimer) {
+      clearTimeout(this.journalTimer);
+      this.journalTimer = null;
+    }
     this.clearInFlightTimeout();
 
     try {
       const elapsedMs = this.readySentAt ? this.initReceivedAt - this.readySentAt : null;
       this.sendInitAck(elapsedMs, msg.content.length);
-      this.callbacks.onInit(msg.content, msg.version, msg.config, msg.i18n);
-      this.callbacks.onSyncStateChange('idle');
+      this.callbacks.onInit(msg.content, msg.version, msg.config, msg.i18n, {
+        navigationPending: msg.navigationPending === true,
+        viewState: msg.viewState,
+        ...(this.readOnly ? { readOnly: this.readOnly } : {}),
+      });
+      this.updateSyncState();
+      this.notifySelectionChanged();
 
       try {
         this.vscode.postMessage(
@@ -449,6 +650,7 @@ export class SyncClient {
         sessionId: this.sessionId,
         clientId: this.clientId,
         version: msg.version,
+        eol: this.eol,
       });
     } catch (error) {
       this.log('ERROR', 'Init handler failed', {
@@ -467,6 +669,37 @@ export class SyncClient {
     }
   }
 
+  private handleNavigate(msg: ExtensionToWebviewMessage & { type: 'navigate' }): void {
+    this.log('INFO', 'Navigation target received', {
+      seq: msg.target.seq,
+      selection: msg.target.selection,
+      range: msg.target.range,
+      revealType: msg.target.revealType,
+      reason: msg.target.reason,
+      docVersion: msg.docVersion,
+      baseVersion: this.baseVersion,
+    });
+    if (msg.docVersion !== this.baseVersion) {
+      this.log('WARN', 'Navigation target version differs from baseVersion', {
+        seq: msg.target.seq,
+        docVersion: msg.docVersion,
+        baseVersion: this.baseVersion,
+      });
+    }
+    this.callbacks.onNavigate?.(msg.target, msg.docVersion);
+  }
+
+  private handleQuickDiff(msg: ExtensionToWebviewMessage & { type: 'quickDiff' }): void {
+    this.log('DEBUG', 'Quick diff received', {
+      baseRef: msg.baseRef,
+      available: msg.available,
+      hunkCount: msg.hunks.length,
+      docVersion: msg.docVersion,
+      baseVersion: this.baseVersion,
+    });
+    this.callbacks.onQuickDiff?.(msg.hunks, msg.available, msg.docVersion);
+  }
+
   private handleConfigChanged(msg: ExtensionToWebviewMessage & { type: 'configChanged' }): void {
     if (!this.config) {
       this.callbacks.onError(
@@ -517,6 +750,7 @@ export class SyncClient {
     this.clearInFlightTimeout();
     this.inFlightTxId = null;
     this.baseVersionMismatchRetryCount = 0;
+    this.desyncReason = null;
 
     if (msg.outcome === 'noop') {
       // No docChanged is expected; update baseVersion directly.
@@ -532,17 +766,24 @@ export class SyncClient {
       txId: msg.txId, 
       outcome: msg.outcome, 
       version: msg.currentVersion,
+      rebasedFrom: msg.rebasedFrom ?? null,
       coalescePending: this.coalescePending,
       awaitingDocChangedVersion: this.awaitingDocChangedVersion
     });
 
-    if (this.coalescePending) {
+    if (this.holdingExternal) {
+      // 保留した外部変更は、送った edit の docChanged が届いてからマージする
+      if (this.awaitingDocChangedVersion === null) {
+        this.mergeHeldExternalChanges(applyChangesToText(this.inFlightBase, this.inFlightChanges));
+      }
+    } else if (this.coalescePending) {
       // If we are still waiting for docChanged, keep pending and flush after docChanged arrives.
       if (this.awaitingDocChangedVersion === null) {
         this.flushPendingChanges();
       }
     } else if (this.awaitingDocChangedVersion === null) {
-      this.callbacks.onSyncStateChange('idle');
+      this.updateSyncState();
+      this.sendPendingHistoryRequest();
     }
   }
 
@@ -555,16 +796,25 @@ export class SyncClient {
     this.clearInFlightTimeout();
     this.inFlightTxId = null;
     this.awaitingDocChangedVersion = null;
+    this.pendingHistoryDirection = null;
+    const held = this.holdingExternal;
+    this.holdingExternal = false;
 
     this.log('WARN', 'Nack received', { 
       txId: msg.txId, 
       reason: msg.reason, 
       version: msg.currentVersion,
       retryCount: this.baseVersionMismatchRetryCount,
-      maxRetry: this.MAX_BASE_VERSION_MISMATCH_RETRY
+      maxRetry: this.MAX_BASE_VERSION_MISMATCH_RETRY,
+      heldExternal: held,
     });
 
-    if (msg.reason === 'baseVersionMismatch') {
+    if (held && (msg.reason === 'conflict' || msg.reason === 'baseVersionMismatch')) {
+      // 送った edit は document に届いていない。保留した外部変更は shadowText に反映済みなので、
+      // 送った edit と coalesce 中の編集を local としてマージする（resync で再送すると外部変更を消す）
+      this.baseVersionMismatchRetryCount = 0;
+      this.mergeHeldExternalChanges(this.inFlightBase);
+    } else if (msg.reason === 'baseVersionMismatch') {
       if (this.baseVersionMismatchRetryCount < this.MAX_BASE_VERSION_MISMATCH_RETRY && this.latestGetChanges) {
         this.baseVersionMismatchRetryCount++;
         this.coalescePending = true;
@@ -577,26 +827,78 @@ export class SyncClient {
         this.requestResync();
       } else {
         this.baseVersionMismatchRetryCount = 0;
+        this.markDesynced('APPLY_EDIT_FAILED');
         this.callbacks.onError(
           'APPLY_EDIT_FAILED',
           msg.details || 'baseVersionMismatch',
           ['resync', 'resetSession']
         );
       }
+    } else if (msg.reason === 'changeGuardRejected' || msg.reason === 'readOnly') {
+      // The host follows up with a full docChanged (reason=external) that replaces the local
+      // content, so edits coalesced while the confirmation was open (or, for a read-only
+      // document, any later edits) are dropped as well.
+      this.baseVersionMismatchRetryCount = 0;
+      this.coalescePending = false;
+      this.pendingGetChanges = null;
+      this.updateSyncState();
+    } else if (msg.reason === 'conflict') {
+      // Keep the local editor content as-is: the user decides whether to resync (discarding
+      // the conflicting local edit) or to reopen the session.
+      this.baseVersionMismatchRetryCount = 0;
+      this.markDesynced('EDIT_CONFLICT');
+      this.callbacks.onError(
+        'EDIT_CONFLICT',
+        msg.details || 'Edit conflicts with an external change',
+        ['resync', 'resetSession']
+      );
     } else {
       this.baseVersionMismatchRetryCount = 0;
+      this.markDesynced('APPLY_EDIT_FAILED');
       this.callbacks.onError('APPLY_EDIT_FAILED', msg.details || 'Edit failed', ['resync']);
     }
   }
 
+  private handleEditHeld(msg: ExtensionToWebviewMessage & { type: 'editHeld' }): void {
+    if (msg.txId !== this.inFlightTxId) {
+      this.log('WARN', 'Received editHeld for unknown txId', { txId: msg.txId, inFlightTxId: this.inFlightTxId });
+      return;
+    }
+
+    // The user is reviewing the diff preview; the final ack/nack may take arbitrarily long.
+    this.clearInFlightTimeout();
+
+    this.log('INFO', 'Edit held by ChangeGuard', {
+      txId: msg.txId,
+      version: msg.currentVersion,
+      changedChars: msg.metrics.changedChars,
+      changedRatio: msg.metrics.changedRatio,
+      hunkCount: msg.metrics.hunkCount,
+    });
+
+    this.callbacks.onEditHeld?.(msg.metrics);
+  }
+
   private handleDocChanged(msg: ExtensionToWebviewMessage & { type: 'docChanged' }): void {
     this.applyingRemote = true;
 
     try {
+      const previousText = this.shadowText;
       this.baseVersion = msg.version;
+      this.eol = msg.eol ?? this.eol;
+      const remoteDiff =
+        msg.fullContent === undefined && msg.reason !== 'self' && this.callbacks.onMergeRequired !== undefined;
+      const merging = remoteDiff && (this.mergeBase !== null || this.hasUnsentEdits());
+      const holding = remoteDiff && !merging && (this.holdingExternal || this.hasInFlightEdit());
 
       if (msg.fullContent !== undefined) {
         this.shadowText = msg.fullContent;
+        this.desyncReason = null;
+        this.holdingExternal = false;
+        if (this.mergeBase !== null) {
+          this.log('INFO', 'Merge cancelled by full content docChanged', { version: msg.version });
+          this.mergeBase = null;
+        }
       } else {
         for (const change of msg.changes) {
           this.shadowText =
@@ -608,13 +910,37 @@ export class SyncClient {
 
       const shouldApplyToEditor =
         msg.reason !== 'self' &&
+        !merging &&
+        !holding &&
         !(msg.fullContent !== undefined && this.resyncMode === 'preserve');
 
-      if (shouldApplyToEditor) {
+      if (merging) {
+        this.mergeBase ??= previousText;
+        this.holdEditsForMerge();
+        this.log('INFO', 'External change collides with unsent edits; merging', {
+          version: msg.version,
+          reason: msg.reason,
+          changesCount: msg.changes.length,
+        });
+        this.callbacks.onMergeRequired?.({ base: this.mergeBase, external: this.shadowText, version: msg.version });
+      } else if (holding) {
+        if (!this.holdingExternal) {
+          this.holdingExternal = true;
+          this.log('INFO', 'External change arrived while an edit is in flight; holding until ack', {
+            version: msg.version,
+            reason: msg.reason,
+            inFlightTxId: this.inFlightTxId,
+          });
+        }
+      } else if (shouldApplyToEditor) {
+        const history: HistoryStep | undefined =
+          msg.reason === 'undo' || msg.reason === 'redo'
+            ? { direction: msg.reason, range: findChangedRange(previousText, this.shadowText) }
+            : undefined;
         if (msg.fullContent !== undefined) {
-          this.callbacks.onDocChanged(msg.version, [], msg.fullContent);
+          this.callbacks.onDocChanged(msg.version, [], msg.fullContent, history, msg.peerId);
         } else {
-          this.callbacks.onDocChanged(msg.version, msg.changes);
+          this.callbacks.onDocChanged(msg.version, msg.changes, undefined, history, msg.peerId);
         }
       }
 
@@ -634,28 +960,134 @@ export class SyncClient {
         changesCount: msg.changes.length,
         hasFullContent: msg.fullContent !== undefined,
         appliedToEditor: shouldApplyToEditor,
+        merging,
+        holding,
         awaitingDocChangedVersion: this.awaitingDocChangedVersion,
       });
 
       // If we have coalesced edits and we're not waiting on another event, flush now.
       if (this.inFlightTxId === null && this.awaitingDocChangedVersion === null) {
-        if (this.coalescePending) {
+        if (this.holdingExternal) {
+          this.mergeHeldExternalChanges(applyChangesToText(this.inFlightBase, this.inFlightChanges));
+        } else if (this.coalescePending) {
           this.flushPendingChanges();
         } else {
-          this.callbacks.onSyncStateChange('idle');
+          this.sendPendingHistoryRequest();
         }
       }
+      this.updateSyncState();
+      // 選択が動かなくても position の基準（baseVersion）が変わったので送り直す
+      this.notifySelectionChanged();
     } finally {
       this.applyingRemote = false;
     }
   }
 
+  /** 選択が変わったことを知らせる（debounce して他のパネルに共有する） */
+  notifySelectionChanged(): void {
+    if (!this.capabilities.has('peerCursors')) {
+      return;
+    }
+    this.selectionDirty = true;
+    if (this.selectionTimer) {
+      clearTimeout(this.selectionTimer);
+    }
+    this.selectionTimer = setTimeout(() => {
+      this.selectionTimer = null;
+      this.flushSelection();
+    }, SELECTION_DEBOUNCE_MS);
+  }
+
+  private flushSelection(): void {
+    if (!this.selectionDirty || this.syncState !== 'idle') {
+      return;
+    }
+    const selection = this.callbacks.getSelection?.() ?? null;
+    if (!selection) {
+      return;
+    }
+    this.selectionDirty = false;
+    const last = this.lastSentSelection;
+    if (
+      last &&
+      last.docVersion === this.baseVersion &&
+      last.anchor === selection.anchor &&
+      last.head === selection.head
+    ) {
+      return;
+    }
+    this.lastSentSelection = { docVersion: this.baseVersion, anchor: selection.anchor, head: selection.head };
+    this.vscode.postMessage(createSelectionChangeMessage(this.baseVersion, selection.anchor, selection.head));
+  }
+
+  /** 送った edit の ack か、その docChanged を待っている */
+  private hasInFlightEdit(): boolean {
+    return this.inFlightTxId !== null || this.awaitingDocChangedVersion !== null;
+  }
+
+  /**
+   * 保留していた外部変更をマージする。エディタの内容は base（送った edit まで反映した内容）に
+   * coalesce 中の編集を加えたもの。coalesce 中の producer は捨て、マージの結果を 1 つの edit として送り直す
+   */
+  private mergeHeldExternalChanges(base: string): void {
+    this.holdingExternal = false;
+    this.mergeBase = base;
+    this.holdEditsForMerge();
+    this.log('INFO', 'Merging external change held during an in-flight edit', { version: this.baseVersion });
+    this.callbacks.onMergeRequired?.({ base, external: this.shadowText, version: this.baseVersion });
+    this.updateSyncState();
+  }
+
+  /** 送信前の編集（debounce 中 / coalesce 中 / 差分計算中）があり、in-flight の edit は無い */
+  private hasUnsentEdits(): boolean {
+    return (
+      this.inFlightTxId === null &&
+      this.awaitingDocChangedVersion === null &&
+      (this.debounceTimer !== null || this.pendingGetChanges !== null || this.computingChanges)
+    );
+  }
+
+  /**
+   * マージ中は送信待ちの producer を捨てる（エディタはまだ外部変更を反映していないため、
+   * 新しい shadowText との差分を送ると外部変更を消してしまう）。マージの結果は completeMerge の後に送り直される
+   */
+  private holdEditsForMerge(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.scheduledGetChanges = null;
+    this.pendingGetChanges = null;
+    this.coalescePending = false;
+    this.pendingHistoryDirection = null;
+  }
+
+  isMerging(): boolean {
+    return this.mergeBase !== null;
+  }
+
+  /**
+   * マージを終える。呼び出し側はこの後にマージ結果をエディタに反映し、その変更が 1 つの edit として送られる
+   */
+  completeMerge(): void {
+    if (this.mergeBase === null) {
+      return;
+    }
+    this.mergeBase = null;
+    this.log('INFO', 'Merge completed', { baseVersion: this.baseVersion });
+    this.updateSyncState();
+  }
+
   isApplyingRemote(): boolean {
     return this.applyingRemote;
   }
 
-  scheduleEdit(getChanges: () => Replace[]): void {
-    if (this.applyingRemote) {
+  isReadOnly(): boolean {
+    return this.readOnly !== null;
+  }
+
+  scheduleEdit(getChanges: ChangeProducer): void {
+    if (this.applyingRemote || this.readOnly) {
       return;
     }
 
@@ -665,28 +1097,138 @@ export class SyncClient {
 
     const debounceMs = this.config?.debounceMs ?? 250;
 
+    this.scheduledGetChanges = getChanges;
     this.debounceTimer = setTimeout(() => {
       this.debounceTimer = null;
+      this.scheduledGetChanges = null;
       // Store the latest change producer for possible coalesce/retry paths.
       this.latestGetChanges = getChanges;
       this.queueEdit(getChanges);
+      this.updateSyncState();
     }, debounceMs);
+    this.updateSyncState();
   }
 
-  private queueEdit(getChanges: () => Replace[]): void {
+  /**
+   * undo / redo を host に要求する。履歴の正本は TextDocument なので、debounce 中の編集を先に送り、
+   * ack / docChanged まで落ち着いてから要求する（Webview の未送信の編集が undo されずに残らないように）。
+   */
+  requestHistory(direction: HistoryDirection): void {
+    if (!this.capabilities.has('undoRedo')) {
+      this.log('WARN', 'Undo/redo is not available (capability not negotiated)', { direction });
+      return;
+    }
+    if (this.readOnly) {
+      this.log('DEBUG', 'Undo/redo ignored (read-only)', { direction, reason: this.readOnly });
+      return;
+    }
+    if (this.mergeBase !== null) {
+      this.log('DEBUG', 'Undo/redo ignored while merging', { direction });
+      return;
+    }
+    this.pendingHistoryDirection = direction;
+    const scheduled = this.scheduledGetChanges;
+    if (this.debounceTimer && scheduled) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+      this.scheduledGetChanges = null;
+      this.latestGetChanges = scheduled;
+      this.queueEdit(scheduled);
+    }
+    this.sendPendingHistoryRequest();
+  }
+
+  private sendPendingHistoryRequest(): void {
+    const direction = this.pendingHistoryDirection;
+    if (direction === null) {
+      return;
+    }
+    const settled =
+      this.debounceTimer === null &&
+      this.inFlightTxId === null &&
+      this.awaitingDocChangedVersion === null &&
+      !this.computingChanges &&
+      this.pendingGetChanges === null;
+    if (!settled) {
+      this.log('DEBUG', 'Undo/redo deferred until edits settle', {
+        direction,
+        inFlightTxId: this.inFlightTxId,
+        awaitingDocChangedVersion: this.awaitingDocChangedVersion,
+        computingChanges: this.computingChanges,
+      });
+      return;
+    }
+    this.pendingHistoryDirection = null;
+    this.vscode.postMessage(createUndoRedoMessage(direction));
+    this.log('DEBUG', 'Undo/redo requested', { direction, baseVersion: this.baseVersion });
+  }
+
+  private queueEdit(getChanges: ChangeProducer): void {
+    if (this.mergeBase !== null) {
+      this.log('DEBUG', 'Edit dropped while merging');
+      return;
+    }
     // If we cannot send right now, coalesce by keeping only the latest producer.
-    if (this.inFlightTxId !== null || this.awaitingDocChangedVersion !== null) {
+    if (this.inFlightTxId !== null || this.awaitingDocChangedVersion !== null || this.computingChanges) {
       this.coalescePending = true;
       this.pendingGetChanges = getChanges;
       this.log('DEBUG', 'Edit coalesced', {
         inFlightTxId: this.inFlightTxId,
         awaitingDocChangedVersion: this.awaitingDocChangedVersion,
+        computingChanges: this.computingChanges,
       });
       return;
     }
 
-    const changes = getChanges();
+    this.produceAndSend(getChanges);
+  }
+
+  /**
+   * getChanges を実行して送信する。Promise が返った場合は完了を待ち、その間に shadowText が
+   * 変わった（docChanged / resync / reset）なら結果を捨てて最新の producer で計算し直す。
+   */
+  private produceAndSend(getChanges: ChangeProducer): void {
+    const result = getChanges();
+    if (!(result instanceof Promise)) {
+      this.sendChanges(result);
+      return;
+    }
+
+    const sessionId = this.sessionId;
+    const baseVersion = this.baseVersion;
+    const shadowText = this.shadowText;
+    this.computingChanges = true;
+    void result
+      .then(
+        (changes) => {
+          this.computingChanges = false;
+          if (this.sessionId !== sessionId || this.baseVersion !== baseVersion || this.shadowText !== shadowText) {
+            this.log('DEBUG', 'Computed changes are stale, recomputing', { baseVersion, currentVersion: this.baseVersion });
+            if (this.sessionId === sessionId && !this.pendingGetChanges) {
+              this.pendingGetChanges = getChanges;
+            }
+            this.flushPendingChanges();
+            return;
+          }
+          this.sendChanges(changes);
+        },
+        (error: unknown) => {
+          this.computingChanges = false;
+          this.log('ERROR', 'Failed to compute changes', { error: String(error) });
+          this.markDesynced('DIFF_ENGINE_FAILED');
+          this.callbacks.onError('DIFF_ENGINE_FAILED', 'Failed to compute changes', ['resync', 'resetSession']);
+        }
+      );
+  }
+
+  private sendChanges(changes: Replace[]): void {
     if (changes.length === 0) {
+      if (this.pendingGetChanges) {
+        this.flushPendingChanges();
+      } else {
+        this.updateSyncState();
+      }
+      this.sendPendingHistoryRequest();
       return;
     }
 
@@ -696,11 +1238,13 @@ export class SyncClient {
   private sendEdit(changes: Replace[]): void {
     const txId = ++this.txIdCounter;
     this.inFlightTxId = txId;
+    this.inFlightChanges = changes;
+    this.inFlightBase = this.shadowText;
 
     const msg = createEditMessage(txId, this.baseVersion, changes);
     this.vscode.postMessage(msg);
 
-    this.callbacks.onSyncStateChange('syncing');
+    this.updateSyncState();
 
     const timeoutMs = this.config?.timeoutMs ?? 3000;
     this.inFlightTimeout = setTimeout(() => {
@@ -716,29 +1260,26 @@ export class SyncClient {
   }
 
   private flushPendingChanges(): void {
-    const getChanges = this.pendingGetChanges;
+    const getChanges = this.mergeBase === null ? this.pendingGetChanges : null;
     this.pendingGetChanges = null;
     this.coalescePending = false;
 
     if (!getChanges) {
-      this.callbacks.onSyncStateChange('idle');
+      if (!this.computingChanges) {
+        this.updateSyncState();
+        this.sendPendingHistoryRequest();
+      }
       return;
     }
 
     // Safety: if we became not-sendable again, keep it pending.
-    if (this.inFlightTxId !== null || this.awaitingDocChangedVersion !== null) {
+    if (this.inFlightTxId !== null || this.awaitingDocChangedVersion !== null || this.computingChanges) {
       this.coalescePending = true;
       this.pendingGetChanges = getChanges;
       return;
     }
 
-    const changes = getChanges();
-    if (changes.length === 0) {
-      this.callbacks.onSyncStateChange('idle');
-      return;
-    }
-
-    this.sendEdit(changes);
+    this.produceAndSend(getChanges);
   }
 
   private handleTimeout(txId: number): void {
@@ -748,10 +1289,119 @@ export class SyncClient {
 
     this.log('ERROR', 'Sync timeout', { txId });
     this.inFlightTxId = null;
-    this.callbacks.onSyncStateChange('error');
+    this.pendingHistoryDirection = null;
+    // edit が届いたか分からないため、保留した外部変更は再同期（全文の docChanged）で反映する
+    this.holdingExternal = false;
+    this.markDesynced('SYNC_TIMEOUT');
     this.callbacks.onError('SYNC_TIMEOUT', 'Sync timeout', ['resync', 'resetSession']);
   }
 
+  /**
+   * 内部状態から同期の状態を求め、変わっていれば callback と host に通知する。
+   * 優先順: desynced > retrying > inFlight > pending > idle
+   */
+  private updateSyncState(): void {
+    let next: SyncState = 'idle';
+    if (this.desyncReason !== null) {
+      next = 'desynced';
+    } else if (this.resetPending || this.resyncMode === 'preserve') {
+      next = 'retrying';
+    } else if (this.inFlightTxId !== null || this.awaitingDocChangedVersion !== null) {
+      next = 'inFlight';
+    } else if (
+      this.debounceTimer !== null ||
+      this.computingChanges ||
+      this.pendingGetChanges !== null ||
+      this.mergeBase !== null
+    ) {
+      next = 'pending';
+    }
+    if (next === this.syncState) {
+      return;
+    }
+    this.log(next === 'desynced' ? 'WARN' : 'DEBUG', 'Sync state changed', {
+      from: this.syncState,
+      to: next,
+      reason: this.desyncReason,
+    });
+    this.syncState = next;
+    this.callbacks.onSyncStateChange?.(next);
+    if (this.capabilities.has('syncState')) {
+      this.vscode.postMessage(createSyncStateMessage(next, this.desyncReason ?? undefined));
+    }
+    this.updateJournal(next);
+    // 編集が落ち着くまで止めていた選択の共有
+    if (next === 'idle' && this.selectionTimer === null) {
+      this.flushSelection();
+    }
+  }
+
+  private updateJournal(state: SyncState): void {
+    if (!this.capabilities.has('editJournal')) {
+      return;
+    }
+    if (state !== 'idle') {
+      this.journalTimer ??= setTimeout(() => this.writeJournal(), JOURNAL_INTERVAL_MS);
+      return;
+    }
+    if (this.journalTimer) {
+      clearTimeout(this.journalTimer);
+      this.journalTimer = null;
+    }
+    if (this.lastJournal) {
+      this.lastJournal = null;
+      this.vscode.postMessage(createEditJournalMessage(null));
+    }
+  }
+
+  private writeJournal(): void {
+    this.journalTimer = null;
+    if (this.syncState === 'idle') {
+      return;
+    }
+    const content = this.callbacks.getJournalContent?.() ?? null;
+    const txId = this.inFlightTxId;
+    const last = this.lastJournal;
+    if (
+      content !== null &&
+      !(last && last.content === content && last.baseVersion === this.baseVersion && last.txId === txId)
+    ) {
+      this.lastJournal = { baseVersion: this.baseVersion, content, txId };
+      this.vscode.postMessage(
+        createEditJournalMessage({
+          baseVersion: this.baseVersion,
+          content,
+          changes: txId !== null ? this.inFlightChanges : [],
+          base: normalizeLineEndings(this.editorBaseText()),
+        })
+      );
+      this.log('DEBUG', 'Edit journal written', { baseVersion: this.baseVersion, contentLength: content.length, txId });
+    }
+    this.journalTimer = setTimeout(() => this.writeJournal(), JOURNAL_INTERVAL_MS);
+  }
+
+  /** エディタの内容の元になった document の内容（マージ中・外部変更の保留中は shadowText より前） */
+  private editorBaseText(): string {
+    if (this.mergeBase !== null) {
+      return this.mergeBase;
+    }
+    return this.holdingExternal ? this.inFlightBase : this.shadowText;
+  }
+
+  private markDesynced(reason: string): void {
+    this.desyncReason = reason;
+    this.updateSyncState();
+  }
+
+  getSyncState(): SyncState {
+    return this.syncState;
+  }
+
+  /** resync / リセット / テキストエディタで開く の選択を host に表示させる */
+  showSyncActions(): void {
+    this.vscode.postMessage(createShowSyncActionsMessage());
+  }
+
   private clearInFlightTimeout(): void {
     if (this.inFlightTimeout) {
       clearTimeout(this.inFlightTimeout);
@@ -766,7 +1416,7 @@ export class SyncClient {
     this.resyncMode = 'preserve';
 
     this.vscode.postMessage(createRequestResyncMessage());
-    this.callbacks.onSyncStateChange('syncing');
+    this.updateSyncState();
 
     this.log('INFO', 'Resync requested');
   }
@@ -775,6 +1425,10 @@ export class SyncClient {
     return this.shadowText;
   }
 
+  getEol(): DocumentEol {
+    return this.eol;
+  }
+
   updateShadowText(text: string): void {
     this.shadowText = text;
   }
@@ -856,6 +1510,11 @@ export class SyncClient {
     this.vscode.postMessage(createOverwriteSaveWithConfirmMessage(content));
   }
 
+  reportFidelity(lossyBlocks: LossyBlock[], protectedBlocks: boolean): void {
+    this.log('INFO', 'Fidelity report sent', { lossyBlocks: lossyBlocks.length, protectedBlocks });
+    this.vscode.postMessage(createFidelityReportMessage(lossyBlocks, protectedBlocks));
+  }
+
   resolveImage(requestId: string, src: string): void {
     this.log('DEBUG', 'Resolving image', { requestId, src });
     this.vscode.postMessage(createResolveImageMessage(requestId, src));
@@ -995,13 +1654,17 @@ export class SyncClient {
     this.coalescePending = false;
     this.pendingGetChanges = null;
     this.latestGetChanges = null;
+    this.pendingHistoryDirection = null;
     this.resyncMode = null;
     this.baseVersionMismatchRetryCount = 0;
+    this.mergeBase = null;
+    this.holdingExternal = false;
     this.baseVersion = 0;
     this.shadowText = '';
+    this.resetPending = true;
     // Send ready message to trigger fresh init from extension
     this.vscode.postMessage(createReadyMessage());
-    this.callbacks.onSyncStateChange('syncing');
+    this.updateSyncState();
     this.scheduleInitTimeout('resetSession');
   }
 
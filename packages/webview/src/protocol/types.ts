@@ -1,18 +1,22 @@
 /**
- * 役割: Webview ⇄ Extension 間通信のプロトコル型定義
- * 責務: Webview 側で使用するメッセージ型を定義
- * 不変条件: Extension 側の protocol/messages.ts の型と一致すること
+ * 役割: Webview ⇄ Extension 間通信のプロトコル（Webview 側の入口）
+ * 責務: 生成した型と検証（schema.generated.ts）の再 export、送信メッセージの factory
+ * 不変条件: 型と検証は protocol/schema.mjs が正本（Extension 側の protocol/messages.ts と同じ生成物を使う）。ここでは手で定義しない
  * 
- * 設計書参照: 9.2-9.4 (メッセージプロトコル)
+ * 設計書参照: 9.2-9.4 (メッセージプロトコル), 9.7 (プロトコル定義の生成・capability・バージョン)
  * 
  * プロトコルバージョン: 1
  * - 全メッセージに v (version) フィールドを含む
- * - バージョン不一致時は PROTOCOL_VERSION_MISMATCH エラー
+ * - MIN_PROTOCOL_VERSION..PROTOCOL_VERSION の範囲外は PROTOCOL_VERSION_MISMATCH エラー
+ * - 受信メッセージは validateExtensionToWebviewMessage で全フィールドを検証する
+ * 
+ * capability:
+ * - ready で対応する capability（CAPABILITIES）を送り、init の capabilities（両側が対応するもの）だけを使う
  * 
  * メッセージフロー (設計書 9.3):
  * 
  * Webview → Extension:
- * - ready: 初期化完了通知
+ * - ready: 初期化完了通知（対応する capability）
  * - initAck: init 受信確認通知
  * - edit: 編集内容送信 (txId, baseVersion, changes)
  * - requestResync: 再同期要求
@@ -28,17 +32,24 @@
  * - menuStateChange: メニュー状態変更通知
  * - requestResyncWithConfirm: 確認付き再同期要求
  * - overwriteSaveWithConfirm: 確認付き上書き保存要求
+ * - fidelityReport: 開いた直後の parse → serialize で書式が変わるブロックの報告
+ * - selectionChange: 選択の共有（peerCursors。docVersion 時点の ProseMirror の position）
+ * - editJournal: document に届いていない編集の記録（editJournal。届いたら entry=null）
  * 
  * Extension → Webview:
- * - init: 初期化データ (content, version, sessionId, clientId, config)
+ * - init: 初期化データ (content, eol, version, sessionId, clientId, config, capabilities)
  * - ack: 編集成功応答 (txId, currentVersion, outcome)
  * - nack: 編集失敗応答 (txId, currentVersion, reason)
- * - docChanged: ドキュメント変更通知 (version, reason, changes)
+ * - editHeld: ChangeGuard 超過で編集を保留中（ユーザーの確認後に ack/nack が届く）
+ * - docChanged: ドキュメント変更通知 (version, reason, changes, eol)
  * - error: エラー通知 (code, message, remediation)
  * - imageResolved: 画像パス解決結果
  * - nestedPageCreated: ネストページ作成成功
  * - nestedPageCreateAck: ネストページ作成確認応答
  * - nestedPageCreateFailed: ネストページ作成失敗
+ * - navigate: Host 起点のナビゲーション対象 (selection/range/revealType)
+ * - quickDiff: git HEAD との行差分 (gutter 表示用、内容同期とは無関係)
+ * - peerSelections: 同じ document を開いている他のパネルの選択 (peerCursors)
  * 
  * データ例:
  * 
@@ -52,308 +63,51 @@
  * { v: 1, type: "nack", txId: 101, currentVersion: 13, reason: "baseVersionMismatch" }
  */
 
-export const PROTOCOL_VERSION = 1;
-
-export interface Replace {
-  start: number;
-  end: number;
-  text: string;
-}
-
-export interface WebviewConfig {
-  debounceMs: number;
-  timeoutMs: number;
-  changeGuard: {
-    maxChangedRatio: number;
-    maxChangedChars: number;
-    maxHunks: number;
-  };
-  view: {
-    fullWidth: boolean;
-    noWrap: boolean;
-  };
-  preview: {
-    html: {
-      allowScripts: boolean;
-      allowSameOrigin: boolean;
-      allowPopups: boolean;
-      allowForms: boolean;
-    };
-    mermaid: {
-      fontScale: number;
-    };
-  };
-  security: {
-    allowWorkspaceImages: boolean;
-    allowRemoteImages: boolean;
-    allowInsecureRemoteImages: boolean;
-    confirmExternalLinks: boolean;
-  };
-  debug: {
-    enabled: boolean;
-  };
-}
-
-export interface InitMessage {
-  v: number;
-  type: 'init';
-  version: number;
-  content: string;
-  sessionId: string;
-  clientId: string;
-  locale: string;
-  i18n: Record<string, string>;
-  config: WebviewConfig;
-}
-
-export interface ConfigChangedMessage {
-  v: number;
-  type: 'configChanged';
-  sessionId?: string;
-  config: WebviewConfig;
-}
-
-export type AckOutcome = 'applied' | 'noop';
-
-export interface AckMessage {
-  v: number;
-  type: 'ack';
-  txId: number;
-  currentVersion: number;
-  outcome: AckOutcome;
-}
-
-export type NackReason = 'baseVersionMismatch' | 'applyFailed' | 'unknown';
-
-export interface NackMessage {
-  v: number;
-  type: 'nack';
-  txId: number;
-  currentVersion: number;
-  reason: NackReason;
-  details?: string;
-}
-
-export interface DocChangedMessage {
-  v: number;
-  type: 'docChanged';
-  version: number;
-  reason: 'self' | 'external' | 'undo' | 'redo';
-  changes: Replace[];
-  fullContent?: string;
-}
-
-export type ErrorCode =
-  | 'SYNC_TIMEOUT'
-  | 'PROTOCOL_VERSION_MISMATCH'
-  | 'CODEC_PARSE_FAILED'
-  | 'CODEC_SERIALIZE_FAILED'
-  | 'APPLY_EDIT_FAILED'
-  | 'DIFF_ENGINE_FAILED'
-  | 'CHANGE_GUARD_EXCEEDED'
-  | 'WORKSPACE_UNTRUSTED'
-  | 'SETTINGS_NOT_CONFIGURED'
-  | 'UNKNOWN';
-
-export type Remediation =
-  | 'resetSession'
-  | 'reopenWithTextEditor'
-  | 'resync'
-  | 'applySettings'
-  | 'trustWorkspace';
-
-export interface ErrorMessage {
-  v: number;
-  type: 'error';
-  code: ErrorCode;
-  message: string;
-  remediation: Remediation[];
-}
-
-export interface ImageResolvedMessage {
-  v: number;
-  type: 'imageResolved';
-  sessionId?: string;
-  requestId: string;
-  resolvedSrc: string;
-}
-
-export interface NestedPageCreatedMessage {
-  v: number;
-  type: 'nestedPageCreated';
-  requestId: string;
-  title: string;
-  path: string;
-}
-
-export interface NestedPageCreateAckMessage {
-  v: number;
-  type: 'nestedPageCreateAck';
-  requestId: string;
-  sessionId?: string;
-}
-
-export interface NestedPageCreateFailedMessage {
-  v: number;
-  type: 'nestedPageCreateFailed';
-  requestId: string;
-  message: string;
-  code?: string;
-  details?: Record<string, unknown>;
-}
-
-export type ExtensionToWebviewMessage =
-  | InitMessage
-  | ConfigChangedMessage
-  | AckMessage
-  | NackMessage
-  | DocChangedMessage
-  | ErrorMessage
-  | ImageResolvedMessage
-  | NestedPageCreateAckMessage
-  | NestedPageCreatedMessage
-  | NestedPageCreateFailedMessage;
-
-export interface ReadyMessage {
-  v: number;
-  type: 'ready';
-}
-
-export interface InitAckMessage {
-  v: number;
-  type: 'initAck';
-  sessionId: string;
-  clientId: string;
-  elapsedMs: number | null;
-  contentLength: number;
-}
-
-export interface EditMessage {
-  v: number;
-  type: 'edit';
-  txId: number;
-  baseVersion: number;
-  changes: Replace[];
-}
-
-export interface RequestResyncMessage {
-  v: number;
-  type: 'requestResync';
-}
-
-export interface LogClientMessage {
-  v: number;
-  type: 'logClient';
-  level: 'INFO' | 'DEBUG' | 'TRACE' | 'WARN' | 'ERROR';
-  message: string;
-  details?: Record<string, unknown>;
-}
-
-export interface OpenLinkMessage {
-  v: number;
-  type: 'openLink';
-  url: string;
-}
-
-export interface CopyToClipboardMessage {
-  v: number;
-  type: 'copyToClipboard';
-  text: string;
-}
-
-export interface OverwriteSaveMessage {
-  v: number;
-  type: 'overwriteSave';
-  content: string;
-}
-
-export interface ResolveImageMessage {
-  v: number;
-  type: 'resolveImage';
-  requestId: string;
-  src: string;
-}
-
-export interface ReopenWithTextEditorMessage {
-  v: number;
-  type: 'reopenWithTextEditor';
-}
-
-export interface ExportLogsMessage {
-  v: number;
-  type: 'exportLogs';
-}
-
-export interface CreateNestedPageMessage {
-  v: number;
-  type: 'createNestedPage';
-  requestId: string;
-  title: string;
-}
-
-export interface OpenNestedPageMessage {
-  v: number;
-  type: 'openNestedPage';
-  path: string;
-}
-
-export interface RequestResyncWithConfirmMessage {
-  v: number;
-  type: 'requestResyncWithConfirm';
-}
-
-export interface OverwriteSaveWithConfirmMessage {
-  v: number;
-  type: 'overwriteSaveWithConfirm';
-  content: string;
-}
-
-export interface NotifyHostMessage {
-  v: number;
-  type: 'notifyHost';
-  level: 'INFO' | 'WARN' | 'ERROR';
-  code: string;
-  message: string;
-  remediation: Remediation[];
-  details?: Record<string, unknown>;
-}
-
-export interface MenuStateChangeMessage {
-  v: number;
-  type: 'menuStateChange';
-  visible: boolean;
-}
-
-export interface FindWidgetStateChangeMessage {
-  v: number;
-  type: 'findWidgetStateChange';
-  visible: boolean;
-}
-
-export type WebviewToExtensionMessage =
-  | ReadyMessage
-  | InitAckMessage
-  | EditMessage
-  | RequestResyncMessage
-  | LogClientMessage
-  | OpenLinkMessage
-  | CopyToClipboardMessage
-  | OverwriteSaveMessage
-  | ResolveImageMessage
-  | ReopenWithTextEditorMessage
-  | ExportLogsMessage
-  | CreateNestedPageMessage
-  | OpenNestedPageMessage
-  | RequestResyncWithConfirmMessage
-  | OverwriteSaveWithConfirmMessage
-  | NotifyHostMessage
-  | MenuStateChangeMessage
-  | FindWidgetStateChangeMessage;
+import {
+  CAPABILITIES,
+  PROTOCOL_VERSION,
+  type CopyToClipboardMessage,
+  type CreateNestedPageMessage,
+  type EditJournalEntry,
+  type EditJournalMessage,
+  type EditMessage,
+  type ExportLogsMessage,
+  type FidelityReportMessage,
+  type FindWidgetStateChangeMessage,
+  type HistoryDirection,
+  type InitAckMessage,
+  type LogClientMessage,
+  type LossyBlock,
+  type MenuStateChangeMessage,
+  type NotifyHostMessage,
+  type OpenLinkMessage,
+  type OpenNestedPageMessage,
+  type OverwriteSaveMessage,
+  type OverwriteSaveWithConfirmMessage,
+  type ReadyMessage,
+  type Remediation,
+  type ReopenWithTextEditorMessage,
+  type Replace,
+  type RequestResyncMessage,
+  type RequestResyncWithConfirmMessage,
+  type ResolveImageMessage,
+  type RichDiffReadyMessage,
+  type SelectionChangeMessage,
+  type ShowSyncActionsMessage,
+  type SyncState,
+  type SyncStateMessage,
+  type UndoRedoMessage,
+  type ViewStateMessage,
+  type WebviewViewState,
+} from './schema.generated.js';
+
+export * from './schema.generated.js';
 
 export function createReadyMessage(): ReadyMessage {
   return {
     v: PROTOCOL_VERSION,
     type: 'ready',
+    capabilities: [...CAPABILITIES],
   };
 }
 
@@ -505,6 +259,18 @@ export function createNotifyHostMessage(
   };
 }
 
+export function createFidelityReportMessage(
+  lossyBlocks: LossyBlock[],
+  protectedBlocks: boolean
+): FidelityReportMessage {
+  return {
+    v: PROTOCOL_VERSION,
+    type: 'fidelityReport',
+    lossyBlocks,
+    protectedBlocks,
+  };
+}
+
 export function createMenuStateChangeMessage(visible: boolean): MenuStateChangeMessage {
   return {
     v: PROTOCOL_VERSION,
@@ -520,3 +286,60 @@ export function createFindWidgetStateChangeMessage(visible: boolean): FindWidget
     visible,
   };
 }
+
+export function createViewStateMessage(state: WebviewViewState): ViewStateMessage {
+  return {
+    v: PROTOCOL_VERSION,
+    type: 'viewState',
+    state,
+  };
+}
+
+export function createUndoRedoMessage(direction: HistoryDirection): UndoRedoMessage {
+  return {
+    v: PROTOCOL_VERSION,
+    type: 'undoRedo',
+    direction,
+  };
+}
+
+export function createSyncStateMessage(state: SyncState, reason?: string): SyncStateMessage {
+  return {
+    v: PROTOCOL_VERSION,
+    type: 'syncState',
+    state,
+    ...(reason ? { reason } : {}),
+  };
+}
+
+export function createShowSyncActionsMessage(): ShowSyncActionsMessage {
+  return {
+    v: PROTOCOL_VERSION,
+    type: 'showSyncActions',
+  };
+}
+
+export function createRichDiffReadyMessage(): RichDiffReadyMessage {
+  return {
+    v: PROTOCOL_VERSION,
+    type: 'richDiffReady',
+  };
+}
+
+export function createSelectionChangeMessage(docVersion: number, anchor: number, head: number): SelectionChangeMessage {
+  return {
+    v: PROTOCOL_VERSION,
+    type: 'selectionChange',
+    docVersion,
+    anchor,
+    head,
+  };
+}
+
+export function createEditJournalMessage(entry: EditJournalEntry | null): EditJournalMessage {
+  return {
+    v: PROTOCOL_VERSION,
+    type: 'editJournal',
+    entry,
+  };
+}
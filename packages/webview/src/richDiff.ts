@@ -0,0 +1,65 @@
+/**
+ * 役割: リッチ差分ビュー（inlineMark.openRichDiff）の Webview のエントリーポイント
+ * 責務: VS Code API 初期化、richDiffReady の送信、host から届いた richDiff の表示
+ * 不変条件: acquireVsCodeApi() はモジュールスコープで一度だけ呼び出すこと。エディタの Webview（main.ts）とは別の Webview で、
+ *           document の同期（SyncClient）は行わない（表示専用）
+ *
+ * ライフサイクル:
+ * 1. 起動 → richDiffReady 送信
+ * 2. host から richDiff 受信 → 設定を反映して両側を表示（richDiffView.ts）
+ * 3. 変更側の document が変わるたびに richDiff が届き直す → 表示し直す（スクロール位置は保つ）
+ */
+
+import { createRichDiffReadyMessage, validateExtensionToWebviewMessage } from './protocol/types.js';
+import { setVsCodePostMessage } from './protocol/vscodeApi.js';
+import { createRichDiffView, type RichDiffView } from './editor/richDiffView.js';
+import { setRuntimeConfig } from './editor/runtimeConfig.js';
+import { createLogger, setDebugEnabled } from './logger.js';
+import './styles.css';
+
+interface VsCodeApi {
+  postMessage(message: unknown): void;
+}
+
+declare function acquireVsCodeApi(): VsCodeApi;
+
+const vscode = acquireVsCodeApi();
+const log = createLogger('RichDiffMain');
+
+let view: RichDiffView | null = null;
+
+const setLoadingVisible = (visible: boolean): void => {
+  document.querySelector('.app-loading')?.classList.toggle('is-visible', visible);
+};
+
+const handleMessage = (event: MessageEvent): void => {
+  const validation = validateExtensionToWebviewMessage(event.data);
+  if (!validation.ok) {
+    log.warn('Invalid message ignored', { error: validation.error });
+    return;
+  }
+  const message = validation.message;
+  if (message.type !== 'richDiff') {
+    return;
+  }
+
+  setDebugEnabled(Boolean(message.config.debug?.enabled));
+  setRuntimeConfig(message.config);
+  const appContainer = document.getElementById('app');
+  if (!appContainer) {
+    log.error('App container not found - fatal error');
+    return;
+  }
+  view ??= createRichDiffView(appContainer);
+  view.render(message.original, message.modified);
+  setLoadingVisible(false);
+};
+
+function main(): void {
+  setVsCodePostMessage((message) => vscode.postMessage(message));
+  window.addEventListener('message', handleMessage);
+  vscode.postMessage(createRichDiffReadyMessage());
+  log.info('Rich diff ready message sent');
+}
+
+main();
@@ -19,6 +19,8 @@ export default defineConfig({
     rollupOptions: {
       input: {
         index: resolve(__dirname, 'src/main.ts'),
+        // リッチ差分ビュー（inlineMark.openRichDiff）の Webview
+        richDiff: resolve(__dirname, 'src/richDiff.ts'),
       },
       output: {
         // Use hash to avoid stale webview cache (service worker can keep old index.js).
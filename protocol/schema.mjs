@@ -0,0 +1,542 @@
+/**
+ * 役割: Webview ⇄ Extension 間メッセージプロトコルの単一の定義
+ * 責務: 全メッセージの型（フィールドと値の種類）、プロトコルバージョン、capability の一覧を定義する
+ * 不変条件: host / Webview の型とランタイム検証はここから生成する（scripts/generate-protocol.mjs）。
+ *           packages/extension/src/protocol/schema.generated.ts と packages/webview/src/protocol/schema.generated.ts は直接編集しない
+ *
+ * 設計書参照: 9.2-9.4 (メッセージプロトコル), 9.7 (プロトコル定義の生成・capability・バージョン)
+ *
+ * バージョンの進め方:
+ * - フィールドの追加（optional）と新しいメッセージ型は PROTOCOL_VERSION を上げない。
+ *   新しいメッセージを使う機能は capability で宣言し、ready / init で両側が対応している場合だけ使う
+ * - 受信側は知らないフィールドを無視する（検証はスキーマにあるフィールドだけを見る）
+ * - 必須フィールドの削除・型や意味の変更は PROTOCOL_VERSION を上げる。
+ *   旧形式を受け付け続ける間は MIN_PROTOCOL_VERSION を据え置く
+ *
+ * フィールドの記法:
+ * - string() / number() / boolean() / unknown(): 値の種類
+ * - oneOf(...values): 文字列の列挙
+ * - array(item) / record(value) / object(fields) / ref(name): ref は definitions の名前
+ * - optional(spec): 省略可（undefined も可）、nullable(spec): null も可、doc(text, spec): 生成する型のコメント
+ */
+
+/** 送信するメッセージの v */
+export const PROTOCOL_VERSION = 1;
+/** 受け付ける v の下限（PROTOCOL_VERSION 以下） */
+export const MIN_PROTOCOL_VERSION = 1;
+
+const string = () => ({ type: 'string' });
+const number = () => ({ type: 'number' });
+const boolean = () => ({ type: 'boolean' });
+const unknown = () => ({ type: 'unknown' });
+const oneOf = (...values) => ({ type: 'enum', values });
+const array = (items) => ({ type: 'array', items });
+const record = (value) => ({ type: 'record', value });
+const object = (fields) => ({ type: 'object', fields });
+const ref = (name) => ({ type: 'ref', name });
+const optional = (spec) => ({ ...spec, optional: true });
+const nullable = (spec) => ({ ...spec, nullable: true });
+const doc = (text, spec) => ({ ...spec, doc: text });
+
+/**
+ * 省略可能な機能。Webview は ready で対応する capability を送り、host は自分も対応するものだけを init で返す。
+ * 両側が対応している（init で返った）capability の機能だけを使う
+ */
+export const capabilities = {
+  quickDiff: 'git HEAD との行差分（quickDiff）を受け取って gutter に表示する',
+  viewState: '表示状態（viewState）を host に保存し、init の viewState で復元する',
+  undoRedo: 'undo / redo を host に要求し（undoRedo）、TextDocument の履歴で戻す',
+  syncState: '同期の状態（syncState）を host に送り、status bar に表示する',
+  peerCursors: '選択（selectionChange）を host 経由で同じ document の他のパネルに共有し、peerSelections を表示する',
+  editJournal: 'document に届いていない編集を host に記録し（editJournal）、Webview が落ちた後に復元できるようにする',
+  readOnly: '書き込めない document（git のリビジョン・読み取り専用のファイルシステム・信頼されていないワークスペース）を init の readOnly で受け取り、編集できない表示にする',
+};
+
+/** 全メッセージ共通のフィールド */
+export const envelope = {
+  v: number(),
+  ts: optional(number()),
+  origin: optional(ref('MessageOrigin')),
+  sessionId: optional(string()),
+  clientId: optional(string()),
+  docUri: optional(string()),
+};
+
+export const definitions = {
+  MessageOrigin: oneOf('webview', 'extension'),
+
+  Replace: object({
+    start: number(),
+    end: number(),
+    text: string(),
+  }),
+
+  DocumentEol: doc(
+    'document の改行コード（VS Code の EndOfLine）。\nWebview は LF に正規化して編集し、送り返す Replace[] の offset / text をこの改行コードに戻す',
+    oneOf('lf', 'crlf')
+  ),
+
+  LogLevel: oneOf('INFO', 'DEBUG', 'TRACE', 'WARN', 'ERROR'),
+
+  NotifyLevel: oneOf('INFO', 'WARN', 'ERROR'),
+
+  Remediation: oneOf('resetSession', 'reopenWithTextEditor', 'resync', 'applySettings', 'trustWorkspace'),
+
+  ErrorCode: oneOf(
+    'SYNC_TIMEOUT',
+    'PROTOCOL_VERSION_MISMATCH',
+    'CODEC_PARSE_FAILED',
+    'CODEC_SERIALIZE_FAILED',
+    'APPLY_EDIT_FAILED',
+    'EDIT_CONFLICT',
+    'DIFF_ENGINE_FAILED',
+    'CHANGE_GUARD_EXCEEDED',
+    'IMAGE_RESOLVE_FAILED',
+    'WORKSPACE_UNTRUSTED',
+    'SETTINGS_NOT_CONFIGURED',
+    'UNKNOWN'
+  ),
+
+  LossyBlock: doc(
+    '開いた直後の parse → serialize で書式が変わるトップレベルブロック（行番号は 1-based、endLine を含む）',
+    object({
+      startLine: number(),
+      endLine: number(),
+      nodeTypes: array(string()),
+      changedChars: number(),
+    })
+  ),
+
+  WebviewViewState: doc(
+    'Webview の表示状態（スクロール位置・選択・検索ウィジェット・ブロックのプレビュー切り替え）。\nhost は中身を解釈せず、document ごとに保存して次の init で返す。',
+    object({
+      contentHash: doc(
+        '保存時の document 内容の指紋。開き直したときに一致しなければ選択とブロックの状態は復元しない',
+        optional(string())
+      ),
+      scrollTop: optional(number()),
+      scrollLeft: optional(number()),
+      selection: doc('ProseMirror の position', optional(object({ anchor: number(), head: number() }))),
+      findWidget: optional(record(unknown())),
+      blocks: doc(
+        '既定から切り替えたブロックのみ（pos はトップレベルを含む ProseMirror の position）',
+        optional(array(ref('BlockViewState')))
+      ),
+    })
+  ),
+
+  BlockViewState: object({
+    pos: number(),
+    nodeType: string(),
+    preview: boolean(),
+  }),
+
+  HistoryDirection: oneOf('undo', 'redo'),
+
+  EditJournalEntry: doc(
+    'document に届いていない編集の記録\n- content: その時点のエディタの内容（serialize した Markdown、改行は LF）\n- changes: 送信済みで ack を待っている edit の Replace[]（baseVersion 基準。無ければ空）\n- base: baseVersion 時点の document の内容（改行は LF）。復元時に base → content の編集を現在の document へ rebase する基準。古い Webview は送らない',
+    object({
+      baseVersion: number(),
+      content: string(),
+      changes: array(ref('Replace')),
+      base: optional(string()),
+    })
+  ),
+
+  PeerSelection: doc(
+    '同じ document を開いている他のパネルの選択\n- peerId: そのパネルの clientId（docChanged.peerId との照合に使う）\n- colorIndex: パネルを開いた順の番号（Webview は色の数で剰余を取る）\n- anchor/head: docVersion 時点の ProseMirror の position',
+    object({
+      peerId: string(),
+      colorIndex: number(),
+      docVersion: number(),
+      anchor: number(),
+      head: number(),
+    })
+  ),
+
+  SyncState: doc(
+    '同期の状態\n- pending: 未送信の編集がある（debounce / coalesce / 差分計算中）\n- inFlight: edit を送って ack / docChanged を待っている\n- retrying: 自動の resync / セッションのリセット中\n- desynced: 同期に失敗し、Webview の内容が document と一致している保証がない',
+    oneOf('idle', 'pending', 'inFlight', 'retrying', 'desynced')
+  ),
+
+  MarkdownFormat: doc(
+    'serialize 時の Markdown の書き方（設定 inlineMark.format.* / .markdownlint.json / .editorconfig から host が解決）\n- codeFenceLength: 最小の長さ。内容に同じ文字の連続がある場合はそれより長くする\n- insertFinalNewline / trimTrailingWhitespace: files.* 設定（.editorconfig の insert_final_newline /\n  trim_trailing_whitespace が優先）。serialize したブロックと文書末尾に適用する',
+    object({
+      bulletMarker: oneOf('-', '*', '+'),
+      emphasisMarker: oneOf('*', '_'),
+      strongMarker: oneOf('**', '__'),
+      codeFenceChar: oneOf('`', '~'),
+      codeFenceLength: number(),
+      orderedListNumbering: oneOf('increment', 'one'),
+      hardBreak: oneOf('spaces', 'backslash'),
+      insertFinalNewline: boolean(),
+      trimTrailingWhitespace: boolean(),
+    })
+  ),
+
+  WebviewConfig: object({
+    debounceMs: number(),
+    timeoutMs: number(),
+    changeGuard: object({
+      maxChangedRatio: number(),
+      maxChangedChars: number(),
+      maxHunks: number(),
+    }),
+    view: object({
+      fullWidth: boolean(),
+      noWrap: boolean(),
+    }),
+    fidelity: object({
+      protectLossyBlocks: doc(
+        '書式が変わるブロックを Markdown テキストのまま（plainTextBlock で）表示して元の source を保つ',
+        boolean()
+      ),
+    }),
+    format: ref('MarkdownFormat'),
+    preview: object({
+      html: object({
+        allowScripts: boolean(),
+        allowSameOrigin: boolean(),
+        allowPopups: boolean(),
+        allowForms: boolean(),
+      }),
+      mermaid: object({
+        fontScale: number(),
+      }),
+    }),
+    security: object({
+      allowWorkspaceImages: boolean(),
+      allowRemoteImages: boolean(),
+      allowInsecureRemoteImages: boolean(),
+      confirmExternalLinks: boolean(),
+    }),
+    debug: object({
+      enabled: boolean(),
+    }),
+  }),
+
+  AckOutcome: oneOf('applied', 'noop'),
+
+  ReadOnlyReason: doc(
+    '- gitRevision: git のリビジョン（git: URI）\n- readOnlyFileSystem: 書き込めないファイルシステム\n- untrustedWorkspace: 信頼されていないワークスペース（Restricted Mode）',
+    oneOf('gitRevision', 'readOnlyFileSystem', 'untrustedWorkspace')
+  ),
+
+  RichDiffSide: doc(
+    'リッチ差分ビュー（inlineMark.openRichDiff）の片側\n- label: 見出しに出す名前（例: README.md (HEAD)）\n- content: Markdown（document の改行コードのまま）',
+    object({
+      label: string(),
+      content: string(),
+    })
+  ),
+
+  NackReason: doc(
+    '- baseVersionMismatch: baseVersion 以降の変更履歴が無く変換できない\n- conflict: baseVersion 以降の変更と編集範囲が重なる\n- changeGuardRejected: ChangeGuard 超過の編集をユーザーが破棄した（TextDocument の内容で再同期される）\n- readOnly: document が読み取り専用（init の readOnly）',
+    oneOf('baseVersionMismatch', 'conflict', 'changeGuardRejected', 'readOnly', 'applyFailed', 'unknown')
+  ),
+
+  ChangeGuardMetrics: object({
+    changedChars: number(),
+    changedRatio: number(),
+    hunkCount: number(),
+  }),
+
+  DocChangedReason: oneOf('self', 'external', 'undo', 'redo'),
+
+  NavigationRevealType: oneOf('center', 'centerIfOutsideViewport', 'nearTop', 'nearTopIfOutsideViewport'),
+
+  NavigationSource: oneOf('code.navigation', 'code.jump', 'api'),
+
+  NavigationReason: doc(
+    '- reopenWithInlineMark / fragment: host が捕捉して送る\n- それ以外は inlineMark.revealRange の呼び出し側が指定する（省略時・不明な値は definition）\n- 検索結果・問題パネルから custom editor が直接開かれた場合は selection を受け取れないため、その reason は無い',
+    oneOf('reopenWithInlineMark', 'outline', 'breadcrumbs', 'definition', 'references', 'fragment')
+  ),
+
+  NavigationTarget: doc(
+    'Host 起点のナビゲーション対象（正本は extension host）\n- selection: 1-based の行/列（VS Code 標準エディタの表示と同じ）\n- range: Markdown 全文に対する UTF-16 offset（送信時の document.version 基準）',
+    object({
+      seq: number(),
+      docUri: string(),
+      selection: object({
+        startLineNumber: number(),
+        startColumn: number(),
+        endLineNumber: number(),
+        endColumn: number(),
+      }),
+      range: object({
+        start: number(),
+        end: number(),
+      }),
+      revealType: ref('NavigationRevealType'),
+      source: ref('NavigationSource'),
+      reason: ref('NavigationReason'),
+      createdAt: string(),
+    })
+  ),
+
+  QuickDiffHunkKind: oneOf('added', 'modified', 'deleted'),
+
+  QuickDiffHunk: doc(
+    'git HEAD との行単位の差分（quick diff / gutter 表示用、内容同期とは無関係）\n- startLine/lineCount: 現在の document の 0-based 行範囲（deleted は lineCount=0 で削除位置を示す）\n- originalText: HEAD 側の該当行（added は空文字）',
+    object({
+      kind: ref('QuickDiffHunkKind'),
+      startLine: number(),
+      lineCount: number(),
+      originalStartLine: number(),
+      originalText: string(),
+    })
+  ),
+};
+
+/** Webview → Extension（キーが type） */
+export const webviewToExtension = {
+  ready: {
+    doc: 'Webview の初期化完了。対応する capability を添える（host は init で使う capability を返す）',
+    fields: {
+      capabilities: doc('Webview が対応する capability（知らない名前は host が無視する）', optional(array(string()))),
+    },
+  },
+  initAck: {
+    fields: {
+      sessionId: string(),
+      clientId: string(),
+      elapsedMs: nullable(number()),
+      contentLength: number(),
+    },
+  },
+  edit: {
+    fields: {
+      txId: number(),
+      baseVersion: number(),
+      changes: array(ref('Replace')),
+    },
+  },
+  requestResync: { fields: {} },
+  logClient: {
+    fields: {
+      level: ref('LogLevel'),
+      message: string(),
+      details: optional(record(unknown())),
+    },
+  },
+  openLink: { fields: { url: string() } },
+  copyToClipboard: { fields: { text: string() } },
+  overwriteSave: { fields: { content: string() } },
+  resolveImage: {
+    fields: {
+      requestId: string(),
+      src: string(),
+    },
+  },
+  reopenWithTextEditor: { fields: {} },
+  exportLogs: { fields: {} },
+  createNestedPage: {
+    fields: {
+      requestId: string(),
+      title: string(),
+    },
+  },
+  openNestedPage: { fields: { path: string() } },
+  requestResyncWithConfirm: { fields: {} },
+  overwriteSaveWithConfirm: { fields: { content: string() } },
+  notifyHost: {
+    doc: 'UX メッセージを VS Code の通知で表示する（Webview 内のオーバーレイではなく）',
+    fields: {
+      level: ref('NotifyLevel'),
+      code: string(),
+      message: string(),
+      remediation: array(ref('Remediation')),
+      details: optional(record(unknown())),
+    },
+  },
+  fidelityReport: {
+    doc: 'init 後に 1 回、書式が変わるブロックがある場合だけ送る',
+    fields: {
+      lossyBlocks: array(ref('LossyBlock')),
+      protectedBlocks: doc('true: lossyBlocks を plainTextBlock に置き換えて元の source を保った', boolean()),
+    },
+  },
+  menuStateChange: {
+    doc: 'メニューの表示状態（context key 用）',
+    fields: { visible: boolean() },
+  },
+  findWidgetStateChange: {
+    doc: '検索ウィジェットの表示状態（context key 用）',
+    fields: { visible: boolean() },
+  },
+  viewState: {
+    doc: 'Webview の表示状態。変わるたびに（debounce して）送られ、host は document ごとに保存する。',
+    capability: 'viewState',
+    fields: { state: ref('WebviewViewState') },
+  },
+  undoRedo: {
+    doc: 'undo / redo の要求。履歴は TextDocument の undo stack が正本で、結果は docChanged (reason: \'undo\' | \'redo\') で返る。',
+    capability: 'undoRedo',
+    fields: { direction: ref('HistoryDirection') },
+  },
+  syncState: {
+    doc: '同期の状態が変わったときに送られる（status bar 表示用）。',
+    capability: 'syncState',
+    fields: {
+      state: ref('SyncState'),
+      reason: doc('desynced の原因（エラーコード）', optional(string())),
+    },
+  },
+  selectionChange: {
+    doc: '選択が変わったときに（debounce して）送られる。送信待ちの編集が無いときだけ送るため、位置は docVersion の document と対応する。',
+    capability: 'peerCursors',
+    fields: {
+      docVersion: number(),
+      anchor: number(),
+      head: number(),
+    },
+  },
+  editJournal: {
+    doc: '未送信・ack 待ちの編集がある間、定期的に送られる。編集がすべて document に届いたら entry=null で消す。',
+    capability: 'editJournal',
+    fields: { entry: nullable(ref('EditJournalEntry')) },
+  },
+  showSyncActions: {
+    doc: '同期の復旧操作（resync / リセット / テキストエディタで開く）の選択を表示する要求（バナーのボタン）。',
+    fields: {},
+  },
+  richDiffReady: {
+    doc: 'リッチ差分ビューの Webview の初期化完了（エディタの Webview は送らない）。host は richDiff を返す。',
+    fields: {},
+  },
+};
+
+/** Extension → Webview（キーが type） */
+export const extensionToWebview = {
+  init: {
+    fields: {
+      version: number(),
+      content: string(),
+      eol: ref('DocumentEol'),
+      sessionId: string(),
+      clientId: string(),
+      locale: string(),
+      i18n: record(string()),
+      config: ref('WebviewConfig'),
+      navigationPending: doc(
+        'init 直後に navigate が続くことを示す。\ntrue の場合 Webview は保存済みスクロール位置の復元をスキップする\n(2026-03-31 gap audit: NavigationTarget を scrollTop より優先)。',
+        optional(boolean())
+      ),
+      viewState: doc(
+        '前回この document を開いていた Webview の表示状態（host が workspaceState に保存したもの）',
+        optional(ref('WebviewViewState'))
+      ),
+      capabilities: doc(
+        'このセッションで使う capability（ready で Webview が送ったもののうち host も対応するもの）',
+        optional(array(string()))
+      ),
+      readOnly: doc(
+        'document を編集できない理由。ある場合 Webview は編集 UI を出さず edit を送らない（capability readOnly）',
+        optional(ref('ReadOnlyReason'))
+      ),
+    },
+  },
+  configChanged: {
+    fields: { config: ref('WebviewConfig') },
+  },
+  ack: {
+    fields: {
+      txId: number(),
+      currentVersion: number(),
+      outcome: ref('AckOutcome'),
+      rebasedFrom: doc(
+        '古い baseVersion から途中の変更を越えて変換（rebase）して適用した場合の元 baseVersion',
+        optional(number())
+      ),
+    },
+  },
+  nack: {
+    fields: {
+      txId: number(),
+      currentVersion: number(),
+      reason: ref('NackReason'),
+      details: optional(string()),
+    },
+  },
+  editHeld: {
+    doc: 'ChangeGuard の閾値を超えた edit を保留したことを通知する。\n確認が済むまで ack/nack は送らないため、Webview は in-flight のタイムアウトを止めて待つ。',
+    fields: {
+      txId: number(),
+      currentVersion: number(),
+      metrics: ref('ChangeGuardMetrics'),
+    },
+  },
+  docChanged: {
+    fields: {
+      version: number(),
+      reason: ref('DocChangedReason'),
+      changes: array(ref('Replace')),
+      eol: doc('変更適用後の document の改行コード', ref('DocumentEol')),
+      fullContent: optional(string()),
+      peerId: doc(
+        '別の inlineMark パネルの edit による変更の場合、そのパネルの clientId（peerCursors を合意したパネルにだけ付ける）',
+        optional(string())
+      ),
+    },
+  },
+  error: {
+    fields: {
+      code: ref('ErrorCode'),
+      message: string(),
+      remediation: array(ref('Remediation')),
+    },
+  },
+  imageResolved: {
+    fields: {
+      requestId: string(),
+      resolvedSrc: string(),
+    },
+  },
+  nestedPageCreateAck: {
+    fields: { requestId: string() },
+  },
+  nestedPageCreated: {
+    fields: {
+      requestId: string(),
+      title: string(),
+      path: string(),
+    },
+  },
+  nestedPageCreateFailed: {
+    fields: {
+      requestId: string(),
+      message: string(),
+      code: optional(string()),
+      details: optional(record(unknown())),
+    },
+  },
+  navigate: {
+    fields: {
+      docVersion: number(),
+      target: ref('NavigationTarget'),
+    },
+  },
+  quickDiff: {
+    doc: 'available=false は比較対象が無い（git 管理外 / HEAD に未登録 / 無効化）ことを示し、\nWebview は表示中のマーカーを消す。',
+    capability: 'quickDiff',
+    fields: {
+      docVersion: number(),
+      baseRef: string(),
+      available: boolean(),
+      hunks: array(ref('QuickDiffHunk')),
+    },
+  },
+  peerSelections: {
+    doc: '同じ document を開いている他のパネルの選択（全件）。パネルの選択が変わる・閉じるたびに送られる。',
+    capability: 'peerCursors',
+    fields: { peers: array(ref('PeerSelection')) },
+  },
+  richDiff: {
+    doc: 'リッチ差分ビューに表示する 2 つの版。表示中に変更側の document が変わるたびに送り直す。',
+    fields: {
+      original: ref('RichDiffSide'),
+      modified: ref('RichDiffSide'),
+      config: ref('WebviewConfig'),
+    },
+  },
+};
@@ -0,0 +1,475 @@
+/**
+ * Generate the protocol types and runtime guards for both packages.
+ *
+ * Source:
+ * - protocol/schema.mjs (the single definition of every message in both directions)
+ *
+ * Output (same content, committed):
+ * - packages/extension/src/protocol/schema.generated.ts
+ * - packages/webview/src/protocol/schema.generated.ts
+ *
+ * Usage:
+ * - node scripts/generate-protocol.mjs          write the generated files
+ * - node scripts/generate-protocol.mjs --check  fail if a generated file is out of date (run by `npm run lint`)
+ *
+ * The extension is compiled with rootDir=src and packaged without dependencies,
+ * so each package carries its own copy instead of importing a shared module.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as schema from '../protocol/schema.mjs';
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const outputs = [
+  'packages/extension/src/protocol/schema.generated.ts',
+  'packages/webview/src/protocol/schema.generated.ts',
+];
+
+const MAX_INLINE_WIDTH = 100;
+
+const quote = (value) => `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const messageInterfaceName = (type) => `${type[0].toUpperCase()}${type.slice(1)}Message`;
+
+const renderDoc = (text, indent) => {
+  if (!text) {
+    return '';
+  }
+  const lines = text.split('\n');
+  if (lines.length === 1) {
+    return `${indent}/** ${lines[0]} */\n`;
+  }
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+};
+
+// ---------------------------------------------------------------------------
+// Schema checks
+// ---------------------------------------------------------------------------
+
+const checkSpec = (spec, where) => {
+  switch (spec.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'unknown':
+      return;
+    case 'enum':
+      if (!Array.isArray(spec.values) || spec.values.length === 0) {
+        throw new Error(`${where}: enum needs at least one value`);
+      }
+      return;
+    case 'array':
+      checkSpec(spec.items, `${where}[]`);
+      return;
+    case 'record':
+      checkSpec(spec.value, `${where}{}`);
+      return;
+    case 'object':
+      for (const [name, field] of Object.entries(spec.fields)) {
+        checkSpec(field, `${where}.${name}`);
+      }
+      return;
+    case 'ref':
+      if (!Object.hasOwn(schema.definitions, spec.name)) {
+        throw new Error(`${where}: unknown definition "${spec.name}"`);
+      }
+      return;
+    default:
+      throw new Error(`${where}: unknown spec type "${spec.type}"`);
+  }
+};
+
+const checkSchema = () => {
+  if (schema.MIN_PROTOCOL_VERSION > schema.PROTOCOL_VERSION) {
+    throw new Error('MIN_PROTOCOL_VERSION must not exceed PROTOCOL_VERSION');
+  }
+  for (const [name, spec] of Object.entries(schema.definitions)) {
+    checkSpec(spec, name);
+  }
+  checkSpec({ type: 'object', fields: schema.envelope }, 'envelope');
+  for (const [direction, messages] of [
+    ['webviewToExtension', schema.webviewToExtension],
+    ['extensionToWebview', schema.extensionToWebview],
+  ]) {
+    for (const [type, message] of Object.entries(messages)) {
+      checkSpec({ type: 'object', fields: message.fields }, `${direction}.${type}`);
+      for (const field of ['type', 'v']) {
+        if (Object.hasOwn(message.fields, field)) {
+          throw new Error(`${direction}.${type}: "${field}" is reserved`);
+        }
+      }
+      if (message.capability && !Object.hasOwn(schema.capabilities, message.capability)) {
+        throw new Error(`${direction}.${type}: unknown capability "${message.capability}"`);
+      }
+    }
+  }
+  const duplicated = Object.keys(schema.webviewToExtension).filter((type) => Object.hasOwn(schema.extensionToWebview, type));
+  if (duplicated.length > 0) {
+    throw new Error(`message types must be unique across directions: ${duplicated.join(', ')}`);
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+const renderFields = (fields, indent) =>
+  Object.entries(fields)
+    .map(
+      ([name, field]) =>
+        `${renderDoc(field.doc, indent)}${indent}${name}${field.optional ? '?' : ''}: ${renderType(field, indent)};`
+    )
+    .join('\n');
+
+function renderType(spec, indent) {
+  let type;
+  switch (spec.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'unknown':
+      type = spec.type;
+      break;
+    case 'enum':
+      type = spec.values.map(quote).join(' | ');
+      break;
+    case 'array': {
+      const items = renderType(spec.items, indent);
+      type = items.includes(' | ') ? `(${items})[]` : `${items}[]`;
+      break;
+    }
+    case 'record':
+      type = `Record<string, ${renderType(spec.value, indent)}>`;
+      break;
+    case 'object': {
+      const entries = Object.entries(spec.fields);
+      const inline = `{ ${entries
+        .map(([name, field]) => `${name}${field.optional ? '?' : ''}: ${renderType(field, indent)};`)
+        .join(' ')} }`;
+      const simple = entries.every(([, field]) => !field.doc && field.type !== 'object');
+      type =
+        simple && entries.length <= 2 && inline.length <= 60
+          ? inline
+          : `{\n${renderFields(spec.fields, `${indent}  `)}\n${indent}}`;
+      break;
+    }
+    case 'ref':
+      type = spec.name;
+      break;
+  }
+  return spec.nullable ? `${type} | null` : type;
+}
+
+const renderAlias = (name, type) => {
+  const inline = `export type ${name} = ${type};`;
+  if (inline.length <= MAX_INLINE_WIDTH || !type.includes(' | ')) {
+    return inline;
+  }
+  return `export type ${name} =\n${type
+    .split(' | ')
+    .map((member) => `  | ${member}`)
+    .join('\n')};`;
+};
+
+const renderDefinition = (name, spec) => {
+  const body =
+    spec.type === 'object' && !spec.nullable
+      ? `export interface ${name} {\n${renderFields(spec.fields, '  ')}\n}`
+      : renderAlias(name, renderType(spec, ''));
+  return `${renderDoc(spec.doc, '')}${body}`;
+};
+
+const renderMessages = (unionName, direction, messages) => {
+  const interfaces = Object.entries(messages).map(([type, message]) => {
+    const fields = renderFields(message.fields, '  ');
+    const capability = message.capability ? `capability: ${message.capability}` : '';
+    const docText = [message.doc, capability].filter(Boolean).join('\n');
+    return `${renderDoc(docText ? `${direction}\n${docText}` : '', '')}export interface ${messageInterfaceName(type)} extends BaseMessage {\n  type: ${quote(type)};${fields ? `\n${fields}` : ''}\n}`;
+  });
+  const union = `export type ${unionName} =\n${Object.keys(messages)
+    .map((type) => `  | ${messageInterfaceName(type)}`)
+    .join('\n')};`;
+  return [...interfaces, union].join('\n\n');
+};
+
+// ---------------------------------------------------------------------------
+// Runtime specs
+// ---------------------------------------------------------------------------
+
+const stripDocs = (value) => {
+  if (Array.isArray(value)) {
+    return value.map(stripDocs);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => key !== 'doc')
+        .map(([key, child]) => [key, stripDocs(child)])
+    );
+  }
+  return value;
+};
+
+const isIdentifier = (key) => /^[A-Za-z_$][\w$]*$/.test(key);
+
+const formatInline = (value) => {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatInline).join(', ')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      return '{}';
+    }
+    return `{ ${entries.map(([key, child]) => `${isIdentifier(key) ? key : quote(key)}: ${formatInline(child)}`).join(', ')} }`;
+  }
+  return typeof value === 'string' ? quote(value) : String(value);
+};
+
+/** offset: 同じ行で value の前に出力される文字数 */
+const formatValue = (value, indent, offset = indent.length) => {
+  const inline = formatInline(value);
+  if (offset + inline.length + 1 <= MAX_INLINE_WIDTH || !value || typeof value !== 'object') {
+    return inline;
+  }
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    return `[\n${value.map((child) => `${inner}${formatValue(child, inner)},`).join('\n')}\n${indent}]`;
+  }
+  return `{\n${Object.entries(value)
+    .map(([key, child]) => `${inner}${isIdentifier(key) ? key : quote(key)}: ${formatValue(child, inner)},`)
+    .join('\n')}\n${indent}}`;
+};
+
+const renderConst = (declaration, value) => `${declaration} = ${formatValue(value, '', declaration.length + 3)};`;
+
+const renderSpecTable = (name, type, table) => renderConst(`const ${name}: ${type}`, stripDocs(table));
+
+const messageFieldTable = (messages) =>
+  Object.fromEntries(Object.entries(messages).map(([type, message]) => [type, message.fields]));
+
+const RUNTIME = `type FieldSpec = (
+  | { type: 'string' | 'number' | 'boolean' | 'unknown' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'array'; items: FieldSpec }
+  | { type: 'record'; value: FieldSpec }
+  | { type: 'object'; fields: FieldSpecs }
+  | { type: 'ref'; name: ProtocolDefinitionName }
+) & { optional?: boolean; nullable?: boolean };
+
+type FieldSpecs = Record<string, FieldSpec>;
+
+/**
+ * - unsupportedVersion: v が MIN_PROTOCOL_VERSION..PROTOCOL_VERSION の範囲外
+ * - unknownType: この向きのメッセージとして知らない type
+ * - invalidField: フィールドの値がスキーマと一致しない（error に位置を含む）
+ */
+export type ProtocolValidationFailure = 'notObject' | 'unsupportedVersion' | 'unknownType' | 'invalidField';
+
+export type ProtocolValidationResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; reason: ProtocolValidationFailure; error: string };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describeValue = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/** 一致すれば null、しなければ最初に見つかった不一致（位置つき） */
+function checkField(value: unknown, spec: FieldSpec, at: string): string | null {
+  if (value === undefined) {
+    return spec.optional ? null : \`\${at}: required\`;
+  }
+  if (value === null) {
+    return spec.nullable ? null : \`\${at}: expected \${spec.type}, got null\`;
+  }
+  switch (spec.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return typeof value === spec.type ? null : \`\${at}: expected \${spec.type}, got \${describeValue(value)}\`;
+    case 'unknown':
+      return null;
+    case 'enum':
+      return typeof value === 'string' && spec.values.includes(value)
+        ? null
+        : \`\${at}: expected one of \${spec.values.join(', ')}, got \${JSON.stringify(value)}\`;
+    case 'array':
+      if (!Array.isArray(value)) {
+        return \`\${at}: expected array, got \${describeValue(value)}\`;
+      }
+      for (let i = 0; i < value.length; i += 1) {
+        const error = checkField(value[i], spec.items, \`\${at}[\${i}]\`);
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    case 'record':
+      if (!isPlainObject(value)) {
+        return \`\${at}: expected object, got \${describeValue(value)}\`;
+      }
+      for (const [key, child] of Object.entries(value)) {
+        const error = checkField(child, spec.value, \`\${at}.\${key}\`);
+        if (error) {
+          return error;
+        }
+      }
+      return null;
+    case 'object':
+      if (!isPlainObject(value)) {
+        return \`\${at}: expected object, got \${describeValue(value)}\`;
+      }
+      return checkFields(value, spec.fields, at);
+    case 'ref':
+      return checkField(value, DEFINITION_SPECS[spec.name], at);
+  }
+}
+
+/** スキーマに無いフィールドは見ない（新しい版の optional フィールドを無視するため） */
+function checkFields(value: Record<string, unknown>, fields: FieldSpecs, at: string): string | null {
+  for (const [name, spec] of Object.entries(fields)) {
+    const error = checkField(value[name], spec, at ? \`\${at}.\${name}\` : name);
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
+
+function validateMessage<T>(value: unknown, messages: Record<string, FieldSpecs>): ProtocolValidationResult<T> {
+  if (!isPlainObject(value)) {
+    return { ok: false, reason: 'notObject', error: \`expected object, got \${describeValue(value)}\` };
+  }
+  const { v, type } = value;
+  if (typeof v !== 'number' || v < MIN_PROTOCOL_VERSION || v > PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      reason: 'unsupportedVersion',
+      error: \`v: expected \${MIN_PROTOCOL_VERSION}..\${PROTOCOL_VERSION}, got \${JSON.stringify(v)}\`,
+    };
+  }
+  if (typeof type !== 'string' || !Object.hasOwn(messages, type)) {
+    return { ok: false, reason: 'unknownType', error: \`type: unknown message type \${JSON.stringify(type)}\` };
+  }
+  const error = checkFields(value, ENVELOPE_SPEC, '') ?? checkFields(value, messages[type], '');
+  if (error) {
+    return { ok: false, reason: 'invalidField', error: \`\${type}.\${error}\` };
+  }
+  return { ok: true, message: value as T };
+}
+
+export function validateWebviewToExtensionMessage(value: unknown): ProtocolValidationResult<WebviewToExtensionMessage> {
+  return validateMessage(value, WEBVIEW_TO_EXTENSION_SPECS);
+}
+
+export function validateExtensionToWebviewMessage(value: unknown): ProtocolValidationResult<ExtensionToWebviewMessage> {
+  return validateMessage(value, EXTENSION_TO_WEBVIEW_SPECS);
+}
+
+/** 共有の型（definitions）1 つ分の検証。一致すれば null、しなければ不一致の位置と理由 */
+export function validateDefinition(name: ProtocolDefinitionName, value: unknown): string | null {
+  return checkField(value, DEFINITION_SPECS[name], name);
+}
+
+export function isCapability(value: unknown): value is Capability {
+  return typeof value === 'string' && (CAPABILITIES as readonly string[]).includes(value);
+}
+
+/**
+ * 相手が送った capability のうち、こちらも対応するもの（順序は CAPABILITIES に揃える）。
+ * 相手が capabilities を送らない（古い版）場合は空
+ */
+export function negotiateCapabilities(
+  offered: readonly unknown[] | undefined,
+  supported: readonly Capability[] = CAPABILITIES
+): Capability[] {
+  if (!offered) {
+    return [];
+  }
+  return CAPABILITIES.filter((capability) => supported.includes(capability) && offered.includes(capability));
+}`;
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+const render = () => {
+  const capabilityNames = Object.keys(schema.capabilities);
+  const capabilityDoc = Object.entries(schema.capabilities)
+    .map(([name, text]) => `- ${name}: ${text}`)
+    .join('\n');
+  const w2e = Object.keys(schema.webviewToExtension);
+  const e2w = Object.keys(schema.extensionToWebview);
+  const messageCapabilities = Object.fromEntries(
+    [...Object.entries(schema.webviewToExtension), ...Object.entries(schema.extensionToWebview)]
+      .filter(([, message]) => message.capability)
+      .map(([type, message]) => [type, message.capability])
+  );
+
+  const sections = [
+    `/**
+ * 役割: Webview ⇄ Extension 間メッセージの型とランタイム検証（生成物）
+ * 責務: protocol/schema.mjs の定義から型・capability・メッセージ型の一覧・検証関数を提供する
+ * 不変条件: scripts/generate-protocol.mjs が生成する。直接編集せず、protocol/schema.mjs を変更して
+ *           \`npm run generate:protocol\` を実行する（host / Webview の両方に同じ内容が出力される）
+ */`,
+    `/** 送信するメッセージの v */
+export const PROTOCOL_VERSION = ${schema.PROTOCOL_VERSION};
+
+/** 受け付ける v の下限 */
+export const MIN_PROTOCOL_VERSION = ${schema.MIN_PROTOCOL_VERSION};`,
+    `${renderDoc(`省略可能な機能（ready / init で交換する）\n${capabilityDoc}`, '')}${renderAlias('Capability', capabilityNames.map(quote).join(' | '))}
+
+${renderConst('export const CAPABILITIES: readonly Capability[]', capabilityNames)}`,
+    ...Object.entries(schema.definitions).map(([name, spec]) => renderDefinition(name, spec)),
+    `export interface BaseMessage {\n  type: string;\n${renderFields(schema.envelope, '  ')}\n}`,
+    renderMessages('WebviewToExtensionMessage', 'Webview → Extension', schema.webviewToExtension),
+    renderMessages('ExtensionToWebviewMessage', 'Extension → Webview', schema.extensionToWebview),
+    `${renderConst("export const WEBVIEW_TO_EXTENSION_MESSAGE_TYPES: readonly WebviewToExtensionMessage['type'][]", w2e)}
+
+${renderConst("export const EXTENSION_TO_WEBVIEW_MESSAGE_TYPES: readonly ExtensionToWebviewMessage['type'][]", e2w)}
+
+export type ProtocolMessageType = WebviewToExtensionMessage['type'] | ExtensionToWebviewMessage['type'];
+
+/** 使うのに capability の合意が必要なメッセージ型 */
+${renderConst('export const MESSAGE_CAPABILITIES: Partial<Record<ProtocolMessageType, Capability>>', messageCapabilities)}`,
+    renderAlias('ProtocolDefinitionName', Object.keys(schema.definitions).map(quote).join(' | ')),
+    renderSpecTable('DEFINITION_SPECS', 'Record<ProtocolDefinitionName, FieldSpec>', schema.definitions),
+    renderSpecTable('ENVELOPE_SPEC', 'FieldSpecs', schema.envelope),
+    renderSpecTable('WEBVIEW_TO_EXTENSION_SPECS', 'Record<string, FieldSpecs>', messageFieldTable(schema.webviewToExtension)),
+    renderSpecTable('EXTENSION_TO_WEBVIEW_SPECS', 'Record<string, FieldSpecs>', messageFieldTable(schema.extensionToWebview)),
+    RUNTIME,
+  ];
+  return `${sections.join('\n\n')}\n`;
+};
+
+checkSchema();
+const content = render();
+const check = process.argv.includes('--check');
+let stale = 0;
+for (const output of outputs) {
+  const file = path.join(rootDir, output);
+  let current = null;
+  try {
+    current = readFileSync(file, 'utf8');
+  } catch {
+    // missing: treated as stale
+  }
+  if (current === content) {
+    continue;
+  }
+  if (check) {
+    stale += 1;
+    console.error(`${output} is out of date. Run \`npm run generate:protocol\`.`);
+  } else {
+    writeFileSync(file, content);
+    console.log(`Generated ${output}`);
+  }
+}
+if (stale > 0) {
+  process.exit(1);
+}